@@ -10,6 +10,7 @@ import { Hono } from "hono";
 // Environment variables interface for Cloudflare Workers
 interface Env {
   TRAVRSE_API_KEY: string;
+  UPSTREAM?: string;
   FLOW_ID_FORM_DIRECTIVE?: string;
   FLOW_ID_SHOPPING_ASSISTANT?: string;
   FLOW_ID_SHOPPING_ASSISTANT_METADATA?: string;
@@ -20,6 +21,7 @@ interface Env {
 // Sample environment variables (wrangler.toml or Cloudflare dashboard):
 // [vars]
 // TRAVRSE_API_KEY = "tvrs_..."
+// UPSTREAM = "mock"  # Scripted replies for offline development
 // FLOW_ID_FORM_DIRECTIVE = "flow_01abc123..."
 // FLOW_ID_SHOPPING_ASSISTANT = "flow_02def456..."
 // FLOW_ID_SHOPPING_ASSISTANT_METADATA = "flow_03ghi789..."
@@ -42,6 +44,7 @@ app.all("/api/chat/dispatch", async (c) => {
   const proxyApp = createChatProxyApp({
     path: "/api/chat/dispatch",
     apiKey: c.env.TRAVRSE_API_KEY,
+    upstream: c.env.UPSTREAM === "mock" ? "mock" : "travrse",
     allowedOrigins: getAllowedOrigins(c.env),
   });
   return proxyApp.fetch(c.req.raw, c.env);
@@ -53,6 +56,7 @@ app.all("/api/chat/dispatch-directive", async (c) => {
   const proxyApp = createChatProxyApp({
     path: "/api/chat/dispatch-directive",
     apiKey: c.env.TRAVRSE_API_KEY,
+    upstream: c.env.UPSTREAM === "mock" ? "mock" : "travrse",
     flowId: c.env.FLOW_ID_FORM_DIRECTIVE || undefined,
     flowConfig: c.env.FLOW_ID_FORM_DIRECTIVE ? undefined : FORM_DIRECTIVE_FLOW,
     allowedOrigins: getAllowedOrigins(c.env),
@@ -66,6 +70,7 @@ app.all("/api/chat/dispatch-action", async (c) => {
   const proxyApp = createChatProxyApp({
     path: "/api/chat/dispatch-action",
     apiKey: c.env.TRAVRSE_API_KEY,
+    upstream: c.env.UPSTREAM === "mock" ? "mock" : "travrse",
     flowId: c.env.FLOW_ID_SHOPPING_ASSISTANT || undefined,
     flowConfig: c.env.FLOW_ID_SHOPPING_ASSISTANT ? undefined : SHOPPING_ASSISTANT_FLOW,
     allowedOrigins: getAllowedOrigins(c.env),
@@ -79,6 +84,7 @@ app.all("/api/chat/dispatch-metadata", async (c) => {
   const proxyApp = createChatProxyApp({
     path: "/api/chat/dispatch-metadata",
     apiKey: c.env.TRAVRSE_API_KEY,
+    upstream: c.env.UPSTREAM === "mock" ? "mock" : "travrse",
     flowId: c.env.FLOW_ID_SHOPPING_ASSISTANT_METADATA || undefined,
     flowConfig: c.env.FLOW_ID_SHOPPING_ASSISTANT_METADATA ? undefined : SHOPPING_ASSISTANT_METADATA_FLOW,
     allowedOrigins: getAllowedOrigins(c.env),
@@ -12,6 +12,7 @@ import {
 // Sample environment variables (.env file):
 // PORT=43111
 // UPSTREAM_URL=https://api.travrse.ai/v1/dispatch
+// UPSTREAM=mock  # Scripted replies, no API key or network needed (default without TRAVRSE_API_KEY)
 // FLOW_ID_FORM_DIRECTIVE=flow_01abc123...
 // FLOW_ID_SHOPPING_ASSISTANT=flow_02def456...
 // STRIPE_SECRET_KEY=sk_test_...
@@ -19,12 +20,15 @@ import {
 
 const preferredPort = Number(process.env.PORT ?? 43111);
 const upstreamUrl = process.env.UPSTREAM_URL || undefined;
+const upstream =
+  process.env.UPSTREAM === "mock" || !process.env.TRAVRSE_API_KEY ? "mock" : "travrse";
 
 // Default chat proxy - basic conversational assistant
 const app = createChatProxyApp({
   path: "/api/chat/dispatch",
   allowedOrigins: ["http://localhost:5173", "http://localhost:4173"],
-  upstreamUrl
+  upstreamUrl,
+  upstream
 });
 
 // Directive-enabled proxy for interactive form demo
@@ -34,7 +38,8 @@ const directiveApp = createChatProxyApp({
   allowedOrigins: ["http://localhost:5173", "http://localhost:4173"],
   flowId: process.env.FLOW_ID_FORM_DIRECTIVE || undefined,
   flowConfig: process.env.FLOW_ID_FORM_DIRECTIVE ? undefined : FORM_DIRECTIVE_FLOW,
-  upstreamUrl
+  upstreamUrl,
+  upstream
 });
 
 // Action middleware proxy - returns JSON actions for page interaction
@@ -44,7 +49,8 @@ const actionApp = createChatProxyApp({
   allowedOrigins: ["http://localhost:5173", "http://localhost:4173"],
   flowId: process.env.FLOW_ID_SHOPPING_ASSISTANT || undefined,
   flowConfig: process.env.FLOW_ID_SHOPPING_ASSISTANT ? undefined : SHOPPING_ASSISTANT_FLOW,
-  upstreamUrl
+  upstreamUrl,
+  upstream
 });
 
 // Component proxy - returns component directives for custom component rendering
@@ -53,7 +59,8 @@ const componentApp = createChatProxyApp({
   allowedOrigins: ["http://localhost:5173", "http://localhost:4173"],
   flowId: process.env.FLOW_ID_COMPONENT || undefined,
   flowConfig: process.env.FLOW_ID_COMPONENT ? undefined : COMPONENT_FLOW,
-  upstreamUrl
+  upstreamUrl,
+  upstream
 });
 
 // Mount all apps
@@ -166,6 +173,10 @@ const start = async () => {
     (info) => {
       // eslint-disable-next-line no-console
       console.log(`Chat proxy running on http://localhost:${info.port}`);
+      if (upstream === "mock") {
+        // eslint-disable-next-line no-console
+        console.log("Using the mock upstream; set TRAVRSE_API_KEY for real replies");
+      }
     }
   );
 };
@@ -0,0 +1,483 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { WSContext, defineWebSocketHelper, type WSEvents } from "hono/ws";
+import { createChatProxyApp, type ConversationRoutesOptions } from "./index.js";
+import { createMockUpstream } from "./providers/mock.js";
+import type { ProviderDispatchRequest } from "./providers/types.js";
+import { createMemoryConversationStore } from "./utils/conversation-store.js";
+import { createToolApprovalQueue } from "./utils/tool-approvals.js";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const createResumableApp = (resumableStreams: { bufferSize?: number; ttlMs?: number } = {}) =>
+  createChatProxyApp({
+    provider: createMockUpstream({
+      fallback: { text: "one two three four five" },
+      delayMs: 5
+    }),
+    resumableStreams
+  });
+
+const dispatch = (
+  app: ReturnType<typeof createChatProxyApp>,
+  headers: Record<string, string> = {}
+) =>
+  app.request("/api/chat/dispatch", {
+    method: "POST",
+    headers: { "content-type": "application/json", cookie: "session=a", ...headers },
+    body: JSON.stringify({
+      dispatchId: "dispatch-1",
+      messages: [{ role: "user", content: "hello" }]
+    })
+  });
+
+// Parse `id:` and `data:` lines of an SSE body
+const parseEvents = (text: string) =>
+  text
+    .split("\n\n")
+    .filter((block) => block.trim())
+    .map((block) => {
+      const id = /^id: (\d+)$/m.exec(block)?.[1];
+      const data = /^data: (.*)$/m.exec(block)?.[1] ?? "null";
+      return { id: id ? Number(id) : undefined, data: JSON.parse(data) };
+    });
+
+// Read the first event and drop the connection, as a flaky network would
+const readFirstEventAndDrop = async (response: Response) => {
+  const reader = response.body!.getReader();
+  const { value } = await reader.read();
+  await reader.cancel();
+  return parseEvents(new TextDecoder().decode(value));
+};
+
+describe("createChatProxyApp resumable streams", () => {
+  it("should replay the events a dropped client missed", async () => {
+    const app = createResumableApp();
+    const first = await readFirstEventAndDrop(await dispatch(app));
+    expect(first[0].id).toBe(1);
+
+    const resumed = await dispatch(app, { "last-event-id": "1" });
+    expect(resumed.status).toBe(200);
+    const events = parseEvents(await resumed.text());
+
+    expect(events[0].id).toBe(2);
+    const text = [first[0], ...events]
+      .filter((event) => event.data.type === "step_chunk")
+      .map((event) => event.data.text)
+      .join("");
+    expect(text).toBe("one two three four five");
+    expect(events[events.length - 1].data.type).toBe("flow_complete");
+  });
+
+  it("should refuse a resume from a different cookie or origin", async () => {
+    const app = createResumableApp();
+    await readFirstEventAndDrop(await dispatch(app));
+
+    const otherCookie = await dispatch(app, { cookie: "session=b", "last-event-id": "1" });
+    expect(otherCookie.status).toBe(410);
+    expect(await otherCookie.json()).toEqual({ error: "Stream expired" });
+
+    const otherOrigin = await dispatch(app, {
+      origin: "https://evil.example",
+      "last-event-id": "1"
+    });
+    expect(otherOrigin.status).toBe(410);
+  });
+
+  it("should answer 410 once the finished stream was evicted", async () => {
+    const app = createResumableApp({ ttlMs: 10 });
+    const response = await dispatch(app);
+    await response.text();
+    await wait(30);
+
+    const resumed = await dispatch(app, { "last-event-id": "1" });
+    expect(resumed.status).toBe(410);
+    expect(await resumed.json()).toEqual({ error: "Stream expired" });
+  });
+
+  it("should answer 410 when the missed events no longer fit in the buffer", async () => {
+    const app = createResumableApp({ bufferSize: 2 });
+    await (await dispatch(app)).text();
+
+    const resumed = await dispatch(app, { "last-event-id": "1" });
+    expect(resumed.status).toBe(410);
+  });
+});
+
+describe("createChatProxyApp cancel", () => {
+  const cancel = (app: ReturnType<typeof createChatProxyApp>, cookie = "session=a") =>
+    app.request("/api/chat/dispatch", {
+      method: "POST",
+      headers: { "content-type": "application/json", cookie },
+      body: JSON.stringify({ dispatchId: "dispatch-1", cancel: true, messages: [] })
+    });
+
+  it("should abort a buffered dispatch for the requester that started it", async () => {
+    const mock = createMockUpstream({ fallback: { text: "one two three four five" }, delayMs: 5 });
+    let signal: AbortSignal | undefined;
+    const app = createChatProxyApp({
+      provider: {
+        name: "spy",
+        dispatch: (request) => {
+          signal = request.signal;
+          return mock.dispatch(request);
+        }
+      },
+      resumableStreams: true
+    });
+    await readFirstEventAndDrop(await dispatch(app));
+
+    expect(await (await cancel(app, "session=b")).json()).toEqual({ success: true, cancelled: false });
+    expect(signal?.aborted).toBe(false);
+
+    expect(await (await cancel(app)).json()).toEqual({ success: true, cancelled: true });
+    expect(signal?.aborted).toBe(true);
+
+    const resumed = await dispatch(app, { "last-event-id": "1" });
+    const events = parseEvents(await resumed.text());
+    expect(events.some((event) => event.data.type === "flow_complete")).toBe(false);
+  });
+
+  it("should answer cancels without starting a dispatch when streams aren't buffered", async () => {
+    let dispatched = false;
+    const app = createChatProxyApp({
+      provider: {
+        name: "spy",
+        dispatch: async () => {
+          dispatched = true;
+          return new Response("");
+        }
+      }
+    });
+
+    expect(await (await cancel(app)).json()).toEqual({ success: true, cancelled: false });
+    expect(dispatched).toBe(false);
+  });
+});
+
+describe("createChatProxyApp browser tools", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const send = (app: ReturnType<typeof createChatProxyApp>, body: Record<string, unknown>) =>
+    app.request("/api/chat/dispatch", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body)
+    });
+
+  it("should reject tools and tool results on the Travrse path instead of dropping them", async () => {
+    const upstream = vi.fn();
+    vi.stubGlobal("fetch", upstream);
+    const app = createChatProxyApp({ apiKey: "test" });
+
+    const withTools = await send(app, {
+      messages: [{ role: "user", content: "Where am I?" }],
+      tools: [{ name: "getPage" }]
+    });
+    expect(withTools.status).toBe(400);
+    expect((await withTools.json()).error).toMatch(/provider/);
+
+    const withResult = await send(app, {
+      messages: [
+        { role: "user", content: "Where am I?" },
+        { role: "assistant", content: "", toolCall: { id: "call_1", name: "getPage", result: "/cart" } }
+      ]
+    });
+    expect(withResult.status).toBe(400);
+    expect(upstream).not.toHaveBeenCalled();
+  });
+
+  it("should pass tools and tool results to a provider", async () => {
+    let request: ProviderDispatchRequest | undefined;
+    const app = createChatProxyApp({
+      provider: {
+        name: "spy",
+        dispatch: async (dispatched) => {
+          request = dispatched;
+          return new Response("");
+        }
+      }
+    });
+    const toolCall = { id: "call_1", name: "getPage", result: "/cart" };
+
+    const response = await send(app, {
+      messages: [
+        { role: "user", content: "Where am I?" },
+        { role: "assistant", content: "", toolCall }
+      ],
+      tools: [{ name: "getPage" }]
+    });
+    expect(response.status).toBe(200);
+    expect(request?.tools).toEqual([{ name: "getPage" }]);
+    expect(request?.messages[1].toolCall).toEqual(toolCall);
+  });
+});
+
+describe("createChatProxyApp conversation routes", () => {
+  const createApp = (getUserId?: ConversationRoutesOptions["getUserId"]) =>
+    createChatProxyApp({
+      conversations: { store: createMemoryConversationStore(), getUserId }
+    });
+
+  it("should store, load and delete a conversation", async () => {
+    const app = createApp();
+    const saved = await app.request("/api/conversations/thread_1", {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ messages: [{ id: "m1", role: "user", content: "hi" }] })
+    });
+    expect(saved.status).toBe(200);
+
+    const loaded = await app.request("/api/conversations/thread_1");
+    expect((await loaded.json()).state).toEqual({
+      messages: [{ id: "m1", role: "user", content: "hi" }]
+    });
+
+    const deleted = await app.request("/api/conversations/thread_1", { method: "DELETE" });
+    expect(deleted.status).toBe(200);
+    expect((await app.request("/api/conversations/thread_1")).status).toBe(404);
+  });
+
+  it("should reject conversation ids the pattern doesn't allow", async () => {
+    const app = createApp();
+    for (const id of ["bad.id", "a%2Fb", "x".repeat(129)]) {
+      const response = await app.request(`/api/conversations/${id}`);
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: "Invalid conversation id" });
+    }
+  });
+
+  it("should scope conversations to the signed-in user", async () => {
+    const app = createApp((c) => c.req.header("x-user-id") ?? null);
+    const put = (userId: string) =>
+      app.request("/api/conversations/thread_1", {
+        method: "PUT",
+        headers: { "content-type": "application/json", "x-user-id": userId },
+        body: JSON.stringify({ owner: userId })
+      });
+
+    expect((await app.request("/api/conversations/thread_1")).status).toBe(401);
+    await put("alice");
+    const other = await app.request("/api/conversations/thread_1", {
+      headers: { "x-user-id": "bob" }
+    });
+    expect(other.status).toBe(404);
+  });
+});
+
+describe("createChatProxyApp mock upstream", () => {
+  it("should answer without an API key", async () => {
+    const app = createChatProxyApp({
+      provider: createMockUpstream({ delayMs: 0 })
+    });
+    const response = await app.request("/api/chat/dispatch", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ messages: [{ role: "user", content: "please fail" }] })
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+    const events = parseEvents(await response.text());
+    expect(events.map((event) => event.data)).toEqual([
+      { type: "error", error: "Mock upstream failure" }
+    ]);
+  });
+
+  it("should stream the reply of the first matching rule", async () => {
+    const app = createChatProxyApp({
+      provider: createMockUpstream({
+        rules: [{ match: "pricing", reply: { text: "Plans start at $10." } }],
+        delayMs: 0
+      })
+    });
+    const response = await app.request("/api/chat/dispatch", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ messages: [{ role: "user", content: "What is the Pricing?" }] })
+    });
+    const events = parseEvents(await response.text()).map((event) => event.data);
+
+    expect(events.filter((event) => event.type === "step_chunk").map((event) => event.text).join(""))
+      .toBe("Plans start at $10.");
+    expect(events.slice(-2)).toEqual([
+      { type: "step_complete", result: { response: "Plans start at $10." } },
+      { type: "flow_complete", success: true }
+    ]);
+  });
+});
+
+describe("createChatProxyApp approvals", () => {
+  it("should only accept decisions from the requester the tool call was streamed to", async () => {
+    const queue = createToolApprovalQueue();
+    const app = createChatProxyApp({
+      provider: createMockUpstream({
+        fallback: { tools: [{ name: "delete_order" }], text: "Done." },
+        delayMs: 0
+      }),
+      approvals: { queue }
+    });
+    const events = parseEvents(await (await dispatch(app)).text()).map((event) => event.data);
+    expect(events[0]).toMatchObject({ type: "tool_start", toolId: "mock_tool_1" });
+
+    const decide = (toolCallId: string, cookie: string) =>
+      app.request("/api/chat/approvals", {
+        method: "POST",
+        headers: { "content-type": "application/json", cookie },
+        body: JSON.stringify({ toolCallId, decision: "allow" })
+      });
+
+    expect((await decide("mock_tool_1", "session=b")).status).toBe(404);
+    expect((await decide("mock_tool_2", "session=a")).status).toBe(404);
+
+    const waiting = queue.waitForDecision("mock_tool_1");
+    const response = await decide("mock_tool_1", "session=a");
+    expect(await response.json()).toEqual({ success: true, delivered: true });
+    expect(await waiting).toMatchObject({ toolCallId: "mock_tool_1", decision: "allow" });
+  });
+});
+
+describe("createChatProxyApp WebSocket route", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  // Stands in for a runtime adapter and hands the test the socket's event handlers
+  const createSocketApp = (websocket: { forwardCredentials?: boolean; frameHeaders?: string[] } = {}) => {
+    let events: WSEvents | null = null;
+    const upgradeWebSocket = defineWebSocketHelper((_c, socketEvents) => {
+      events = socketEvents;
+      return new Response("upgraded");
+    });
+    const app = createChatProxyApp({
+      provider: createMockUpstream({ delayMs: 0 }),
+      allowedOrigins: ["https://shop.example"],
+      websocket: { upgradeWebSocket, ...websocket }
+    });
+    return { app, getEvents: () => events };
+  };
+
+  const upgrade = (app: ReturnType<typeof createChatProxyApp>, headers: Record<string, string>) =>
+    app.request("http://proxy.example/api/chat/dispatch", { headers });
+
+  // Send one dispatch frame and return the headers of the internal dispatch request
+  const dispatchOverSocket = async (
+    app: ReturnType<typeof createChatProxyApp>,
+    events: WSEvents,
+    frameHeaders: Record<string, string>
+  ) => {
+    const request = vi.spyOn(app, "request");
+    const frames: Array<{ type: string }> = [];
+    const ws = new WSContext({
+      send: (data) => frames.push(JSON.parse(String(data))),
+      close: () => {},
+      readyState: 1
+    });
+    events.onOpen?.(new Event("open"), ws);
+    events.onMessage?.(
+      new MessageEvent("message", {
+        data: JSON.stringify({
+          type: "dispatch",
+          id: "frame-1",
+          payload: { messages: [{ role: "user", content: "hi" }] },
+          headers: frameHeaders
+        })
+      }),
+      ws
+    );
+    await vi.waitFor(() => expect(frames.some((frame) => frame.type === "end")).toBe(true));
+    const init = request.mock.calls[0][1] as RequestInit;
+    return new Headers(init.headers);
+  };
+
+  it("should only upgrade same-origin or listed origins, also in development", async () => {
+    vi.stubEnv("NODE_ENV", "development");
+    const { app } = createSocketApp();
+
+    expect((await upgrade(app, { origin: "https://evil.example" })).status).toBe(403);
+    expect((await upgrade(app, {})).status).toBe(403);
+    expect((await upgrade(app, { origin: "https://shop.example" })).status).toBe(200);
+    expect((await upgrade(app, { origin: "https://proxy.example" })).status).toBe(200);
+  });
+
+  it("should not forward credentials or unlisted frame headers by default", async () => {
+    const { app, getEvents } = createSocketApp();
+    await upgrade(app, {
+      origin: "https://shop.example",
+      cookie: "session=a",
+      authorization: "Bearer upgrade"
+    });
+
+    const headers = await dispatchOverSocket(app, getEvents()!, {
+      authorization: "Bearer frame",
+      "x-user-id": "admin",
+      origin: "https://evil.example"
+    });
+
+    expect(headers.get("origin")).toBe("https://shop.example");
+    expect(headers.get("cookie")).toBeNull();
+    expect(headers.get("authorization")).toBeNull();
+    expect(headers.get("x-user-id")).toBeNull();
+  });
+
+  it("should forward credentials and listed frame headers when enabled", async () => {
+    const { app, getEvents } = createSocketApp({
+      forwardCredentials: true,
+      frameHeaders: ["X-Session-Token"]
+    });
+    await upgrade(app, { origin: "https://shop.example", cookie: "session=a" });
+
+    const headers = await dispatchOverSocket(app, getEvents()!, {
+      "x-session-token": "token",
+      "x-user-id": "admin"
+    });
+
+    expect(headers.get("cookie")).toBe("session=a");
+    expect(headers.get("x-session-token")).toBe("token");
+    expect(headers.get("x-user-id")).toBeNull();
+  });
+  it("should cancel buffered dispatches upstream on a cancel frame or close", async () => {
+    const mock = createMockUpstream({ fallback: { text: "one two three four five" }, delayMs: 20 });
+    const signals: AbortSignal[] = [];
+    let events: WSEvents | null = null;
+    const app = createChatProxyApp({
+      provider: {
+        name: "spy",
+        dispatch: (request) => {
+          signals.push(request.signal!);
+          return mock.dispatch(request);
+        }
+      },
+      resumableStreams: true,
+      websocket: {
+        upgradeWebSocket: defineWebSocketHelper((_c, socketEvents) => {
+          events = socketEvents;
+          return new Response("upgraded");
+        })
+      }
+    });
+    await upgrade(app, { origin: "http://proxy.example" });
+    const ws = new WSContext({ send: () => {}, close: () => {}, readyState: 1 });
+    const send = (frame: Record<string, unknown>) =>
+      events!.onMessage?.(new MessageEvent("message", { data: JSON.stringify(frame) }), ws);
+    const start = async (dispatchId: string) => {
+      const count = signals.length;
+      send({
+        type: "dispatch",
+        id: dispatchId,
+        payload: { dispatchId, messages: [{ role: "user", content: "hi" }] }
+      });
+      await vi.waitFor(() => expect(signals).toHaveLength(count + 1));
+      return signals[count];
+    };
+
+    const cancelled = await start("dispatch-1");
+    send({ type: "cancel", id: "dispatch-1" });
+    await vi.waitFor(() => expect(cancelled.aborted).toBe(true));
+
+    const closed = await start("dispatch-2");
+    events!.onClose?.(new Event("close") as CloseEvent, ws);
+    await vi.waitFor(() => expect(closed.aborted).toBe(true));
+  });
+});
@@ -1,6 +1,27 @@
 import { Hono } from "hono";
 import type { Context } from "hono";
 import { handle } from "hono/vercel";
+import type { UpgradeWebSocket, WSContext } from "hono/ws";
+import {
+  createStreamBuffer,
+  getRequesterKey,
+  type StreamBufferOptions
+} from "./utils/stream-buffer.js";
+import type { ConversationStore } from "./utils/conversation-store.js";
+import {
+  createToolCallOwners,
+  type ToolApprovalDecision,
+  type ToolApprovalQueue,
+  type ToolCallOwners
+} from "./utils/tool-approvals.js";
+import {
+  createChatSocketConnection,
+  forEachSseData,
+  sendSocketFrame,
+  type ChatSocketConnection
+} from "./utils/chat-socket.js";
+import type { ChatProvider, ProviderMessage, ProviderTool } from "./providers/types.js";
+import { createMockUpstream } from "./providers/mock.js";
 
 export type TravrseFlowStep = {
   id: string;
@@ -33,7 +54,131 @@ export type FeedbackPayload = {
  */
 export type FeedbackHandler = (feedback: FeedbackPayload) => Promise<void> | void;
 
+/**
+ * Options for the server-side conversation endpoints
+ */
+export type ConversationRoutesOptions = {
+  /**
+   * Where conversations are stored, e.g. `createMemoryConversationStore()`
+   * or `createFileConversationStore({ directory: "./data" })`
+   */
+  store: ConversationStore;
+  /**
+   * Base path for the conversation routes (default: "/api/conversations")
+   */
+  path?: string;
+  /**
+   * Resolve the signed-in user for a request. When provided, conversations are
+   * scoped per user and requests without a user get a 401. Without it, the
+   * conversation id is the only thing protecting a conversation, so use
+   * long random ids.
+   *
+   * @example
+   * ```ts
+   * getUserId: async (c) => (await verifySession(c.req.header("authorization")))?.userId ?? null
+   * ```
+   */
+  getUserId?: (c: Context) => string | null | Promise<string | null>;
+};
+
+/**
+ * Options for the endpoint that receives tool approval decisions from the widget
+ */
+export type ToolApprovalRoutesOptions = {
+  /**
+   * Path for the approvals endpoint (default: "/api/chat/approvals")
+   */
+  path?: string;
+  /**
+   * Queue that server-side tool code waits on, from `createToolApprovalQueue()`
+   */
+  queue?: ToolApprovalQueue;
+  /**
+   * Called for every decision, e.g. to forward it to the system running the tools
+   */
+  onDecision?: (decision: ToolApprovalDecision, c: Context) => Promise<void> | void;
+};
+
+/**
+ * Telemetry event posted by the widget's `createBeaconSink`
+ */
+export type TelemetryEvent = {
+  name: string;
+  timestamp?: number;
+  [key: string]: unknown;
+};
+
+/**
+ * Options for the endpoint that receives widget telemetry
+ */
+export type TelemetryRoutesOptions = {
+  /**
+   * Path for the telemetry endpoint (default: "/api/telemetry")
+   */
+  path?: string;
+  /**
+   * Called with each batch, e.g. to write it to your metrics store
+   */
+  onEvents: (events: TelemetryEvent[], c: Context) => Promise<void> | void;
+};
+
+/**
+ * Options for the WebSocket endpoint used by the widget's `transport: "websocket"`
+ */
+export type ChatWebSocketOptions = {
+  /**
+   * `upgradeWebSocket` from your runtime's Hono adapter: `hono/cloudflare-workers`,
+   * `hono/bun`, `hono/deno`, or `createNodeWebSocket` from `@hono/node-ws`
+   */
+  upgradeWebSocket: UpgradeWebSocket<unknown>;
+  /**
+   * Path for the socket (default: the dispatch `path`, so the widget can derive
+   * it from `apiUrl`)
+   */
+  path?: string;
+  /**
+   * Forward the upgrade request's `Cookie` and `Authorization` headers to
+   * dispatches. Any page the user visits can open a socket to an allowed
+   * origin's proxy with their cookies, so only enable it when `allowedOrigins`
+   * lists exactly the sites that embed the widget.
+   *
+   * @default false
+   */
+  forwardCredentials?: boolean;
+  /**
+   * Headers a dispatch frame may set on the dispatch request, e.g.
+   * `["authorization"]` for widgets that send a token through `headers` or
+   * `getHeaders`. Matched case-insensitively; other frame headers are dropped.
+   *
+   * @default []
+   */
+  frameHeaders?: string[];
+  /**
+   * Called when a widget connects. Keep the connection to push messages the
+   * user didn't ask for, e.g. replies from a human agent. Return a function to
+   * run when the socket closes.
+   *
+   * @example
+   * ```ts
+   * onConnection: (connection, c) => {
+   *   const sessionId = c.req.query("session") ?? "";
+   *   agents.set(sessionId, connection);
+   *   return () => agents.delete(sessionId);
+   * }
+   * ```
+   */
+  onConnection?: (connection: ChatSocketConnection, c: Context) => void | (() => void);
+};
+
 export type ChatProxyOptions = {
+  /**
+   * Where chat requests go. `"mock"` answers from `createMockUpstream()` so the
+   * proxy runs without `TRAVRSE_API_KEY` or network access; pass
+   * `provider: createMockUpstream({ rules })` for scripted replies.
+   *
+   * @default "travrse"
+   */
+  upstream?: "travrse" | "mock";
   upstreamUrl?: string;
   apiKey?: string;
   path?: string;
@@ -56,10 +201,105 @@ export type ChatProxyOptions = {
    * ```
    */
   onFeedback?: FeedbackHandler;
+  /**
+   * Buffer upstream SSE events per dispatch so clients can reconnect with
+   * `Last-Event-ID` and replay what they missed. Pair with the widget's
+   * `streamResume` option. Buffers are held in memory, so resume only works
+   * when the reconnect reaches the same server instance, and only for the
+   * requester that started the dispatch (same Authorization, cookies and origin).
+   * Buffered dispatches keep running when the browser disconnects; the same
+   * requester stops them by posting `{ dispatchId, cancel: true }` to `path`.
+   *
+   * @default false
+   * @example
+   * ```ts
+   * resumableStreams: { bufferSize: 500, ttlMs: 30000 }
+   * ```
+   */
+  resumableStreams?: boolean | StreamBufferOptions;
+  /**
+   * Enable `GET/PUT/DELETE {path}/:id` routes for storing widget conversations
+   * on the server. Pair with the widget's `createRemoteStorageAdapter` so a
+   * user sees the same history on every device.
+   *
+   * @example
+   * ```ts
+   * conversations: {
+   *   store: createFileConversationStore({ directory: "./conversations" }),
+   *   getUserId: (c) => c.req.header("x-user-id") ?? null
+   * }
+   * ```
+   */
+  conversations?: ConversationRoutesOptions;
+  /**
+   * Send chat requests to another LLM backend instead of the Travrse dispatch API.
+   * The provider's stream is translated into the events the widget already parses,
+   * so no widget changes are needed. `upstreamUrl`, `apiKey`, `flowId` and
+   * `flowConfig` are ignored when a provider is set. Required for the widget's
+   * browser tools; without it, requests carrying `tools` get a 400.
+   *
+   * @example
+   * ```ts
+   * provider: createOpenAIProvider({ model: "gpt-4o-mini", systemPrompt: "You are a helpful assistant" })
+   * ```
+   */
+  provider?: ChatProvider;
+  /**
+   * Enable `POST {path}` for tool approval decisions. Point the widget's
+   * `approval.url` at it; tools that need approval wait for the decision
+   * with `queue.waitForDecision(toolCallId)`. The proxy doesn't pause flow or
+   * provider tool calls itself, so only tool code you host can wait here.
+   * Decisions are only accepted for tool calls this proxy streamed to the
+   * same requester (see `getRequesterKey`).
+   *
+   * @example
+   * ```ts
+   * const approvals = createToolApprovalQueue();
+   * createChatProxyApp({ approvals: { queue: approvals } });
+   *
+   * // In your tool implementation
+   * const decision = await approvals.waitForDecision(toolCallId, { timeoutMs: 120000 });
+   * if (decision?.decision !== "allow") return { error: "Denied by the user" };
+   * ```
+   */
+  approvals?: ToolApprovalRoutesOptions;
+  /**
+   * Accept WebSocket connections from widgets using `transport: "websocket"`.
+   * Dispatches sent over the socket run through the same handler as
+   * `POST {path}`, and closing or cancelling aborts the upstream request,
+   * including dispatches buffered for `resumableStreams`.
+   * Upgrades get a 403 unless their `Origin` is the proxy's own or listed in
+   * `allowedOrigins`, in every environment.
+   *
+   * @example
+   * ```ts
+   * import { upgradeWebSocket } from "hono/cloudflare-workers";
+   *
+   * createChatProxyApp({ websocket: { upgradeWebSocket } });
+   * ```
+   */
+  websocket?: ChatWebSocketOptions;
+  /**
+   * Enable `POST {path}` for telemetry batches from the widget's `createBeaconSink`
+   *
+   * @example
+   * ```ts
+   * telemetry: {
+   *   onEvents: (events) => metrics.write(events)
+   * }
+   * ```
+   */
+  telemetry?: TelemetryRoutesOptions;
 };
 
 const DEFAULT_ENDPOINT = "https://api.travrse.ai/v1/dispatch";
 const DEFAULT_PATH = "/api/chat/dispatch";
+const DEFAULT_CONVERSATIONS_PATH = "/api/conversations";
+const DEFAULT_APPROVALS_PATH = "/api/chat/approvals";
+const DEFAULT_TELEMETRY_PATH = "/api/telemetry";
+const MAX_TELEMETRY_BATCH = 100;
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+const CREDENTIAL_HEADERS = ["cookie", "authorization"];
 
 const DEFAULT_FLOW: TravrseFlowConfig = {
   name: "Streaming Prompt Flow",
@@ -122,7 +362,7 @@ const withCors =
         "Access-Control-Allow-Headers":
           c.req.header("access-control-request-headers") ??
           "Content-Type, Authorization",
-        "Access-Control-Allow-Methods": "POST, OPTIONS",
+        "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
         Vary: "Origin"
       };
 
@@ -141,9 +381,34 @@ export const createChatProxyApp = (options: ChatProxyOptions = {}) => {
   const path = options.path ?? DEFAULT_PATH;
   const feedbackPath = options.feedbackPath ?? "/api/feedback";
   const upstream = options.upstreamUrl ?? DEFAULT_ENDPOINT;
+  const provider =
+    options.provider ?? (options.upstream === "mock" ? createMockUpstream() : undefined);
+  const streamBuffer = options.resumableStreams
+    ? createStreamBuffer(
+        options.resumableStreams === true ? {} : options.resumableStreams
+      )
+    : null;
+  // Approvals are only accepted from the requester a tool call was streamed to
+  const toolCallOwners = options.approvals ? createToolCallOwners() : null;
 
   app.use("*", withCors(options.allowedOrigins));
 
+  if (options.conversations) {
+    registerConversationRoutes(app, options.conversations);
+  }
+
+  if (options.approvals && toolCallOwners) {
+    registerApprovalRoute(app, options.approvals, toolCallOwners);
+  }
+
+  if (options.websocket) {
+    registerWebSocketRoute(app, options.websocket, path, options.allowedOrigins);
+  }
+
+  if (options.telemetry) {
+    registerTelemetryRoute(app, options.telemetry);
+  }
+
   // Feedback endpoint for collecting upvote/downvote data
   app.post(feedbackPath, async (c) => {
     let payload: FeedbackPayload;
@@ -206,7 +471,7 @@ export const createChatProxyApp = (options: ChatProxyOptions = {}) => {
   // Chat dispatch endpoint
   app.post(path, async (c) => {
     const apiKey = options.apiKey ?? process.env.TRAVRSE_API_KEY;
-    if (!apiKey) {
+    if (!apiKey && !provider) {
       return c.json(
         { error: "Missing API key. Set TRAVRSE_API_KEY." },
         401
@@ -214,9 +479,12 @@ export const createChatProxyApp = (options: ChatProxyOptions = {}) => {
     }
 
     let clientPayload: {
-      messages?: Array<{ role: string; content: string; createdAt?: string }>;
+      messages?: Array<ProviderMessage & { createdAt?: string }>;
       flowId?: string;
       metadata?: Record<string, unknown>;
+      tools?: ProviderTool[];
+      dispatchId?: string;
+      cancel?: boolean;
     };
     try {
       clientPayload = await c.req.json();
@@ -227,6 +495,34 @@ export const createChatProxyApp = (options: ChatProxyOptions = {}) => {
       );
     }
 
+    // Resume an interrupted stream from the buffer instead of re-running the flow
+    const dispatchId =
+      typeof clientPayload.dispatchId === "string" ? clientPayload.dispatchId : undefined;
+    const lastEventId = c.req.header("last-event-id");
+    const requester =
+      (streamBuffer && dispatchId) || toolCallOwners
+        ? await getRequesterKey(c.req.raw.headers)
+        : "";
+    // Stop a buffered dispatch; it outlives the request that started it so it can be resumed
+    if (clientPayload.cancel === true) {
+      const cancelled = !!(streamBuffer && dispatchId && streamBuffer.cancel(dispatchId, requester));
+      return c.json({ success: true, cancelled });
+    }
+
+    if (streamBuffer && dispatchId && lastEventId) {
+      const replay = streamBuffer.resume(dispatchId, lastEventId, requester);
+      if (!replay) {
+        return c.json({ error: "Stream expired" }, 410);
+      }
+      return new Response(replay, {
+        status: 200,
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-store"
+        }
+      });
+    }
+
     // Build the Travrse payload
     const messages = clientPayload.messages ?? [];
     // Sort messages by timestamp to ensure correct order
@@ -237,9 +533,70 @@ export const createChatProxyApp = (options: ChatProxyOptions = {}) => {
     });
     const formattedMessages = sortedMessages.map((message) => ({
       role: message.role,
-      content: message.content
+      content: message.content,
+      ...(message.toolCall ? { toolCall: message.toolCall } : {})
     }));
 
+    // Travrse flows can't call tools the browser runs; fail loudly instead of dropping them
+    const hasClientTools =
+      (Array.isArray(clientPayload.tools) && clientPayload.tools.length > 0) ||
+      formattedMessages.some((message) => message.toolCall);
+    if (!provider && hasClientTools) {
+      return c.json(
+        {
+          error:
+            "Browser tools need an LLM provider: Travrse flows don't run client tools. Set the proxy's `provider` option."
+        },
+        400
+      );
+    }
+
+    // Buffer the stream for resume and pass everything else through
+    const toClientResponse = (response: Response) => {
+      let body: ReadableStream<Uint8Array> | null = response.body;
+      if (toolCallOwners && response.ok && body) {
+        body = toolCallOwners.track(body, requester);
+      }
+      if (streamBuffer && dispatchId) {
+        if (response.ok && response.body) {
+          body = streamBuffer.start(dispatchId, response.body, requester);
+        } else {
+          streamBuffer.release(dispatchId);
+        }
+      }
+
+      return new Response(body, {
+        status: response.status,
+        headers: {
+          "Content-Type":
+            response.headers.get("content-type") ?? "application/json",
+          "Cache-Control": "no-store"
+        }
+      });
+    };
+
+    // Cancel upstream work when the browser aborts (e.g. the widget's stop button).
+    // Buffered streams keep running so a dropped connection can resume them, and
+    // stop with a `cancel` request instead.
+    const upstreamSignal =
+      streamBuffer && dispatchId ? streamBuffer.track(dispatchId, requester) : c.req.raw.signal;
+    const releaseOnError = (error: unknown): never => {
+      if (streamBuffer && dispatchId) streamBuffer.release(dispatchId);
+      throw error;
+    };
+
+    if (provider) {
+      const response = await provider
+        .dispatch({
+          messages: formattedMessages,
+          metadata: clientPayload.metadata,
+          tools: Array.isArray(clientPayload.tools) ? clientPayload.tools : undefined,
+          signal: upstreamSignal
+        })
+        .catch(releaseOnError);
+      return toClientResponse(response);
+    }
+
     // Determine which flow to use
     const flowId = clientPayload.flowId ?? options.flowId;
     const flowConfig = options.flowConfig ?? DEFAULT_FLOW;
@@ -285,8 +642,9 @@ export const createChatProxyApp = (options: ChatProxyOptions = {}) => {
         Authorization: `Bearer ${apiKey}`,
         "Content-Type": "application/json"
       },
-      body: JSON.stringify(travrsePayload)
-    });
+      body: JSON.stringify(travrsePayload),
+      signal: upstreamSignal
+    }).catch(releaseOnError);
 
     if (isDevelopment) {
       console.log("Response Status:", response.status);
@@ -305,19 +663,331 @@ export const createChatProxyApp = (options: ChatProxyOptions = {}) => {
       console.log("=== End Travrse Proxy Request ===\n");
     }
 
-    return new Response(response.body, {
-      status: response.status,
-      headers: {
-        "Content-Type":
-          response.headers.get("content-type") ?? "application/json",
-        "Cache-Control": "no-store"
-      }
-    });
+    return toClientResponse(response);
   });
 
   return app;
 };
 
+// Same-origin compares hosts only, so TLS terminated in front of the proxy still matches
+const isSocketOriginAllowed = (
+  origin: string,
+  requestUrl: string,
+  allowedOrigins: string[] | undefined
+) => {
+  if (allowedOrigins?.includes(origin)) return true;
+  try {
+    return new URL(origin).host === new URL(requestUrl).host;
+  } catch {
+    return false;
+  }
+};
+
+// Keep only the frame headers the operator allowed
+const pickFrameHeaders = (headers: unknown, allowed: Set<string>) => {
+  const picked: Record<string, string> = {};
+  if (!headers || typeof headers !== "object") return picked;
+  Object.entries(headers as Record<string, unknown>).forEach(([name, value]) => {
+    if (typeof value === "string" && allowed.has(name.toLowerCase())) {
+      picked[name.toLowerCase()] = value;
+    }
+  });
+  return picked;
+};
+
+const registerWebSocketRoute = (
+  app: Hono,
+  websocket: ChatWebSocketOptions,
+  dispatchPath: string,
+  allowedOrigins: string[] | undefined
+) => {
+  const frameHeaders = new Set(
+    (websocket.frameHeaders ?? []).map((name) => name.toLowerCase())
+  );
+
+  app.get(
+    websocket.path ?? dispatchPath,
+    // Browsers don't apply CORS to WebSockets, so check the origin before upgrading.
+    // Unlike CORS there is no development fallback: a cross-site socket could
+    // act for the user and read the replies.
+    async (c, next) => {
+      const origin = c.req.header("origin");
+      if (!origin || !isSocketOriginAllowed(origin, c.req.url, allowedOrigins)) {
+        return c.json({ error: "WebSocket origin not allowed" }, 403);
+      }
+      await next();
+    },
+    websocket.upgradeWebSocket((c) => {
+      const dispatches = new Map<string, AbortController>();
+      let cleanup: void | (() => void);
+
+      // The origin was checked above; credentials only carry over when the operator opts in
+      const baseHeaders: Record<string, string> = { origin: c.req.header("origin") ?? "" };
+      if (websocket.forwardCredentials) {
+        CREDENTIAL_HEADERS.forEach((name) => {
+          const value = c.req.header(name);
+          if (value) baseHeaders[name] = value;
+        });
+      }
+
+      const runDispatch = async (
+        ws: WSContext,
+        id: string,
+        payload: unknown,
+        headers: unknown
+      ) => {
+        const controller = new AbortController();
+        dispatches.set(id, controller);
+        const requestHeaders = {
+          ...pickFrameHeaders(headers, frameHeaders),
+          ...baseHeaders,
+          "content-type": "application/json"
+        };
+        const dispatchId =
+          payload && typeof (payload as { dispatchId?: unknown }).dispatchId === "string"
+            ? (payload as { dispatchId: string }).dispatchId
+            : undefined;
+        // Buffered (resumable) dispatches outlive their request, so stop them
+        // through the dispatch route's cancel as the widget does over HTTP
+        if (dispatchId) {
+          controller.signal.addEventListener(
+            "abort",
+            () => {
+              Promise.resolve(
+                app.request(dispatchPath, {
+                  method: "POST",
+                  headers: requestHeaders,
+                  body: JSON.stringify({ messages: [], dispatchId, cancel: true })
+                })
+              ).catch((error) => console.error("[WebSocket] Cancel failed:", error));
+            },
+            { once: true }
+          );
+        }
+        try {
+          const response = await app.request(dispatchPath, {
+            method: "POST",
+            headers: requestHeaders,
+            body: JSON.stringify(payload ?? {}),
+            signal: controller.signal
+          });
+          if (!response.ok || !response.body) {
+            const text = await response.text();
+            let error = text || `Request failed with status ${response.status}`;
+            try {
+              error = JSON.parse(text).error ?? error;
+            } catch {
+              // Not JSON; send the body as is
+            }
+            sendSocketFrame(ws, { type: "error", id, error, status: response.status });
+            return;
+          }
+          await forEachSseData(
+            response.body,
+            (data) => sendSocketFrame(ws, { type: "event", id, data }),
+            controller.signal
+          );
+          if (!controller.signal.aborted) {
+            sendSocketFrame(ws, { type: "end", id });
+          }
+        } catch (error) {
+          if (!controller.signal.aborted) {
+            console.error("[WebSocket] Dispatch failed:", error);
+            sendSocketFrame(ws, { type: "error", id, error: "Dispatch failed" });
+          }
+        } finally {
+          dispatches.delete(id);
+        }
+      };
+
+      return {
+        onOpen: (_event, ws) => {
+          cleanup = websocket.onConnection?.(createChatSocketConnection(ws), c);
+        },
+        onMessage: (event, ws) => {
+          let frame: { type?: unknown; id?: unknown; payload?: unknown; headers?: unknown };
+          try {
+            frame = JSON.parse(typeof event.data === "string" ? event.data : "");
+          } catch {
+            sendSocketFrame(ws, { type: "error", error: "Invalid frame" });
+            return;
+          }
+          if (typeof frame.id !== "string" || !frame.id) {
+            sendSocketFrame(ws, { type: "error", error: "Missing frame id" });
+            return;
+          }
+          if (frame.type === "dispatch") {
+            void runDispatch(ws, frame.id, frame.payload, frame.headers);
+          } else if (frame.type === "cancel") {
+            dispatches.get(frame.id)?.abort();
+          }
+        },
+        onClose: () => {
+          dispatches.forEach((controller) => controller.abort());
+          dispatches.clear();
+          cleanup?.();
+        }
+      };
+    })
+  );
+};
+
+const registerTelemetryRoute = (app: Hono, telemetry: TelemetryRoutesOptions) => {
+  app.post(telemetry.path ?? DEFAULT_TELEMETRY_PATH, async (c) => {
+    // Beacons are sent as text/plain to avoid CORS preflights
+    let payload: { events?: unknown };
+    try {
+      payload = JSON.parse(await c.req.text());
+    } catch (error) {
+      return c.json({ error: "Invalid JSON body" }, 400);
+    }
+    if (!payload || !Array.isArray(payload.events)) {
+      return c.json({ error: "Missing events" }, 400);
+    }
+    if (payload.events.length > MAX_TELEMETRY_BATCH) {
+      return c.json({ error: `At most ${MAX_TELEMETRY_BATCH} events per batch` }, 413);
+    }
+    const events = payload.events.filter(
+      (event): event is TelemetryEvent =>
+        !!event && typeof event === "object" && typeof (event as TelemetryEvent).name === "string"
+    );
+
+    try {
+      await telemetry.onEvents(events, c);
+    } catch (error) {
+      console.error("[Telemetry] Handler error:", error);
+      return c.json({ error: "Telemetry handler failed" }, 500);
+    }
+    return c.body(null, 204);
+  });
+};
+
+const registerApprovalRoute = (
+  app: Hono,
+  approvals: ToolApprovalRoutesOptions,
+  owners: ToolCallOwners
+) => {
+  app.post(approvals.path ?? DEFAULT_APPROVALS_PATH, async (c) => {
+    let payload: Partial<ToolApprovalDecision>;
+    try {
+      payload = await c.req.json();
+    } catch (error) {
+      return c.json({ error: "Invalid JSON body" }, 400);
+    }
+    if (!payload || typeof payload.toolCallId !== "string" || !payload.toolCallId) {
+      return c.json({ error: "Missing toolCallId" }, 400);
+    }
+    if (payload.decision !== "allow" && payload.decision !== "deny") {
+      return c.json({ error: "Invalid decision. Must be 'allow' or 'deny'" }, 400);
+    }
+    // Same check as stream resume: a leaked tool call id can't be decided by someone else
+    if (!owners.owns(payload.toolCallId, await getRequesterKey(c.req.raw.headers))) {
+      return c.json({ error: "Unknown tool call" }, 404);
+    }
+
+    const decision: ToolApprovalDecision = {
+      toolCallId: payload.toolCallId,
+      decision: payload.decision,
+      always: payload.always === true,
+      ...(typeof payload.toolName === "string" && { toolName: payload.toolName }),
+      ...(payload.args !== undefined && { args: payload.args })
+    };
+
+    if (approvals.onDecision) {
+      try {
+        await approvals.onDecision(decision, c);
+      } catch (error) {
+        console.error("[Approvals] Handler error:", error);
+        return c.json({ error: "Approval handler failed" }, 500);
+      }
+    }
+    const delivered = approvals.queue?.resolve(decision) ?? false;
+
+    return c.json({ success: true, delivered });
+  });
+};
+
+const registerConversationRoutes = (
+  app: Hono,
+  conversations: ConversationRoutesOptions
+) => {
+  const { store, getUserId } = conversations;
+  const routePath = `${conversations.path ?? DEFAULT_CONVERSATIONS_PATH}/:id`;
+
+  // Resolve the storage key for a request, or an error response
+  const resolveKey = async (c: Context) => {
+    const id = c.req.param("id");
+    if (!id || !CONVERSATION_ID_PATTERN.test(id)) {
+      return { error: c.json({ error: "Invalid conversation id" }, 400) };
+    }
+    if (!getUserId) {
+      return { id, key: id };
+    }
+    const userId = await getUserId(c);
+    if (!userId) {
+      return { error: c.json({ error: "Unauthorized" }, 401) };
+    }
+    return { id, key: `${userId}:${id}` };
+  };
+
+  app.get(routePath, async (c) => {
+    const resolved = await resolveKey(c);
+    if (resolved.error) return resolved.error;
+    try {
+      const conversation = await store.get(resolved.key);
+      if (!conversation) {
+        return c.json({ error: "Conversation not found" }, 404);
+      }
+      return c.json({
+        id: resolved.id,
+        state: conversation.state,
+        updatedAt: conversation.updatedAt
+      });
+    } catch (error) {
+      console.error("[Conversations] Failed to load conversation:", error);
+      return c.json({ error: "Failed to load conversation" }, 500);
+    }
+  });
+
+  app.put(routePath, async (c) => {
+    const resolved = await resolveKey(c);
+    if (resolved.error) return resolved.error;
+
+    let state: unknown;
+    try {
+      state = await c.req.json();
+    } catch (error) {
+      return c.json({ error: "Invalid JSON body" }, 400);
+    }
+    if (!state || typeof state !== "object" || Array.isArray(state)) {
+      return c.json({ error: "Conversation state must be an object" }, 400);
+    }
+
+    try {
+      const conversation = await store.put(resolved.key, state as Record<string, unknown>);
+      return c.json({ id: resolved.id, updatedAt: conversation.updatedAt });
+    } catch (error) {
+      console.error("[Conversations] Failed to save conversation:", error);
+      return c.json({ error: "Failed to save conversation" }, 500);
+    }
+  });
+
+  app.delete(routePath, async (c) => {
+    const resolved = await resolveKey(c);
+    if (resolved.error) return resolved.error;
+    try {
+      const deleted = await store.delete(resolved.key);
+      if (!deleted) {
+        return c.json({ error: "Conversation not found" }, 404);
+      }
+      return c.json({ success: true });
+    } catch (error) {
+      console.error("[Conversations] Failed to delete conversation:", error);
+      return c.json({ error: "Failed to delete conversation" }, 500);
+    }
+  });
+};
+
 export const createVercelHandler = (options?: ChatProxyOptions) =>
   handle(createChatProxyApp(options));
 
@@ -327,5 +997,8 @@ export * from "./flows/index.js";
 // Export utility functions
 export * from "./utils/index.js";
 
+// Export LLM provider adapters
+export * from "./providers/index.js";
+
 export default createChatProxyApp;
 
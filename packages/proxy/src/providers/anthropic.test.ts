@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createAnthropicProvider } from "./anthropic.js";
+
+const sseResponse = (events: Array<{ type: string } & Record<string, unknown>>) =>
+  new Response(
+    events.map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join(""),
+    { status: 200, headers: { "Content-Type": "text/event-stream" } }
+  );
+
+const readEvents = async (response: Response) =>
+  (await response.text())
+    .split("\n\n")
+    .filter((block) => block.startsWith("data: "))
+    .map((block) => JSON.parse(block.slice(6)));
+
+describe("createAnthropicProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should translate thinking, text and tool use blocks into Travrse events", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        sseResponse([
+          { type: "message_start", message: { id: "msg_1" } },
+          { type: "content_block_start", index: 0, content_block: { type: "thinking" } },
+          { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "Checking" } },
+          { type: "content_block_stop", index: 0 },
+          { type: "content_block_start", index: 1, content_block: { type: "text", text: "" } },
+          { type: "content_block_delta", index: 1, delta: { type: "text_delta", text: "Hi " } },
+          { type: "content_block_delta", index: 1, delta: { type: "text_delta", text: "there" } },
+          { type: "content_block_stop", index: 1 },
+          {
+            type: "content_block_start",
+            index: 2,
+            content_block: { type: "tool_use", id: "toolu_1", name: "lookup", input: {} }
+          },
+          { type: "content_block_delta", index: 2, delta: { type: "input_json_delta", partial_json: '{"q":' } },
+          { type: "content_block_delta", index: 2, delta: { type: "input_json_delta", partial_json: '"x"}' } },
+          { type: "content_block_stop", index: 2 },
+          { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 12 } },
+          { type: "message_stop" }
+        ])
+      )
+    );
+    const provider = createAnthropicProvider({ model: "claude-sonnet-4-5", apiKey: "test" });
+    const events = await readEvents(
+      await provider.dispatch({ messages: [{ role: "user", content: "Hello" }] })
+    );
+
+    expect(events.map((event) => event.type)).toEqual([
+      "reason_start",
+      "reason_chunk",
+      "reason_complete",
+      "step_chunk",
+      "step_chunk",
+      "tool_start",
+      "tool_chunk",
+      "tool_chunk",
+      "tool_start",
+      "tool_complete",
+      "step_complete",
+      "flow_complete"
+    ]);
+    expect(events.find((event) => event.type === "tool_complete")).toEqual({
+      type: "tool_complete",
+      toolId: "toolu_1",
+      toolName: "lookup",
+      args: { q: "x" }
+    });
+    expect(events.find((event) => event.type === "step_complete").result).toEqual({
+      response: "Hi there"
+    });
+  });
+
+  it("should finish on a max_tokens stop reason and report stream errors", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValueOnce(
+          sseResponse([
+            { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+            { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Cut" } },
+            { type: "content_block_stop", index: 0 },
+            { type: "message_delta", delta: { stop_reason: "max_tokens" } },
+            { type: "message_stop" }
+          ])
+        )
+        .mockResolvedValueOnce(
+          sseResponse([{ type: "error", error: { type: "overloaded_error", message: "Overloaded" } }])
+        )
+    );
+    const provider = createAnthropicProvider({ model: "claude-sonnet-4-5", apiKey: "test" });
+    const dispatch = async () =>
+      readEvents(await provider.dispatch({ messages: [{ role: "user", content: "Hi" }] }));
+
+    expect(await dispatch()).toEqual([
+      { type: "step_chunk", text: "Cut" },
+      { type: "step_complete", result: { response: "Cut" } },
+      { type: "flow_complete", success: true }
+    ]);
+    expect(await dispatch()).toEqual([{ type: "error", error: "Overloaded" }]);
+  });
+
+  it("should send system prompts separately and map tool results to tool_result blocks", async () => {
+    const fetchMock = vi.fn(async () => sseResponse([{ type: "message_stop" }]));
+    vi.stubGlobal("fetch", fetchMock);
+    const provider = createAnthropicProvider({
+      model: "claude-sonnet-4-5",
+      apiKey: "test",
+      systemPrompt: "Be brief."
+    });
+
+    await provider.dispatch({
+      messages: [
+        { role: "system", content: "Answer in English." },
+        { role: "user", content: "Where am I?" },
+        {
+          role: "assistant",
+          content: "",
+          toolCall: { id: "toolu_1", name: "getPage", args: {}, result: { url: "/cart" } }
+        }
+      ],
+      tools: [{ name: "getPage", description: "Current page" }]
+    });
+
+    const body = JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+    expect(body.system).toBe("Be brief.\n\nAnswer in English.");
+    expect(body.tools).toEqual([
+      {
+        name: "getPage",
+        description: "Current page",
+        input_schema: { type: "object", properties: {} }
+      }
+    ]);
+    expect(body.messages.slice(1)).toEqual([
+      {
+        role: "assistant",
+        content: [{ type: "tool_use", id: "toolu_1", name: "getPage", input: {} }]
+      },
+      {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: "toolu_1", content: '{"url":"/cart"}' }]
+      }
+    ]);
+  });
+
+  it("should answer 401 without an API key", async () => {
+    vi.stubEnv("ANTHROPIC_API_KEY", "");
+    const provider = createAnthropicProvider({ model: "claude-sonnet-4-5" });
+    const response = await provider.dispatch({ messages: [{ role: "user", content: "Hi" }] });
+
+    expect(response.status).toBe(401);
+    vi.unstubAllEnvs();
+  });
+});
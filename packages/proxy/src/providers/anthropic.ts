@@ -0,0 +1,220 @@
+/**
+ * Provider adapter for the Anthropic Messages API
+ */
+
+import {
+  asString,
+  contentToText,
+  createProviderStream,
+  eventStreamResponse,
+  imageParts,
+  isRecord,
+  parseDataUri,
+  parseRecordJSON,
+  parseToolArgs,
+  providerErrorResponse,
+  toolParameters,
+  toolResultText
+} from "./stream.js";
+import type { ChatProvider, ProviderMessage, ProviderTool } from "./types.js";
+
+export interface AnthropicProviderOptions {
+  /**
+   * Model name, e.g. "claude-sonnet-4-5"
+   */
+  model: string;
+  /**
+   * API key (default: ANTHROPIC_API_KEY environment variable)
+   */
+  apiKey?: string;
+  /**
+   * API base URL (default: "https://api.anthropic.com/v1")
+   */
+  baseUrl?: string;
+  /**
+   * System prompt; system messages from the conversation are appended to it
+   */
+  systemPrompt?: string;
+  /**
+   * Maximum tokens to generate (default: 1024)
+   */
+  maxTokens?: number;
+  temperature?: number;
+  /**
+   * Enable extended thinking with this token budget; thinking is streamed as reasoning
+   */
+  thinkingBudgetTokens?: number;
+  /**
+   * Tool definitions passed through to the API
+   */
+  tools?: unknown[];
+  /**
+   * API version header (default: "2023-06-01")
+   */
+  apiVersion?: string;
+  /**
+   * Extra request headers
+   */
+  headers?: Record<string, string>;
+}
+
+const DEFAULT_BASE_URL = "https://api.anthropic.com/v1";
+const DEFAULT_MAX_TOKENS = 1024;
+const DEFAULT_API_VERSION = "2023-06-01";
+
+const toAnthropicContent = (message: ProviderMessage) => {
+  const images = imageParts(message.content);
+  const text = contentToText(message.content);
+  if (!images.length) return text;
+  return [
+    ...images.map((part) => {
+      const dataUri = parseDataUri(part.image);
+      return dataUri
+        ? {
+            type: "image",
+            source: { type: "base64", media_type: dataUri.mediaType, data: dataUri.data }
+          }
+        : { type: "image", source: { type: "url", url: part.image } };
+    }),
+    ...(text ? [{ type: "text", text }] : [])
+  ];
+};
+
+const toAnthropicTool = (tool: ProviderTool) => ({
+  name: tool.name,
+  ...(tool.description ? { description: tool.description } : {}),
+  input_schema: toolParameters(tool)
+});
+
+const toAnthropicMessages = (message: ProviderMessage): unknown[] => {
+  const { toolCall } = message;
+  if (toolCall) {
+    // Consecutive turns with the same role are merged by the API
+    return [
+      {
+        role: "assistant",
+        content: [
+          { type: "tool_use", id: toolCall.id, name: toolCall.name, input: toolCall.args ?? {} }
+        ]
+      },
+      {
+        role: "user",
+        content: [
+          {
+            type: "tool_result",
+            tool_use_id: toolCall.id,
+            content: toolResultText(toolCall.result)
+          }
+        ]
+      }
+    ];
+  }
+  return [{ role: message.role, content: toAnthropicContent(message) }];
+};
+
+/**
+ * Creates a provider for Anthropic's Messages API
+ * @param options - Model, credentials and request settings
+ * @returns Chat provider for `ChatProxyOptions.provider`
+ */
+export function createAnthropicProvider(options: AnthropicProviderOptions): ChatProvider {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+
+  return {
+    name: "anthropic",
+    async dispatch({ messages, tools: clientTools, signal }) {
+      const apiKey = options.apiKey ?? process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        return providerErrorResponse("Missing API key. Set ANTHROPIC_API_KEY.", 401);
+      }
+
+      // The Messages API takes system instructions separately from the turns
+      const systemPrompt = [
+        options.systemPrompt,
+        ...messages
+          .filter((message) => message.role === "system")
+          .map((message) => contentToText(message.content))
+      ]
+        .filter(Boolean)
+        .join("\n\n");
+
+      const body: Record<string, unknown> = {
+        model: options.model,
+        max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+        stream: true,
+        messages: messages
+          .filter((message) => message.role === "user" || message.role === "assistant")
+          .flatMap(toAnthropicMessages)
+      };
+      if (systemPrompt) body.system = systemPrompt;
+      if (options.temperature !== undefined) body.temperature = options.temperature;
+      if (options.thinkingBudgetTokens) {
+        body.thinking = { type: "enabled", budget_tokens: options.thinkingBudgetTokens };
+      }
+      const tools = [...(options.tools ?? []), ...(clientTools ?? []).map(toAnthropicTool)];
+      if (tools.length) body.tools = tools;
+
+      const response = await fetch(`${baseUrl}/messages`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": options.apiVersion ?? DEFAULT_API_VERSION,
+          ...options.headers
+        },
+        body: JSON.stringify(body),
+        signal
+      });
+      if (!response.ok || !response.body) return response;
+
+      // Content blocks are addressed by index; tool input arrives as partial JSON
+      const blocks = new Map<number, { type: string; id?: string; name?: string; input: string }>();
+
+      return eventStreamResponse(
+        createProviderStream(response.body, "sse", (record, writer) => {
+          const event = parseRecordJSON(record.data);
+          if (!event) return;
+          const type = asString(event.type) ?? record.event;
+          const index = Number(event.index);
+
+          if (type === "content_block_start") {
+            const block: Record<string, unknown> = isRecord(event.content_block)
+              ? event.content_block
+              : {};
+            const id = asString(block.id);
+            const name = asString(block.name);
+            blocks.set(index, { type: asString(block.type) ?? "", id, name, input: "" });
+            if (block.type === "tool_use" && id) {
+              writer.toolStart(id, name ?? "tool");
+            }
+          } else if (type === "content_block_delta") {
+            const delta: Record<string, unknown> = isRecord(event.delta) ? event.delta : {};
+            const block = blocks.get(index);
+            if (delta.type === "text_delta") {
+              writer.text(asString(delta.text) ?? "");
+            } else if (delta.type === "thinking_delta") {
+              writer.reasoning(asString(delta.thinking) ?? "");
+            } else if (delta.type === "input_json_delta" && block?.id) {
+              const partial = asString(delta.partial_json) ?? "";
+              block.input += partial;
+              writer.toolChunk(block.id, partial);
+            }
+          } else if (type === "content_block_stop") {
+            const block = blocks.get(index);
+            if (block?.type === "thinking") {
+              writer.endReasoning();
+            } else if (block?.type === "tool_use" && block.id) {
+              writer.toolComplete(block.id, block.name ?? "tool", parseToolArgs(block.input));
+            }
+            blocks.delete(index);
+          } else if (type === "message_stop") {
+            writer.finish();
+          } else if (type === "error") {
+            const message = isRecord(event.error) ? asString(event.error.message) : undefined;
+            writer.error(message ?? "Anthropic stream error");
+          }
+        })
+      );
+    }
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * LLM provider adapters for the chat proxy
+ */
+
+export type {
+  ChatProvider,
+  ProviderContentPart,
+  ProviderDispatchRequest,
+  ProviderMessage,
+  ProviderTool,
+  ProviderToolCall
+} from "./types.js";
+
+export { createProviderStream, type TravrseEventWriter } from "./stream.js";
+
+export { createOpenAIProvider, type OpenAIProviderOptions } from "./openai.js";
+export { createAnthropicProvider, type AnthropicProviderOptions } from "./anthropic.js";
+export { createOllamaProvider, type OllamaProviderOptions } from "./ollama.js";
+export {
+  createMockUpstream,
+  type MockUpstreamOptions,
+  type MockUpstreamReply,
+  type MockUpstreamRule
+} from "./mock.js";
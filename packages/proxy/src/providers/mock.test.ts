@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { createMockUpstream } from "./mock.js";
+
+const readEvents = async (response: Response) =>
+  (await response.text())
+    .split("\n\n")
+    .filter((block) => block.startsWith("data: "))
+    .map((block) => JSON.parse(block.slice(6)));
+
+const ask = async (provider: ReturnType<typeof createMockUpstream>, content: string) =>
+  readEvents(await provider.dispatch({ messages: [{ role: "user", content }] }));
+
+const replyText = (events: Array<{ type: string; text?: string }>) =>
+  events
+    .filter((event) => event.type === "step_chunk")
+    .map((event) => event.text)
+    .join("");
+
+describe("createMockUpstream", () => {
+  it("should answer the default rules", async () => {
+    const provider = createMockUpstream({ delayMs: 0 });
+
+    const reasoning = await ask(provider, "Why is the sky blue?");
+    expect(reasoning[0]).toEqual({ type: "reason_start", reasoningId: "reason_1" });
+    expect(reasoning.at(-1)).toEqual({ type: "flow_complete", success: true });
+
+    const chart = await ask(provider, "Show me a chart");
+    expect(JSON.parse(replyText(chart))).toEqual({
+      text: "Here's the sales data for Q1:",
+      component: "SimpleChart",
+      props: { title: "Q1 Sales", data: [100, 150, 200], labels: ["Jan", "Feb", "Mar"] }
+    });
+
+    const action = await ask(provider, "Add it to my cart");
+    expect(JSON.parse(replyText(action))).toEqual({
+      action: "message",
+      text: "I've added that to your cart. Ready to check out?"
+    });
+
+    expect(await ask(provider, "please fail")).toEqual([
+      { type: "error", error: "Mock upstream failure" }
+    ]);
+  });
+
+  it("should number tool calls from 1 on every dispatch", async () => {
+    const provider = createMockUpstream({ delayMs: 0 });
+
+    for (let run = 0; run < 2; run++) {
+      const events = await ask(provider, "search the docs");
+      expect(events.slice(0, 2)).toEqual([
+        { type: "tool_start", toolId: "mock_tool_1", toolName: "search", args: { query: "search the docs" } },
+        {
+          type: "tool_complete",
+          toolId: "mock_tool_1",
+          toolName: "search",
+          args: { query: "search the docs" },
+          result: { results: [{ title: "Mock result", url: "https://example.com" }] },
+          duration: 420
+        }
+      ]);
+    }
+  });
+
+  it("should use the fallback when no rule matches", async () => {
+    const echo = createMockUpstream({ rules: [], delayMs: 0 });
+    expect(replyText(await ask(echo, "hello"))).toBe('You said: "hello"');
+
+    const fixed = createMockUpstream({ rules: [], fallback: { text: "Fixed reply" }, delayMs: 0 });
+    expect(await ask(fixed, "hello")).toEqual([
+      { type: "step_chunk", text: "Fixed " },
+      { type: "step_chunk", text: "reply" },
+      { type: "step_complete", result: { response: "Fixed reply" } },
+      { type: "flow_complete", success: true }
+    ]);
+
+    const computed = createMockUpstream({
+      rules: [],
+      fallback: (text) => ({ error: `No answer for ${text}` }),
+      delayMs: 0
+    });
+    expect(await ask(computed, "hello")).toEqual([{ type: "error", error: "No answer for hello" }]);
+  });
+
+  it("should stop streaming once the request is aborted", async () => {
+    const controller = new AbortController();
+    const provider = createMockUpstream({ fallback: { text: "one two three four" }, delayMs: 0 });
+    const response = await provider.dispatch({
+      messages: [{ role: "user", content: "hello" }],
+      signal: controller.signal
+    });
+    const reader = response.body!.getReader();
+
+    await reader.read();
+    controller.abort();
+    const rest: Uint8Array[] = [];
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      rest.push(result.value);
+    }
+    // At most the event already in flight; the remaining five are never sent
+    expect(rest.length).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Scripted provider for local development and CI: answers without an API key
+ * or network access, streaming the same Travrse events a real flow sends.
+ */
+
+import type { ChatProvider, ProviderDispatchRequest } from "./types.js";
+import { contentToText, eventStreamResponse } from "./stream.js";
+
+/**
+ * What the mock streams for one request. Parts are sent in this order:
+ * reasoning, tool calls, then the reply (or the error).
+ */
+export type MockUpstreamReply = {
+  /** Streamed as a reasoning block (`reason_start` / `reason_chunk` / `reason_complete`) */
+  reasoning?: string;
+  /** Server-side tool calls, each sent as `tool_start` and `tool_complete` */
+  tools?: Array<{ name: string; args?: unknown; result?: unknown; durationMs?: number }>;
+  /** Assistant text, streamed word by word */
+  text?: string;
+  /**
+   * Component directive, sent as `{"text", "component", "props"}` JSON for
+   * widgets using the JSON parser and `components`
+   */
+  component?: { name: string; props?: Record<string, unknown> };
+  /**
+   * JSON action sent as the reply, e.g. `{ action: "message", text: "Done" }`.
+   * Takes precedence over `text` and `component`.
+   */
+  action?: { action: string; [key: string]: unknown };
+  /** End the dispatch with an `error` event instead of a reply */
+  error?: string;
+};
+
+type MockReplySource =
+  | MockUpstreamReply
+  | ((text: string, request: ProviderDispatchRequest) => MockUpstreamReply);
+
+export type MockUpstreamRule = {
+  /**
+   * Tested against the last user message. Strings match case-insensitively
+   * anywhere in the message.
+   */
+  match: string | RegExp | ((text: string, request: ProviderDispatchRequest) => boolean);
+  reply: MockReplySource;
+};
+
+export type MockUpstreamOptions = {
+  /**
+   * Checked in order; the first match answers. Defaults to a few demo rules:
+   * "think"/"why" reasons first, "search"/"weather" calls a tool, "chart"
+   * renders a component, "cart"/"click" returns an action, "fail" errors.
+   */
+  rules?: MockUpstreamRule[];
+  /**
+   * Reply when no rule matches (default: echoes the message)
+   */
+  fallback?: MockReplySource;
+  /**
+   * Pause between streamed events in milliseconds
+   * @default 30
+   */
+  delayMs?: number;
+};
+
+const DEFAULT_RULES: MockUpstreamRule[] = [
+  {
+    match: /\b(think|reason|why)\b/i,
+    reply: (text) => ({
+      reasoning: `The user asked: "${text}". I should break the answer into small steps and keep it short.`,
+      text: "Here's my thinking, step by step:\n\n1. Start from what you asked.\n2. Check the obvious cases.\n3. Summarize the answer."
+    })
+  },
+  {
+    match: /\b(search|weather|look up)\b/i,
+    reply: (text) => ({
+      tools: [
+        {
+          name: "search",
+          args: { query: text },
+          result: { results: [{ title: "Mock result", url: "https://example.com" }] },
+          durationMs: 420
+        }
+      ],
+      text: "I searched for that and found one result: [Mock result](https://example.com)."
+    })
+  },
+  {
+    match: /\b(chart|graph)\b/i,
+    reply: {
+      text: "Here's the sales data for Q1:",
+      component: {
+        name: "SimpleChart",
+        props: { title: "Q1 Sales", data: [100, 150, 200], labels: ["Jan", "Feb", "Mar"] }
+      }
+    }
+  },
+  {
+    match: /\b(cart|click)\b/i,
+    reply: {
+      action: { action: "message", text: "I've added that to your cart. Ready to check out?" }
+    }
+  },
+  {
+    match: /\bfail\b/i,
+    reply: { error: "Mock upstream failure" }
+  }
+];
+
+const echo: MockReplySource = (text) => ({
+  text: text ? `You said: "${text}"` : "Hello! This is the mock upstream."
+});
+
+const encoder = new TextEncoder();
+
+const matches = (rule: MockUpstreamRule, text: string, request: ProviderDispatchRequest) => {
+  if (typeof rule.match === "string") {
+    return text.toLowerCase().includes(rule.match.toLowerCase());
+  }
+  if (rule.match instanceof RegExp) {
+    return rule.match.test(text);
+  }
+  return rule.match(text, request);
+};
+
+const words = (text: string) => text.match(/\S+\s*|\s+/g) ?? [];
+
+// JSON has few spaces; slice it so clients still see partial objects
+const slices = (text: string, size = 16) =>
+  Array.from({ length: Math.ceil(text.length / size) }, (_, index) =>
+    text.slice(index * size, (index + 1) * size)
+  );
+
+const toEvents = (reply: MockUpstreamReply, toolIds: () => string) => {
+  const events: Array<Record<string, unknown>> = [];
+
+  if (reply.reasoning) {
+    const reasoningId = "reason_1";
+    events.push({ type: "reason_start", reasoningId });
+    words(reply.reasoning).forEach((reasoningText) =>
+      events.push({ type: "reason_chunk", reasoningId, reasoningText })
+    );
+    events.push({ type: "reason_complete", reasoningId });
+  }
+
+  reply.tools?.forEach((tool) => {
+    const toolId = toolIds();
+    events.push({ type: "tool_start", toolId, toolName: tool.name, args: tool.args });
+    events.push({
+      type: "tool_complete",
+      toolId,
+      toolName: tool.name,
+      args: tool.args,
+      result: tool.result ?? null,
+      ...(tool.durationMs !== undefined && { duration: tool.durationMs })
+    });
+  });
+
+  if (reply.error) {
+    events.push({ type: "error", error: reply.error });
+    return events;
+  }
+
+  const response = reply.action
+    ? JSON.stringify(reply.action)
+    : reply.component
+      ? JSON.stringify({
+          ...(reply.text && { text: reply.text }),
+          component: reply.component.name,
+          props: reply.component.props ?? {}
+        })
+      : reply.text ?? "";
+  const chunks = reply.action || reply.component ? slices(response) : words(response);
+  chunks.forEach((text) => events.push({ type: "step_chunk", text }));
+  events.push({ type: "step_complete", result: { response } });
+  events.push({ type: "flow_complete", success: true });
+  return events;
+};
+
+/**
+ * Provider that answers from scripted rules (or echoes) so the proxy runs
+ * without `TRAVRSE_API_KEY` or network access. `upstream: "mock"` uses it
+ * with the default rules.
+ *
+ * @example
+ * ```ts
+ * createChatProxyApp({
+ *   provider: createMockUpstream({
+ *     rules: [{ match: "pricing", reply: { text: "Plans start at $10/month." } }],
+ *     delayMs: 0
+ *   })
+ * });
+ * ```
+ */
+export const createMockUpstream = (options: MockUpstreamOptions = {}): ChatProvider => {
+  const rules = options.rules ?? DEFAULT_RULES;
+  const fallback = options.fallback ?? echo;
+  const delayMs = options.delayMs ?? 30;
+
+  return {
+    name: "mock",
+    async dispatch(request) {
+      const lastUser = [...request.messages].reverse().find((message) => message.role === "user");
+      const text = lastUser ? contentToText(lastUser.content).trim() : "";
+      const source = rules.find((rule) => matches(rule, text, request))?.reply ?? fallback;
+      const reply = typeof source === "function" ? source(text, request) : source;
+      // Numbered per dispatch so tool ids don't depend on earlier requests
+      let toolCount = 0;
+      const events = toEvents(reply, () => `mock_tool_${++toolCount}`);
+
+      const stream = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          const event = events.shift();
+          if (!event || request.signal?.aborted) {
+            controller.close();
+            return;
+          }
+          if (delayMs > 0) {
+            await new Promise((resolve) => setTimeout(resolve, delayMs));
+          }
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        }
+      });
+      return eventStreamResponse(stream);
+    }
+  };
+};
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createOllamaProvider } from "./ollama.js";
+
+// Split NDJSON into arbitrary byte chunks, as a network would
+const ndjsonResponse = (lines: unknown[], chunkSize = 7) => {
+  const bytes = new TextEncoder().encode(lines.map((line) => `${JSON.stringify(line)}\n`).join(""));
+  return new Response(
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+          controller.enqueue(bytes.slice(offset, offset + chunkSize));
+        }
+        controller.close();
+      }
+    }),
+    { status: 200, headers: { "Content-Type": "application/x-ndjson" } }
+  );
+};
+
+const readEvents = async (response: Response) =>
+  (await response.text())
+    .split("\n\n")
+    .filter((block) => block.startsWith("data: "))
+    .map((block) => JSON.parse(block.slice(6)));
+
+describe("createOllamaProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should translate NDJSON lines split across chunks into Travrse events", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        ndjsonResponse([
+          { message: { role: "assistant", content: "", thinking: "Checking" }, done: false },
+          { message: { role: "assistant", content: "Hi " }, done: false },
+          { message: { role: "assistant", content: "there" }, done: false },
+          {
+            message: {
+              role: "assistant",
+              content: "",
+              tool_calls: [{ function: { name: "lookup", arguments: { q: "x" } } }]
+            },
+            done: false
+          },
+          { message: { role: "assistant", content: "" }, done: true, done_reason: "stop" }
+        ])
+      )
+    );
+    const provider = createOllamaProvider({ model: "llama3.2" });
+    const events = await readEvents(
+      await provider.dispatch({ messages: [{ role: "user", content: "Hello" }] })
+    );
+
+    expect(events).toEqual([
+      { type: "reason_start", reasoningId: "reason_1" },
+      { type: "reason_chunk", reasoningId: "reason_1", reasoningText: "Checking" },
+      { type: "reason_complete", reasoningId: "reason_1" },
+      { type: "step_chunk", text: "Hi " },
+      { type: "step_chunk", text: "there" },
+      { type: "tool_start", toolId: "tool_1", toolName: "lookup" },
+      { type: "tool_start", toolId: "tool_1", toolName: "lookup", args: { q: "x" } },
+      { type: "tool_complete", toolId: "tool_1", toolName: "lookup", args: { q: "x" } },
+      { type: "step_complete", result: { response: "Hi there" } },
+      { type: "flow_complete", success: true }
+    ]);
+  });
+
+  it("should number tool calls per dispatch and report errors", async () => {
+    const toolCall = {
+      message: { role: "assistant", content: "", tool_calls: [{ function: { name: "lookup" } }] },
+      done: true
+    };
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValueOnce(ndjsonResponse([toolCall]))
+        .mockResolvedValueOnce(ndjsonResponse([toolCall]))
+        .mockResolvedValueOnce(ndjsonResponse([{ error: "model not found" }]))
+    );
+    const provider = createOllamaProvider({ model: "llama3.2" });
+    const dispatch = async () =>
+      readEvents(await provider.dispatch({ messages: [{ role: "user", content: "Hi" }] }));
+
+    expect((await dispatch())[0]).toEqual({ type: "tool_start", toolId: "tool_1", toolName: "lookup" });
+    expect((await dispatch())[0]).toEqual({ type: "tool_start", toolId: "tool_1", toolName: "lookup" });
+    expect(await dispatch()).toEqual([{ type: "error", error: "model not found" }]);
+  });
+
+  it("should send client tools and map tool results to tool messages", async () => {
+    const fetchMock = vi.fn(async () => ndjsonResponse([{ done: true }]));
+    vi.stubGlobal("fetch", fetchMock);
+    const provider = createOllamaProvider({ model: "llama3.2", baseUrl: "http://ollama.test/" });
+
+    await provider.dispatch({
+      messages: [
+        { role: "user", content: "Where am I?" },
+        {
+          role: "assistant",
+          content: "",
+          toolCall: { id: "call_1", name: "getPage", args: {}, result: { url: "/cart" } }
+        }
+      ],
+      tools: [{ name: "getPage", description: "Current page" }]
+    });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const body = JSON.parse(init.body as string);
+    expect(url).toBe("http://ollama.test/api/chat");
+    expect(body.tools).toEqual([
+      {
+        type: "function",
+        function: {
+          name: "getPage",
+          description: "Current page",
+          parameters: { type: "object", properties: {} }
+        }
+      }
+    ]);
+    expect(body.messages.slice(1)).toEqual([
+      {
+        role: "assistant",
+        content: "",
+        tool_calls: [{ function: { name: "getPage", arguments: {} } }]
+      },
+      { role: "tool", tool_name: "getPage", content: '{"url":"/cart"}' }
+    ]);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Provider adapter for Ollama's native chat API
+ * Ollama streams newline-delimited JSON rather than SSE.
+ */
+
+import {
+  asArray,
+  asString,
+  contentToText,
+  createProviderStream,
+  eventStreamResponse,
+  imageParts,
+  isRecord,
+  parseDataUri,
+  parseRecordJSON,
+  toolParameters,
+  toolResultText
+} from "./stream.js";
+import type { ChatProvider, ProviderMessage, ProviderTool } from "./types.js";
+
+export interface OllamaProviderOptions {
+  /**
+   * Model name, e.g. "llama3.2"
+   */
+  model: string;
+  /**
+   * Server URL (default: OLLAMA_HOST environment variable or "http://localhost:11434")
+   */
+  baseUrl?: string;
+  /**
+   * System prompt prepended to every conversation
+   */
+  systemPrompt?: string;
+  /**
+   * Model options such as temperature or num_ctx, passed through as-is
+   */
+  modelOptions?: Record<string, unknown>;
+  /**
+   * Ask thinking models to stream their reasoning separately
+   */
+  think?: boolean;
+  /**
+   * Tool definitions passed through to the API
+   */
+  tools?: unknown[];
+  /**
+   * Extra request headers
+   */
+  headers?: Record<string, string>;
+}
+
+const DEFAULT_BASE_URL = "http://localhost:11434";
+
+const toOllamaTool = (tool: ProviderTool) => ({
+  type: "function",
+  function: {
+    name: tool.name,
+    ...(tool.description ? { description: tool.description } : {}),
+    parameters: toolParameters(tool)
+  }
+});
+
+const toOllamaMessages = (message: ProviderMessage): unknown[] => {
+  const { toolCall } = message;
+  if (toolCall) {
+    return [
+      {
+        role: "assistant",
+        content: "",
+        tool_calls: [{ function: { name: toolCall.name, arguments: toolCall.args ?? {} } }]
+      },
+      { role: "tool", tool_name: toolCall.name, content: toolResultText(toolCall.result) }
+    ];
+  }
+  return [toOllamaMessage(message)];
+};
+
+const toOllamaMessage = (message: ProviderMessage) => {
+  // Ollama only accepts raw base64 images; remote image URLs are dropped
+  const images = imageParts(message.content)
+    .map((part) => parseDataUri(part.image)?.data)
+    .filter((data): data is string => Boolean(data));
+  return {
+    role: message.role,
+    content: contentToText(message.content),
+    ...(images.length ? { images } : {})
+  };
+};
+
+/**
+ * Creates a provider for a local Ollama server
+ * @param options - Model and server settings
+ * @returns Chat provider for `ChatProxyOptions.provider`
+ */
+export function createOllamaProvider(options: OllamaProviderOptions): ChatProvider {
+  return {
+    name: "ollama",
+    async dispatch({ messages, tools: clientTools, signal }) {
+      const baseUrl = (options.baseUrl ?? process.env.OLLAMA_HOST ?? DEFAULT_BASE_URL).replace(
+        /\/+$/,
+        ""
+      );
+      const body: Record<string, unknown> = {
+        model: options.model,
+        stream: true,
+        messages: [
+          ...(options.systemPrompt ? [{ role: "system", content: options.systemPrompt }] : []),
+          ...messages.flatMap(toOllamaMessages)
+        ]
+      };
+      if (options.modelOptions) body.options = options.modelOptions;
+      if (options.think !== undefined) body.think = options.think;
+      const tools = [...(options.tools ?? []), ...(clientTools ?? []).map(toOllamaTool)];
+      if (tools.length) body.tools = tools;
+
+      const response = await fetch(`${baseUrl}/api/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...options.headers },
+        body: JSON.stringify(body),
+        signal
+      });
+      if (!response.ok || !response.body) return response;
+
+      let toolCount = 0;
+
+      return eventStreamResponse(
+        createProviderStream(response.body, "ndjson", (record, writer) => {
+          const chunk = parseRecordJSON(record.data);
+          if (!chunk) return;
+          if (chunk.error) {
+            writer.error(String(chunk.error));
+            return;
+          }
+          const message: Record<string, unknown> = isRecord(chunk.message) ? chunk.message : {};
+          if (typeof message.thinking === "string") writer.reasoning(message.thinking);
+          if (typeof message.content === "string") writer.text(message.content);
+          // Tool calls arrive complete rather than as argument deltas
+          for (const call of asArray(message.tool_calls)) {
+            const fn: Record<string, unknown> =
+              isRecord(call) && isRecord(call.function) ? call.function : {};
+            const toolId = `tool_${++toolCount}`;
+            const name = asString(fn.name) ?? "tool";
+            writer.toolStart(toolId, name);
+            writer.toolComplete(toolId, name, fn.arguments);
+          }
+          if (chunk.done) {
+            writer.finish();
+          }
+        })
+      );
+    }
+  };
+}
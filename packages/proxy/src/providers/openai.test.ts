@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createOpenAIProvider } from "./openai.js";
+
+const sseResponse = (chunks: unknown[]) =>
+  new Response(
+    [...chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`), "data: [DONE]\n\n"].join(""),
+    { status: 200, headers: { "Content-Type": "text/event-stream" } }
+  );
+
+const readEvents = async (response: Response) =>
+  (await response.text())
+    .split("\n\n")
+    .filter((block) => block.startsWith("data: "))
+    .map((block) => JSON.parse(block.slice(6)));
+
+describe("createOpenAIProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should translate text, reasoning and tool call deltas into Travrse events", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        sseResponse([
+          { choices: [{ delta: { reasoning_content: "Checking" } }] },
+          { choices: [{ delta: { content: "Hi " } }] },
+          { choices: [{ delta: { content: "there" } }] },
+          {
+            choices: [
+              {
+                delta: {
+                  tool_calls: [{ index: 0, id: "call_1", function: { name: "lookup", arguments: '{"q":' } }]
+                }
+              }
+            ]
+          },
+          { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '"x"}' } }] } }] },
+          { choices: [{ delta: {}, finish_reason: "tool_calls" }] }
+        ])
+      )
+    );
+    const provider = createOpenAIProvider({ model: "gpt-4o-mini", apiKey: "test" });
+    const events = await readEvents(
+      await provider.dispatch({ messages: [{ role: "user", content: "Hello" }] })
+    );
+
+    expect(events.map((event) => event.type)).toEqual([
+      "reason_start",
+      "reason_chunk",
+      "reason_complete",
+      "step_chunk",
+      "step_chunk",
+      "tool_start",
+      "tool_chunk",
+      "tool_chunk",
+      "tool_start",
+      "tool_complete",
+      "step_complete",
+      "flow_complete"
+    ]);
+    expect(events.find((event) => event.type === "tool_complete")).toEqual({
+      type: "tool_complete",
+      toolId: "call_1",
+      toolName: "lookup",
+      args: { q: "x" }
+    });
+    expect(events.find((event) => event.type === "step_complete").result).toEqual({
+      response: "Hi there"
+    });
+  });
+
+  it("should send client tools and map tool results to tool messages", async () => {
+    const fetchMock = vi.fn(async () => sseResponse([]));
+    vi.stubGlobal("fetch", fetchMock);
+    const provider = createOpenAIProvider({ model: "gpt-4o-mini", apiKey: "test" });
+
+    await provider.dispatch({
+      messages: [
+        { role: "user", content: "Where am I?" },
+        {
+          role: "assistant",
+          content: "",
+          toolCall: { id: "call_1", name: "getPage", args: {}, result: { url: "/cart" } }
+        }
+      ],
+      tools: [{ name: "getPage", description: "Current page" }]
+    });
+
+    const body = JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+    expect(body.tools).toEqual([
+      {
+        type: "function",
+        function: {
+          name: "getPage",
+          description: "Current page",
+          parameters: { type: "object", properties: {} }
+        }
+      }
+    ]);
+    expect(body.messages.slice(1)).toEqual([
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          { id: "call_1", type: "function", function: { name: "getPage", arguments: "{}" } }
+        ]
+      },
+      { role: "tool", tool_call_id: "call_1", content: '{"url":"/cart"}' }
+    ]);
+  });
+
+  it("should return the upstream error response untouched", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(JSON.stringify({ error: { message: "Bad key" } }), { status: 401 }))
+    );
+    const provider = createOpenAIProvider({ model: "gpt-4o-mini", apiKey: "test" });
+    const response = await provider.dispatch({ messages: [{ role: "user", content: "Hi" }] });
+
+    expect(response.status).toBe(401);
+  });
+});
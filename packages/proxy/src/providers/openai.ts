@@ -0,0 +1,198 @@
+/**
+ * Provider adapter for OpenAI-compatible chat completions APIs
+ * Works with OpenAI and servers exposing the same `/chat/completions`
+ * streaming format (Azure OpenAI, OpenRouter, Groq, vLLM, LM Studio, ...).
+ */
+
+import {
+  asArray,
+  asString,
+  contentToText,
+  createProviderStream,
+  eventStreamResponse,
+  imageParts,
+  isRecord,
+  parseRecordJSON,
+  parseToolArgs,
+  providerErrorResponse,
+  toolParameters,
+  toolResultText,
+  type TravrseEventWriter
+} from "./stream.js";
+import type { ChatProvider, ProviderMessage, ProviderTool } from "./types.js";
+
+export interface OpenAIProviderOptions {
+  /**
+   * Model name, e.g. "gpt-4o-mini"
+   */
+  model: string;
+  /**
+   * API key (default: OPENAI_API_KEY environment variable).
+   * Optional for local servers that don't check keys.
+   */
+  apiKey?: string;
+  /**
+   * API base URL (default: "https://api.openai.com/v1")
+   */
+  baseUrl?: string;
+  /**
+   * System prompt prepended to every conversation
+   */
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /**
+   * Tool definitions passed through to the API
+   */
+  tools?: unknown[];
+  /**
+   * Extra request headers
+   */
+  headers?: Record<string, string>;
+}
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+const toOpenAITool = (tool: ProviderTool) => ({
+  type: "function",
+  function: {
+    name: tool.name,
+    ...(tool.description ? { description: tool.description } : {}),
+    parameters: toolParameters(tool)
+  }
+});
+
+const toOpenAIMessages = (message: ProviderMessage): unknown[] => {
+  const { toolCall } = message;
+  if (toolCall) {
+    return [
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          {
+            id: toolCall.id,
+            type: "function",
+            function: { name: toolCall.name, arguments: JSON.stringify(toolCall.args ?? {}) }
+          }
+        ]
+      },
+      { role: "tool", tool_call_id: toolCall.id, content: toolResultText(toolCall.result) }
+    ];
+  }
+  return [toOpenAIMessage(message)];
+};
+
+const toOpenAIMessage = (message: ProviderMessage) => {
+  const images = imageParts(message.content);
+  if (!images.length) {
+    return { role: message.role, content: contentToText(message.content) };
+  }
+  const text = contentToText(message.content);
+  return {
+    role: message.role,
+    content: [
+      ...(text ? [{ type: "text", text }] : []),
+      ...images.map((part) => ({ type: "image_url", image_url: { url: part.image } }))
+    ]
+  };
+};
+
+/**
+ * Creates a provider for OpenAI-compatible chat completions
+ * @param options - Model, credentials and request settings
+ * @returns Chat provider for `ChatProxyOptions.provider`
+ */
+export function createOpenAIProvider(options: OpenAIProviderOptions): ChatProvider {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+
+  return {
+    name: "openai",
+    async dispatch({ messages, tools: clientTools, signal }) {
+      const apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+      if (!apiKey && !options.baseUrl) {
+        return providerErrorResponse("Missing API key. Set OPENAI_API_KEY.", 401);
+      }
+
+      const body: Record<string, unknown> = {
+        model: options.model,
+        stream: true,
+        messages: [
+          ...(options.systemPrompt ? [{ role: "system", content: options.systemPrompt }] : []),
+          ...messages.flatMap(toOpenAIMessages)
+        ]
+      };
+      if (options.temperature !== undefined) body.temperature = options.temperature;
+      if (options.maxTokens !== undefined) body.max_tokens = options.maxTokens;
+      const tools = [...(options.tools ?? []), ...(clientTools ?? []).map(toOpenAITool)];
+      if (tools.length) body.tools = tools;
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          ...options.headers
+        },
+        body: JSON.stringify(body),
+        signal
+      });
+      if (!response.ok || !response.body) return response;
+
+      // Tool call deltas arrive by index; the id and name only on the first one
+      const toolCalls = new Map<number, { id: string; name: string; args: string }>();
+      const completeToolCalls = (writer: TravrseEventWriter) => {
+        toolCalls.forEach((call) => writer.toolComplete(call.id, call.name, parseToolArgs(call.args)));
+        toolCalls.clear();
+      };
+
+      return eventStreamResponse(
+        createProviderStream(response.body, "sse", (record, writer) => {
+          if (record.data === "[DONE]") {
+            completeToolCalls(writer);
+            writer.finish();
+            return;
+          }
+          const chunk = parseRecordJSON(record.data);
+          if (!chunk) return;
+          if (chunk.error) {
+            const message = isRecord(chunk.error) ? asString(chunk.error.message) : undefined;
+            writer.error(message ?? String(chunk.error));
+            return;
+          }
+          const choice = asArray(chunk.choices)[0];
+          if (!isRecord(choice)) return;
+          const delta = choice.delta;
+          if (isRecord(delta)) {
+            const reasoning = delta.reasoning_content ?? delta.reasoning;
+            if (typeof reasoning === "string") writer.reasoning(reasoning);
+            if (typeof delta.content === "string") writer.text(delta.content);
+            for (const toolDelta of asArray(delta.tool_calls)) {
+              if (!isRecord(toolDelta)) continue;
+              const index = typeof toolDelta.index === "number" ? toolDelta.index : 0;
+              const fn: Record<string, unknown> = isRecord(toolDelta.function) ? toolDelta.function : {};
+              let call = toolCalls.get(index);
+              if (!call) {
+                call = {
+                  id: asString(toolDelta.id) ?? `tool_${index}`,
+                  name: asString(fn.name) ?? "tool",
+                  args: ""
+                };
+                toolCalls.set(index, call);
+                writer.toolStart(call.id, call.name);
+              }
+              const argsDelta = asString(fn.arguments);
+              if (argsDelta) {
+                call.args += argsDelta;
+                writer.toolChunk(call.id, argsDelta);
+              }
+            }
+          }
+          if (choice.finish_reason) {
+            completeToolCalls(writer);
+          }
+        })
+      );
+    }
+  };
+}
@@ -0,0 +1,271 @@
+/**
+ * Helpers for turning provider streams into Travrse SSE events
+ */
+
+import type { ProviderContentPart, ProviderMessage, ProviderTool } from "./types.js";
+
+export interface TravrseEventWriter {
+  /** Assistant text delta (`step_chunk`) */
+  text(chunk: string): void;
+  /** Reasoning delta; opens a reasoning block on first use (`reason_start` / `reason_chunk`) */
+  reasoning(chunk: string): void;
+  /** Close the open reasoning block, if any (`reason_complete`) */
+  endReasoning(): void;
+  /** Announce a tool call as soon as its name is known (`tool_start`) */
+  toolStart(toolId: string, toolName: string): void;
+  /** Streamed tool call arguments (`tool_chunk`) */
+  toolChunk(toolId: string, text: string): void;
+  /** Finalize a tool call with its parsed arguments (`tool_complete`) */
+  toolComplete(toolId: string, toolName: string, args?: unknown): void;
+  error(message: string): void;
+  /** Emit `step_complete` and `flow_complete` and close the stream */
+  finish(): void;
+}
+
+export type UpstreamFormat = "sse" | "ndjson";
+
+/**
+ * One upstream record: an SSE event (`event` + `data`) or an NDJSON line (`data` only)
+ */
+export type UpstreamRecord = {
+  event?: string;
+  data: string;
+};
+
+const encoder = new TextEncoder();
+
+/**
+ * Parse a JSON tool argument string, keeping the raw text when it is not valid JSON
+ */
+export const parseToolArgs = (raw: string): unknown => {
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const asString = (value: unknown) => (typeof value === "string" ? value : undefined);
+
+export const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+/**
+ * Parse the JSON payload of an upstream record, or null when it isn't a JSON object
+ */
+export const parseRecordJSON = (data: string): Record<string, unknown> | null => {
+  try {
+    const value: unknown = JSON.parse(data);
+    return isRecord(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Serialize a client tool result for the provider's tool result message
+ */
+export const toolResultText = (result: unknown): string =>
+  typeof result === "string" ? result : JSON.stringify(result ?? null);
+
+/**
+ * Arguments schema used when a client tool doesn't declare one
+ */
+export const toolParameters = (tool: ProviderTool) =>
+  tool.parameters ?? { type: "object", properties: {} };
+
+/**
+ * Flatten message content to plain text (attachments become short placeholders)
+ */
+export const contentToText = (content: ProviderMessage["content"]): string => {
+  if (typeof content === "string") return content;
+  return content
+    .map((part) => {
+      if (part.type === "text") return part.text;
+      if (part.type === "file") return `[Attached file: ${part.filename}]`;
+      return "";
+    })
+    .filter(Boolean)
+    .join("\n");
+};
+
+/**
+ * Split a base64 data URI into its media type and payload
+ */
+export const parseDataUri = (value: string) => {
+  const match = /^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s.exec(value);
+  if (!match) return null;
+  return { mediaType: match[1] ?? "application/octet-stream", data: match[2] };
+};
+
+export const imageParts = (content: ProviderMessage["content"]) =>
+  typeof content === "string"
+    ? []
+    : content.filter(
+        (part): part is Extract<ProviderContentPart, { type: "image" }> => part.type === "image"
+      );
+
+const splitSSERecords = (buffer: string) => {
+  const blocks = buffer.split(/\r?\n\r?\n/);
+  const rest = blocks.pop() ?? "";
+  const records: UpstreamRecord[] = [];
+  for (const block of blocks) {
+    let event: string | undefined;
+    const dataLines: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        dataLines.push(line.slice(5).replace(/^ /, ""));
+      }
+    }
+    if (dataLines.length) {
+      records.push({ event, data: dataLines.join("\n") });
+    }
+  }
+  return { records, rest };
+};
+
+const splitNDJSONRecords = (buffer: string) => {
+  const lines = buffer.split(/\r?\n/);
+  const rest = lines.pop() ?? "";
+  return {
+    records: lines.filter((line) => line.trim()).map((data) => ({ data })),
+    rest
+  };
+};
+
+/**
+ * Read an upstream body and map each record to Travrse events through `handle`.
+ * `finish()` is called automatically when the upstream ends without finishing.
+ * @param body - Upstream response body
+ * @param format - `sse` for `event:`/`data:` blocks, `ndjson` for one JSON object per line
+ * @param handle - Maps one upstream record to writer calls
+ * @returns SSE stream for the widget
+ */
+export function createProviderStream(
+  body: ReadableStream<Uint8Array>,
+  format: UpstreamFormat,
+  handle: (record: UpstreamRecord, writer: TravrseEventWriter) => void
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      let text = "";
+      let reasoningCount = 0;
+      let openReasoningId: string | null = null;
+
+      const send = (payload: Record<string, unknown>) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+      };
+
+      const writer: TravrseEventWriter = {
+        text(chunk) {
+          if (!chunk) return;
+          writer.endReasoning();
+          text += chunk;
+          send({ type: "step_chunk", text: chunk });
+        },
+        reasoning(chunk) {
+          if (!chunk) return;
+          if (!openReasoningId) {
+            openReasoningId = `reason_${++reasoningCount}`;
+            send({ type: "reason_start", reasoningId: openReasoningId });
+          }
+          send({ type: "reason_chunk", reasoningId: openReasoningId, reasoningText: chunk });
+        },
+        endReasoning() {
+          if (!openReasoningId) return;
+          send({ type: "reason_complete", reasoningId: openReasoningId });
+          openReasoningId = null;
+        },
+        toolStart(toolId, toolName) {
+          writer.endReasoning();
+          send({ type: "tool_start", toolId, toolName });
+        },
+        toolChunk(toolId, chunk) {
+          if (!chunk) return;
+          send({ type: "tool_chunk", toolId, text: chunk });
+        },
+        toolComplete(toolId, toolName, args) {
+          // Repeat tool_start so the widget picks up the final arguments
+          send({ type: "tool_start", toolId, toolName, args });
+          send({ type: "tool_complete", toolId, toolName, args });
+        },
+        error(message) {
+          send({ type: "error", error: message });
+          closed = true;
+          controller.close();
+        },
+        finish() {
+          writer.endReasoning();
+          send({ type: "step_complete", result: { response: text } });
+          send({ type: "flow_complete", success: true });
+          closed = true;
+          controller.close();
+        }
+      };
+
+      const decoder = new TextDecoder();
+      let buffer = "";
+      const split = format === "sse" ? splitSSERecords : splitNDJSONRecords;
+
+      try {
+        while (!closed) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const { records, rest } = split(buffer);
+          buffer = rest;
+          for (const record of records) {
+            if (closed) break;
+            handle(record, writer);
+          }
+        }
+        if (!closed) {
+          const { records } = split(`${buffer}${format === "sse" ? "\n\n" : "\n"}`);
+          records.forEach((record) => {
+            if (!closed) handle(record, writer);
+          });
+        }
+        if (!closed) writer.finish();
+      } catch (error) {
+        if (!closed) {
+          writer.error(error instanceof Error ? error.message : "Upstream stream failed");
+        }
+      } finally {
+        reader.releaseLock();
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+}
+
+/**
+ * SSE response wrapping a provider stream
+ */
+export const eventStreamResponse = (stream: ReadableStream<Uint8Array>) =>
+  new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-store"
+    }
+  });
+
+/**
+ * JSON error response for requests that never reached the provider
+ */
+export const providerErrorResponse = (error: string, status: number) =>
+  new Response(JSON.stringify({ error }), {
+    status,
+    headers: { "Content-Type": "application/json" }
+  });
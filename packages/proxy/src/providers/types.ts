@@ -0,0 +1,69 @@
+/**
+ * Shared types for LLM provider adapters
+ */
+
+export type ProviderContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; image: string; mimeType?: string }
+  | { type: "file"; data: string; mimeType: string; filename: string };
+
+/**
+ * A tool call made by the model and executed by the client (browser tools)
+ */
+export type ProviderToolCall = {
+  id: string;
+  name: string;
+  args?: unknown;
+  result?: unknown;
+};
+
+/**
+ * A tool the client can execute, as sent in the request's `tools` field
+ */
+export type ProviderTool = {
+  name: string;
+  description?: string;
+  /**
+   * JSON schema of the arguments object
+   */
+  parameters?: Record<string, unknown>;
+};
+
+export type ProviderMessage = {
+  role: string;
+  content: string | ProviderContentPart[];
+  /**
+   * Set on assistant entries that record a client tool call and its result
+   */
+  toolCall?: ProviderToolCall;
+};
+
+export type ProviderDispatchRequest = {
+  /**
+   * Conversation history, oldest first
+   */
+  messages: ProviderMessage[];
+  metadata?: Record<string, unknown>;
+  /**
+   * Tools executed by the client, offered to the model alongside `options.tools`
+   */
+  tools?: ProviderTool[];
+  /**
+   * Aborted when the client disconnects
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * Translates a chat request into a provider API call and the provider's
+ * streaming response into the Travrse event stream the widget parses
+ * (`step_chunk`, `reason_chunk`, `tool_start`, `flow_complete`, ...).
+ */
+export interface ChatProvider {
+  name: string;
+  /**
+   * Returns an SSE response of Travrse events, or the provider's error
+   * response (non-2xx status) when the request was rejected
+   */
+  dispatch(request: ProviderDispatchRequest): Promise<Response>;
+}
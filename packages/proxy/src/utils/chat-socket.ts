@@ -0,0 +1,96 @@
+/**
+ * WebSocket framing for the widget's `transport: "websocket"`
+ * Dispatch streams are forwarded as `{ type: "event", id, data }` frames, one per
+ * SSE event, followed by `{ type: "end", id }`. Streams the server starts on its
+ * own use ids the widget never dispatched.
+ */
+import type { WSContext } from "hono/ws";
+
+/**
+ * A connected widget, handed to `websocket.onConnection`
+ */
+export interface ChatSocketConnection {
+  /**
+   * Send events as one server-initiated stream, in the same vocabulary as
+   * dispatch streams (`step_chunk`, `tool_start`, `flow_complete`, ...)
+   * @returns The stream id
+   */
+  pushEvents(events: Array<Record<string, unknown>>): string;
+  /**
+   * Show a complete assistant message, e.g. a reply from a human agent
+   * @returns The stream id
+   */
+  pushMessage(text: string): string;
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * Send a JSON frame if the socket is still open
+ */
+export const sendSocketFrame = (ws: WSContext, frame: Record<string, unknown>) => {
+  if (ws.readyState === 1) {
+    ws.send(JSON.stringify(frame));
+  }
+};
+
+/**
+ * Wraps a socket so host code can push messages to the widget
+ * @param ws - The socket from Hono's `upgradeWebSocket`
+ * @returns Connection for `websocket.onConnection`
+ */
+export function createChatSocketConnection(ws: WSContext): ChatSocketConnection {
+  let counter = 0;
+
+  const pushEvents = (events: Array<Record<string, unknown>>) => {
+    const id = `push_${Date.now().toString(36)}_${++counter}`;
+    events.forEach((event) => sendSocketFrame(ws, { type: "event", id, event }));
+    sendSocketFrame(ws, { type: "end", id });
+    return id;
+  };
+
+  return {
+    pushEvents,
+    pushMessage: (text) =>
+      pushEvents([
+        { type: "step_chunk", text },
+        { type: "flow_complete", success: true }
+      ]),
+    close: (code, reason) => ws.close(code, reason)
+  };
+}
+
+/**
+ * Read an SSE body and call `onData` with the data of each event.
+ * Stops reading when `signal` aborts.
+ */
+export async function forEachSseData(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const reader = body.getReader();
+  signal?.addEventListener("abort", () => void reader.cancel().catch(() => {}), {
+    once: true
+  });
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = (block: string) => {
+    const data = block
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trimStart())
+      .join("\n");
+    if (data) onData(data);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() ?? "";
+    blocks.forEach(flush);
+  }
+  flush(buffer + decoder.decode());
+}
@@ -0,0 +1,106 @@
+/**
+ * Server-side storage for widget conversations
+ * The state is the widget's stored state (messages, branches, metadata, threads)
+ * and is kept as opaque JSON so the proxy doesn't need to track widget releases.
+ */
+
+export type ConversationState = Record<string, unknown>;
+
+export interface StoredConversation {
+  id: string;
+  state: ConversationState;
+  updatedAt: string;
+}
+
+export interface ConversationStore {
+  get(id: string): Promise<StoredConversation | null>;
+  put(id: string, state: ConversationState): Promise<StoredConversation>;
+  /**
+   * Returns false when the conversation did not exist
+   */
+  delete(id: string): Promise<boolean>;
+}
+
+export interface FileConversationStoreOptions {
+  /**
+   * Directory for conversation files, created on first write
+   */
+  directory: string;
+}
+
+const toRecord = (id: string, state: ConversationState): StoredConversation => ({
+  id,
+  state,
+  updatedAt: new Date().toISOString()
+});
+
+/**
+ * Creates a conversation store that keeps everything in memory.
+ * Data is lost on restart and not shared between instances; use it for development.
+ * @returns Conversation store used by the chat proxy
+ */
+export function createMemoryConversationStore(): ConversationStore {
+  const conversations = new Map<string, StoredConversation>();
+
+  return {
+    async get(id) {
+      return conversations.get(id) ?? null;
+    },
+    async put(id, state) {
+      const record = toRecord(id, state);
+      conversations.set(id, record);
+      return record;
+    },
+    async delete(id) {
+      return conversations.delete(id);
+    }
+  };
+}
+
+/**
+ * Creates a conversation store that writes one JSON file per conversation.
+ * Writes go to a temporary file first and are renamed into place, so a crash
+ * never leaves a half-written conversation behind. Requires a Node.js runtime.
+ * @param options - Directory to store files in
+ * @returns Conversation store used by the chat proxy
+ */
+export function createFileConversationStore(
+  options: FileConversationStoreOptions
+): ConversationStore {
+  const { directory } = options;
+  // Loaded lazily so edge runtimes can bundle the proxy without Node built-ins
+  const fs = () => import("node:fs/promises");
+  const filePath = (id: string) =>
+    `${directory.replace(/[\\/]+$/, "")}/${encodeURIComponent(id)}.json`;
+
+  return {
+    async get(id) {
+      try {
+        const raw = await (await fs()).readFile(filePath(id), "utf8");
+        return JSON.parse(raw) as StoredConversation;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async put(id, state) {
+      const record = toRecord(id, state);
+      const { mkdir, rename, writeFile } = await fs();
+      await mkdir(directory, { recursive: true });
+      const target = filePath(id);
+      const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+      await writeFile(temp, JSON.stringify(record), "utf8");
+      await rename(temp, target);
+      return record;
+    },
+    async delete(id) {
+      try {
+        await (await fs()).rm(filePath(id));
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+        throw error;
+      }
+    }
+  };
+}
@@ -8,3 +8,31 @@ export {
   type CreateCheckoutSessionOptions,
   type CheckoutSessionResponse
 } from "./stripe.js";
+
+export {
+  createStreamBuffer,
+  getRequesterKey,
+  type StreamBuffer,
+  type StreamBufferOptions
+} from "./stream-buffer.js";
+
+export {
+  createMemoryConversationStore,
+  createFileConversationStore,
+  type ConversationStore,
+  type ConversationState,
+  type StoredConversation,
+  type FileConversationStoreOptions
+} from "./conversation-store.js";
+
+export {
+  createToolApprovalQueue,
+  type ToolApprovalQueue,
+  type ToolApprovalQueueOptions,
+  type ToolApprovalDecision
+} from "./tool-approvals.js";
+
+export {
+  createChatSocketConnection,
+  type ChatSocketConnection
+} from "./chat-socket.js";
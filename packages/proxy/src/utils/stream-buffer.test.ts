@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { createStreamBuffer, getRequesterKey } from "./stream-buffer.js";
+
+const encoder = new TextEncoder();
+
+const upstream = (events: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      events.forEach((event) => controller.enqueue(encoder.encode(`data: ${event}\n\n`)));
+      controller.close();
+    }
+  });
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("getRequesterKey", () => {
+  it("should differ when the cookie, authorization or origin differ", async () => {
+    const base = await getRequesterKey(new Headers({ cookie: "a=1", origin: "https://a.example" }));
+
+    expect(await getRequesterKey(new Headers({ cookie: "a=1", origin: "https://a.example" }))).toBe(base);
+    expect(await getRequesterKey(new Headers({ cookie: "a=2", origin: "https://a.example" }))).not.toBe(base);
+    expect(await getRequesterKey(new Headers({ cookie: "a=1", origin: "https://b.example" }))).not.toBe(base);
+    expect(
+      await getRequesterKey(
+        new Headers({ cookie: "a=1", origin: "https://a.example", authorization: "Bearer x" })
+      )
+    ).not.toBe(base);
+  });
+});
+
+describe("createStreamBuffer", () => {
+  it("should tag events with sequential ids and replay after lastEventId", async () => {
+    const buffer = createStreamBuffer();
+    const live = await new Response(buffer.start("d1", upstream(["a", "b", "c"]), "me")).text();
+
+    expect(live).toBe("id: 1\ndata: a\n\nid: 2\ndata: b\n\nid: 3\ndata: c\n\n");
+    expect(await new Response(buffer.resume("d1", "2", "me")).text()).toBe("id: 3\ndata: c\n\n");
+  });
+
+  it("should refuse unknown dispatches and other requesters", async () => {
+    const buffer = createStreamBuffer();
+    await new Response(buffer.start("d1", upstream(["a"]), "me")).text();
+
+    expect(buffer.resume("unknown", "0", "me")).toBeNull();
+    expect(buffer.resume("d1", "0", "someone-else")).toBeNull();
+    expect(buffer.resume("d1", "not-a-number", "me")).toBeNull();
+  });
+
+  it("should evict finished streams after ttlMs", async () => {
+    const buffer = createStreamBuffer({ ttlMs: 10 });
+    await new Response(buffer.start("d1", upstream(["a"]), "me")).text();
+
+    expect(buffer.resume("d1", "0", "me")).not.toBeNull();
+    await wait(30);
+    expect(buffer.resume("d1", "0", "me")).toBeNull();
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * In-memory buffer for resumable SSE streams
+ * The upstream response is consumed independently of the client connection,
+ * so a client that drops mid-stream can reconnect and replay missed events.
+ */
+
+export interface StreamBufferOptions {
+  /**
+   * Maximum number of events kept per dispatch (default: 1000)
+   */
+  bufferSize?: number;
+  /**
+   * How long a finished stream stays available for resume, in ms (default: 60000)
+   */
+  ttlMs?: number;
+}
+
+export interface StreamBuffer {
+  /**
+   * Start buffering an upstream SSE body and return a client stream with `id:` tagged events.
+   * `requester` identifies who started the dispatch (see `getRequesterKey`).
+   */
+  start(
+    dispatchId: string,
+    body: ReadableStream<Uint8Array>,
+    requester: string
+  ): ReadableStream<Uint8Array>;
+  /**
+   * Replay events after `lastEventId` and follow the live stream.
+   * Returns null when the dispatch is unknown, was started by a different
+   * requester, or the missed events were already evicted.
+   */
+  resume(
+    dispatchId: string,
+    lastEventId: string,
+    requester: string
+  ): ReadableStream<Uint8Array> | null;
+  /**
+   * Abort signal for the upstream request of a dispatch, aborted by `cancel`.
+   * Call it before sending the upstream request so a stop that arrives while
+   * the request connects still cancels it.
+   */
+  track(dispatchId: string, requester: string): AbortSignal;
+  /**
+   * Forget a tracked dispatch whose response was never buffered (error responses)
+   */
+  release(dispatchId: string): void;
+  /**
+   * Abort a dispatch's upstream request. Returns false when the dispatch is
+   * unknown, already finished, or was started by a different requester.
+   */
+  cancel(dispatchId: string, requester: string): boolean;
+}
+
+type BufferedEvent = {
+  id: number;
+  text: string;
+};
+
+type TrackedDispatch = {
+  requester: string;
+  controller: AbortController;
+};
+
+type BufferEntry = {
+  requester: string;
+  signal?: AbortSignal;
+  events: BufferedEvent[];
+  nextId: number;
+  done: boolean;
+  listeners: Set<() => void>;
+};
+
+const DEFAULT_BUFFER_SIZE = 1000;
+const DEFAULT_TTL_MS = 60_000;
+
+/**
+ * Fingerprint of the credentials a request carries (Authorization, cookies
+ * and origin). Only the requester that started a dispatch may resume it, so a
+ * leaked or guessed dispatch ID doesn't expose someone else's reply.
+ */
+export async function getRequesterKey(headers: Headers): Promise<string> {
+  const source = ["authorization", "cookie", "origin"]
+    .map((name) => headers.get(name) ?? "")
+    .join("\n");
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(source));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Creates a stream buffer keyed by dispatch ID
+ * @param options - Buffer size and retention settings
+ * @returns Stream buffer used by the chat proxy
+ */
+export function createStreamBuffer(options: StreamBufferOptions = {}): StreamBuffer {
+  const bufferSize = options.bufferSize ?? DEFAULT_BUFFER_SIZE;
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  const entries = new Map<string, BufferEntry>();
+  const tracked = new Map<string, TrackedDispatch>();
+  const encoder = new TextEncoder();
+
+  const notify = (entry: BufferEntry) => {
+    entry.listeners.forEach((listener) => listener());
+  };
+
+  const pushEvent = (entry: BufferEntry, block: string) => {
+    // Replace upstream ids with our own sequence so resume offsets are stable
+    const lines = block.split("\n").filter((line) => !line.startsWith("id:"));
+    if (lines.every((line) => line.trim() === "")) return;
+    const id = entry.nextId++;
+    entry.events.push({ id, text: `id: ${id}\n${lines.join("\n")}\n\n` });
+    if (entry.events.length > bufferSize) {
+      entry.events.shift();
+    }
+    notify(entry);
+  };
+
+  const consume = async (dispatchId: string, entry: BufferEntry, body: ReadableStream<Uint8Array>) => {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+        const blocks = buffer.split("\n\n");
+        buffer = blocks.pop() ?? "";
+        blocks.forEach((block) => pushEvent(entry, block));
+      }
+      if (buffer) pushEvent(entry, buffer);
+    } catch (error) {
+      if (!entry.signal?.aborted) {
+        console.error("[StreamBuffer] Upstream stream error:", error);
+      }
+    } finally {
+      tracked.delete(dispatchId);
+      entry.done = true;
+      notify(entry);
+      setTimeout(() => {
+        if (entries.get(dispatchId) === entry) {
+          entries.delete(dispatchId);
+        }
+      }, ttlMs);
+    }
+  };
+
+  const subscribe = (entry: BufferEntry, afterId: number): ReadableStream<Uint8Array> => {
+    let cursor = afterId;
+    let listener: (() => void) | null = null;
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        const flush = () => {
+          for (const event of entry.events) {
+            if (event.id > cursor) {
+              controller.enqueue(encoder.encode(event.text));
+              cursor = event.id;
+            }
+          }
+          if (entry.done) {
+            entry.listeners.delete(flush);
+            controller.close();
+          }
+        };
+        listener = flush;
+        entry.listeners.add(flush);
+        flush();
+      },
+      cancel() {
+        if (listener) entry.listeners.delete(listener);
+      }
+    });
+  };
+
+  return {
+    start(dispatchId, body, requester) {
+      const entry: BufferEntry = {
+        requester,
+        signal: tracked.get(dispatchId)?.controller.signal,
+        events: [],
+        nextId: 1,
+        done: false,
+        listeners: new Set()
+      };
+      entries.set(dispatchId, entry);
+      void consume(dispatchId, entry, body);
+      return subscribe(entry, 0);
+    },
+    resume(dispatchId, lastEventId, requester) {
+      const entry = entries.get(dispatchId);
+      const afterId = Number(lastEventId);
+      if (!entry || entry.requester !== requester || !Number.isInteger(afterId)) return null;
+      // Events after lastEventId were evicted; a partial replay would corrupt the message
+      const oldest = entry.events[0];
+      if (oldest && oldest.id > afterId + 1) return null;
+      return subscribe(entry, afterId);
+    },
+    track(dispatchId, requester) {
+      const controller = new AbortController();
+      tracked.set(dispatchId, { requester, controller });
+      return controller.signal;
+    },
+    release(dispatchId) {
+      tracked.delete(dispatchId);
+    },
+    cancel(dispatchId, requester) {
+      const dispatch = tracked.get(dispatchId);
+      if (!dispatch || dispatch.requester !== requester) return false;
+      tracked.delete(dispatchId);
+      dispatch.controller.abort();
+      return true;
+    }
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Pending tool call approvals
+ * Server-side tool code waits on `waitForDecision` while the widget shows the
+ * Allow / Deny card; the approvals route resolves it when the user decides.
+ * Nothing in the proxy waits on it by itself; only tool code the host runs does.
+ */
+
+/**
+ * Decision posted by the widget's `approval.url`
+ */
+export type ToolApprovalDecision = {
+  toolCallId: string;
+  toolName?: string;
+  args?: unknown;
+  decision: "allow" | "deny";
+  /**
+   * The user chose "Always allow" for this tool in the conversation
+   */
+  always?: boolean;
+};
+
+export interface ToolApprovalQueueOptions {
+  /**
+   * How long a decision that arrives before anyone waits for it is kept, in ms (default: 60000)
+   */
+  ttlMs?: number;
+}
+
+export interface ToolApprovalQueue {
+  /**
+   * Wait for the user's decision on a tool call. Resolves to null when
+   * `timeoutMs` passes or `signal` aborts first.
+   */
+  waitForDecision(
+    toolCallId: string,
+    options?: { timeoutMs?: number; signal?: AbortSignal }
+  ): Promise<ToolApprovalDecision | null>;
+  /**
+   * Deliver a decision. Returns true when a caller was waiting for it;
+   * otherwise it is kept for a later `waitForDecision`.
+   */
+  resolve(decision: ToolApprovalDecision): boolean;
+}
+
+const DEFAULT_TTL_MS = 60_000;
+
+/**
+ * Creates an in-memory queue of tool approvals keyed by tool call id
+ * @param options - Retention settings for early decisions
+ * @returns Queue for `ChatProxyOptions.approvals`
+ */
+export function createToolApprovalQueue(options: ToolApprovalQueueOptions = {}): ToolApprovalQueue {
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  const waiters = new Map<string, (decision: ToolApprovalDecision | null) => void>();
+  // The user can answer before the server starts waiting (e.g. remembered approvals)
+  const early = new Map<string, ToolApprovalDecision>();
+
+  return {
+    waitForDecision(toolCallId, { timeoutMs, signal } = {}) {
+      const decided = early.get(toolCallId);
+      if (decided) {
+        early.delete(toolCallId);
+        return Promise.resolve(decided);
+      }
+      if (signal?.aborted) return Promise.resolve(null);
+
+      return new Promise((resolve) => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const settle = (decision: ToolApprovalDecision | null) => {
+          if (timer) clearTimeout(timer);
+          signal?.removeEventListener("abort", onAbort);
+          waiters.delete(toolCallId);
+          resolve(decision);
+        };
+        const onAbort = () => settle(null);
+
+        waiters.get(toolCallId)?.(null);
+        waiters.set(toolCallId, settle);
+        signal?.addEventListener("abort", onAbort);
+        if (timeoutMs !== undefined) {
+          timer = setTimeout(() => settle(null), timeoutMs);
+        }
+      });
+    },
+    resolve(decision) {
+      const waiter = waiters.get(decision.toolCallId);
+      if (waiter) {
+        waiter(decision);
+        return true;
+      }
+      early.set(decision.toolCallId, decision);
+      setTimeout(() => {
+        if (early.get(decision.toolCallId) === decision) {
+          early.delete(decision.toolCallId);
+        }
+      }, ttlMs);
+      return false;
+    }
+  };
+}
+
+/**
+ * Which requester each streamed tool call belongs to, so only the user who
+ * saw a tool call can decide on it. Internal to the chat proxy.
+ */
+export interface ToolCallOwners {
+  /**
+   * Pass an SSE body through, recording the `toolId` of each `tool_start` event for `requester`
+   */
+  track(body: ReadableStream<Uint8Array>, requester: string): ReadableStream<Uint8Array>;
+  /**
+   * True when `toolCallId` was streamed to `requester` within the retention window
+   */
+  owns(toolCallId: string, requester: string): boolean;
+}
+
+const TOOL_OWNER_TTL_MS = 60 * 60_000;
+
+export function createToolCallOwners(ttlMs = TOOL_OWNER_TTL_MS): ToolCallOwners {
+  const owners = new Map<string, { requester: string; expiresAt: number }>();
+
+  const record = (block: string, requester: string) => {
+    const data = block
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trimStart())
+      .join("\n");
+    if (!data.includes("tool_start")) return;
+    try {
+      const event = JSON.parse(data) as { type?: unknown; toolId?: unknown };
+      if (event.type === "tool_start" && typeof event.toolId === "string") {
+        owners.set(event.toolId, { requester, expiresAt: Date.now() + ttlMs });
+      }
+    } catch {
+      // Not JSON; nothing to record
+    }
+  };
+
+  return {
+    track(body, requester) {
+      const decoder = new TextDecoder();
+      let buffer = "";
+      return body.pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, controller) {
+            controller.enqueue(chunk);
+            buffer += decoder.decode(chunk, { stream: true }).replace(/\r\n/g, "\n");
+            const blocks = buffer.split("\n\n");
+            buffer = blocks.pop() ?? "";
+            blocks.forEach((block) => record(block, requester));
+          },
+          flush() {
+            if (buffer) record(buffer, requester);
+          }
+        })
+      );
+    },
+    owns(toolCallId, requester) {
+      const owner = owners.get(toolCallId);
+      if (!owner) return false;
+      if (owner.expiresAt <= Date.now()) {
+        owners.delete(toolCallId);
+        return false;
+      }
+      return owner.requester === requester;
+    }
+  };
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { build, type Options } from 'tsup';
+import widgetBuilds from '../tsup.config';
+
+// Only appears in the TypeScript grammar table
+const GRAMMAR_MARKER = 'implements interface keyof namespace';
+
+describe('widget builds', () => {
+  let outDir: string;
+  const read = (file: string) => readFileSync(join(outDir, file), 'utf8');
+
+  beforeAll(async () => {
+    outDir = mkdtempSync(join(tmpdir(), 'vanilla-agent-build-'));
+    for (const options of widgetBuilds as Options[]) {
+      await build({ ...options, outDir, dts: false, sourcemap: false, silent: true, config: false });
+    }
+  }, 120000);
+
+  afterAll(() => {
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('should keep the grammar tables out of the main bundles', () => {
+    for (const file of ['index.js', 'index.cjs', 'index.global.js']) {
+      expect(read(file)).not.toContain(GRAMMAR_MARKER);
+    }
+  });
+
+  it('should emit the grammars as chunks and a script the IIFE build loads', () => {
+    const files = readdirSync(outDir);
+    const esmChunk = files.find((file) => /^syntax-grammars-.+\.js$/.test(file));
+    const cjsChunk = files.find((file) => /^syntax-grammars-.+\.cjs$/.test(file));
+
+    expect(esmChunk && read(esmChunk)).toContain(GRAMMAR_MARKER);
+    expect(cjsChunk && read(cjsChunk)).toContain(GRAMMAR_MARKER);
+    expect(read('index.js')).toContain(`import("./${esmChunk}")`);
+    expect(read('index.cjs')).toContain(`require("./${cjsChunk}")`);
+    expect(read('syntax-grammars.global.js')).toContain(GRAMMAR_MARKER);
+    expect(read('index.global.js')).toContain('syntax-grammars.global.js');
+  });
+});
@@ -385,3 +385,326 @@ describe('AgentWidgetClient - JSON Streaming', () => {
   });
 });
 
+
+describe('AgentWidgetClient - Stream Resume', () => {
+  const encoder = new TextEncoder();
+
+  const chunk = (id: number, text: string) =>
+    `id: ${id}\ndata: {"type":"step_chunk","id":"step_1","text":"${text}"}\n\n`;
+
+  it('should reconnect with Last-Event-ID and skip replayed events', async () => {
+    const requests: Array<{ headers: Record<string, string>; body: any }> = [];
+    global.fetch = vi.fn().mockImplementation(async (_url: string, options: any) => {
+      requests.push({ headers: options.headers, body: JSON.parse(options.body) });
+      if (requests.length === 1) {
+        // First connection drops after two events
+        let sent = false;
+        const stream = new ReadableStream({
+          pull(controller) {
+            if (!sent) {
+              sent = true;
+              controller.enqueue(encoder.encode(chunk(1, 'Hello') + chunk(2, ' there')));
+              return;
+            }
+            controller.error(new TypeError('network error'));
+          }
+        });
+        return { ok: true, body: stream };
+      }
+      const stream = new ReadableStream({
+        start(controller) {
+          controller.enqueue(
+            encoder.encode(
+              chunk(2, ' there') +
+                chunk(3, '!') +
+                'id: 4\ndata: {"type":"flow_complete","success":true}\n\n'
+            )
+          );
+          controller.close();
+        }
+      });
+      return { ok: true, body: stream };
+    });
+
+    const client = new AgentWidgetClient({
+      apiUrl: 'http://localhost:8000',
+      streamResume: { retryDelayMs: 0 }
+    });
+    const events: AgentWidgetEvent[] = [];
+
+    await client.dispatch(
+      { messages: [{ id: 'usr_1', role: 'user', content: 'Hi', createdAt: '2025-01-01T00:00:00.000Z' }] },
+      (event) => events.push(event)
+    );
+
+    expect(requests).toHaveLength(2);
+    expect(requests[0].body.dispatchId).toMatch(/^[0-9a-f-]{32,36}$/);
+    expect(requests[1].body.dispatchId).toBe(requests[0].body.dispatchId);
+    expect(requests[0].headers['Last-Event-ID']).toBeUndefined();
+    expect(requests[1].headers['Last-Event-ID']).toBe('2');
+
+    const messageEvents = events.filter((e) => e.type === 'message');
+    const last = messageEvents[messageEvents.length - 1];
+    expect(last.type === 'message' && last.message.content).toBe('Hello there!');
+    expect(events.some((e) => e.type === 'error')).toBe(false);
+  });
+
+  // Drops after the first two events, then replays the second one on reconnect
+  const mockDroppedStream = (events: string[]) => {
+    const requests: Array<Record<string, string>> = [];
+    global.fetch = vi.fn().mockImplementation(async (_url: string, options: any) => {
+      requests.push(options.headers);
+      if (requests.length === 1) {
+        let sent = false;
+        const stream = new ReadableStream({
+          pull(controller) {
+            if (!sent) {
+              sent = true;
+              controller.enqueue(encoder.encode(events.slice(0, 2).join('')));
+              return;
+            }
+            controller.error(new TypeError('network error'));
+          }
+        });
+        return { ok: true, body: stream };
+      }
+      const stream = new ReadableStream({
+        start(controller) {
+          controller.enqueue(encoder.encode(events.slice(1).join('')));
+          controller.close();
+        }
+      });
+      return { ok: true, body: stream };
+    });
+    return requests;
+  };
+
+  const dispatchText = async (sseFormat: 'openai' | 'ai-sdk') => {
+    const client = new AgentWidgetClient({
+      apiUrl: 'http://localhost:8000',
+      sseFormat,
+      streamResume: { retryDelayMs: 0 }
+    });
+    let content = '';
+    await client.dispatch(
+      { messages: [{ id: 'usr_1', role: 'user', content: 'Hi', createdAt: '2025-01-01T00:00:00.000Z' }] },
+      (event) => {
+        if (event.type === 'message' && event.message.role === 'assistant') content = event.message.content;
+      }
+    );
+    return content;
+  };
+
+  it('should keep event ids through the OpenAI translator', async () => {
+    const delta = (id: number, text: string) =>
+      `id: ${id}\ndata: ${JSON.stringify({ choices: [{ delta: { content: text } }] })}\n\n`;
+    const requests = mockDroppedStream([delta(1, 'Hello'), delta(2, ' there'), delta(3, '!'), 'id: 4\ndata: [DONE]\n\n']);
+
+    expect(await dispatchText('openai')).toBe('Hello there!');
+    expect(requests).toHaveLength(2);
+    expect(requests[1]['Last-Event-ID']).toBe('2');
+  });
+
+  it('should keep event ids through the AI SDK translator', async () => {
+    const delta = (id: number, text: string) =>
+      `id: ${id}\ndata: ${JSON.stringify({ type: 'text-delta', id: 't1', delta: text })}\n\n`;
+    const requests = mockDroppedStream([
+      delta(1, 'Hello'),
+      delta(2, ' there'),
+      delta(3, '!'),
+      `id: 4\ndata: ${JSON.stringify({ type: 'finish' })}\n\n`
+    ]);
+
+    expect(await dispatchText('ai-sdk')).toBe('Hello there!');
+    expect(requests).toHaveLength(2);
+    expect(requests[1]['Last-Event-ID']).toBe('2');
+  });
+
+  it('should surface the error when the server cannot resume', async () => {
+    let calls = 0;
+    global.fetch = vi.fn().mockImplementation(async () => {
+      calls++;
+      if (calls === 1) {
+        let sent = false;
+        const stream = new ReadableStream({
+          pull(controller) {
+            if (!sent) {
+              sent = true;
+              controller.enqueue(encoder.encode(chunk(1, 'Hello')));
+              return;
+            }
+            controller.error(new TypeError('network error'));
+          }
+        });
+        return { ok: true, body: stream };
+      }
+      return { ok: false, status: 410, body: null };
+    });
+
+    const client = new AgentWidgetClient({
+      apiUrl: 'http://localhost:8000',
+      streamResume: { retryDelayMs: 0 }
+    });
+
+    await expect(
+      client.dispatch(
+        { messages: [{ id: 'usr_1', role: 'user', content: 'Hi', createdAt: '2025-01-01T00:00:00.000Z' }] },
+        () => {}
+      )
+    ).rejects.toThrow('network error');
+    expect(calls).toBe(2);
+  });
+
+  it('should ask the proxy to cancel the buffered dispatch when stopped', async () => {
+    const requests: Array<{ headers: Record<string, string>; body: any }> = [];
+    global.fetch = vi.fn().mockImplementation(async (_url: string, options: any) => {
+      requests.push({ headers: options.headers, body: JSON.parse(options.body) });
+      if (requests.length > 1) return { ok: true, body: null };
+      const stream = new ReadableStream({
+        start(controller) {
+          controller.enqueue(encoder.encode(chunk(1, 'Hello')));
+          options.signal.addEventListener('abort', () =>
+            controller.error(new DOMException('Aborted', 'AbortError'))
+          );
+        }
+      });
+      return { ok: true, body: stream };
+    });
+
+    const client = new AgentWidgetClient({
+      apiUrl: 'http://localhost:8000',
+      headers: { Authorization: 'Bearer token' },
+      streamResume: { retryDelayMs: 0 }
+    });
+    const controller = new AbortController();
+    const dispatched = client.dispatch(
+      {
+        messages: [{ id: 'usr_1', role: 'user', content: 'Hi', createdAt: '2025-01-01T00:00:00.000Z' }],
+        signal: controller.signal
+      },
+      (event) => {
+        if (event.type === 'message') controller.abort();
+      }
+    );
+
+    await expect(dispatched).rejects.toThrow();
+    await vi.waitFor(() => expect(requests).toHaveLength(2));
+    expect(requests[1].body).toEqual({
+      messages: [],
+      dispatchId: requests[0].body.dispatchId,
+      cancel: true
+    });
+    expect(requests[1].headers.Authorization).toBe('Bearer token');
+  });
+});
+
+describe('AgentWidgetClient - SSE Formats', () => {
+  const encoder = new TextEncoder();
+  const userMessage: AgentWidgetMessage = {
+    id: 'usr_1',
+    role: 'user',
+    content: 'Hi',
+    createdAt: '2025-01-01T00:00:00.000Z'
+  };
+
+  const streamFrom = (text: string) => {
+    // Split into small pieces so translators see events across chunk boundaries
+    const pieces = text.match(/[\s\S]{1,9}/g) ?? [];
+    global.fetch = vi.fn().mockImplementation(async () => ({
+      ok: true,
+      body: new ReadableStream({
+        start(controller) {
+          pieces.forEach((piece) => controller.enqueue(encoder.encode(piece)));
+          controller.close();
+        }
+      })
+    }));
+  };
+
+  const run = async (sseFormat: 'openai' | 'anthropic' | 'ai-sdk') => {
+    const client = new AgentWidgetClient({ apiUrl: 'http://localhost:8000', sseFormat });
+    const latest = new Map<string, AgentWidgetMessage>();
+    const events: AgentWidgetEvent[] = [];
+    await client.dispatch({ messages: [userMessage] }, (event) => {
+      events.push(event);
+      if (event.type === 'message') latest.set(event.message.id, { ...event.message });
+    });
+    const messages = [...latest.values()];
+    return {
+      events,
+      assistant: messages.find((m) => m.variant !== 'reasoning' && m.variant !== 'tool' && m.role === 'assistant'),
+      reasoning: messages.find((m) => m.variant === 'reasoning'),
+      tool: messages.find((m) => m.variant === 'tool')
+    };
+  };
+
+  it('should map OpenAI chunks to text, reasoning and tool calls', async () => {
+    const chunks = [
+      { choices: [{ delta: { reasoning_content: 'Checking the order' } }] },
+      { choices: [{ delta: { content: 'Looking ' } }] },
+      { choices: [{ delta: { content: 'it up' } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'get_order', arguments: '{"id":' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '42}' } }] }, finish_reason: 'tool_calls' }] }
+    ];
+    streamFrom(chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join('') + 'data: [DONE]\n\n');
+
+    const { assistant, reasoning, tool, events } = await run('openai');
+
+    expect(assistant?.content).toBe('Looking it up');
+    expect(assistant?.streaming).toBe(false);
+    expect(reasoning?.reasoning?.chunks.join('')).toBe('Checking the order');
+    expect(reasoning?.reasoning?.status).toBe('complete');
+    expect(tool?.toolCall).toMatchObject({ id: 'call_1', name: 'get_order', args: { id: 42 }, status: 'complete' });
+    expect(events.some((e) => e.type === 'error')).toBe(false);
+  });
+
+  it('should map Anthropic content blocks', async () => {
+    const events = [
+      ['content_block_start', { type: 'content_block_start', index: 0, content_block: { type: 'thinking' } }],
+      ['content_block_delta', { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'Hmm' } }],
+      ['content_block_stop', { type: 'content_block_stop', index: 0 }],
+      ['content_block_delta', { type: 'content_block_delta', index: 1, delta: { type: 'text_delta', text: 'Hello' } }],
+      ['content_block_start', { type: 'content_block_start', index: 2, content_block: { type: 'tool_use', id: 'toolu_1', name: 'search' } }],
+      ['content_block_delta', { type: 'content_block_delta', index: 2, delta: { type: 'input_json_delta', partial_json: '{"q":"x"}' } }],
+      ['content_block_stop', { type: 'content_block_stop', index: 2 }],
+      ['message_stop', { type: 'message_stop' }]
+    ] as const;
+    streamFrom(events.map(([name, data]) => `event: ${name}\ndata: ${JSON.stringify(data)}\n\n`).join(''));
+
+    const { assistant, reasoning, tool } = await run('anthropic');
+
+    expect(assistant?.content).toBe('Hello');
+    expect(reasoning?.reasoning?.chunks.join('')).toBe('Hmm');
+    expect(tool?.toolCall).toMatchObject({ id: 'toolu_1', name: 'search', args: { q: 'x' }, status: 'complete' });
+  });
+
+  it('should map AI SDK UI message streams and data stream lines', async () => {
+    const parts = [
+      { type: 'reasoning-start', id: 'r1' },
+      { type: 'reasoning-delta', id: 'r1', delta: 'Thinking' },
+      { type: 'reasoning-end', id: 'r1' },
+      { type: 'text-delta', id: 't1', delta: 'Hi ' },
+      { type: 'tool-input-available', toolCallId: 'tc_1', toolName: 'weather', input: { city: 'Oslo' } },
+      { type: 'tool-output-available', toolCallId: 'tc_1', output: { temp: 3 } },
+      { type: 'text-delta', id: 't1', delta: 'there' },
+      { type: 'finish' }
+    ];
+    streamFrom(parts.map((p) => `data: ${JSON.stringify(p)}\n\n`).join('') + 'data: [DONE]\n\n');
+
+    const uiStream = await run('ai-sdk');
+    expect(uiStream.assistant?.content).toBe('Hi there');
+    expect(uiStream.reasoning?.reasoning?.chunks.join('')).toBe('Thinking');
+    expect(uiStream.tool?.toolCall).toMatchObject({
+      id: 'tc_1',
+      name: 'weather',
+      args: { city: 'Oslo' },
+      result: { temp: 3 },
+      status: 'complete'
+    });
+
+    streamFrom('0:"Hello"\n0:" world"\n9:{"toolCallId":"tc_2","toolName":"lookup","args":{}}\na:{"toolCallId":"tc_2","result":"ok"}\nd:{"finishReason":"stop"}\n');
+    const dataStream = await run('ai-sdk');
+    expect(dataStream.assistant?.content).toBe('Hello world');
+    expect(dataStream.tool?.toolCall).toMatchObject({ id: 'tc_2', result: 'ok', status: 'complete' });
+  });
+});
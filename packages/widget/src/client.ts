@@ -6,10 +6,13 @@ import {
   AgentWidgetContextProvider,
   AgentWidgetRequestMiddleware,
   AgentWidgetRequestPayload,
+  AgentWidgetRequestPayloadMessage,
   AgentWidgetCustomFetch,
   AgentWidgetSSEEventParser,
+  AgentWidgetSSEFormat,
   AgentWidgetHeadersFunction,
   AgentWidgetSSEEventResult,
+  AgentWidgetStreamResumeConfig,
   ClientSession,
   ClientInitResponse,
   ClientChatRequest,
@@ -23,6 +26,16 @@ import {
   createRegexJsonParser,
   createXmlParser
 } from "./utils/formatting";
+import { generateDispatchId, generateMessageId } from "./utils/message-id";
+import { createSSEFormatTranslator } from "./utils/sse-formats";
+import { getSessionQuota, readQuotaHeaders } from "./utils/quota";
+import { resolveRequestLocale } from "./utils/i18n";
+import {
+  createWebSocketTransport,
+  getWebSocketOptions,
+  type WebSocketTransport
+} from "./utils/websocket-transport";
+import type { StreamInspectorHooks } from "./utils/inspector";
 
 type DispatchOptions = {
   messages: AgentWidgetMessage[];
@@ -33,6 +46,24 @@ type DispatchOptions = {
 
 type SSEHandler = (event: AgentWidgetEvent) => void;
 
+export type AgentWidgetClientOptions = {
+  /** Socket to reuse across clients; by default one is created when `config.transport` is `"websocket"` */
+  webSocket?: WebSocketTransport;
+  /** Records requests, raw events and parser output for the developer inspector */
+  inspector?: StreamInspectorHooks;
+};
+
+/**
+ * Reopens an interrupted stream, asking the server to replay events after `lastEventId`.
+ * Resolves to null when the server cannot resume the stream.
+ */
+type StreamReconnect = (lastEventId: string) => Promise<ReadableStream<Uint8Array> | null>;
+
+type StreamResumeContext = {
+  reconnect: StreamReconnect;
+  signal: AbortSignal;
+};
+
 const DEFAULT_ENDPOINT = "https://api.travrse.ai/v1/dispatch";
 const DEFAULT_CLIENT_API_BASE = "https://api.travrse.ai";
 
@@ -58,6 +89,25 @@ const hasValidContent = (message: AgentWidgetMessage): boolean => {
   return false;
 };
 
+/**
+ * Normalize streamResume config to full object form
+ */
+const normalizeStreamResumeConfig = (
+  config: boolean | AgentWidgetStreamResumeConfig | undefined
+): Required<AgentWidgetStreamResumeConfig> | null => {
+  if (!config) return null;
+  if (config !== true && config.enabled === false) return null;
+  const options = config === true ? {} : config;
+  return {
+    enabled: true,
+    maxRetries: options.maxRetries ?? 3,
+    retryDelayMs: options.retryDelayMs ?? 500,
+    maxRetryDelayMs: options.maxRetryDelayMs ?? 8000
+  };
+};
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
 /**
  * Maps parserType string to the corresponding parser factory function
  */
@@ -84,13 +134,17 @@ export class AgentWidgetClient {
   private readonly requestMiddleware?: AgentWidgetRequestMiddleware;
   private readonly customFetch?: AgentWidgetCustomFetch;
   private readonly parseSSEEvent?: AgentWidgetSSEEventParser;
+  private readonly sseFormat?: AgentWidgetSSEFormat;
   private readonly getHeaders?: AgentWidgetHeadersFunction;
+  private readonly streamResume: Required<AgentWidgetStreamResumeConfig> | null;
+  private readonly webSocket: WebSocketTransport | null;
+  private readonly inspector?: StreamInspectorHooks;
   
   // Client token mode properties
   private clientSession: ClientSession | null = null;
   private sessionInitPromise: Promise<ClientSession> | null = null;
 
-  constructor(private config: AgentWidgetConfig = {}) {
+  constructor(private config: AgentWidgetConfig = {}, options: AgentWidgetClientOptions = {}) {
     this.apiUrl = config.apiUrl ?? DEFAULT_ENDPOINT;
     this.headers = {
       "Content-Type": "application/json",
@@ -103,7 +157,31 @@ export class AgentWidgetClient {
     this.requestMiddleware = config.requestMiddleware;
     this.customFetch = config.customFetch;
     this.parseSSEEvent = config.parseSSEEvent;
+    this.sseFormat = config.sseFormat;
     this.getHeaders = config.getHeaders;
+    this.streamResume = normalizeStreamResumeConfig(config.streamResume);
+    const webSocketOptions = getWebSocketOptions(config);
+    this.webSocket =
+      options.webSocket ?? (webSocketOptions ? createWebSocketTransport(webSocketOptions) : null);
+    this.inspector = options.inspector;
+  }
+
+  /**
+   * Receive events from streams the server starts over the WebSocket transport,
+   * e.g. a message from a human agent. Returns an unsubscribe function; a no-op
+   * with the fetch transport.
+   */
+  public subscribe(onEvent: SSEHandler): () => void {
+    if (!this.webSocket) return () => {};
+    return this.webSocket.onServerStream((body) => {
+      const dispatchId = `server_${generateMessageId()}`;
+      this.streamResponse(body, onEvent, undefined, undefined, dispatchId).catch((error) => {
+        if (this.debug) {
+          // eslint-disable-next-line no-console
+          console.debug("[AgentWidgetClient] server stream failed", error);
+        }
+      });
+    });
   }
 
   /**
@@ -204,6 +282,9 @@ export class AgentWidgetClient {
         welcomeMessage: data.config.welcome_message,
         placeholder: data.config.placeholder,
         theme: data.config.theme,
+        messageLimit: data.config.message_limit ?? null,
+        remainingMessages: data.config.remaining_messages ?? null,
+        limitResetAt: data.config.limit_reset_at ? new Date(data.config.limit_reset_at) : null,
       },
     };
   }
@@ -399,7 +480,13 @@ export class AgentWidgetClient {
 
     try {
       // Ensure session is initialized
+      const previousSession = this.clientSession;
       const session = await this.initSession();
+      // Limits from /client/init are only current for a new session
+      const sessionQuota = session !== previousSession ? getSessionQuota(session) : null;
+      if (sessionQuota) {
+        onEvent({ type: "quota", quota: sessionQuota });
+      }
 
       // Check if session is about to expire (within 1 minute)
       if (new Date() >= new Date(session.expiresAt.getTime() - 60000)) {
@@ -437,6 +524,11 @@ export class AgentWidgetClient {
         ...(sanitizedMetadata && Object.keys(sanitizedMetadata).length > 0 && { metadata: sanitizedMetadata }),
         ...(basePayload.context && { context: basePayload.context }),
       };
+      const dispatchId = options.assistantMessageId ?? generateMessageId();
+      this.inspector?.onRequest(dispatchId, {
+        url: this.getClientApiUrl('chat'),
+        payload: chatRequest
+      });
 
       if (this.debug) {
         // eslint-disable-next-line no-console
@@ -465,6 +557,10 @@ export class AgentWidgetClient {
         }
         
         if (response.status === 429) {
+          const quota = readQuotaHeaders(response.headers, { exhausted: true });
+          if (quota) {
+            onEvent({ type: "quota", quota });
+          }
           const error = new Error(errorData.hint || 'Message limit reached for this session.');
           onEvent({ type: "error", error });
           throw error;
@@ -481,11 +577,22 @@ export class AgentWidgetClient {
         throw error;
       }
 
+      const quota = readQuotaHeaders(response.headers);
+      if (quota) {
+        onEvent({ type: "quota", quota });
+      }
       onEvent({ type: "status", status: "connected" });
       
       // Stream the response (same SSE handling as proxy mode)
       try {
-        await this.streamResponse(response.body, onEvent, options.assistantMessageId);
+        await this.streamResponse(
+          response.body,
+          onEvent,
+          options.assistantMessageId,
+          // Only the proxy buffers streams for resume; the Travrse API can't replay them
+          undefined,
+          dispatchId
+        );
       } finally {
         onEvent({ type: "status", status: "idle" });
       }
@@ -511,11 +618,15 @@ export class AgentWidgetClient {
     onEvent({ type: "status", status: "connecting" });
 
     const payload = await this.buildPayload(options.messages);
+    if (this.streamResume && !payload.dispatchId) {
+      payload.dispatchId = generateDispatchId();
+    }
 
     if (this.debug) {
       // eslint-disable-next-line no-console
       console.debug("[AgentWidgetClient] dispatch payload", payload);
     }
+    const dispatchId = options.assistantMessageId ?? generateMessageId();
 
     // Build headers - merge static headers with dynamic headers if provided
     let headers = { ...this.headers };
@@ -531,32 +642,59 @@ export class AgentWidgetClient {
       }
     }
 
-    // Use customFetch if provided, otherwise use default fetch
+    // Stopping a resumable dispatch only drops this request; ask the proxy to stop upstream too
+    const resumableDispatchId = this.streamResume && !this.webSocket ? payload.dispatchId : undefined;
+    if (resumableDispatchId) {
+      controller.signal.addEventListener(
+        "abort",
+        () => void this.cancelResumableDispatch(resumableDispatchId, headers),
+        { once: true }
+      );
+    }
+
+    // Use the socket, customFetch if provided, otherwise default fetch
+    const sendRequest = (extraHeaders?: Record<string, string>) => {
+      if (this.webSocket) {
+        return this.webSocket
+          .dispatch(payload, {
+            headers: { ...headers, ...extraHeaders },
+            signal: controller.signal
+          })
+          .then(
+            (body) =>
+              new Response(body, { status: 200, headers: { "Content-Type": "text/event-stream" } })
+          );
+      }
+      const init: RequestInit = {
+        method: "POST",
+        headers: { ...headers, ...extraHeaders },
+        body: JSON.stringify(payload),
+        signal: controller.signal
+      };
+      return this.customFetch
+        ? this.customFetch(this.apiUrl, init, payload)
+        : fetch(this.apiUrl, init);
+    };
+
+    this.inspector?.onRequest(dispatchId, { url: this.apiUrl, payload });
+
     let response: Response;
     if (this.customFetch) {
       try {
-        response = await this.customFetch(
-          this.apiUrl,
-          {
-            method: "POST",
-            headers,
-            body: JSON.stringify(payload),
-            signal: controller.signal
-          },
-          payload
-        );
+        response = await sendRequest();
       } catch (error) {
         const err = error instanceof Error ? error : new Error(String(error));
         onEvent({ type: "error", error: err });
         throw err;
       }
     } else {
-      response = await fetch(this.apiUrl, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(payload),
-        signal: controller.signal
-      });
+      response = await sendRequest();
+    }
+
+    // Rate-limit headers (e.g. from a proxy in front of the backend)
+    const quota = readQuotaHeaders(response.headers, { exhausted: response.status === 429 });
+    if (quota) {
+      onEvent({ type: "quota", quota });
     }
 
     if (!response.ok || !response.body) {
@@ -569,36 +707,127 @@ export class AgentWidgetClient {
 
     onEvent({ type: "status", status: "connected" });
     try {
-      await this.streamResponse(response.body, onEvent);
+      await this.streamResponse(
+        response.body,
+        onEvent,
+        undefined,
+        // A dropped socket fails the turn; there is no Last-Event-ID to resume from
+        this.webSocket ? undefined : this.createResumeContext(controller.signal, sendRequest),
+        dispatchId
+      );
     } finally {
       onEvent({ type: "status", status: "idle" });
     }
   }
 
+  /**
+   * Tell the proxy to abort the upstream work of a buffered dispatch.
+   * Best effort: a failed cancel leaves the dispatch to finish on its own.
+   */
+  private async cancelResumableDispatch(dispatchId: string, headers: Record<string, string>) {
+    const payload: AgentWidgetRequestPayload = { messages: [], dispatchId, cancel: true };
+    const init: RequestInit = {
+      method: "POST",
+      headers,
+      body: JSON.stringify(payload),
+      keepalive: true
+    };
+    try {
+      await (this.customFetch
+        ? this.customFetch(this.apiUrl, init, payload)
+        : fetch(this.apiUrl, init));
+    } catch (error) {
+      if (this.debug) {
+        // eslint-disable-next-line no-console
+        console.debug("[AgentWidgetClient] stream cancel failed", error);
+      }
+    }
+  }
+
+  /**
+   * Build the reconnect hook used by streamResponse when streamResume is enabled.
+   * Re-sends the original request with a `Last-Event-ID` header so the server
+   * can replay the events the client missed.
+   */
+  private createResumeContext(
+    signal: AbortSignal,
+    sendRequest: (extraHeaders?: Record<string, string>) => Promise<Response>
+  ): StreamResumeContext | undefined {
+    if (!this.streamResume) return undefined;
+    return {
+      signal,
+      reconnect: async (lastEventId) => {
+        const response = await sendRequest({ "Last-Event-ID": lastEventId });
+        if (!response.ok || !response.body) {
+          if (this.debug) {
+            // eslint-disable-next-line no-console
+            console.debug("[AgentWidgetClient] stream resume rejected", response.status);
+          }
+          return null;
+        }
+        return response.body;
+      }
+    };
+  }
+
+  /**
+   * Whether a message is a call to one of the configured browser tools
+   * that the model needs to see (with its result) on the next request
+   */
+  private isClientToolCall(message: AgentWidgetMessage): boolean {
+    const name = message.toolCall?.name;
+    return (
+      message.variant === "tool" &&
+      !!name &&
+      (this.config.tools ?? []).some((tool) => tool.name === name)
+    );
+  }
+
   private async buildPayload(
     messages: AgentWidgetMessage[]
   ): Promise<AgentWidgetRequestPayload> {
     // Filter out messages with empty content to prevent validation errors
     const normalizedMessages = messages
       .slice()
-      .filter(hasValidContent)
+      .filter((message) => hasValidContent(message) || this.isClientToolCall(message))
       .sort((a, b) => {
         const timeA = new Date(a.createdAt).getTime();
         const timeB = new Date(b.createdAt).getTime();
         return timeA - timeB;
       })
-      .map((message) => ({
-        role: message.role,
-        // Use contentParts for multi-modal messages, otherwise fall back to string content
-        content: message.contentParts ?? message.rawContent ?? message.content,
-        createdAt: message.createdAt
-      }));
+      .map((message): AgentWidgetRequestPayloadMessage => {
+        if (this.isClientToolCall(message) && message.toolCall) {
+          const { id, name, args, result } = message.toolCall;
+          return {
+            role: "assistant",
+            content: "",
+            createdAt: message.createdAt,
+            toolCall: { id, name: name as string, args, result }
+          };
+        }
+        return {
+          role: message.role,
+          // Use contentParts for multi-modal messages, otherwise fall back to string content
+          content: message.contentParts ?? message.rawContent ?? message.content,
+          createdAt: message.createdAt
+        };
+      });
 
     const payload: AgentWidgetRequestPayload = {
       messages: normalizedMessages,
-      ...(this.config.flowId && { flowId: this.config.flowId })
+      ...(this.config.flowId && { flowId: this.config.flowId }),
+      // Lets the backend answer in the user's language
+      metadata: { locale: resolveRequestLocale(this.config) }
     };
 
+    if (this.config.tools?.length) {
+      payload.tools = this.config.tools.map(({ name, description, parameters }) => ({
+        name,
+        ...(description !== undefined && { description }),
+        ...(parameters !== undefined && { parameters })
+      }));
+    }
+
     if (this.contextProviders.length) {
       const contextAggregate: Record<string, unknown> = {};
       await Promise.all(
@@ -712,12 +941,63 @@ export class AgentWidgetClient {
   private async streamResponse(
     body: ReadableStream<Uint8Array>,
     onEvent: SSEHandler,
-    assistantMessageId?: string
+    assistantMessageId?: string,
+    resume?: StreamResumeContext,
+    /** Groups this stream's events in the developer inspector */
+    dispatchId?: string
   ) {
-    const reader = body.getReader();
-    const decoder = new TextDecoder();
+    const inspector = dispatchId ? this.inspector : undefined;
+    let reader = body.getReader();
+    let decoder = new TextDecoder();
     let buffer = "";
 
+    // Resume tracking: only streams whose events carry ids can be resumed
+    let lastEventId: string | null = null;
+    let streamFinished = false;
+    let reconnectAttempts = 0;
+    let eventsSinceConnect = 0;
+
+    const isReplayedEvent = (eventId: string) => {
+      if (lastEventId === null) return false;
+      const next = Number(eventId);
+      const previous = Number(lastEventId);
+      return Number.isFinite(next) && Number.isFinite(previous) && next <= previous;
+    };
+
+    const resumeStream = async (): Promise<boolean> => {
+      const resumeConfig = this.streamResume;
+      if (!resume || !resumeConfig || lastEventId === null || streamFinished) {
+        return false;
+      }
+      while (reconnectAttempts < resumeConfig.maxRetries && !resume.signal.aborted) {
+        const delay = Math.min(
+          resumeConfig.maxRetryDelayMs,
+          resumeConfig.retryDelayMs * 2 ** reconnectAttempts
+        );
+        reconnectAttempts++;
+        onEvent({ type: "status", status: "connecting" });
+        await wait(delay);
+        if (resume.signal.aborted) return false;
+        try {
+          const nextBody = await resume.reconnect(lastEventId);
+          // The server no longer has the stream; retrying will not help
+          if (!nextBody) return false;
+          reader = nextBody.getReader();
+          decoder = new TextDecoder();
+          buffer = "";
+          eventsSinceConnect = 0;
+          onEvent({ type: "status", status: "connected" });
+          return true;
+        } catch (error) {
+          if (this.debug) {
+            // eslint-disable-next-line no-console
+            console.debug("[AgentWidgetClient] stream resume attempt failed", error);
+          }
+        }
+      }
+      return false;
+    };
+
     const baseSequence = Date.now();
     let sequenceCounter = 0;
     const nextSequence = () => baseSequence + sequenceCounter++;
@@ -974,30 +1254,85 @@ export class AgentWidgetClient {
 
     // Maintain stateful stream parsers per message for incremental parsing
     const streamParsers = new Map<string, AgentWidgetStreamParser>();
+    // With the inspector open, report what the parser extracts from each chunk
+    const createParser = (messageId: string): AgentWidgetStreamParser => {
+      const parser = this.createStreamParser();
+      if (!inspector || !dispatchId) return parser;
+      const record = (input: string, result: Awaited<ReturnType<AgentWidgetStreamParser["processChunk"]>>) => {
+        const output = typeof result === "string" ? result : result?.text ?? null;
+        inspector.onParserOutput(dispatchId, { messageId, input, output });
+      };
+      // Inherit from the parser so markers like __isPlainTextParser still apply
+      const inspected: AgentWidgetStreamParser = Object.create(parser);
+      inspected.processChunk = (content) => {
+        const result = parser.processChunk(content);
+        if (result instanceof Promise) {
+          result.then((value) => record(content, value), () => {});
+        } else {
+          record(content, result);
+        }
+        return result;
+      };
+      inspected.getExtractedText = () => parser.getExtractedText();
+      if (parser.close) {
+        inspected.close = () => parser.close?.();
+      }
+      return inspected;
+    };
     // Track accumulated raw content for structured formats (JSON, XML, etc.)
     const rawContentBuffers = new Map<string, string>();
+    // Provider formats are rewritten into Travrse events before handling
+    const formatTranslator = createSSEFormatTranslator(this.sseFormat);
 
     while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
+      let result: ReadableStreamReadResult<Uint8Array>;
+      try {
+        result = await reader.read();
+      } catch (error) {
+        if (await resumeStream()) continue;
+        throw error;
+      }
+      const { done, value } = result;
+      if (done) {
+        // A resumed stream that closes without new events has nothing left to replay
+        if (reconnectAttempts > 0 && eventsSinceConnect === 0) break;
+        if (await resumeStream()) continue;
+        break;
+      }
 
       buffer += decoder.decode(value, { stream: true });
-      const events = buffer.split("\n\n");
-      buffer = events.pop() ?? "";
+      const rawEvents = buffer.split(formatTranslator?.delimiter ?? "\n\n");
+      buffer = rawEvents.pop() ?? "";
+      if (inspector && dispatchId) {
+        rawEvents.forEach((rawEvent) => inspector.onRawEvent(dispatchId, rawEvent));
+      }
+      const events = formatTranslator
+        ? rawEvents.flatMap((rawEvent) => formatTranslator.translate(rawEvent, isReplayedEvent))
+        : rawEvents;
 
       for (const event of events) {
         const lines = event.split("\n");
         let eventType = "message";
         let data = "";
+        let eventId: string | null = null;
 
         for (const line of lines) {
           if (line.startsWith("event:")) {
             eventType = line.replace("event:", "").trim();
           } else if (line.startsWith("data:")) {
             data += line.replace("data:", "").trim();
+          } else if (line.startsWith("id:")) {
+            eventId = line.replace("id:", "").trim();
           }
         }
 
+        if (eventId) {
+          // Skip events the server replays twice after a reconnect
+          if (isReplayedEvent(eventId)) continue;
+          lastEventId = eventId;
+          eventsSinceConnect++;
+        }
+
         if (!data) continue;
         let payload: any;
         try {
@@ -1209,7 +1544,7 @@ export class AgentWidgetClient {
             
             // Use stream parser to parse
             if (!streamParsers.has(assistant.id)) {
-              streamParsers.set(assistant.id, this.createStreamParser());
+              streamParsers.set(assistant.id, createParser(assistant.id));
             }
             const parser = streamParsers.get(assistant.id)!;
             
@@ -1227,6 +1562,13 @@ export class AgentWidgetClient {
             // If plain text parser, just append the chunk directly
             if (isPlainTextParser) {
               assistant.content += chunk;
+              if (inspector && dispatchId) {
+                inspector.onParserOutput(dispatchId, {
+                  messageId: assistant.id,
+                  input: accumulatedRaw,
+                  output: assistant.content
+                });
+              }
               // Clear any raw buffer/parser since we're in plain text mode
               rawContentBuffers.delete(assistant.id);
               streamParsers.delete(assistant.id);
@@ -1503,6 +1845,7 @@ export class AgentWidgetClient {
             emitMessage(assistant);
           }
         } else if (payloadType === "flow_complete") {
+          streamFinished = true;
           const finalContent = payload.result?.response;
           if (finalContent !== undefined && finalContent !== null) {
             const assistant = ensureAssistantMessage();
@@ -1575,6 +1918,7 @@ export class AgentWidgetClient {
           }
           onEvent({ type: "status", status: "idle" });
         } else if (payloadType === "error" && payload.error) {
+          streamFinished = true;
           onEvent({
             type: "error",
             error:
@@ -2,6 +2,7 @@ import { createElement } from "../utils/dom";
 import { renderLucideIcon } from "../utils/icons";
 import { AgentWidgetConfig, ContentPart } from "../types";
 import { ALL_SUPPORTED_MIME_TYPES } from "../utils/content";
+import { createTranslator } from "../utils/i18n";
 
 export interface ComposerElements {
   footer: HTMLElement;
@@ -10,6 +11,7 @@ export interface ComposerElements {
   textarea: HTMLTextAreaElement;
   sendButton: HTMLButtonElement;
   sendButtonWrapper: HTMLElement;
+  stopButton: HTMLButtonElement;
   micButton: HTMLButtonElement | null;
   micButtonWrapper: HTMLElement | null;
   statusText: HTMLElement;
@@ -63,6 +65,7 @@ const getFontFamilyValue = (
  */
 export const buildComposer = (context: ComposerBuildContext): ComposerElements => {
   const { config } = context;
+  const i18n = createTranslator(config);
 
   const footer = createElement(
     "div",
@@ -83,10 +86,11 @@ export const buildComposer = (context: ComposerBuildContext): ComposerElements =
   composerForm.style.outline = "none";
 
   const textarea = createElement("textarea") as HTMLTextAreaElement;
-  textarea.placeholder = config?.copy?.inputPlaceholder ?? "Type your message…";
+  textarea.placeholder = config?.copy?.inputPlaceholder ?? i18n.t("inputPlaceholder");
   textarea.className =
     "tvw-w-full tvw-min-h-[24px] tvw-resize-none tvw-border-none tvw-bg-transparent tvw-text-sm tvw-text-cw-primary focus:tvw-outline-none focus:tvw-border-none";
   textarea.rows = 1;
+  textarea.setAttribute("aria-label", config?.copy?.inputPlaceholder ?? i18n.t("inputLabel"));
 
   // Apply font family and weight from config
   const fontFamily = config?.theme?.inputFontFamily ?? "sans-serif";
@@ -139,7 +143,7 @@ export const buildComposer = (context: ComposerBuildContext): ComposerElements =
   const useIcon = sendButtonConfig.useIcon ?? false;
   const iconText = sendButtonConfig.iconText ?? "↑";
   const iconName = sendButtonConfig.iconName;
-  const tooltipText = sendButtonConfig.tooltipText ?? "Send message";
+  const tooltipText = sendButtonConfig.tooltipText ?? i18n.t("sendButtonTooltip");
   const showTooltip = sendButtonConfig.showTooltip ?? false;
   const buttonSize = sendButtonConfig.size ?? "40px";
   const backgroundColor = sendButtonConfig.backgroundColor;
@@ -158,7 +162,8 @@ export const buildComposer = (context: ComposerBuildContext): ComposerElements =
   sendButton.type = "submit";
 
   if (useIcon) {
-    // Icon mode: circular button
+    // Icon mode: circular button, named by its tooltip text
+    sendButton.setAttribute("aria-label", tooltipText);
     sendButton.style.width = buttonSize;
     sendButton.style.height = buttonSize;
     sendButton.style.minWidth = buttonSize;
@@ -205,7 +210,7 @@ export const buildComposer = (context: ComposerBuildContext): ComposerElements =
     }
   } else {
     // Text mode: existing behavior
-    sendButton.textContent = config?.copy?.sendButtonLabel ?? "Send";
+    sendButton.textContent = config?.copy?.sendButtonLabel ?? i18n.t("sendButtonLabel");
     if (textColor) {
       sendButton.style.color = textColor;
     } else {
@@ -247,6 +252,28 @@ export const buildComposer = (context: ComposerBuildContext): ComposerElements =
 
   sendButtonWrapper.appendChild(sendButton);
 
+  // Stop button takes the send button's place while a response streams;
+  // cloned so it picks up the same size and colors
+  const stopButton = sendButton.cloneNode(false) as HTMLButtonElement;
+  stopButton.type = "button";
+  stopButton.classList.add("tvw-stop-button");
+  stopButton.style.display = "none";
+  const stopLabel = config?.copy?.stopButtonLabel ?? i18n.t("stopButtonLabel");
+  stopButton.setAttribute("aria-label", stopLabel);
+  stopButton.title = stopLabel;
+  if (useIcon) {
+    const stopIconSize = Math.round((parseFloat(buttonSize) || 40) * 0.45);
+    const stopIcon = renderLucideIcon("square", stopIconSize, "currentColor", 2);
+    if (stopIcon) {
+      stopButton.appendChild(stopIcon);
+    } else {
+      stopButton.textContent = "■";
+    }
+  } else {
+    stopButton.textContent = stopLabel;
+  }
+  sendButtonWrapper.appendChild(stopButton);
+
   // Voice recognition mic button
   const voiceRecognitionConfig = config?.voiceRecognition ?? {};
   const voiceRecognitionEnabled = voiceRecognitionConfig.enabled === true;
@@ -267,7 +294,10 @@ export const buildComposer = (context: ComposerBuildContext): ComposerElements =
     ) as HTMLButtonElement;
 
     micButton.type = "button";
-    micButton.setAttribute("aria-label", "Start voice recognition");
+    micButton.setAttribute(
+      "aria-label",
+      config?.voiceRecognition?.tooltipText ?? i18n.t("voiceTooltip")
+    );
 
     const micIconName = voiceRecognitionConfig.iconName ?? "mic";
     const micIconSize = voiceRecognitionConfig.iconSize ?? buttonSize;
@@ -339,7 +369,7 @@ export const buildComposer = (context: ComposerBuildContext): ComposerElements =
 
     // Add tooltip if enabled
     const micTooltipText =
-      voiceRecognitionConfig.tooltipText ?? "Start voice recognition";
+      voiceRecognitionConfig.tooltipText ?? i18n.t("voiceTooltip");
     const showMicTooltip = voiceRecognitionConfig.showTooltip ?? false;
     if (showMicTooltip && micTooltipText) {
       const tooltip = createElement("div", "tvw-send-button-tooltip");
@@ -370,7 +400,7 @@ export const buildComposer = (context: ComposerBuildContext): ComposerElements =
     attachmentInput.accept = (attachmentsConfig.allowedTypes ?? ALL_SUPPORTED_MIME_TYPES).join(",");
     attachmentInput.multiple = (attachmentsConfig.maxFiles ?? 4) > 1;
     attachmentInput.style.display = "none";
-    attachmentInput.setAttribute("aria-label", "Attach files");
+    attachmentInput.setAttribute("aria-label", i18n.t("attachTooltip"));
 
     // Create attachment button wrapper for tooltip
     attachmentButtonWrapper = createElement("div", "tvw-send-button-wrapper");
@@ -381,7 +411,7 @@ export const buildComposer = (context: ComposerBuildContext): ComposerElements =
       "tvw-rounded-button tvw-flex tvw-items-center tvw-justify-center disabled:tvw-opacity-50 tvw-cursor-pointer tvw-attachment-button"
     ) as HTMLButtonElement;
     attachmentButton.type = "button";
-    attachmentButton.setAttribute("aria-label", attachmentsConfig.buttonTooltipText ?? "Attach file");
+    attachmentButton.setAttribute("aria-label", attachmentsConfig.buttonTooltipText ?? i18n.t("attachTooltip"));
 
     // Default to paperclip icon
     const attachIconName = attachmentsConfig.buttonIconName ?? "paperclip";
@@ -432,7 +462,7 @@ export const buildComposer = (context: ComposerBuildContext): ComposerElements =
     attachmentButtonWrapper.appendChild(attachmentButton);
 
     // Add tooltip if configured
-    const attachTooltipText = attachmentsConfig.buttonTooltipText ?? "Attach file";
+    const attachTooltipText = attachmentsConfig.buttonTooltipText ?? i18n.t("attachTooltip");
     const tooltip = createElement("div", "tvw-send-button-tooltip");
     tooltip.textContent = attachTooltipText;
     attachmentButtonWrapper.appendChild(tooltip);
@@ -501,7 +531,7 @@ export const buildComposer = (context: ComposerBuildContext): ComposerElements =
   const statusConfig = config?.statusIndicator ?? {};
   const isVisible = statusConfig.visible ?? true;
   statusText.style.display = isVisible ? "" : "none";
-  statusText.textContent = statusConfig.idleText ?? "Online";
+  statusText.textContent = statusConfig.idleText ?? i18n.t("statusIdle");
 
   footer.append(suggestions, composerForm, statusText);
 
@@ -512,6 +542,7 @@ export const buildComposer = (context: ComposerBuildContext): ComposerElements =
     textarea,
     sendButton,
     sendButtonWrapper,
+    stopButton,
     micButton,
     micButtonWrapper,
     statusText,
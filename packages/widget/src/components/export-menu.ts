@@ -0,0 +1,73 @@
+import { createElement } from "../utils/dom";
+import { AgentWidgetTranslator } from "../utils/i18n";
+import { AgentWidgetTranscriptFormat } from "../types";
+
+export interface ExportMenuElements {
+  element: HTMLElement;
+  setOpen: (open: boolean) => void;
+  isOpen: () => boolean;
+}
+
+const FORMAT_LABEL_KEYS = {
+  markdown: "exportMarkdown",
+  html: "exportHtml",
+  text: "exportText",
+  json: "exportJson"
+} as const;
+
+/**
+ * Build the transcript export menu. The caller mounts it next to the header
+ * export button; arrow keys move between formats and Escape closes it.
+ */
+export const createExportMenu = (
+  options: { formats: AgentWidgetTranscriptFormat[]; i18n: AgentWidgetTranslator },
+  callbacks: { onSelect: (format: AgentWidgetTranscriptFormat) => void; onClose: () => void }
+): ExportMenuElements => {
+  const element = createElement("div", "tvw-export-menu");
+  element.setAttribute("role", "menu");
+  element.setAttribute("aria-label", options.i18n.t("exportButtonLabel"));
+  element.hidden = true;
+
+  const items = options.formats.map((format) => {
+    const item = createElement("button", "tvw-export-menu-item") as HTMLButtonElement;
+    item.type = "button";
+    item.setAttribute("role", "menuitem");
+    item.setAttribute("data-format", format);
+    item.tabIndex = -1;
+    item.textContent = options.i18n.t(FORMAT_LABEL_KEYS[format]);
+    item.addEventListener("click", () => callbacks.onSelect(format));
+    element.appendChild(item);
+    return item;
+  });
+
+  let open = false;
+
+  const setOpen = (next: boolean) => {
+    open = next;
+    element.hidden = !next;
+    if (next) {
+      items[0]?.focus();
+    }
+  };
+
+  element.addEventListener("keydown", (event) => {
+    const index = items.indexOf(document.activeElement as HTMLButtonElement);
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      const next = index === -1 ? (step === 1 ? 0 : items.length - 1) : index + step;
+      items[(next + items.length) % items.length]?.focus();
+    } else if (event.key === "Escape") {
+      // Keep Escape from also closing the panel
+      event.preventDefault();
+      event.stopPropagation();
+      callbacks.onClose();
+    }
+  });
+
+  return {
+    element,
+    setOpen,
+    isOpen: () => open
+  };
+};
@@ -2,6 +2,8 @@
  * Feedback UI components for CSAT and NPS collection
  */
 
+import { DEFAULT_TRANSLATOR, type AgentWidgetTranslator } from "../utils/i18n";
+
 export type CSATFeedbackOptions = {
   /** Callback when user submits CSAT feedback */
   onSubmit: (rating: number, comment?: string) => void | Promise<void>;
@@ -21,6 +23,8 @@ export type CSATFeedbackOptions = {
   showComment?: boolean;
   /** Rating labels (5 items for ratings 1-5) */
   ratingLabels?: [string, string, string, string, string];
+  /** Default texts (the widget passes its locale's) */
+  i18n?: AgentWidgetTranslator;
 };
 
 export type NPSFeedbackOptions = {
@@ -44,37 +48,32 @@ export type NPSFeedbackOptions = {
   lowLabel?: string;
   /** High label (right side) */
   highLabel?: string;
+  /** Default texts (the widget passes its locale's) */
+  i18n?: AgentWidgetTranslator;
 };
 
-const defaultCSATLabels: [string, string, string, string, string] = [
-  'Very dissatisfied',
-  'Dissatisfied',
-  'Neutral',
-  'Satisfied',
-  'Very satisfied'
-];
-
 /**
  * Create a CSAT (Customer Satisfaction) feedback form
  * Rating scale: 1-5
  */
 export function createCSATFeedback(options: CSATFeedbackOptions): HTMLElement {
+  const i18n = options.i18n ?? DEFAULT_TRANSLATOR;
   const {
     onSubmit,
     onDismiss,
-    title = 'How satisfied are you?',
-    subtitle = 'Please rate your experience',
-    commentPlaceholder = 'Share your thoughts (optional)...',
-    submitText = 'Submit',
-    skipText = 'Skip',
+    title = i18n.t('csatTitle'),
+    subtitle = i18n.t('csatSubtitle'),
+    commentPlaceholder = i18n.t('csatCommentPlaceholder'),
+    submitText = i18n.t('feedbackSubmit'),
+    skipText = i18n.t('feedbackSkip'),
     showComment = true,
-    ratingLabels = defaultCSATLabels,
+    ratingLabels = i18n.list('csatRatingLabels'),
   } = options;
 
   const container = document.createElement('div');
   container.className = 'tvw-feedback-container tvw-feedback-csat';
   container.setAttribute('role', 'dialog');
-  container.setAttribute('aria-label', 'Customer satisfaction feedback');
+  container.setAttribute('aria-label', i18n.t('csatLabel'));
 
   let selectedRating: number | null = null;
 
@@ -102,7 +101,7 @@ export function createCSATFeedback(options: CSATFeedbackOptions): HTMLElement {
   const ratingContainer = document.createElement('div');
   ratingContainer.className = 'tvw-feedback-rating tvw-feedback-rating-csat';
   ratingContainer.setAttribute('role', 'radiogroup');
-  ratingContainer.setAttribute('aria-label', 'Satisfaction rating from 1 to 5');
+  ratingContainer.setAttribute('aria-label', i18n.t('csatRatingGroupLabel'));
 
   const ratingButtons: HTMLButtonElement[] = [];
 
@@ -112,7 +111,10 @@ export function createCSATFeedback(options: CSATFeedbackOptions): HTMLElement {
     ratingButton.className = 'tvw-feedback-rating-btn tvw-feedback-star-btn';
     ratingButton.setAttribute('role', 'radio');
     ratingButton.setAttribute('aria-checked', 'false');
-    ratingButton.setAttribute('aria-label', `${i} star${i > 1 ? 's' : ''}: ${ratingLabels[i - 1]}`);
+    ratingButton.setAttribute(
+      'aria-label',
+      i18n.t('csatRatingButtonLabel', { rating: i, label: ratingLabels[i - 1] })
+    );
     ratingButton.title = ratingLabels[i - 1];
     ratingButton.dataset.rating = String(i);
 
@@ -148,7 +150,7 @@ export function createCSATFeedback(options: CSATFeedbackOptions): HTMLElement {
     commentTextarea.className = 'tvw-feedback-comment';
     commentTextarea.placeholder = commentPlaceholder;
     commentTextarea.rows = 3;
-    commentTextarea.setAttribute('aria-label', 'Additional comments');
+    commentTextarea.setAttribute('aria-label', i18n.t('feedbackCommentLabel'));
     
     commentContainer.appendChild(commentTextarea);
     content.appendChild(commentContainer);
@@ -180,7 +182,7 @@ export function createCSATFeedback(options: CSATFeedbackOptions): HTMLElement {
     }
     
     submitButton.disabled = true;
-    submitButton.textContent = 'Submitting...';
+    submitButton.textContent = i18n.t('feedbackSubmitting');
     
     try {
       const comment = commentTextarea?.value.trim() || undefined;
@@ -208,23 +210,24 @@ export function createCSATFeedback(options: CSATFeedbackOptions): HTMLElement {
  * Rating scale: 0-10
  */
 export function createNPSFeedback(options: NPSFeedbackOptions): HTMLElement {
+  const i18n = options.i18n ?? DEFAULT_TRANSLATOR;
   const {
     onSubmit,
     onDismiss,
-    title = 'How likely are you to recommend us?',
-    subtitle = 'On a scale of 0 to 10',
-    commentPlaceholder = 'What could we do better? (optional)...',
-    submitText = 'Submit',
-    skipText = 'Skip',
+    title = i18n.t('npsTitle'),
+    subtitle = i18n.t('npsSubtitle'),
+    commentPlaceholder = i18n.t('npsCommentPlaceholder'),
+    submitText = i18n.t('feedbackSubmit'),
+    skipText = i18n.t('feedbackSkip'),
     showComment = true,
-    lowLabel = 'Not likely',
-    highLabel = 'Very likely',
+    lowLabel = i18n.t('npsLowLabel'),
+    highLabel = i18n.t('npsHighLabel'),
   } = options;
 
   const container = document.createElement('div');
   container.className = 'tvw-feedback-container tvw-feedback-nps';
   container.setAttribute('role', 'dialog');
-  container.setAttribute('aria-label', 'Net Promoter Score feedback');
+  container.setAttribute('aria-label', i18n.t('npsLabel'));
 
   let selectedRating: number | null = null;
 
@@ -252,7 +255,7 @@ export function createNPSFeedback(options: NPSFeedbackOptions): HTMLElement {
   const ratingContainer = document.createElement('div');
   ratingContainer.className = 'tvw-feedback-rating tvw-feedback-rating-nps';
   ratingContainer.setAttribute('role', 'radiogroup');
-  ratingContainer.setAttribute('aria-label', 'Likelihood rating from 0 to 10');
+  ratingContainer.setAttribute('aria-label', i18n.t('npsRatingGroupLabel'));
 
   // Labels row
   const labelsRow = document.createElement('div');
@@ -281,7 +284,7 @@ export function createNPSFeedback(options: NPSFeedbackOptions): HTMLElement {
     ratingButton.className = 'tvw-feedback-rating-btn tvw-feedback-number-btn';
     ratingButton.setAttribute('role', 'radio');
     ratingButton.setAttribute('aria-checked', 'false');
-    ratingButton.setAttribute('aria-label', `Rating ${i} out of 10`);
+    ratingButton.setAttribute('aria-label', i18n.t('npsRatingButtonLabel', { rating: i }));
     ratingButton.textContent = String(i);
     ratingButton.dataset.rating = String(i);
 
@@ -320,7 +323,7 @@ export function createNPSFeedback(options: NPSFeedbackOptions): HTMLElement {
     commentTextarea.className = 'tvw-feedback-comment';
     commentTextarea.placeholder = commentPlaceholder;
     commentTextarea.rows = 3;
-    commentTextarea.setAttribute('aria-label', 'Additional comments');
+    commentTextarea.setAttribute('aria-label', i18n.t('feedbackCommentLabel'));
     
     commentContainer.appendChild(commentTextarea);
     content.appendChild(commentContainer);
@@ -352,7 +355,7 @@ export function createNPSFeedback(options: NPSFeedbackOptions): HTMLElement {
     }
     
     submitButton.disabled = true;
-    submitButton.textContent = 'Submitting...';
+    submitButton.textContent = i18n.t('feedbackSubmitting');
     
     try {
       const comment = commentTextarea?.value.trim() || undefined;
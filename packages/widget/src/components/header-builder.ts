@@ -1,5 +1,8 @@
 import { createElement } from "../utils/dom";
 import { renderLucideIcon } from "../utils/icons";
+import { createTranslator, AgentWidgetTranslator } from "../utils/i18n";
+import { isSearchEnabled } from "../utils/search";
+import { isTranscriptExportEnabled } from "../utils/transcript";
 import { AgentWidgetConfig } from "../types";
 
 export interface HeaderElements {
@@ -11,6 +14,10 @@ export interface HeaderElements {
   closeButtonWrapper: HTMLElement;
   clearChatButton: HTMLButtonElement | null;
   clearChatButtonWrapper: HTMLElement | null;
+  searchButton: HTMLButtonElement | null;
+  searchButtonWrapper: HTMLElement | null;
+  exportButton: HTMLButtonElement | null;
+  exportButtonWrapper: HTMLElement | null;
 }
 
 export interface HeaderBuildContext {
@@ -20,12 +27,90 @@ export interface HeaderBuildContext {
   onClearChat?: () => void;
 }
 
+const createHeaderActionButton = (
+  iconName: string,
+  label: string,
+  wrapperClassName: string
+): { button: HTMLButtonElement; wrapper: HTMLElement } => {
+  const wrapper = createElement("div", `tvw-relative ${wrapperClassName}`);
+  const button = createElement(
+    "button",
+    "tvw-inline-flex tvw-items-center tvw-justify-center tvw-rounded-full tvw-text-cw-muted hover:tvw-bg-gray-100 tvw-cursor-pointer tvw-border-none"
+  ) as HTMLButtonElement;
+  button.style.height = "32px";
+  button.style.width = "32px";
+  button.type = "button";
+  button.setAttribute("aria-label", label);
+  button.setAttribute("title", label);
+  button.setAttribute("aria-expanded", "false");
+
+  const iconSvg = renderLucideIcon(iconName, "20px", "", 2);
+  if (iconSvg) {
+    button.appendChild(iconSvg);
+  }
+
+  wrapper.appendChild(button);
+  return { button, wrapper };
+};
+
+/**
+ * Build the search button when `config.search` is enabled.
+ * Shared by the header layouts; the widget wires up the click handler.
+ */
+export const buildSearchButton = (
+  config: AgentWidgetConfig | undefined,
+  i18n: AgentWidgetTranslator = createTranslator(config)
+): { searchButton: HTMLButtonElement; searchButtonWrapper: HTMLElement } | null => {
+  if (!isSearchEnabled(config)) return null;
+  const { button, wrapper } = createHeaderActionButton(
+    "search",
+    i18n.t("searchButtonLabel"),
+    "tvw-search-toggle"
+  );
+  return { searchButton: button, searchButtonWrapper: wrapper };
+};
+
+/**
+ * Build the transcript export button when `config.transcriptExport` is enabled.
+ * The widget mounts the export menu inside the wrapper.
+ */
+export const buildExportButton = (
+  config: AgentWidgetConfig | undefined,
+  i18n: AgentWidgetTranslator = createTranslator(config)
+): { exportButton: HTMLButtonElement; exportButtonWrapper: HTMLElement } | null => {
+  if (!isTranscriptExportEnabled(config)) return null;
+  const { button, wrapper } = createHeaderActionButton(
+    "download",
+    i18n.t("exportButtonLabel"),
+    "tvw-export-toggle"
+  );
+  button.setAttribute("aria-haspopup", "menu");
+  return { exportButton: button, exportButtonWrapper: wrapper };
+};
+
+/**
+ * Append the search and export buttons; the first one pushes the header
+ * actions to the end of the row.
+ */
+export const appendLeadingActions = (
+  target: HTMLElement,
+  wrappers: Array<HTMLElement | null | undefined>
+): HTMLElement[] => {
+  const present = wrappers.filter((wrapper): wrapper is HTMLElement => Boolean(wrapper));
+  present.forEach((wrapper, index) => {
+    if (index === 0) wrapper.classList.add("tvw-ml-auto");
+    target.appendChild(wrapper);
+  });
+  return present;
+};
+
 /**
  * Build the header section of the panel.
  * Extracted for reuse and plugin override support.
  */
 export const buildHeader = (context: HeaderBuildContext): HeaderElements => {
   const { config, showClose = true } = context;
+  const i18n = createTranslator(config);
 
   const header = createElement(
     "div",
@@ -75,10 +160,10 @@ export const buildHeader = (context: HeaderBuildContext): HeaderElements => {
 
   const headerCopy = createElement("div", "tvw-flex tvw-flex-col");
   const title = createElement("span", "tvw-text-base tvw-font-semibold");
-  title.textContent = config?.launcher?.title ?? "Chat Assistant";
+  title.textContent = config?.launcher?.title ?? i18n.t("launcherTitle");
   const subtitle = createElement("span", "tvw-text-xs tvw-text-cw-muted");
   subtitle.textContent =
-    config?.launcher?.subtitle ?? "Here to help you get answers fast";
+    config?.launcher?.subtitle ?? i18n.t("launcherSubtitle");
 
   headerCopy.append(title, subtitle);
 
@@ -89,6 +174,13 @@ export const buildHeader = (context: HeaderBuildContext): HeaderElements => {
     header.append(headerCopy);
   }
 
+  // Search and export come first among the header actions and take the ml-auto
+  const search = buildSearchButton(config, i18n);
+  const transcriptExport = buildExportButton(config, i18n);
+  const hasLeadingActions =
+    appendLeadingActions(header, [search?.searchButtonWrapper, transcriptExport?.exportButtonWrapper])
+      .length > 0;
+
   // Create clear chat button if enabled
   const clearChatConfig = launcher.clearChat ?? {};
   const clearChatEnabled = clearChatConfig.enabled ?? true;
@@ -106,7 +198,7 @@ export const buildHeader = (context: HeaderBuildContext): HeaderElements => {
     const clearChatBorderRadius = clearChatConfig.borderRadius ?? "";
     const clearChatPaddingX = clearChatConfig.paddingX ?? "";
     const clearChatPaddingY = clearChatConfig.paddingY ?? "";
-    const clearChatTooltipText = clearChatConfig.tooltipText ?? "Clear chat";
+    const clearChatTooltipText = clearChatConfig.tooltipText ?? i18n.t("clearChatTooltip");
     const clearChatShowTooltip = clearChatConfig.showTooltip ?? true;
 
     // Create button wrapper for tooltip - positioned based on placement
@@ -116,7 +208,9 @@ export const buildHeader = (context: HeaderBuildContext): HeaderElements => {
       "div",
       clearChatPlacement === "top-right"
         ? "tvw-absolute tvw-top-4 tvw-z-50"
-        : "tvw-relative tvw-ml-auto tvw-clear-chat-button-wrapper"
+        : hasLeadingActions
+          ? "tvw-relative tvw-clear-chat-button-wrapper"
+          : "tvw-relative tvw-ml-auto tvw-clear-chat-button-wrapper"
     );
 
     // Position to the left of the close button (which is at right: 1rem/16px)
@@ -255,12 +349,12 @@ export const buildHeader = (context: HeaderBuildContext): HeaderElements => {
   }
 
   // Create close button wrapper for tooltip positioning
-  // Only needs ml-auto if clear chat is disabled or top-right positioned
+  // Only needs ml-auto if no search/export button or inline clear chat precedes it
   const closeButtonWrapper = createElement(
     "div",
     closeButtonPlacement === "top-right"
       ? "tvw-absolute tvw-top-4 tvw-right-4 tvw-z-50"
-      : clearChatEnabled && clearChatPlacement === "inline"
+      : hasLeadingActions || (clearChatEnabled && clearChatPlacement === "inline")
         ? ""
         : "tvw-ml-auto"
   );
@@ -275,7 +369,7 @@ export const buildHeader = (context: HeaderBuildContext): HeaderElements => {
   closeButton.type = "button";
 
   // Get tooltip config
-  const closeButtonTooltipText = launcher.closeButtonTooltipText ?? "Close chat";
+  const closeButtonTooltipText = launcher.closeButtonTooltipText ?? i18n.t("closeButtonTooltip");
   const closeButtonShowTooltip = launcher.closeButtonShowTooltip ?? true;
 
   closeButton.setAttribute("aria-label", closeButtonTooltipText);
@@ -417,7 +511,11 @@ export const buildHeader = (context: HeaderBuildContext): HeaderElements => {
     closeButton,
     closeButtonWrapper,
     clearChatButton,
-    clearChatButtonWrapper
+    clearChatButtonWrapper,
+    searchButton: search?.searchButton ?? null,
+    searchButtonWrapper: search?.searchButtonWrapper ?? null,
+    exportButton: transcriptExport?.exportButton ?? null,
+    exportButtonWrapper: transcriptExport?.exportButtonWrapper ?? null
   };
 };
 
@@ -1,7 +1,15 @@
 import { createElement } from "../utils/dom";
 import { renderLucideIcon } from "../utils/icons";
+import { createTranslator } from "../utils/i18n";
 import { AgentWidgetConfig, AgentWidgetHeaderLayoutConfig } from "../types";
-import { buildHeader, HeaderElements, attachHeaderToContainer } from "./header-builder";
+import {
+  buildHeader,
+  buildSearchButton,
+  buildExportButton,
+  appendLeadingActions,
+  HeaderElements,
+  attachHeaderToContainer
+} from "./header-builder";
 
 export interface HeaderLayoutContext {
   config: AgentWidgetConfig;
@@ -32,6 +40,7 @@ export const buildDefaultHeader: HeaderLayoutRenderer = (context) => {
 export const buildMinimalHeader: HeaderLayoutRenderer = (context) => {
   const { config, showClose = true, onClose } = context;
   const launcher = config?.launcher ?? {};
+  const i18n = createTranslator(config);
 
   const header = createElement(
     "div",
@@ -40,7 +49,7 @@ export const buildMinimalHeader: HeaderLayoutRenderer = (context) => {
 
   // Title only (no icon, no subtitle)
   const title = createElement("span", "tvw-text-base tvw-font-semibold");
-  title.textContent = launcher.title ?? "Chat Assistant";
+  title.textContent = launcher.title ?? i18n.t("launcherTitle");
 
   header.appendChild(title);
 
@@ -55,7 +64,10 @@ export const buildMinimalHeader: HeaderLayoutRenderer = (context) => {
   closeButton.style.height = closeButtonSize;
   closeButton.style.width = closeButtonSize;
   closeButton.type = "button";
-  closeButton.setAttribute("aria-label", "Close chat");
+  closeButton.setAttribute(
+    "aria-label",
+    launcher.closeButtonTooltipText ?? i18n.t("closeButtonTooltip")
+  );
   closeButton.style.display = showClose ? "" : "none";
 
   const closeButtonIconName = launcher.closeButtonIconName ?? "x";
@@ -76,6 +88,9 @@ export const buildMinimalHeader: HeaderLayoutRenderer = (context) => {
   }
 
   closeButtonWrapper.appendChild(closeButton);
+  const search = buildSearchButton(config, i18n);
+  const transcriptExport = buildExportButton(config, i18n);
+  appendLeadingActions(header, [search?.searchButtonWrapper, transcriptExport?.exportButtonWrapper]);
   header.appendChild(closeButtonWrapper);
 
   // Create placeholder elements for compatibility
@@ -92,7 +107,11 @@ export const buildMinimalHeader: HeaderLayoutRenderer = (context) => {
     closeButton,
     closeButtonWrapper,
     clearChatButton: null,
-    clearChatButtonWrapper: null
+    clearChatButtonWrapper: null,
+    searchButton: search?.searchButton ?? null,
+    searchButtonWrapper: search?.searchButtonWrapper ?? null,
+    exportButton: transcriptExport?.exportButton ?? null,
+    exportButtonWrapper: transcriptExport?.exportButtonWrapper ?? null
   };
 };
 
@@ -103,6 +122,7 @@ export const buildMinimalHeader: HeaderLayoutRenderer = (context) => {
 export const buildExpandedHeader: HeaderLayoutRenderer = (context) => {
   const { config, showClose = true, onClose, onClearChat } = context;
   const launcher = config?.launcher ?? {};
+  const i18n = createTranslator(config);
 
   const header = createElement(
     "div",
@@ -148,9 +168,9 @@ export const buildExpandedHeader: HeaderLayoutRenderer = (context) => {
   // Title and subtitle
   const headerCopy = createElement("div", "tvw-flex tvw-flex-col tvw-flex-1");
   const title = createElement("span", "tvw-text-lg tvw-font-semibold");
-  title.textContent = launcher.title ?? "Chat Assistant";
+  title.textContent = launcher.title ?? i18n.t("launcherTitle");
   const subtitle = createElement("span", "tvw-text-sm tvw-text-cw-muted");
-  subtitle.textContent = launcher.subtitle ?? "Here to help you get answers fast";
+  subtitle.textContent = launcher.subtitle ?? i18n.t("launcherSubtitle");
   headerCopy.append(title, subtitle);
 
   topRow.append(iconHolder, headerCopy);
@@ -166,7 +186,10 @@ export const buildExpandedHeader: HeaderLayoutRenderer = (context) => {
   closeButton.style.height = closeButtonSize;
   closeButton.style.width = closeButtonSize;
   closeButton.type = "button";
-  closeButton.setAttribute("aria-label", "Close chat");
+  closeButton.setAttribute(
+    "aria-label",
+    launcher.closeButtonTooltipText ?? i18n.t("closeButtonTooltip")
+  );
   closeButton.style.display = showClose ? "" : "none";
 
   const closeButtonIconName = launcher.closeButtonIconName ?? "x";
@@ -187,6 +210,9 @@ export const buildExpandedHeader: HeaderLayoutRenderer = (context) => {
   }
 
   closeButtonWrapper.appendChild(closeButton);
+  const search = buildSearchButton(config, i18n);
+  const transcriptExport = buildExportButton(config, i18n);
+  appendLeadingActions(topRow, [search?.searchButtonWrapper, transcriptExport?.exportButtonWrapper]);
   topRow.appendChild(closeButtonWrapper);
 
   header.appendChild(topRow);
@@ -196,7 +222,7 @@ export const buildExpandedHeader: HeaderLayoutRenderer = (context) => {
     "div",
     "tvw-mt-3 tvw-pt-3 tvw-border-t tvw-border-gray-100 tvw-text-xs tvw-text-cw-muted"
   );
-  bottomRow.textContent = "Online and ready to help";
+  bottomRow.textContent = i18n.t("headerStatus");
   header.appendChild(bottomRow);
 
   return {
@@ -207,7 +233,11 @@ export const buildExpandedHeader: HeaderLayoutRenderer = (context) => {
     closeButton,
     closeButtonWrapper,
     clearChatButton: null,
-    clearChatButtonWrapper: null
+    clearChatButtonWrapper: null,
+    searchButton: search?.searchButton ?? null,
+    searchButtonWrapper: search?.searchButtonWrapper ?? null,
+    exportButton: transcriptExport?.exportButton ?? null,
+    exportButtonWrapper: transcriptExport?.exportButtonWrapper ?? null
   };
 };
 
@@ -263,7 +293,11 @@ export const buildHeaderWithLayout = (
       closeButton,
       closeButtonWrapper,
       clearChatButton: null,
-      clearChatButtonWrapper: null
+      clearChatButtonWrapper: null,
+      searchButton: null,
+      searchButtonWrapper: null,
+      exportButton: null,
+      exportButtonWrapper: null
     };
   }
 
@@ -0,0 +1,231 @@
+import { createElement } from "../utils/dom";
+import { renderLucideIcon } from "../utils/icons";
+import type { InspectorDispatch, InspectorStore } from "../utils/inspector";
+
+type InspectorTab = "events" | "request" | "parser" | "actions" | "metadata";
+
+const TABS: Array<{ id: InspectorTab; label: string }> = [
+  { id: "events", label: "Events" },
+  { id: "request", label: "Request" },
+  { id: "parser", label: "Parser" },
+  { id: "actions", label: "Actions" },
+  { id: "metadata", label: "Metadata" }
+];
+
+export interface InspectorPanel {
+  toggleButton: HTMLButtonElement;
+  panel: HTMLElement;
+  setOpen: (open: boolean) => void;
+  isOpen: () => boolean;
+  destroy: () => void;
+}
+
+const createIconButton = (iconName: string, label: string, className: string) => {
+  const button = createElement("button", className) as HTMLButtonElement;
+  button.type = "button";
+  button.setAttribute("aria-label", label);
+  button.setAttribute("title", label);
+  const icon = renderLucideIcon(iconName, 16, "currentColor", 2);
+  if (icon) {
+    button.appendChild(icon);
+  }
+  return button;
+};
+
+const json = (value: unknown) => {
+  try {
+    return JSON.stringify(value, null, 2) ?? "undefined";
+  } catch {
+    return String(value);
+  }
+};
+
+const offset = (dispatch: InspectorDispatch, at: number) => `+${at - dispatch.startedAt}ms`;
+
+const formatTab = (
+  tab: InspectorTab,
+  dispatch: InspectorDispatch | undefined,
+  metadata: Record<string, unknown>
+): string => {
+  if (tab === "metadata") return json(metadata);
+  if (!dispatch) return "No dispatches yet. Send a message to record one.";
+
+  const truncated = dispatch.truncated
+    ? `\n\n… ${dispatch.truncated} more entries were dropped`
+    : "";
+  switch (tab) {
+    case "events":
+      return dispatch.events.length
+        ? dispatch.events.map((entry) => `[${offset(dispatch, entry.at)}]\n${entry.raw}`).join("\n\n") +
+            truncated
+        : "No events received.";
+    case "request":
+      return dispatch.request === undefined
+        ? "Started by the server; there is no request."
+        : `POST ${dispatch.url ?? ""}\n\n${json(dispatch.request)}`;
+    case "parser":
+      return dispatch.parser.length
+        ? dispatch.parser
+            .map(
+              (entry) =>
+                `[${offset(dispatch, entry.at)}] ${entry.messageId}\n  in:  ${entry.delta ? "+ " : ""}${entry.input}\n  out: ${entry.delta && entry.output !== null ? "+ " : ""}${entry.output ?? "(nothing yet)"}`
+            )
+            .join("\n\n") + truncated
+        : "The stream parser produced no output.";
+    case "actions":
+      return dispatch.actions.length ? json(dispatch.actions) : "No actions detected.";
+  }
+};
+
+/**
+ * Developer overlay listing what each dispatch sent and received.
+ * The panel overlays the message area; the caller mounts both elements.
+ */
+export const createInspectorPanel = (
+  store: InspectorStore,
+  options: {
+    getMetadata: () => Record<string, unknown>;
+    /** Extra fields for the exported JSON, e.g. the messages */
+    getExportData?: () => Record<string, unknown>;
+  }
+): InspectorPanel => {
+  const toggleButton = createIconButton(
+    "bug",
+    "Open inspector",
+    "tvw-inline-flex tvw-items-center tvw-justify-center tvw-rounded-full tvw-text-cw-muted hover:tvw-bg-gray-100 tvw-cursor-pointer tvw-border-none"
+  );
+  toggleButton.style.height = "32px";
+  toggleButton.style.width = "32px";
+  toggleButton.setAttribute("aria-expanded", "false");
+
+  const panel = createElement("div", "tvw-inspector");
+  panel.setAttribute("role", "region");
+  panel.setAttribute("aria-label", "Inspector");
+  panel.hidden = true;
+
+  const header = createElement("div", "tvw-inspector-header");
+  const heading = createElement("span", "tvw-text-sm tvw-font-semibold tvw-text-cw-primary");
+  heading.textContent = "Inspector";
+  const dispatchSelect = createElement("select", "tvw-inspector-select") as HTMLSelectElement;
+  dispatchSelect.setAttribute("aria-label", "Dispatch");
+  const exportButton = createIconButton("download", "Export as JSON", "tvw-message-action-btn");
+  const clearButton = createIconButton("trash-2", "Clear recordings", "tvw-message-action-btn");
+  const closeButton = createIconButton("x", "Close inspector", "tvw-message-action-btn");
+  const headerActions = createElement("div", "tvw-flex tvw-items-center tvw-gap-1");
+  headerActions.append(exportButton, clearButton, closeButton);
+  header.append(heading, dispatchSelect, headerActions);
+
+  const tabList = createElement("div", "tvw-inspector-tabs");
+  tabList.setAttribute("role", "tablist");
+  const tabButtons = TABS.map(({ id, label }) => {
+    const button = createElement("button", "tvw-inspector-tab") as HTMLButtonElement;
+    button.type = "button";
+    button.setAttribute("role", "tab");
+    button.setAttribute("data-tab", id);
+    button.textContent = label;
+    tabList.appendChild(button);
+    return button;
+  });
+
+  const log = createElement("pre", "tvw-inspector-log");
+  log.setAttribute("role", "tabpanel");
+  log.tabIndex = 0;
+  panel.append(header, tabList, log);
+
+  let open = false;
+  let activeTab: InspectorTab = "events";
+  // null follows the latest dispatch
+  let selectedId: string | null = null;
+  let renderTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const render = () => {
+    const dispatches = store.getDispatches();
+    const current =
+      dispatches.find((dispatch) => dispatch.id === selectedId) ?? dispatches[dispatches.length - 1];
+
+    dispatchSelect.innerHTML = "";
+    [...dispatches].reverse().forEach((dispatch) => {
+      const option = createElement("option") as HTMLOptionElement;
+      option.value = dispatch.id;
+      option.textContent = `${new Date(dispatch.startedAt).toLocaleTimeString()} · ${dispatch.id}`;
+      option.selected = dispatch === current;
+      dispatchSelect.appendChild(option);
+    });
+    dispatchSelect.disabled = dispatches.length === 0;
+
+    tabButtons.forEach((button) => {
+      button.setAttribute("aria-selected", String(button.getAttribute("data-tab") === activeTab));
+    });
+    log.textContent = formatTab(activeTab, current, options.getMetadata());
+  };
+
+  // Streams report many events; redraw at most every 100ms
+  const scheduleRender = () => {
+    if (!open || renderTimer) return;
+    renderTimer = setTimeout(() => {
+      renderTimer = null;
+      if (open) render();
+    }, 100);
+  };
+  const unsubscribe = store.subscribe(scheduleRender);
+
+  const setOpen = (next: boolean) => {
+    open = next;
+    panel.hidden = !next;
+    toggleButton.setAttribute("aria-expanded", String(next));
+    if (next) render();
+  };
+
+  const exportJson = () => {
+    const data = store.toJSON({
+      metadata: options.getMetadata(),
+      ...options.getExportData?.()
+    });
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `vanilla-agent-inspector-${Date.now()}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  toggleButton.addEventListener("click", () => setOpen(!open));
+  closeButton.addEventListener("click", () => setOpen(false));
+  clearButton.addEventListener("click", () => {
+    selectedId = null;
+    store.clear();
+    render();
+  });
+  exportButton.addEventListener("click", exportJson);
+  dispatchSelect.addEventListener("change", () => {
+    const dispatches = store.getDispatches();
+    const latest = dispatches[dispatches.length - 1];
+    selectedId = dispatchSelect.value === latest?.id ? null : dispatchSelect.value;
+    render();
+  });
+  tabButtons.forEach((button) => {
+    button.addEventListener("click", () => {
+      activeTab = button.getAttribute("data-tab") as InspectorTab;
+      render();
+    });
+  });
+  panel.addEventListener("keydown", (event) => {
+    if (event.key === "Escape") {
+      event.stopPropagation();
+      setOpen(false);
+      toggleButton.focus();
+    }
+  });
+
+  return {
+    toggleButton,
+    panel,
+    setOpen,
+    isOpen: () => open,
+    destroy: () => {
+      unsubscribe();
+      if (renderTimer) clearTimeout(renderTimer);
+    }
+  };
+};
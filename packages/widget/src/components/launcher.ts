@@ -1,6 +1,7 @@
 import { createElement } from "../utils/dom";
 import { AgentWidgetConfig } from "../types";
-import { positionMap } from "../utils/positioning";
+import { positionMap, resolveLauncherPosition } from "../utils/positioning";
+import { createTranslator } from "../utils/i18n";
 import { renderLucideIcon } from "../utils/icons";
 
 export interface LauncherButton {
@@ -28,15 +29,16 @@ export const createLauncherButton = (
 
   const update = (newConfig: AgentWidgetConfig) => {
     const launcher = newConfig.launcher ?? {};
+    const i18n = createTranslator(newConfig);
 
     const titleEl = button.querySelector("[data-role='launcher-title']");
     if (titleEl) {
-      titleEl.textContent = launcher.title ?? "Chat Assistant";
+      titleEl.textContent = launcher.title ?? i18n.t("launcherTitle");
     }
 
     const subtitleEl = button.querySelector("[data-role='launcher-subtitle']");
     if (subtitleEl) {
-      subtitleEl.textContent = launcher.subtitle ?? "Get answers fast";
+      subtitleEl.textContent = launcher.subtitle ?? i18n.t("launcherSubtitle");
     }
 
     // Hide/show text container
@@ -153,10 +155,7 @@ export const createLauncherButton = (
       }
     }
 
-    const positionClass =
-      launcher.position && positionMap[launcher.position]
-        ? positionMap[launcher.position]
-        : positionMap["bottom-right"];
+    const positionClass = positionMap[resolveLauncherPosition(newConfig)];
 
     // Removed hardcoded border/shadow classes (tvw-shadow-lg, tvw-border, tvw-border-gray-200)
     // These are now applied via inline styles from config
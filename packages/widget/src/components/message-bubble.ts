@@ -5,9 +5,13 @@ import {
   AgentWidgetAvatarConfig,
   AgentWidgetTimestampConfig,
   AgentWidgetMessageActionsConfig,
-  AgentWidgetMessageFeedback
+  AgentWidgetMessageFeedback,
+  AgentWidgetMessageBranchInfo,
+  AgentWidgetDeliveryStatus
 } from "../types";
 import { renderLucideIcon } from "../utils/icons";
+import { formatTimestamp } from "../utils/formatting";
+import { DEFAULT_TRANSLATOR, type AgentWidgetTranslator } from "../utils/i18n";
 
 export type MessageTransform = (context: {
   text: string;
@@ -16,13 +20,39 @@ export type MessageTransform = (context: {
   raw?: string;
 }) => string;
 
+/**
+ * Delivery note texts; an empty `sending` or `sent` label hides that note
+ */
+export type MessageDeliveryLabels = {
+  queued: string;
+  retryQueued: string;
+  sending: string;
+  sent: string;
+  failed: string;
+  retry: string;
+};
+
 export type MessageActionCallbacks = {
   onCopy?: (message: AgentWidgetMessage) => void;
   onFeedback?: (feedback: AgentWidgetMessageFeedback) => void;
+  getBranchInfo?: (messageId: string) => AgentWidgetMessageBranchInfo | null;
+  onBranchChange?: (parentId: string, index: number) => void;
+  /** Send queued (offline) messages now */
+  onRetryQueued?: () => void;
+  /** Send a failed user message again */
+  onRetryMessage?: (messageId: string) => void;
+  /** Texts for the delivery notes under user messages */
+  deliveryLabels?: MessageDeliveryLabels;
+  /** Note shown under replies the user stopped */
+  stoppedLabel?: string;
+  /** Built-in labels and time formats (default: English) */
+  i18n?: AgentWidgetTranslator;
 };
 
 // Create typing indicator element
-export const createTypingIndicator = (): HTMLElement => {
+export const createTypingIndicator = (
+  i18n: AgentWidgetTranslator = DEFAULT_TRANSLATOR
+): HTMLElement => {
   const container = document.createElement("div");
   container.className = "tvw-flex tvw-items-center tvw-space-x-1 tvw-h-5 tvw-mt-2";
 
@@ -40,7 +70,7 @@ export const createTypingIndicator = (): HTMLElement => {
 
   const srOnly = document.createElement("span");
   srOnly.className = "tvw-sr-only";
-  srOnly.textContent = "Loading";
+  srOnly.textContent = i18n.t("loadingLabel");
 
   container.appendChild(dot1);
   container.appendChild(dot2);
@@ -99,7 +129,8 @@ const createAvatar = (
  */
 const createTimestamp = (
   message: AgentWidgetMessage,
-  timestampConfig: AgentWidgetTimestampConfig
+  timestampConfig: AgentWidgetTimestampConfig,
+  locale?: string
 ): HTMLElement => {
   const timestamp = createElement(
     "div",
@@ -111,11 +142,8 @@ const createTimestamp = (
   if (timestampConfig.format) {
     timestamp.textContent = timestampConfig.format(date);
   } else {
-    // Default format: HH:MM
-    timestamp.textContent = date.toLocaleTimeString([], { 
-      hour: "2-digit", 
-      minute: "2-digit" 
-    });
+    // Default format: HH:MM in the widget's locale
+    timestamp.textContent = formatTimestamp(date, locale);
   }
 
   return timestamp;
@@ -220,6 +248,7 @@ export const createMessageActions = (
   actionsConfig: AgentWidgetMessageActionsConfig,
   callbacks?: MessageActionCallbacks
 ): HTMLElement => {
+  const i18n = callbacks?.i18n ?? DEFAULT_TRANSLATOR;
   const showCopy = actionsConfig.showCopy ?? true;
   const showUpvote = actionsConfig.showUpvote ?? true;
   const showDownvote = actionsConfig.showDownvote ?? true;
@@ -283,7 +312,7 @@ export const createMessageActions = (
 
   // Copy button
   if (showCopy) {
-    const copyButton = createActionButton("copy", "Copy message", () => {
+    const copyButton = createActionButton("copy", i18n.t("copyMessage"), () => {
       // Copy to clipboard
       const textToCopy = message.content || "";
       navigator.clipboard.writeText(textToCopy).then(() => {
@@ -323,7 +352,7 @@ export const createMessageActions = (
 
   // Upvote button
   if (showUpvote) {
-    const upvoteButton = createActionButton("thumbs-up", "Upvote", () => {
+    const upvoteButton = createActionButton("thumbs-up", i18n.t("upvote"), () => {
       const wasActive = currentVote === "upvote";
       
       // Toggle state
@@ -358,7 +387,7 @@ export const createMessageActions = (
 
   // Downvote button
   if (showDownvote) {
-    const downvoteButton = createActionButton("thumbs-down", "Downvote", () => {
+    const downvoteButton = createActionButton("thumbs-down", i18n.t("downvote"), () => {
       const wasActive = currentVote === "downvote";
       
       // Toggle state
@@ -394,6 +423,179 @@ export const createMessageActions = (
   return container;
 };
 
+/**
+ * Create the branch switcher ("2 / 3") for messages with sibling branches
+ */
+export const createBranchSwitcher = (
+  message: AgentWidgetMessage,
+  branchInfo: AgentWidgetMessageBranchInfo,
+  onBranchChange: (parentId: string, index: number) => void,
+  i18n: AgentWidgetTranslator = DEFAULT_TRANSLATOR
+): HTMLElement => {
+  const container = createElement(
+    "div",
+    `tvw-message-branches tvw-flex tvw-items-center tvw-gap-1 tvw-mt-2 ${
+      message.role === "user" ? "tvw-justify-end" : ""
+    }`
+  );
+  // Set id for idiomorph matching
+  container.id = `branches-${message.id}`;
+  container.setAttribute("data-branch-parent", branchInfo.parentId);
+
+  const createNavButton = (iconName: string, label: string, targetIndex: number) => {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.className = "tvw-message-action-btn";
+    button.setAttribute("aria-label", label);
+    button.setAttribute("title", label);
+    // Read the target from attributes at click time: idiomorph keeps the
+    // existing button (and its listener) when the switcher re-renders
+    button.setAttribute("data-branch-index", String(targetIndex));
+    button.disabled = targetIndex < 0 || targetIndex >= branchInfo.total;
+
+    const icon = renderLucideIcon(iconName, 14, "currentColor", 2);
+    if (icon) {
+      button.appendChild(icon);
+    }
+
+    button.addEventListener("click", (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const parentId = container.getAttribute("data-branch-parent");
+      const index = Number(button.getAttribute("data-branch-index"));
+      if (parentId && !button.disabled) {
+        onBranchChange(parentId, index);
+      }
+    });
+
+    return button;
+  };
+
+  const label = createElement("span", "tvw-message-branches-label tvw-text-xs tvw-text-cw-muted");
+  label.textContent = `${branchInfo.index + 1} / ${branchInfo.total}`;
+
+  container.append(
+    createNavButton("chevron-left", i18n.t("previousVersion"), branchInfo.index - 1),
+    label,
+    createNavButton("chevron-right", i18n.t("nextVersion"), branchInfo.index + 1)
+  );
+
+  return container;
+};
+
+const DELIVERY_ICONS: Record<AgentWidgetDeliveryStatus, string> = {
+  queued: "clock",
+  sending: "loader-circle",
+  sent: "check",
+  failed: "circle-alert"
+};
+
+/**
+ * Delivery note under a user message. Queued and failed messages get a retry button.
+ */
+export const createDeliveryIndicator = (
+  message: AgentWidgetMessage,
+  status: AgentWidgetDeliveryStatus,
+  label: string,
+  retry?: { label: string; onRetry: (status: AgentWidgetDeliveryStatus) => void }
+): HTMLElement => {
+  const container = createElement(
+    "div",
+    "tvw-message-delivery tvw-flex tvw-items-center tvw-justify-end tvw-gap-2 tvw-mt-2 tvw-text-xs"
+  );
+  // Set id for idiomorph matching
+  container.id = `delivery-${message.id}`;
+  container.setAttribute("data-delivery-status", status);
+
+  const icon = renderLucideIcon(DELIVERY_ICONS[status], 12, "currentColor", 2);
+  if (icon) {
+    container.appendChild(icon);
+  }
+  const text = createElement("span", "tvw-message-delivery-label");
+  text.textContent = label;
+  container.appendChild(text);
+
+  if (retry) {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.className = "tvw-message-delivery-retry";
+    button.textContent = retry.label;
+    button.addEventListener("click", (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      // Read the status at click time: idiomorph keeps this button when the status changes
+      retry.onRetry(container.getAttribute("data-delivery-status") as AgentWidgetDeliveryStatus);
+    });
+    container.appendChild(button);
+  }
+
+  return container;
+};
+
+const getDefaultDeliveryLabels = (i18n: AgentWidgetTranslator): MessageDeliveryLabels => ({
+  queued: i18n.t("deliveryQueued"),
+  retryQueued: i18n.t("deliveryRetryQueued"),
+  sending: i18n.t("deliverySending"),
+  sent: i18n.t("deliverySent"),
+  failed: i18n.t("deliveryFailed"),
+  retry: i18n.t("deliveryRetry")
+});
+
+const createUserDeliveryIndicator = (
+  message: AgentWidgetMessage,
+  callbacks?: MessageActionCallbacks
+): HTMLElement | null => {
+  const status = message.deliveryStatus;
+  if (!status) return null;
+  const labels =
+    callbacks?.deliveryLabels ?? getDefaultDeliveryLabels(callbacks?.i18n ?? DEFAULT_TRANSLATOR);
+  const label = labels[status];
+  // Hidden for sending/sent when turned off in the config
+  if (!label) return null;
+
+  const onRetry = (current: AgentWidgetDeliveryStatus) => {
+    if (current === "queued") {
+      callbacks?.onRetryQueued?.();
+    } else if (current === "failed") {
+      callbacks?.onRetryMessage?.(message.id);
+    }
+  };
+  const retryLabel =
+    status === "queued" ? labels.retryQueued : status === "failed" ? labels.retry : null;
+  const canRetry = status === "queued" ? callbacks?.onRetryQueued : callbacks?.onRetryMessage;
+  return createDeliveryIndicator(
+    message,
+    status,
+    label,
+    retryLabel && canRetry ? { label: retryLabel, onRetry } : undefined
+  );
+};
+
+/**
+ * Note under an assistant reply the user stopped mid-stream
+ */
+export const createStoppedIndicator = (
+  message: AgentWidgetMessage,
+  label: string
+): HTMLElement => {
+  const container = createElement(
+    "div",
+    "tvw-message-stopped tvw-flex tvw-items-center tvw-gap-1 tvw-mt-2 tvw-text-xs tvw-text-cw-muted"
+  );
+  // Set id for idiomorph matching
+  container.id = `stopped-${message.id}`;
+
+  const icon = renderLucideIcon("circle-stop", 12, "currentColor", 2);
+  if (icon) {
+    container.appendChild(icon);
+  }
+  const text = createElement("span");
+  text.textContent = label;
+  container.appendChild(text);
+
+  return container;
+};
+
 /**
  * Create standard message bubble
  * Supports layout configuration for avatars, timestamps, and visual presets
@@ -413,6 +615,7 @@ export const createStandardBubble = (
   const showTimestamp = timestampConfig?.show ?? false;
   const avatarPosition = avatarConfig?.position ?? "left";
   const timestampPosition = timestampConfig?.position ?? "below";
+  const i18n = actionCallbacks?.i18n ?? DEFAULT_TRANSLATOR;
 
   // Create the bubble element
   const classes = getBubbleClasses(message.role, layout);
@@ -432,7 +635,7 @@ export const createStandardBubble = (
 
   // Add inline timestamp if configured
   if (showTimestamp && timestampPosition === "inline" && message.createdAt) {
-    const timestamp = createTimestamp(message, timestampConfig!);
+    const timestamp = createTimestamp(message, timestampConfig!, i18n.locale);
     timestamp.classList.add("tvw-ml-2", "tvw-inline");
     contentDiv.appendChild(timestamp);
   }
@@ -441,7 +644,7 @@ export const createStandardBubble = (
 
   // Add timestamp below if configured
   if (showTimestamp && timestampPosition === "below" && message.createdAt) {
-    const timestamp = createTimestamp(message, timestampConfig!);
+    const timestamp = createTimestamp(message, timestampConfig!, i18n.locale);
     timestamp.classList.add("tvw-mt-1");
     bubble.appendChild(timestamp);
   }
@@ -449,11 +652,20 @@ export const createStandardBubble = (
   // Add typing indicator if this is a streaming assistant message
   if (message.streaming && message.role === "assistant") {
     if (!message.content || !message.content.trim()) {
-      const typingIndicator = createTypingIndicator();
+      const typingIndicator = createTypingIndicator(i18n);
       bubble.appendChild(typingIndicator);
     }
   }
 
+  if (message.role === "assistant" && message.stopped) {
+    bubble.appendChild(
+      createStoppedIndicator(
+        message,
+        actionCallbacks?.stoppedLabel ?? i18n.t("stoppedMessageLabel")
+      )
+    );
+  }
+
   // Add message actions for assistant messages (only when not streaming and has content)
   const shouldShowActions = 
     message.role === "assistant" && 
@@ -467,6 +679,23 @@ export const createStandardBubble = (
     bubble.appendChild(actions);
   }
 
+  if (message.role === "user") {
+    const delivery = createUserDeliveryIndicator(message, actionCallbacks);
+    if (delivery) {
+      bubble.appendChild(delivery);
+    }
+  }
+
+  // Add branch switcher when this message has sibling versions
+  const branchInfo = message.streaming
+    ? null
+    : actionCallbacks?.getBranchInfo?.(message.id) ?? null;
+  if (branchInfo && branchInfo.total > 1 && actionCallbacks?.onBranchChange) {
+    bubble.appendChild(
+      createBranchSwitcher(message, branchInfo, actionCallbacks.onBranchChange, i18n)
+    );
+  }
+
   // If no avatar needed, return bubble directly
   if (!showAvatar || message.role === "system") {
     return bubble;
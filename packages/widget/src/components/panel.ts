@@ -1,6 +1,7 @@
 import { createElement } from "../utils/dom";
 import { AgentWidgetConfig } from "../types";
-import { positionMap } from "../utils/positioning";
+import { positionMap, resolveLauncherPosition } from "../utils/positioning";
+import { createTranslator } from "../utils/i18n";
 import { buildHeader, attachHeaderToContainer, HeaderElements } from "./header-builder";
 import { buildHeaderWithLayout } from "./header-layouts";
 import { buildComposer, ComposerElements } from "./composer-builder";
@@ -34,11 +35,7 @@ export const createWrapper = (config?: AgentWidgetConfig): PanelWrapper => {
     return { wrapper, panel };
   }
 
-  const launcher = config?.launcher ?? {};
-  const position =
-    launcher.position && positionMap[launcher.position]
-      ? positionMap[launcher.position]
-      : positionMap["bottom-right"];
+  const position = positionMap[resolveLauncherPosition(config)];
 
   const wrapper = createElement(
     "div",
@@ -66,6 +63,7 @@ export interface PanelElements {
   textarea: HTMLTextAreaElement;
   sendButton: HTMLButtonElement;
   sendButtonWrapper: HTMLElement;
+  stopButton: HTMLButtonElement;
   micButton: HTMLButtonElement | null;
   micButtonWrapper: HTMLElement | null;
   composerForm: HTMLFormElement;
@@ -76,6 +74,10 @@ export interface PanelElements {
   closeButtonWrapper: HTMLElement;
   clearChatButton: HTMLButtonElement | null;
   clearChatButtonWrapper: HTMLElement | null;
+  searchButton: HTMLButtonElement | null;
+  searchButtonWrapper: HTMLElement | null;
+  exportButton: HTMLButtonElement | null;
+  exportButtonWrapper: HTMLElement | null;
   iconHolder: HTMLElement;
   headerTitle: HTMLElement;
   headerSubtitle: HTMLElement;
@@ -123,14 +125,13 @@ export const buildPanel = (config?: AgentWidgetConfig, showClose = true): PanelE
     "h2",
     "tvw-text-lg tvw-font-semibold tvw-text-cw-primary"
   );
-  introTitle.textContent = config?.copy?.welcomeTitle ?? "Hello 👋";
+  const i18n = createTranslator(config);
+  introTitle.textContent = config?.copy?.welcomeTitle ?? i18n.t("welcomeTitle");
   const introSubtitle = createElement(
     "p",
     "tvw-mt-2 tvw-text-sm tvw-text-cw-muted"
   );
-  introSubtitle.textContent =
-    config?.copy?.welcomeSubtitle ??
-    "Ask anything about your account or products.";
+  introSubtitle.textContent = config?.copy?.welcomeSubtitle ?? i18n.t("welcomeSubtitle");
   introCard.append(introTitle, introSubtitle);
 
   const messagesWrapper = createElement(
@@ -171,6 +172,7 @@ export const buildPanel = (config?: AgentWidgetConfig, showClose = true): PanelE
     textarea: composerElements.textarea,
     sendButton: composerElements.sendButton,
     sendButtonWrapper: composerElements.sendButtonWrapper,
+    stopButton: composerElements.stopButton,
     micButton: composerElements.micButton,
     micButtonWrapper: composerElements.micButtonWrapper,
     composerForm: composerElements.composerForm,
@@ -181,6 +183,10 @@ export const buildPanel = (config?: AgentWidgetConfig, showClose = true): PanelE
     closeButtonWrapper: headerElements.closeButtonWrapper,
     clearChatButton: headerElements.clearChatButton,
     clearChatButtonWrapper: headerElements.clearChatButtonWrapper,
+    searchButton: headerElements.searchButton,
+    searchButtonWrapper: headerElements.searchButtonWrapper,
+    exportButton: headerElements.exportButton,
+    exportButtonWrapper: headerElements.exportButtonWrapper,
     iconHolder: headerElements.iconHolder,
     headerTitle: headerElements.headerTitle,
     headerSubtitle: headerElements.headerSubtitle,
@@ -0,0 +1,97 @@
+import { createElement } from "../utils/dom";
+import { renderLucideIcon } from "../utils/icons";
+import { DEFAULT_TRANSLATOR, type AgentWidgetTranslator } from "../utils/i18n";
+import { formatCountdown } from "../utils/quota";
+import { AgentWidgetQuota, AgentWidgetQuotaConfig } from "../types";
+
+export interface QuotaBanner {
+  element: HTMLElement;
+  update: (
+    quota: AgentWidgetQuota | null,
+    config: boolean | AgentWidgetQuotaConfig | undefined,
+    i18n?: AgentWidgetTranslator
+  ) => string | null;
+  destroy: () => void;
+}
+
+/**
+ * Banner above the composer: messages left, or a countdown while the limit is reached.
+ * The banner isn't a live region, so the ticking countdown stays quiet; `update`
+ * returns the text to announce when the limit is reached or lifted.
+ */
+export const createQuotaBanner = (): QuotaBanner => {
+  const element = createElement(
+    "div",
+    "tvw-quota-banner tvw-flex tvw-items-center tvw-gap-2 tvw-mb-2 tvw-text-xs"
+  );
+  element.style.display = "none";
+
+  const icon = renderLucideIcon("hourglass", 14, "currentColor", 2);
+  if (icon) {
+    element.appendChild(icon);
+  }
+  const text = createElement("span", "tvw-quota-banner-text");
+  element.appendChild(text);
+
+  let countdown: ReturnType<typeof setInterval> | null = null;
+  let exhausted = false;
+
+  const stopCountdown = () => {
+    if (countdown) {
+      clearInterval(countdown);
+      countdown = null;
+    }
+  };
+
+  const update: QuotaBanner["update"] = (quota, config, i18n = DEFAULT_TRANSLATOR) => {
+    stopCountdown();
+    const options = typeof config === "object" ? config : {};
+    const hidden = config === false || options.enabled === false;
+    const lowThreshold = options.lowThreshold ?? 3;
+    const wasExhausted = exhausted;
+    exhausted = !hidden && Boolean(quota?.exhausted);
+
+    if (hidden || !quota) {
+      element.style.display = "none";
+      return null;
+    }
+
+    if (quota.exhausted) {
+      const resetAt = quota.resetAt;
+      element.setAttribute("data-quota-state", "exhausted");
+      if (resetAt === null) {
+        text.textContent = options.exhaustedUnknownText ?? i18n.t("quotaExhaustedUnknown");
+      } else {
+        const template = options.exhaustedText ?? i18n.t("quotaExhausted");
+        const render = () => {
+          text.textContent = template.replace("{time}", formatCountdown(resetAt - Date.now()));
+        };
+        render();
+        // The session reopens the quota at resetAt; this only refreshes the text
+        countdown = setInterval(render, 1000);
+      }
+      element.style.display = "";
+      return wasExhausted ? null : text.textContent;
+    }
+
+    const restored = wasExhausted ? options.restoredText ?? i18n.t("quotaRestored") : null;
+    if (quota.remaining !== null && quota.remaining <= lowThreshold) {
+      element.setAttribute("data-quota-state", "low");
+      text.textContent = (options.remainingText ?? i18n.t("quotaRemaining")).replace(
+        "{count}",
+        String(quota.remaining)
+      );
+      element.style.display = "";
+      return restored;
+    }
+
+    element.style.display = "none";
+    return restored;
+  };
+
+  return {
+    element,
+    update,
+    destroy: stopCountdown
+  };
+};
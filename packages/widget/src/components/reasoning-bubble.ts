@@ -1,6 +1,7 @@
 import { createElement } from "../utils/dom";
 import { AgentWidgetMessage } from "../types";
 import { describeReasonStatus } from "../utils/formatting";
+import { DEFAULT_TRANSLATOR, type AgentWidgetTranslator } from "../utils/i18n";
 import { renderLucideIcon } from "../utils/icons";
 
 // Expansion state per widget instance
@@ -33,7 +34,10 @@ export const updateReasoningBubbleUI = (messageId: string, bubble: HTMLElement):
   content.style.display = expanded ? "" : "none";
 };
 
-export const createReasoningBubble = (message: AgentWidgetMessage): HTMLElement => {
+export const createReasoningBubble = (
+  message: AgentWidgetMessage,
+  i18n: AgentWidgetTranslator = DEFAULT_TRANSLATOR
+): HTMLElement => {
   const reasoning = message.reasoning;
   const bubble = createElement(
     "div",
@@ -73,11 +77,11 @@ export const createReasoningBubble = (message: AgentWidgetMessage): HTMLElement
 
   const headerContent = createElement("div", "tvw-flex tvw-flex-col tvw-text-left");
   const title = createElement("span", "tvw-text-xs tvw-text-cw-primary");
-  title.textContent = "Thinking...";
+  title.textContent = i18n.t("reasoningInProgress");
   headerContent.appendChild(title);
 
   const status = createElement("span", "tvw-text-xs tvw-text-cw-primary");
-  status.textContent = describeReasonStatus(reasoning);
+  status.textContent = describeReasonStatus(reasoning, i18n);
   headerContent.appendChild(status);
 
   if (reasoning.status === "complete") {
@@ -0,0 +1,109 @@
+import { createElement } from "../utils/dom";
+import { renderLucideIcon } from "../utils/icons";
+import { AgentWidgetTranslator } from "../utils/i18n";
+
+export type SearchBarCallbacks = {
+  onQuery: (query: string) => void;
+  onStep: (direction: 1 | -1) => void;
+  onClose: () => void;
+};
+
+export interface SearchBarElements {
+  element: HTMLElement;
+  input: HTMLInputElement;
+  /** Show the position of the current result; `current` is 1-based, 0 for none */
+  setCount: (current: number, total: number) => void;
+  setOpen: (open: boolean) => void;
+  isOpen: () => boolean;
+}
+
+const createIconButton = (iconName: string, label: string): HTMLButtonElement => {
+  const button = createElement("button", "tvw-message-action-btn") as HTMLButtonElement;
+  button.type = "button";
+  button.setAttribute("aria-label", label);
+  button.setAttribute("title", label);
+  const icon = renderLucideIcon(iconName, 16, "currentColor", 2);
+  if (icon) {
+    button.appendChild(icon);
+  }
+  return button;
+};
+
+/**
+ * Build the search bar shown below the header.
+ * Enter and Shift+Enter step through the results, Escape closes the bar.
+ */
+export const createSearchBar = (
+  options: { placeholder?: string; i18n: AgentWidgetTranslator },
+  callbacks: SearchBarCallbacks
+): SearchBarElements => {
+  const { i18n } = options;
+  const placeholder = options.placeholder ?? i18n.t("searchPlaceholder");
+
+  const element = createElement("div", "tvw-search-bar");
+  element.setAttribute("role", "search");
+  element.hidden = true;
+
+  const input = createElement("input", "tvw-search-input") as HTMLInputElement;
+  input.type = "search";
+  input.placeholder = placeholder;
+  input.setAttribute("aria-label", placeholder);
+
+  const count = createElement("span", "tvw-search-count");
+  count.setAttribute("aria-live", "polite");
+
+  const previousButton = createIconButton("chevron-up", i18n.t("searchPrevious"));
+  const nextButton = createIconButton("chevron-down", i18n.t("searchNext"));
+  const closeButton = createIconButton("x", i18n.t("searchClose"));
+
+  element.append(input, count, previousButton, nextButton, closeButton);
+
+  let open = false;
+
+  const setOpen = (next: boolean) => {
+    open = next;
+    element.hidden = !next;
+    if (next) {
+      input.focus();
+      input.select();
+    }
+  };
+
+  const setCount = (current: number, total: number) => {
+    if (!input.value.trim()) {
+      count.textContent = "";
+    } else if (total === 0) {
+      count.textContent = i18n.t("searchNoResults");
+    } else {
+      count.textContent = i18n.t("searchResults", { current, total });
+    }
+    previousButton.disabled = total < 2;
+    nextButton.disabled = total < 2;
+  };
+
+  input.addEventListener("input", () => callbacks.onQuery(input.value));
+  input.addEventListener("keydown", (event) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      callbacks.onStep(event.shiftKey ? -1 : 1);
+    } else if (event.key === "Escape") {
+      // Keep Escape from also closing the panel
+      event.preventDefault();
+      event.stopPropagation();
+      callbacks.onClose();
+    }
+  });
+  previousButton.addEventListener("click", () => callbacks.onStep(-1));
+  nextButton.addEventListener("click", () => callbacks.onStep(1));
+  closeButton.addEventListener("click", () => callbacks.onClose());
+
+  setCount(0, 0);
+
+  return {
+    element,
+    input,
+    setCount,
+    setOpen,
+    isOpen: () => open
+  };
+};
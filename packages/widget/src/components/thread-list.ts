@@ -0,0 +1,166 @@
+import { createElement } from "../utils/dom";
+import type { AgentWidgetTranslator } from "../utils/i18n";
+import { renderLucideIcon } from "../utils/icons";
+import { AgentWidgetThread } from "../types";
+
+export type ThreadListCallbacks = {
+  onOpen?: () => void;
+  onSelect: (threadId: string) => void;
+  onCreate: () => void;
+  onRename: (threadId: string, title: string) => void;
+  onDelete: (threadId: string) => void;
+};
+
+export interface ThreadListElements {
+  toggleButton: HTMLButtonElement;
+  panel: HTMLElement;
+  render: (threads: AgentWidgetThread[], activeThreadId: string) => void;
+  setOpen: (open: boolean) => void;
+  isOpen: () => boolean;
+}
+
+const createIconButton = (
+  iconName: string,
+  label: string,
+  className: string
+): HTMLButtonElement => {
+  const button = createElement("button", className) as HTMLButtonElement;
+  button.type = "button";
+  button.setAttribute("aria-label", label);
+  button.setAttribute("title", label);
+  const icon = renderLucideIcon(iconName, 16, "currentColor", 2);
+  if (icon) {
+    button.appendChild(icon);
+  }
+  return button;
+};
+
+/**
+ * Build the conversations button and the thread list panel.
+ * The panel overlays the message area; the caller mounts both elements.
+ */
+export const createThreadList = (
+  options: { panelTitle: string; i18n: AgentWidgetTranslator },
+  callbacks: ThreadListCallbacks
+): ThreadListElements => {
+  const toggleButton = createIconButton(
+    "messages-square",
+    options.panelTitle,
+    "tvw-inline-flex tvw-items-center tvw-justify-center tvw-rounded-full tvw-text-cw-muted hover:tvw-bg-gray-100 tvw-cursor-pointer tvw-border-none"
+  );
+  toggleButton.style.height = "32px";
+  toggleButton.style.width = "32px";
+  toggleButton.setAttribute("aria-expanded", "false");
+
+  const panel = createElement("div", "tvw-thread-list");
+  panel.setAttribute("role", "region");
+  panel.setAttribute("aria-label", options.panelTitle);
+  panel.hidden = true;
+
+  const header = createElement("div", "tvw-thread-list-header");
+  const heading = createElement("span", "tvw-text-sm tvw-font-semibold tvw-text-cw-primary");
+  heading.textContent = options.panelTitle;
+  const newButton = createIconButton("plus", options.i18n.t("threadNew"), "tvw-message-action-btn");
+  const closeButton = createIconButton("x", options.i18n.t("threadListClose"), "tvw-message-action-btn");
+  const headerActions = createElement("div", "tvw-flex tvw-items-center tvw-gap-1");
+  headerActions.append(newButton, closeButton);
+  header.append(heading, headerActions);
+
+  const list = createElement("ul", "tvw-thread-list-items");
+  panel.append(header, list);
+
+  let open = false;
+
+  const setOpen = (next: boolean) => {
+    if (next && !open) {
+      callbacks.onOpen?.();
+    }
+    open = next;
+    panel.hidden = !next;
+    toggleButton.setAttribute("aria-expanded", String(next));
+  };
+
+  const startRename = (item: HTMLElement, thread: AgentWidgetThread) => {
+    const titleButton = item.querySelector<HTMLElement>(".tvw-thread-list-title");
+    if (!titleButton) return;
+    const input = createElement("input", "tvw-thread-list-rename") as HTMLInputElement;
+    input.type = "text";
+    input.value = thread.title;
+    input.setAttribute("aria-label", options.i18n.t("threadRenameLabel"));
+
+    let done = false;
+    const finish = (commit: boolean) => {
+      if (done) return;
+      done = true;
+      if (commit && input.value.trim() !== thread.title) {
+        callbacks.onRename(thread.id, input.value);
+      } else {
+        input.replaceWith(titleButton);
+      }
+    };
+
+    input.addEventListener("keydown", (event) => {
+      if (event.key === "Enter") {
+        event.preventDefault();
+        finish(true);
+      } else if (event.key === "Escape") {
+        event.preventDefault();
+        event.stopPropagation();
+        finish(false);
+      }
+    });
+    input.addEventListener("blur", () => finish(true));
+
+    titleButton.replaceWith(input);
+    input.focus();
+    input.select();
+  };
+
+  const render = (threads: AgentWidgetThread[], activeThreadId: string) => {
+    list.innerHTML = "";
+    threads.forEach((thread) => {
+      const item = createElement("li", "tvw-thread-list-item");
+      item.setAttribute("data-thread-id", thread.id);
+      const isActive = thread.id === activeThreadId;
+      if (isActive) {
+        item.classList.add("tvw-thread-list-item-active");
+      }
+
+      const titleButton = createElement("button", "tvw-thread-list-title") as HTMLButtonElement;
+      titleButton.type = "button";
+      titleButton.textContent = thread.title;
+      if (isActive) {
+        titleButton.setAttribute("aria-current", "true");
+      }
+      titleButton.addEventListener("click", () => callbacks.onSelect(thread.id));
+
+      const renameButton = createIconButton("pencil", options.i18n.t("threadRename"), "tvw-message-action-btn");
+      renameButton.addEventListener("click", () => startRename(item, thread));
+
+      const deleteButton = createIconButton("trash-2", options.i18n.t("threadDelete"), "tvw-message-action-btn");
+      deleteButton.addEventListener("click", () => callbacks.onDelete(thread.id));
+
+      item.append(titleButton, renameButton, deleteButton);
+      list.appendChild(item);
+    });
+  };
+
+  toggleButton.addEventListener("click", () => setOpen(!open));
+  closeButton.addEventListener("click", () => setOpen(false));
+  newButton.addEventListener("click", () => callbacks.onCreate());
+  panel.addEventListener("keydown", (event) => {
+    if (event.key === "Escape") {
+      event.stopPropagation();
+      setOpen(false);
+      toggleButton.focus();
+    }
+  });
+
+  return {
+    toggleButton,
+    panel,
+    render,
+    setOpen,
+    isOpen: () => open
+  };
+};
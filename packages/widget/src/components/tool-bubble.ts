@@ -1,7 +1,8 @@
 import { createElement } from "../utils/dom";
-import { AgentWidgetMessage, AgentWidgetConfig } from "../types";
+import { AgentWidgetMessage, AgentWidgetConfig, AgentWidgetToolCall } from "../types";
 import { formatUnknownValue, describeToolTitle } from "../utils/formatting";
 import { renderLucideIcon } from "../utils/icons";
+import { DEFAULT_TRANSLATOR, type AgentWidgetTranslator } from "../utils/i18n";
 
 // Expansion state per widget instance
 export const toolExpansionState = new Set<string>();
@@ -34,7 +35,65 @@ export const updateToolBubbleUI = (messageId: string, bubble: HTMLElement, confi
   content.style.display = expanded ? "" : "none";
 };
 
-export const createToolBubble = (message: AgentWidgetMessage, config?: AgentWidgetConfig): HTMLElement => {
+const APPROVAL_STATUS_KEYS = {
+  pending: "approvalPending",
+  approved: "approvalApproved",
+  denied: "approvalDenied",
+  expired: "approvalExpired"
+} as const;
+
+/**
+ * Allow / Deny card for a tool call waiting for the user's approval.
+ * Clicks are handled by the widget through `data-approval-decision`.
+ */
+const createApprovalCard = (
+  tool: AgentWidgetToolCall,
+  config: AgentWidgetConfig | undefined,
+  i18n: AgentWidgetTranslator
+): HTMLElement => {
+  const approvalConfig = config?.approval ?? {};
+  const card = createElement(
+    "div",
+    "vanilla-approval-card tvw-border-t tvw-border-gray-200 tvw-space-y-2 tvw-px-4 tvw-py-3"
+  );
+  card.setAttribute("data-approval-card", "true");
+  card.setAttribute("role", "group");
+
+  const prompt = createElement("div", "tvw-text-sm tvw-text-cw-primary");
+  prompt.textContent = approvalConfig.title ?? i18n.t("approvalTitle");
+  card.setAttribute("aria-label", `${prompt.textContent} ${tool.name ?? ""}`.trim());
+
+  const buttons = createElement("div", "tvw-flex tvw-flex-wrap tvw-gap-2");
+  const createDecisionButton = (decision: string, label: string, primary: boolean) => {
+    const button = createElement(
+      "button",
+      primary
+        ? "tvw-inline-flex tvw-items-center tvw-rounded-full tvw-bg-cw-primary tvw-px-3 tvw-py-1 tvw-text-xs tvw-font-semibold tvw-text-white tvw-border-none tvw-cursor-pointer"
+        : "tvw-inline-flex tvw-items-center tvw-rounded-full tvw-border tvw-border-cw-message-border tvw-bg-transparent tvw-px-3 tvw-py-1 tvw-text-xs tvw-text-cw-primary tvw-cursor-pointer"
+    ) as HTMLButtonElement;
+    button.type = "button";
+    button.setAttribute("data-approval-decision", decision);
+    button.textContent = label;
+    return button;
+  };
+
+  buttons.appendChild(createDecisionButton("allow", approvalConfig.allowLabel ?? i18n.t("approvalAllow"), true));
+  if (approvalConfig.allowAlways !== false) {
+    buttons.appendChild(
+      createDecisionButton("always", approvalConfig.alwaysAllowLabel ?? i18n.t("approvalAlwaysAllow"), false)
+    );
+  }
+  buttons.appendChild(createDecisionButton("deny", approvalConfig.denyLabel ?? i18n.t("approvalDeny"), false));
+
+  card.append(prompt, buttons);
+  return card;
+};
+
+export const createToolBubble = (
+  message: AgentWidgetMessage,
+  config?: AgentWidgetConfig,
+  i18n: AgentWidgetTranslator = DEFAULT_TRANSLATOR
+): HTMLElement => {
   const tool = message.toolCall;
   const toolCallConfig = config?.toolCall ?? {};
   
@@ -106,7 +165,7 @@ export const createToolBubble = (message: AgentWidgetMessage, config?: AgentWidg
   if (toolCallConfig.headerTextColor) {
     title.style.color = toolCallConfig.headerTextColor;
   }
-  title.textContent = describeToolTitle(tool);
+  title.textContent = describeToolTitle(tool, i18n);
   headerContent.appendChild(title);
 
   const toggleIcon = createElement("div", "tvw-flex tvw-items-center");
@@ -120,6 +179,12 @@ export const createToolBubble = (message: AgentWidgetMessage, config?: AgentWidg
   }
 
   const headerMeta = createElement("div", "tvw-flex tvw-items-center tvw-gap-2 tvw-ml-auto");
+  if (tool.approval) {
+    const approvalStatus = createElement("span", "tvw-text-xs tvw-text-cw-muted");
+    approvalStatus.setAttribute("data-approval-status", tool.approval.status);
+    approvalStatus.textContent = i18n.t(APPROVAL_STATUS_KEYS[tool.approval.status]);
+    headerMeta.append(approvalStatus);
+  }
   headerMeta.append(toggleIcon);
 
   header.append(headerContent, headerMeta);
@@ -167,7 +232,7 @@ export const createToolBubble = (message: AgentWidgetMessage, config?: AgentWidg
     if (toolCallConfig.labelTextColor) {
       argsLabel.style.color = toolCallConfig.labelTextColor;
     }
-    argsLabel.textContent = "Arguments";
+    argsLabel.textContent = i18n.t("toolArguments");
     const argsPre = createElement(
       "pre",
       "tvw-max-h-48 tvw-overflow-auto tvw-whitespace-pre-wrap tvw-rounded-lg tvw-border tvw-border-gray-100 tvw-bg-white tvw-px-3 tvw-py-2 tvw-text-xs tvw-text-cw-primary"
@@ -198,7 +263,7 @@ export const createToolBubble = (message: AgentWidgetMessage, config?: AgentWidg
     if (toolCallConfig.labelTextColor) {
       logsLabel.style.color = toolCallConfig.labelTextColor;
     }
-    logsLabel.textContent = "Activity";
+    logsLabel.textContent = i18n.t("toolActivity");
     const logsPre = createElement(
       "pre",
       "tvw-max-h-48 tvw-overflow-auto tvw-whitespace-pre-wrap tvw-rounded-lg tvw-border tvw-border-gray-100 tvw-bg-white tvw-px-3 tvw-py-2 tvw-text-xs tvw-text-cw-primary"
@@ -229,7 +294,7 @@ export const createToolBubble = (message: AgentWidgetMessage, config?: AgentWidg
     if (toolCallConfig.labelTextColor) {
       resultLabel.style.color = toolCallConfig.labelTextColor;
     }
-    resultLabel.textContent = "Result";
+    resultLabel.textContent = i18n.t("toolResult");
     const resultPre = createElement(
       "pre",
       "tvw-max-h-48 tvw-overflow-auto tvw-whitespace-pre-wrap tvw-rounded-lg tvw-border tvw-border-gray-100 tvw-bg-white tvw-px-3 tvw-py-2 tvw-text-xs tvw-text-cw-primary"
@@ -281,6 +346,10 @@ export const createToolBubble = (message: AgentWidgetMessage, config?: AgentWidg
   applyToolExpansion();
 
   bubble.append(header, content);
+  // Shown outside the collapsible content so the user sees it without expanding
+  if (tool.approval?.status === "pending") {
+    bubble.appendChild(createApprovalCard(tool, config, i18n));
+  }
   return bubble;
 };
 
@@ -1,4 +1,5 @@
 import type { AgentWidgetConfig, AgentWidgetTheme } from "./types";
+import { createTranslator, getLocalizedDefaults } from "./utils/i18n";
 
 /**
  * Default light theme colors
@@ -37,6 +38,26 @@ export const DEFAULT_LIGHT_THEME: AgentWidgetTheme = {
   radiusLg: "1.5rem",
   launcherRadius: "9999px",
   buttonRadius: "9999px",
+  code: {
+    background: "#f6f8fa",
+    foreground: "#1f2328",
+    toolbarBackground: "#eef1f5",
+    toolbarForeground: "#57606a",
+    border: "#e5e7eb",
+    comment: "#6e7781",
+    keyword: "#cf222e",
+    string: "#0a3069",
+    number: "#0550ae",
+    literal: "#0550ae",
+    function: "#8250df",
+    type: "#953800",
+    property: "#0550ae",
+    attribute: "#116329",
+    variable: "#953800",
+    tag: "#116329",
+    inserted: "#116329",
+    deleted: "#82071e",
+  },
 };
 
 /**
@@ -76,6 +97,26 @@ export const DEFAULT_DARK_THEME: AgentWidgetTheme = {
   radiusLg: "1.5rem",
   launcherRadius: "9999px",
   buttonRadius: "9999px",
+  code: {
+    background: "#0d1117",
+    foreground: "#e6edf3",
+    toolbarBackground: "#161b22",
+    toolbarForeground: "#8b949e",
+    border: "#30363d",
+    comment: "#8b949e",
+    keyword: "#ff7b72",
+    string: "#a5d6ff",
+    number: "#79c0ff",
+    literal: "#79c0ff",
+    function: "#d2a8ff",
+    type: "#ffa657",
+    property: "#79c0ff",
+    attribute: "#7ee787",
+    variable: "#ffa657",
+    tag: "#7ee787",
+    inserted: "#aff5b4",
+    deleted: "#ffdcd7",
+  },
 };
 
 /**
@@ -230,12 +271,13 @@ export const DEFAULT_WIDGET_CONFIG: Partial<AgentWidgetConfig> = {
 
 /**
  * Helper to deep merge user config with defaults
- * This ensures all default values are present while allowing selective overrides
+ * This ensures all default values are present while allowing selective overrides.
+ * Default texts come from the config's locale (see `locale` and `messages`).
  */
 export function mergeWithDefaults(
-  config?: Partial<AgentWidgetConfig>
+  config: Partial<AgentWidgetConfig> = {}
 ): Partial<AgentWidgetConfig> {
-  if (!config) return DEFAULT_WIDGET_CONFIG;
+  const localized = getLocalizedDefaults(createTranslator(config));
 
   return {
     ...DEFAULT_WIDGET_CONFIG,
@@ -243,40 +285,54 @@ export function mergeWithDefaults(
     theme: {
       ...DEFAULT_WIDGET_CONFIG.theme,
       ...config.theme,
+      code: {
+        ...DEFAULT_WIDGET_CONFIG.theme?.code,
+        ...config.theme?.code,
+      },
     },
     darkTheme: {
       ...DEFAULT_WIDGET_CONFIG.darkTheme,
       ...config.darkTheme,
+      code: {
+        ...DEFAULT_WIDGET_CONFIG.darkTheme?.code,
+        ...config.darkTheme?.code,
+      },
     },
     launcher: {
       ...DEFAULT_WIDGET_CONFIG.launcher,
+      ...localized.launcher,
       ...config.launcher,
       clearChat: {
         ...DEFAULT_WIDGET_CONFIG.launcher?.clearChat,
+        ...localized.clearChat,
         ...config.launcher?.clearChat,
       },
     },
     copy: {
       ...DEFAULT_WIDGET_CONFIG.copy,
+      ...localized.copy,
       ...config.copy,
     },
     sendButton: {
       ...DEFAULT_WIDGET_CONFIG.sendButton,
+      ...localized.sendButton,
       ...config.sendButton,
     },
     statusIndicator: {
       ...DEFAULT_WIDGET_CONFIG.statusIndicator,
+      ...localized.statusIndicator,
       ...config.statusIndicator,
     },
     voiceRecognition: {
       ...DEFAULT_WIDGET_CONFIG.voiceRecognition,
+      ...localized.voiceRecognition,
       ...config.voiceRecognition,
     },
     features: {
       ...DEFAULT_WIDGET_CONFIG.features,
       ...config.features,
     },
-    suggestionChips: config.suggestionChips ?? DEFAULT_WIDGET_CONFIG.suggestionChips,
+    suggestionChips: config.suggestionChips ?? localized.suggestionChips,
     suggestionChipsConfig: {
       ...DEFAULT_WIDGET_CONFIG.suggestionChipsConfig,
       ...config.suggestionChipsConfig,
@@ -16,6 +16,22 @@ export type {
   AgentWidgetRequestPayload,
   AgentWidgetCustomFetch,
   AgentWidgetSSEEventParser,
+  AgentWidgetSSEFormat,
+  AgentWidgetClientTool,
+  AgentWidgetClientToolContext,
+  AgentWidgetApprovalConfig,
+  AgentWidgetApprovalKind,
+  AgentWidgetApprovalRequestEvent,
+  AgentWidgetApprovalDecisionEvent,
+  AgentWidgetToolApproval,
+  AgentWidgetOutboxConfig,
+  AgentWidgetDeliveryStatus,
+  AgentWidgetDeliveryConfig,
+  AgentWidgetQuota,
+  AgentWidgetQuotaConfig,
+  AgentWidgetTelemetryEvent,
+  AgentWidgetTelemetrySink,
+  AgentWidgetTelemetryConfig,
   AgentWidgetSSEEventResult,
   AgentWidgetHeadersFunction,
   // Multi-modal content types
@@ -45,6 +61,29 @@ export type {
   AgentWidgetMessageFeedback,
   // State persistence types
   AgentWidgetPersistStateConfig,
+  // Conversation branching types
+  AgentWidgetMessageBranch,
+  AgentWidgetMessageBranches,
+  AgentWidgetMessageBranchInfo,
+  // Thread types
+  AgentWidgetThread,
+  AgentWidgetStoredThread,
+  AgentWidgetThreadChangedEvent,
+  AgentWidgetThreadsConfig,
+  AgentWidgetTabSyncConfig,
+  AgentWidgetSearchConfig,
+  AgentWidgetTranscriptExportConfig,
+  AgentWidgetTranscriptFormat,
+  AgentWidgetTranscript,
+  AgentWidgetVirtualizationConfig,
+  AgentWidgetCodeBlocksConfig,
+  AgentWidgetCodeAction,
+  AgentWidgetCodeCustomAction,
+  AgentWidgetCodeActionEvent,
+  AgentWidgetCodeTheme,
+  // Stream resume and transport types
+  AgentWidgetStreamResumeConfig,
+  AgentWidgetWebSocketConfig,
   // Client token types
   ClientSession,
   ClientInitResponse,
@@ -64,6 +103,43 @@ export {
 } from "./session";
 export { AgentWidgetClient } from "./client";
 export { createLocalStorageAdapter } from "./utils/storage";
+export {
+  createIndexedDBStorageAdapter,
+  pruneStoredMessages
+} from "./utils/indexeddb-storage";
+export type {
+  IndexedDBStorageAdapterOptions,
+  StoredMessageRetentionPolicy
+} from "./utils/indexeddb-storage";
+export { createRemoteStorageAdapter } from "./utils/remote-storage";
+export type { RemoteStorageAdapterOptions } from "./utils/remote-storage";
+export { createBeaconSink, createAnalyticsSink } from "./utils/telemetry";
+export type { BeaconSinkOptions, AnalyticsSinkOptions } from "./utils/telemetry";
+export { createRecordingFetch, createReplayFetch } from "./utils/sse-fixtures";
+export {
+  createTranslator,
+  resolveLocale,
+  resolveDirection,
+  AGENT_WIDGET_LOCALES
+} from "./utils/i18n";
+export type {
+  AgentWidgetMessages,
+  AgentWidgetMessageKey,
+  AgentWidgetTranslator,
+  AgentWidgetTextDirection
+} from "./utils/i18n";
+export { searchMessages, highlightMatches, clearHighlights } from "./utils/search";
+export { exportTranscript, parseTranscript, downloadTranscript } from "./utils/transcript";
+export type { TranscriptExportOptions } from "./utils/transcript";
+export { createMessageVirtualizer } from "./utils/virtualizer";
+export type { MessageVirtualizer, MessageVirtualizerOptions, MessageWindow } from "./utils/virtualizer";
+export { highlightCode, loadSyntaxGrammars } from "./utils/syntax-highlight";
+export type { LoadSyntaxGrammarsOptions, SyntaxTokenType } from "./utils/syntax-highlight";
+export type {
+  AgentWidgetSSEFixture,
+  RecordingFetchOptions,
+  ReplayFetchOptions
+} from "./utils/sse-fixtures";
 export {
   createActionManager,
   defaultActionHandlers,
@@ -83,7 +159,9 @@ export {
   createJsonStreamParser,
   createFlexibleJsonStreamParser,
   createRegexJsonParser,
-  createXmlParser
+  createXmlParser,
+  formatDuration,
+  formatTimestamp
 } from "./utils/formatting";
 export {
   // Multi-modal content utilities
@@ -167,7 +245,11 @@ export {
   createTypingIndicator,
   createMessageActions
 } from "./components/message-bubble";
-export type { MessageTransform, MessageActionCallbacks } from "./components/message-bubble";
+export type {
+  MessageTransform,
+  MessageActionCallbacks,
+  MessageDeliveryLabels
+} from "./components/message-bubble";
 export {
   createCSATFeedback,
   createNPSFeedback
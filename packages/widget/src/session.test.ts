@@ -0,0 +1,543 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AgentWidgetSession } from './session';
+import { AgentWidgetMessage } from './types';
+
+const createStreamResponse = (text: string) => {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    start(controller) {
+      controller.enqueue(
+        encoder.encode(
+          `data: {"type":"step_chunk","text":"${text}"}\n\n` +
+            'data: {"type":"flow_complete","success":true}\n\n'
+        )
+      );
+      controller.close();
+    }
+  });
+  return { ok: true, body: stream };
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('AgentWidgetSession - Conversation Branching', () => {
+  let session: AgentWidgetSession;
+  let latestMessages: AgentWidgetMessage[] = [];
+  let replies: string[] = [];
+  let payloads: any[] = [];
+
+  beforeEach(() => {
+    latestMessages = [];
+    payloads = [];
+    replies = ['First answer', 'Second answer', 'Third answer'];
+    global.fetch = vi.fn().mockImplementation(async (_url: string, options: any) => {
+      payloads.push(JSON.parse(options.body));
+      // Keep createdAt timestamps distinct so message order is deterministic
+      await wait(5);
+      return createStreamResponse(replies.shift() ?? 'Extra answer');
+    });
+    session = new AgentWidgetSession(
+      { apiUrl: 'http://localhost:8000' },
+      {
+        onMessagesChanged: (messages) => {
+          latestMessages = messages;
+        },
+        onStatusChanged: () => {},
+        onStreamingChanged: () => {}
+      }
+    );
+  });
+
+  const lastAssistant = () =>
+    [...latestMessages].reverse().find((message) => message.role === 'assistant')!;
+
+  it('should keep the previous reply as a sibling branch when regenerating', async () => {
+    await session.sendMessage('Hello');
+    const firstReply = lastAssistant();
+    expect(firstReply.content).toBe('First answer');
+
+    await session.regenerate(firstReply.id);
+
+    expect(latestMessages).toHaveLength(2);
+    const secondReply = lastAssistant();
+    expect(secondReply.content).toBe('Second answer');
+    expect(payloads[1].messages).toHaveLength(1);
+
+    const userMessage = latestMessages[0];
+    expect(session.getBranchInfo(secondReply.id)).toEqual({
+      parentId: userMessage.id,
+      index: 1,
+      total: 2
+    });
+
+    session.switchBranch(userMessage.id, 0);
+    expect(lastAssistant().content).toBe('First answer');
+    expect(session.getBranchInfo(firstReply.id)?.index).toBe(0);
+  });
+
+  it('should branch from an edited user message and send the edited history', async () => {
+    await session.sendMessage('Hello');
+    await wait(5);
+    await session.sendMessage('What are your hours?');
+    const editedId = latestMessages[2].id;
+
+    await session.editMessage(editedId, 'What are your weekend hours?');
+
+    expect(latestMessages).toHaveLength(4);
+    expect(latestMessages[2].content).toBe('What are your weekend hours?');
+    expect(latestMessages[2].id).not.toBe(editedId);
+    const sentContents = payloads[2].messages.map((m: any) => m.content);
+    expect(sentContents).toHaveLength(3);
+    expect(sentContents).toContain('What are your weekend hours?');
+    expect(sentContents).not.toContain('What are your hours?');
+
+    const parentId = latestMessages[1].id;
+    expect(session.getBranchInfo(latestMessages[2].id)).toEqual({
+      parentId,
+      index: 1,
+      total: 2
+    });
+
+    session.switchBranch(parentId, 0);
+    expect(latestMessages[2].id).toBe(editedId);
+    expect(latestMessages[3].content).toBe('Second answer');
+  });
+
+  it('should restore branches through hydrateMessages', async () => {
+    await session.sendMessage('Hello');
+    await session.regenerate(lastAssistant().id);
+    const messages = session.getMessages();
+    const branches = session.getBranches();
+
+    const restored = new AgentWidgetSession(
+      { apiUrl: 'http://localhost:8000' },
+      {
+        onMessagesChanged: () => {},
+        onStatusChanged: () => {},
+        onStreamingChanged: () => {}
+      }
+    );
+    restored.hydrateMessages(messages, branches);
+
+    const userId = messages[0].id;
+    restored.switchBranch(userId, 0);
+    expect(restored.getMessages()[1].content).toBe('First answer');
+  });
+});
+
+describe('AgentWidgetSession - Remote Messages', () => {
+  it('should mirror remote messages with streaming flags, but not while streaming', async () => {
+    let latestMessages: AgentWidgetMessage[] = [];
+    const session = new AgentWidgetSession(
+      { apiUrl: 'http://localhost:8000' },
+      {
+        onMessagesChanged: (messages) => {
+          latestMessages = messages;
+        },
+        onStatusChanged: () => {},
+        onStreamingChanged: () => {}
+      }
+    );
+
+    const remote: AgentWidgetMessage[] = [
+      { id: 'usr_1', role: 'user', content: 'Hello', createdAt: '2025-01-01T00:00:00.000Z' },
+      {
+        id: 'ast_1',
+        role: 'assistant',
+        content: 'Hi th',
+        createdAt: '2025-01-01T00:00:01.000Z',
+        streaming: true
+      }
+    ];
+
+    expect(session.applyRemoteMessages(remote)).toBe(true);
+    expect(latestMessages.map((m) => m.id)).toEqual(['usr_1', 'ast_1']);
+    expect(latestMessages[1].streaming).toBe(true);
+    expect(session.isStreaming()).toBe(false);
+
+    let finishStream: () => void = () => {};
+    global.fetch = vi.fn().mockImplementation(
+      () =>
+        new Promise((resolve) => {
+          finishStream = () => resolve(createStreamResponse('Done'));
+        })
+    );
+    const sending = session.sendMessage('Another question');
+    await wait(0);
+    expect(session.isStreaming()).toBe(true);
+    expect(session.applyRemoteMessages([])).toBe(false);
+
+    finishStream();
+    await sending;
+    expect(session.getMessages().length).toBeGreaterThan(0);
+  });
+});
+
+describe('AgentWidgetSession - Client Tools', () => {
+  it('should run browser tools and send their results back to the model', async () => {
+    const payloads: any[] = [];
+    const encoder = new TextEncoder();
+    const toolStream = () =>
+      new ReadableStream({
+        start(controller) {
+          controller.enqueue(
+            encoder.encode(
+              'data: {"type":"tool_start","toolId":"call_1","toolName":"get_cart","args":{"currency":"EUR"}}\n\n' +
+                'data: {"type":"tool_complete","toolId":"call_1"}\n\n' +
+                'data: {"type":"flow_complete","success":true}\n\n'
+            )
+          );
+          controller.close();
+        }
+      });
+    global.fetch = vi.fn().mockImplementation(async (_url: string, options: any) => {
+      payloads.push(JSON.parse(options.body));
+      await wait(5);
+      return payloads.length === 1
+        ? { ok: true, body: toolStream() }
+        : createStreamResponse('Your cart has 2 items');
+    });
+
+    const handler = vi.fn().mockResolvedValue({ items: 2 });
+    const session = new AgentWidgetSession(
+      {
+        apiUrl: 'http://localhost:8000',
+        tools: [{ name: 'get_cart', description: 'Read the cart', handler }]
+      },
+      {
+        onMessagesChanged: () => {},
+        onStatusChanged: () => {},
+        onStreamingChanged: () => {}
+      }
+    );
+
+    await session.sendMessage('What is in my cart?');
+
+    expect(handler).toHaveBeenCalledWith(
+      { currency: 'EUR' },
+      expect.objectContaining({ toolCallId: 'call_1' })
+    );
+    expect(payloads).toHaveLength(2);
+    expect(payloads[0].tools).toEqual([{ name: 'get_cart', description: 'Read the cart' }]);
+    expect(payloads[1].messages[1]).toMatchObject({
+      role: 'assistant',
+      content: '',
+      toolCall: { id: 'call_1', name: 'get_cart', args: { currency: 'EUR' }, result: { items: 2 } }
+    });
+
+    const messages = session.getMessages();
+    const toolMessage = messages.find((message) => message.variant === 'tool')!;
+    expect(toolMessage.toolCall?.status).toBe('complete');
+    expect(messages[messages.length - 1].content).toBe('Your cart has 2 items');
+    expect(session.isStreaming()).toBe(false);
+  });
+});
+
+describe('AgentWidgetSession - Outbox', () => {
+  it('should queue messages after a network error and send them in order on flush', async () => {
+    const payloads: any[] = [];
+    let online = false;
+    global.fetch = vi.fn().mockImplementation(async (_url: string, options: any) => {
+      if (!online) throw new TypeError('Failed to fetch');
+      payloads.push(JSON.parse(options.body));
+      await wait(5);
+      return createStreamResponse(`Reply ${payloads.length}`);
+    });
+    const session = new AgentWidgetSession(
+      { apiUrl: 'http://localhost:8000', outbox: true },
+      {
+        onMessagesChanged: () => {},
+        onStatusChanged: () => {},
+        onStreamingChanged: () => {}
+      }
+    );
+
+    await session.sendMessage('First');
+    await session.sendMessage('Second');
+
+    expect(session.getMessages().map((m) => [m.content, m.deliveryStatus])).toEqual([
+      ['First', 'queued'],
+      ['Second', 'queued']
+    ]);
+    expect(session.isStreaming()).toBe(false);
+
+    online = true;
+    await session.flushOutbox();
+
+    expect(session.getMessages().map((m) => m.content)).toEqual([
+      'First',
+      'Reply 1',
+      'Second',
+      'Reply 2'
+    ]);
+    expect(session.hasQueuedMessages()).toBe(false);
+    expect(payloads[0].messages.map((m: any) => m.content)).toEqual(['First']);
+    expect(payloads[1].messages.map((m: any) => m.content)).toEqual(['First', 'Reply 1', 'Second']);
+  });
+
+  it('should only queue failed fetches, and only when the outbox is enabled', async () => {
+    const createSession = (outbox?: boolean) =>
+      new AgentWidgetSession(
+        { apiUrl: 'http://localhost:8000', outbox },
+        {
+          onMessagesChanged: () => {},
+          onStatusChanged: () => {},
+          onStreamingChanged: () => {},
+          onError: () => {}
+        }
+      );
+
+    global.fetch = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    const disabled = createSession();
+    await disabled.sendMessage('Hello');
+    expect(disabled.getMessages()[0].deliveryStatus).toBe('failed');
+
+    global.fetch = vi.fn().mockRejectedValue(new TypeError("Cannot read properties of undefined (reading 'body')"));
+    const enabled = createSession(true);
+    await enabled.sendMessage('Hello');
+    expect(enabled.getMessages()[0].deliveryStatus).toBe('failed');
+  });
+});
+
+describe('AgentWidgetSession - Stop', () => {
+  it('should keep the partial reply, mark it stopped and abort the request', async () => {
+    let signal: AbortSignal | undefined;
+    global.fetch = vi.fn().mockImplementation(async (_url: string, options: any) => {
+      signal = options.signal;
+      const encoder = new TextEncoder();
+      const body = new ReadableStream({
+        start(controller) {
+          controller.enqueue(encoder.encode('data: {"type":"step_chunk","text":"Partial"}\n\n'));
+          // Like fetch, the open stream errors once the request is aborted
+          options.signal.addEventListener('abort', () =>
+            controller.error(new DOMException('The operation was aborted', 'AbortError'))
+          );
+        }
+      });
+      return { ok: true, body };
+    });
+    const onError = vi.fn();
+    const session = new AgentWidgetSession(
+      { apiUrl: 'http://localhost:8000' },
+      {
+        onMessagesChanged: () => {},
+        onStatusChanged: () => {},
+        onStreamingChanged: () => {},
+        onError
+      }
+    );
+
+    const sending = session.sendMessage('Hello');
+    await vi.waitFor(() =>
+      expect(session.getMessages().some((m) => m.content === 'Partial')).toBe(true)
+    );
+
+    expect(session.stop()).toBe(true);
+    await sending;
+
+    expect(signal?.aborted).toBe(true);
+    expect(session.isStreaming()).toBe(false);
+    expect(session.getStatus()).toBe('idle');
+    expect(onError).not.toHaveBeenCalled();
+    const messages = session.getMessages();
+    expect(messages).toHaveLength(2);
+    expect(messages[1]).toMatchObject({ content: 'Partial', streaming: false, stopped: true });
+    expect(session.stop()).toBe(false);
+    expect(messages[0].deliveryStatus).toBe('sent');
+  });
+
+  it('should offer Retry when stopped before the stream connected', async () => {
+    global.fetch = vi.fn().mockImplementation(
+      (_url: string, options: any) =>
+        new Promise((_resolve, reject) => {
+          options.signal.addEventListener('abort', () =>
+            reject(new DOMException('The operation was aborted', 'AbortError'))
+          );
+        })
+    );
+    const session = new AgentWidgetSession(
+      { apiUrl: 'http://localhost:8000' },
+      {
+        onMessagesChanged: () => {},
+        onStatusChanged: () => {},
+        onStreamingChanged: () => {}
+      }
+    );
+
+    const sending = session.sendMessage('Hello');
+    await vi.waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    expect(session.getMessages()[0].deliveryStatus).toBe('sending');
+
+    session.stop();
+    await sending;
+
+    expect(session.getMessages()).toHaveLength(1);
+    expect(session.getMessages()[0].deliveryStatus).toBe('failed');
+  });
+});
+
+describe('AgentWidgetSession - Delivery Status', () => {
+  it('should mark a message failed on a server error and retry it without duplicating it', async () => {
+    const payloads: any[] = [];
+    let fail = true;
+    global.fetch = vi.fn().mockImplementation(async (_url: string, options: any) => {
+      payloads.push(JSON.parse(options.body));
+      if (fail) return { ok: false, status: 502, statusText: 'Bad Gateway', body: null };
+      // Keep createdAt timestamps distinct so message order is deterministic
+      await wait(5);
+      return createStreamResponse('Hi there');
+    });
+    const onError = vi.fn();
+    const session = new AgentWidgetSession(
+      { apiUrl: 'http://localhost:8000' },
+      {
+        onMessagesChanged: () => {},
+        onStatusChanged: () => {},
+        onStreamingChanged: () => {},
+        onError
+      }
+    );
+
+    await session.sendMessage('Hello');
+    const [failed] = session.getMessages();
+    expect(session.getMessages()).toHaveLength(1);
+    expect(failed.deliveryStatus).toBe('failed');
+    expect(onError).toHaveBeenCalled();
+
+    fail = false;
+    await session.retryMessage(failed.id);
+
+    expect(session.getMessages().map((m) => [m.id, m.content, m.deliveryStatus])).toEqual([
+      [failed.id, 'Hello', 'sent'],
+      [expect.any(String), 'Hi there', undefined]
+    ]);
+    expect(payloads[1].messages.map((m: any) => m.content)).toEqual(['Hello']);
+  });
+});
+
+describe('AgentWidgetSession - Quota', () => {
+  it('should block on a 429 until Retry-After passes', async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 429,
+      statusText: 'Too Many Requests',
+      headers: new Headers({ 'Retry-After': '0.05', 'X-RateLimit-Limit': '10' }),
+      body: null
+    });
+    const quotas: any[] = [];
+    const session = new AgentWidgetSession(
+      { apiUrl: 'http://localhost:8000' },
+      {
+        onMessagesChanged: () => {},
+        onStatusChanged: () => {},
+        onStreamingChanged: () => {},
+        onError: () => {},
+        onQuotaChanged: (quota) => quotas.push(quota)
+      }
+    );
+
+    await session.sendMessage('Hello');
+    expect(session.isQuotaExhausted()).toBe(true);
+    expect(session.getQuota()).toMatchObject({ limit: 10, remaining: 0, exhausted: true });
+
+    await vi.waitFor(() => expect(session.isQuotaExhausted()).toBe(false));
+    await vi.waitFor(() =>
+      expect(quotas[quotas.length - 1]).toEqual({ limit: 10, remaining: 10, resetAt: null, exhausted: false })
+    );
+  });
+
+  it('should block on a 429 without a reset time until a request succeeds', async () => {
+    global.fetch = vi
+      .fn()
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: new Headers(),
+        body: null
+      })
+      .mockResolvedValueOnce(
+        new Response('data: {"type":"flow_complete","success":true}\n\n', {
+          headers: { 'Content-Type': 'text/event-stream' }
+        })
+      );
+    const session = new AgentWidgetSession(
+      { apiUrl: 'http://localhost:8000' },
+      {
+        onMessagesChanged: () => {},
+        onStatusChanged: () => {},
+        onStreamingChanged: () => {},
+        onError: () => {}
+      }
+    );
+
+    await session.sendMessage('Hello');
+    expect(session.getQuota()).toMatchObject({ remaining: 0, resetAt: null, exhausted: true });
+    await wait(20);
+    expect(session.isQuotaExhausted()).toBe(true);
+
+    await session.sendMessage('Hello again');
+    expect(session.isQuotaExhausted()).toBe(false);
+    expect(session.getQuota()).toMatchObject({ remaining: null, exhausted: false });
+  });
+
+  it('should stop the reset timer on disconnect', async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 429,
+      statusText: 'Too Many Requests',
+      headers: new Headers({ 'Retry-After': '0.02' }),
+      body: null
+    });
+    const onQuotaChanged = vi.fn();
+    const session = new AgentWidgetSession(
+      { apiUrl: 'http://localhost:8000' },
+      {
+        onMessagesChanged: () => {},
+        onStatusChanged: () => {},
+        onStreamingChanged: () => {},
+        onError: () => {},
+        onQuotaChanged
+      }
+    );
+
+    await session.sendMessage('Hello');
+    const calls = onQuotaChanged.mock.calls.length;
+    session.disconnect();
+    await wait(40);
+
+    expect(onQuotaChanged).toHaveBeenCalledTimes(calls);
+  });
+});
+
+describe('AgentWidgetSession - Telemetry', () => {
+  it('should report dispatch timings and errors', async () => {
+    global.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(createStreamResponse('Hi there'))
+      .mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Server Error', body: null });
+    const events: any[] = [];
+    const session = new AgentWidgetSession(
+      { apiUrl: 'http://localhost:8000', telemetry: { sinks: [(event) => events.push(event)] } },
+      {
+        onMessagesChanged: () => {},
+        onStatusChanged: () => {},
+        onStreamingChanged: () => {},
+        onError: () => {}
+      }
+    );
+
+    await session.sendMessage('Hello');
+    expect(events.map((event) => event.name)).toEqual(['dispatch_start', 'first_chunk', 'dispatch_complete']);
+    expect(events[2]).toMatchObject({
+      dispatchId: events[0].dispatchId,
+      stopped: false,
+      timeToFirstChunkMs: expect.any(Number),
+      durationMs: expect.any(Number)
+    });
+
+    await session.sendMessage('Again');
+    expect(events.slice(3).map((event) => event.name)).toEqual(['dispatch_start', 'dispatch_error']);
+    expect(events[4].error).toContain('500');
+  });
+});
@@ -1,8 +1,13 @@
 import { AgentWidgetClient } from "./client";
 import {
   AgentWidgetConfig,
+  AgentWidgetDeliveryStatus,
   AgentWidgetEvent,
   AgentWidgetMessage,
+  AgentWidgetQuota,
+  AgentWidgetMessageBranchInfo,
+  AgentWidgetMessageBranches,
+  AgentWidgetToolApproval,
   ClientSession,
   ContentPart
 } from "./types";
@@ -10,6 +15,14 @@ import {
   generateUserMessageId,
   generateAssistantMessageId
 } from "./utils/message-id";
+import { mergeQuota } from "./utils/quota";
+import { createTelemetry } from "./utils/telemetry";
+import type { StreamInspectorHooks } from "./utils/inspector";
+import {
+  createWebSocketTransport,
+  getWebSocketOptions,
+  type WebSocketTransport
+} from "./utils/websocket-transport";
 
 export type AgentWidgetSessionStatus =
   | "idle"
@@ -17,20 +30,58 @@ export type AgentWidgetSessionStatus =
   | "connected"
   | "error";
 
+/** Branch key for alternatives that start the conversation */
+const ROOT_BRANCH_KEY = "root";
+
+const isOffline = () => typeof navigator !== "undefined" && navigator.onLine === false;
+
+// fetch's TypeError messages in Chrome, Firefox, Safari and Node
+const FETCH_FAILURE_PATTERN = /failed to fetch|networkerror|load failed|fetch failed|network request failed/i;
+
+/**
+ * fetch rejects with a TypeError when the request never reached the server.
+ * Other TypeErrors are bugs and must not be queued for a resend.
+ */
+const isNetworkError = (error: unknown) =>
+  isOffline() || (error instanceof TypeError && FETCH_FAILURE_PATTERN.test(error.message));
+
 type SessionCallbacks = {
   onMessagesChanged: (messages: AgentWidgetMessage[]) => void;
   onStatusChanged: (status: AgentWidgetSessionStatus) => void;
   onStreamingChanged: (streaming: boolean) => void;
   onError?: (error: Error) => void;
+  /**
+   * Asked before a browser tool runs; resolves to false when the user denies it
+   */
+  requestToolApproval?: (message: AgentWidgetMessage) => Promise<boolean>;
+  onQuotaChanged?: (quota: AgentWidgetQuota) => void;
+  /** Set when the developer inspector is enabled */
+  inspector?: StreamInspectorHooks;
 };
 
+// Longest delay setTimeout supports; longer waits are re-armed
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
 export class AgentWidgetSession {
   private client: AgentWidgetClient;
   private messages: AgentWidgetMessage[];
+  private branches: AgentWidgetMessageBranches = {};
   private status: AgentWidgetSessionStatus = "idle";
   private streaming = false;
   private abortController: AbortController | null = null;
   private sequenceCounter = Date.now();
+  private flushingOutbox = false;
+  private quota: AgentWidgetQuota | null = null;
+  private quotaTimer: ReturnType<typeof setTimeout> | null = null;
+  // Whether the current dispatch's response reported a quota
+  private quotaReported = false;
+  // Kept across config updates so the socket isn't reopened on every change
+  private webSocket: WebSocketTransport | null = null;
+  private webSocketKey: string | null = null;
+  private unsubscribeServerEvents: (() => void) | null = null;
+  private telemetry = createTelemetry(() => this.config);
+  // Tool calls already reported, so re-emitted tool messages aren't counted twice
+  private trackedToolCalls = new Set<string>();
   
   // Client token session management
   private clientSession: ClientSession | null = null;
@@ -44,7 +95,7 @@ export class AgentWidgetSession {
       sequence: message.sequence ?? this.nextSequence()
     }));
     this.messages = this.sortMessages(this.messages);
-    this.client = new AgentWidgetClient(config);
+    this.client = this.createClient();
 
     if (this.messages.length) {
       this.callbacks.onMessagesChanged([...this.messages]);
@@ -169,7 +220,40 @@ export class AgentWidgetSession {
 
   public updateConfig(next: AgentWidgetConfig) {
     this.config = { ...this.config, ...next };
-    this.client = new AgentWidgetClient(this.config);
+    this.client = this.createClient();
+  }
+
+  /**
+   * Close the WebSocket transport, if any, and stop the quota reset timer.
+   * Used when the widget is destroyed.
+   */
+  public disconnect() {
+    if (this.quotaTimer) {
+      clearTimeout(this.quotaTimer);
+      this.quotaTimer = null;
+    }
+    this.unsubscribeServerEvents?.();
+    this.unsubscribeServerEvents = null;
+    this.webSocket?.close();
+    this.webSocket = null;
+    this.webSocketKey = null;
+  }
+
+  private createClient() {
+    const options = getWebSocketOptions(this.config);
+    const key = options ? JSON.stringify(options) : null;
+    if (key !== this.webSocketKey) {
+      this.webSocket?.close();
+      this.webSocket = options ? createWebSocketTransport(options) : null;
+      this.webSocketKey = key;
+    }
+    this.unsubscribeServerEvents?.();
+    const client = new AgentWidgetClient(this.config, {
+      webSocket: this.webSocket ?? undefined,
+      inspector: this.callbacks.inspector
+    });
+    this.unsubscribeServerEvents = client.subscribe(this.handleServerEvent);
+    return client;
   }
 
   public getMessages() {
@@ -180,6 +264,23 @@ export class AgentWidgetSession {
     return this.status;
   }
 
+  /**
+   * Message quota reported by the backend, or null when it reported none
+   */
+  public getQuota() {
+    return this.quota ? { ...this.quota } : null;
+  }
+
+  /**
+   * True while the message limit is reached: until its reset time, or, when
+   * the backend sent none, until a request succeeds
+   */
+  public isQuotaExhausted() {
+    return Boolean(
+      this.quota?.exhausted && (this.quota.resetAt === null || this.quota.resetAt > Date.now())
+    );
+  }
+
   public isStreaming() {
     return this.streaming;
   }
@@ -188,6 +289,26 @@ export class AgentWidgetSession {
     this.handleEvent(event);
   }
 
+  /**
+   * Add or replace a tool message outside a response stream,
+   * e.g. the approval card for a parsed action
+   */
+  public upsertToolMessage(message: AgentWidgetMessage) {
+    this.upsertMessage({ ...message, variant: "tool" });
+  }
+
+  /**
+   * Set the approval state of a tool message. Returns the updated message,
+   * or null when the message is not in the active branch.
+   */
+  public setToolApproval(messageId: string, approval: AgentWidgetToolApproval) {
+    const message = this.messages.find((m) => m.id === messageId);
+    if (!message?.toolCall) return null;
+    const next = { ...message, toolCall: { ...message.toolCall, approval } };
+    this.upsertMessage(next);
+    return next;
+  }
+
   public async sendMessage(
     rawInput: string,
     options?: {
@@ -200,7 +321,13 @@ export class AgentWidgetSession {
     // Allow sending if there's text OR attachments
     if (!input && (!options?.contentParts || options.contentParts.length === 0)) return;
 
-    this.abortController?.abort();
+    // Queue behind earlier queued messages so the outbox keeps the order
+    const queue =
+      this.isOutboxEnabled() &&
+      (isOffline() || this.flushingOutbox || this.hasQueuedMessages());
+    if (!queue) {
+      this.abortController?.abort();
+    }
 
     // Generate IDs for both user message and expected assistant response
     const userMessageId = generateUserMessageId();
@@ -219,13 +346,204 @@ export class AgentWidgetSession {
       })
     };
 
-    this.appendMessage(userMessage);
+    if (queue) {
+      this.appendMessage({ ...userMessage, deliveryStatus: "queued" });
+      await this.flushOutbox();
+      return;
+    }
+
+    this.appendMessage({ ...userMessage, deliveryStatus: "sending" });
+    await this.dispatchTurn(assistantMessageId, { userMessageId });
+  }
+
+  /**
+   * Send a failed user message again. Whatever the failed attempt produced
+   * is dropped and the message keeps its id, so history has no duplicate.
+   */
+  public async retryMessage(messageId: string) {
+    if (this.streaming) return;
+    const index = this.messages.findIndex((message) => message.id === messageId);
+    const message = this.messages[index];
+    if (!message || message.role !== "user" || message.deliveryStatus !== "failed") return;
+
+    // Partial replies of the failed attempt run up to the next user message
+    let end = index + 1;
+    while (end < this.messages.length && this.messages[end].role !== "user") {
+      end++;
+    }
+    const later = this.messages.slice(end);
+    this.messages = [...this.messages.slice(0, index), ...later];
+    // Messages sent after the failed one stay before it in the retried turn
+    this.appendMessage({
+      ...message,
+      deliveryStatus: "sending",
+      ...(later.length > 0 && this.endPosition())
+    });
+    await this.dispatchTurn(generateAssistantMessageId(), { userMessageId: messageId });
+  }
+
+  /**
+   * Send queued messages one turn at a time, oldest first. Stops while offline
+   * or when a send fails with a network error again.
+   */
+  public async flushOutbox() {
+    if (this.flushingOutbox || this.streaming || isOffline()) return;
+    this.flushingOutbox = true;
+    try {
+      let next = this.messages.find((message) => message.deliveryStatus === "queued");
+      while (next && !isOffline()) {
+        const userMessageId = next.id;
+        // Move the message after replies to earlier queued messages
+        this.upsertMessage({ ...next, deliveryStatus: "sending", ...this.endPosition() });
+        await this.dispatchTurn(generateAssistantMessageId(), { userMessageId });
+        const requeued = this.messages.find((message) => message.id === userMessageId);
+        if (requeued?.deliveryStatus === "queued") {
+          // Still unsent: put it back ahead of the messages queued after it
+          this.upsertMessage({ ...requeued, createdAt: next.createdAt, sequence: next.sequence });
+          break;
+        }
+        next = this.messages.find((message) => message.deliveryStatus === "queued");
+      }
+    } finally {
+      this.flushingOutbox = false;
+    }
+  }
+
+  public hasQueuedMessages() {
+    return this.messages.some((message) => message.deliveryStatus === "queued");
+  }
+
+  private isOutboxEnabled() {
+    const outbox = this.config.outbox;
+    return outbox === true || (typeof outbox === "object" && outbox.enabled !== false);
+  }
+
+  /**
+   * Replace a past user message with new content and regenerate from there.
+   * The original message and everything after it stay available as a sibling branch.
+   */
+  public async editMessage(messageId: string, newContent: string) {
+    const input = newContent.trim();
+    if (!input || this.streaming) return;
+
+    const index = this.messages.findIndex((message) => message.id === messageId);
+    const original = this.messages[index];
+    if (!original || original.role !== "user") return;
+
+    this.forkAfter(index - 1);
+
+    // Keep attachments, swap the text parts for the edited text
+    const attachments = original.contentParts?.filter((part) => part.type !== "text");
+    const userMessage: AgentWidgetMessage = {
+      id: generateUserMessageId(),
+      role: "user",
+      content: input,
+      createdAt: new Date().toISOString(),
+      sequence: this.nextSequence(),
+      ...(attachments && attachments.length > 0 && {
+        contentParts: [{ type: "text", text: input }, ...attachments]
+      })
+    };
+
+    this.appendMessage({ ...userMessage, deliveryStatus: "sending" });
+    await this.dispatchTurn(generateAssistantMessageId(), { userMessageId: userMessage.id });
+  }
+
+  /**
+   * Request a new response for an assistant message.
+   * The previous response stays available as a sibling branch.
+   */
+  public async regenerate(assistantMessageId: string) {
+    if (this.streaming) return;
+
+    const index = this.messages.findIndex((message) => message.id === assistantMessageId);
+    if (index === -1 || this.messages[index].role !== "assistant") return;
+
+    // The reply being regenerated starts right after the prompting user message
+    let userIndex = index - 1;
+    while (userIndex >= 0 && this.messages[userIndex].role !== "user") {
+      userIndex--;
+    }
+    if (userIndex < 0) return;
+
+    this.forkAfter(userIndex);
+    this.callbacks.onMessagesChanged([...this.messages]);
+    await this.dispatchTurn(generateAssistantMessageId());
+  }
+
+  /**
+   * Show a different sibling branch after the given parent message
+   */
+  public switchBranch(parentId: string, index: number) {
+    if (this.streaming) return;
+    const branch = this.branches[parentId];
+    if (!branch || index < 0 || index >= branch.tails.length || index === branch.active) {
+      return;
+    }
+
+    const parentIndex =
+      parentId === ROOT_BRANCH_KEY
+        ? -1
+        : this.messages.findIndex((message) => message.id === parentId);
+    if (parentId !== ROOT_BRANCH_KEY && parentIndex === -1) return;
+
+    const tails = [...branch.tails];
+    tails[branch.active] = this.messages.slice(parentIndex + 1);
+    this.branches = { ...this.branches, [parentId]: { active: index, tails } };
+    this.messages = [...this.messages.slice(0, parentIndex + 1), ...tails[index]];
+    this.callbacks.onMessagesChanged([...this.messages]);
+  }
+
+  /**
+   * Get the branch switcher position for a message, if it starts a branch with siblings
+   */
+  public getBranchInfo(messageId: string): AgentWidgetMessageBranchInfo | null {
+    for (const [parentId, branch] of Object.entries(this.branches)) {
+      if (branch.tails.length < 2) continue;
+      const parentIndex =
+        parentId === ROOT_BRANCH_KEY
+          ? -1
+          : this.messages.findIndex((message) => message.id === parentId);
+      if (parentId !== ROOT_BRANCH_KEY && parentIndex === -1) continue;
+
+      // The switcher sits on the first user or assistant bubble of the active tail
+      const head = this.messages
+        .slice(parentIndex + 1)
+        .find((message) => !message.variant || message.variant === "assistant");
+      if (head?.id === messageId) {
+        return { parentId, index: branch.active, total: branch.tails.length };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get inactive branches for persistence. The active path is `getMessages()`.
+   */
+  public getBranches(): AgentWidgetMessageBranches {
+    return { ...this.branches };
+  }
+
+  private async dispatchTurn(
+    assistantMessageId: string,
+    options: {
+      /** User message that started this turn; its delivery status follows the dispatch */
+      userMessageId?: string;
+      toolRound?: number;
+    } = {}
+  ) {
+    const { userMessageId, toolRound = 0 } = options;
     this.setStreaming(true);
 
     const controller = new AbortController();
     this.abortController = controller;
 
-    const snapshot = [...this.messages];
+    // Queued messages are sent by their own turn; failed ones only on retry
+    const snapshot = this.messages.filter(
+      (message) => message.deliveryStatus !== "queued" && message.deliveryStatus !== "failed"
+    );
+
+    const timing = this.startDispatchTiming(assistantMessageId, snapshot.length);
 
     try {
       await this.client.dispatch(
@@ -234,9 +552,47 @@ export class AgentWidgetSession {
           signal: controller.signal,
           assistantMessageId // Pass expected assistant message ID for tracking
         },
-        this.handleEvent
+        // Events still in flight after stop() or cancel() are dropped
+        (event) => {
+          if (controller.signal.aborted) return;
+          if (userMessageId) this.trackDelivery(userMessageId, event);
+          timing.onEvent(event);
+          this.handleEvent(event);
+        }
       );
     } catch (error) {
+      // Stopped or cancelled on purpose; not an error
+      if (controller.signal.aborted) {
+        timing.complete(true);
+        this.settleStoppedDelivery(userMessageId);
+        return;
+      }
+      timing.fail(error);
+
+      const userMessage = this.messages.find((message) => message.id === userMessageId);
+      // Only when nothing arrived; a partial reply must not be requested twice
+      const replied = this.messages.some(
+        (message) =>
+          message.role !== "user" && !snapshot.some((sent) => sent.id === message.id)
+      );
+      if (userMessage && !replied && this.isOutboxEnabled() && isNetworkError(error)) {
+        this.upsertMessage({ ...userMessage, deliveryStatus: "queued" });
+        this.setStatus("idle");
+        this.setStreaming(false);
+        this.abortController = null;
+        return;
+      }
+
+      // The user bubble shows the failure with a Retry action instead of a sample reply
+      if (userMessage) {
+        this.setDeliveryStatus(userMessage.id, "failed");
+        this.setStatus("idle");
+        this.setStreaming(false);
+        this.abortController = null;
+        this.callbacks.onError?.(error instanceof Error ? error : new Error(String(error)));
+        return;
+      }
+
       const fallback: AgentWidgetMessage = {
         id: assistantMessageId, // Use the pre-generated ID for fallback too
         role: "assistant",
@@ -255,7 +611,238 @@ export class AgentWidgetSession {
       } else {
         this.callbacks.onError?.(new Error(String(error)));
       }
+      return;
+    }
+
+    timing.complete(controller.signal.aborted);
+    if (controller.signal.aborted) {
+      this.settleStoppedDelivery(userMessageId);
+    } else if (userMessageId) {
+      const userMessage = this.messages.find((message) => message.id === userMessageId);
+      if (userMessage?.deliveryStatus === "sending") {
+        this.setDeliveryStatus(userMessageId, "sent");
+      }
+    }
+    await this.runClientTools(snapshot, controller, toolRound);
+  }
+
+  /**
+   * Report the start, first chunk and end of a dispatch to telemetry.
+   * An error event in the stream counts as the outcome, so `complete` is then skipped.
+   */
+  private startDispatchTiming(dispatchId: string, messageCount: number) {
+    const startedAt = Date.now();
+    let timeToFirstChunkMs: number | null = null;
+    let finished = false;
+    this.telemetry.track({ name: "dispatch_start", dispatchId, messageCount });
+
+    const fail = (error: unknown) => {
+      if (finished) return;
+      finished = true;
+      this.telemetry.track({
+        name: "dispatch_error",
+        dispatchId,
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    };
+
+    return {
+      onEvent: (event: AgentWidgetEvent) => {
+        if (event.type === "error") {
+          fail(event.error);
+        } else if (
+          timeToFirstChunkMs === null &&
+          event.type === "message" &&
+          event.message.role !== "user"
+        ) {
+          timeToFirstChunkMs = Date.now() - startedAt;
+          this.telemetry.track({ name: "first_chunk", dispatchId, timeToFirstChunkMs });
+        }
+      },
+      fail,
+      complete: (stopped: boolean) => {
+        if (finished) return;
+        finished = true;
+        this.telemetry.track({
+          name: "dispatch_complete",
+          dispatchId,
+          durationMs: Date.now() - startedAt,
+          timeToFirstChunkMs,
+          stopped
+        });
+      }
+    };
+  }
+
+  private trackToolCompletion(message: AgentWidgetMessage) {
+    const toolCall = message.toolCall;
+    if (!toolCall || toolCall.status !== "complete" || this.trackedToolCalls.has(message.id)) {
+      return;
     }
+    this.trackedToolCalls.add(message.id);
+    const durationMs =
+      toolCall.durationMs ??
+      toolCall.duration ??
+      (toolCall.startedAt && toolCall.completedAt
+        ? toolCall.completedAt - toolCall.startedAt
+        : null);
+    this.telemetry.track({ name: "tool_complete", toolName: toolCall.name ?? "unknown", durationMs });
+  }
+
+  /**
+   * The backend accepted the message once the stream connects; an error
+   * event (HTTP failure or SSE `error`) marks it failed
+   */
+  private trackDelivery(userMessageId: string, event: AgentWidgetEvent) {
+    if (event.type === "status" && event.status === "connected") {
+      this.setDeliveryStatus(userMessageId, "sent");
+    } else if (event.type === "error") {
+      this.setDeliveryStatus(userMessageId, "failed");
+    }
+  }
+
+  /**
+   * A turn stopped before the stream connected may never have reached the
+   * backend, so the message offers Retry instead of staying at "sending"
+   */
+  private settleStoppedDelivery(userMessageId: string | undefined) {
+    if (!userMessageId) return;
+    const userMessage = this.messages.find((message) => message.id === userMessageId);
+    if (userMessage?.deliveryStatus === "sending") {
+      this.setDeliveryStatus(userMessageId, "failed");
+    }
+  }
+
+  private setDeliveryStatus(messageId: string, deliveryStatus: AgentWidgetDeliveryStatus) {
+    const message = this.messages.find((m) => m.id === messageId);
+    if (!message || message.deliveryStatus === deliveryStatus) return;
+    this.upsertMessage({ ...message, deliveryStatus });
+  }
+
+  /**
+   * Timestamp and sequence that sort a message after everything in the conversation,
+   * including replies whose times came from the server
+   */
+  private endPosition() {
+    const latest = Math.max(
+      Date.now(),
+      ...this.messages.map((message) => new Date(message.createdAt).getTime() + 1 || 0)
+    );
+    return { createdAt: new Date(latest).toISOString(), sequence: this.nextSequence() };
+  }
+
+  /**
+   * Run the browser tools the last response called, then send their results
+   * back so the model can continue. Stops after `maxToolRounds` rounds.
+   */
+  private async runClientTools(
+    snapshot: AgentWidgetMessage[],
+    controller: AbortController,
+    toolRound: number
+  ) {
+    const tools = this.config.tools ?? [];
+    if (!tools.length || controller.signal.aborted) return;
+
+    const seen = new Set(snapshot.map((message) => message.id));
+    const pending = this.messages.filter(
+      (message) =>
+        !seen.has(message.id) &&
+        message.variant === "tool" &&
+        message.toolCall?.result === undefined &&
+        tools.some((tool) => tool.name === message.toolCall?.name)
+    );
+    if (!pending.length) return;
+
+    const maxRounds = this.config.maxToolRounds ?? 5;
+    if (toolRound >= maxRounds) {
+      if (typeof console !== "undefined") {
+        // eslint-disable-next-line no-console
+        console.warn(`[AgentWidget] Stopped after ${maxRounds} client tool rounds`);
+      }
+      return;
+    }
+
+    this.abortController = controller;
+    this.setStreaming(true);
+
+    for (const message of pending) {
+      const tool = tools.find((candidate) => candidate.name === message.toolCall?.name)!;
+      const allowed = this.callbacks.requestToolApproval
+        ? await this.callbacks.requestToolApproval(message)
+        : true;
+      if (controller.signal.aborted) return;
+
+      // Pick up the approval state set while waiting
+      const current = this.messages.find((m) => m.id === message.id) ?? message;
+      const toolCall = current.toolCall!;
+      const startedAt = Date.now();
+      this.upsertMessage({
+        ...current,
+        streaming: true,
+        toolCall: { ...toolCall, status: "running", startedAt }
+      });
+
+      let result: unknown;
+      if (!allowed) {
+        result = { error: "The user denied this tool call" };
+      } else {
+        try {
+          result = await tool.handler(toolCall.args ?? {}, {
+            toolCallId: toolCall.id,
+            messages: [...this.messages],
+            signal: controller.signal
+          });
+        } catch (error) {
+          result = { error: error instanceof Error ? error.message : String(error) };
+        }
+      }
+      if (controller.signal.aborted) return;
+
+      const completedAt = Date.now();
+      this.upsertMessage({
+        ...current,
+        streaming: false,
+        toolCall: {
+          ...toolCall,
+          status: "complete",
+          // null marks the call as answered when the handler returns nothing
+          result: result === undefined ? null : result,
+          startedAt,
+          completedAt,
+          durationMs: completedAt - startedAt
+        }
+      });
+    }
+
+    await this.dispatchTurn(generateAssistantMessageId(), { toolRound: toolRound + 1 });
+  }
+
+  /**
+   * Stop the response that is streaming. The partial reply is kept and
+   * marked `stopped`; the request is aborted so the backend can stop too.
+   * Returns false when nothing is streaming.
+   */
+  public stop() {
+    if (!this.streaming) return false;
+    this.messages
+      .filter((message) => message.streaming)
+      .forEach((message) => {
+        const isReply = message.role === "assistant" && (message.variant ?? "assistant") === "assistant";
+        this.upsertMessage({
+          ...message,
+          streaming: false,
+          ...(isReply && { stopped: true }),
+          ...(message.reasoning?.status === "streaming" && {
+            reasoning: { ...message.reasoning, status: "complete" as const }
+          }),
+          ...(message.toolCall?.status === "running" && {
+            toolCall: { ...message.toolCall, status: "complete" as const }
+          })
+        });
+      });
+    this.cancel();
+    return true;
   }
 
   public cancel() {
@@ -269,37 +856,66 @@ export class AgentWidgetSession {
     this.abortController?.abort();
     this.abortController = null;
     this.messages = [];
+    this.branches = {};
     this.setStreaming(false);
     this.setStatus("idle");
     this.callbacks.onMessagesChanged([...this.messages]);
   }
 
-  public hydrateMessages(messages: AgentWidgetMessage[]) {
+  public hydrateMessages(
+    messages: AgentWidgetMessage[],
+    branches?: AgentWidgetMessageBranches
+  ) {
     this.abortController?.abort();
     this.abortController = null;
     this.messages = this.sortMessages(
       messages.map((message) => ({
         ...message,
         streaming: false,
-        sequence: message.sequence ?? this.nextSequence()
+        sequence: message.sequence ?? this.nextSequence(),
+        // A send interrupted by a reload never reached the backend
+        ...(message.deliveryStatus === "sending" && { deliveryStatus: "failed" as const })
       }))
     );
+    this.branches = branches ? { ...branches } : {};
     this.setStreaming(false);
     this.setStatus("idle");
     this.callbacks.onMessagesChanged([...this.messages]);
   }
 
+  /**
+   * Replace messages with a snapshot from another tab. Unlike hydrateMessages,
+   * streaming flags are kept so a response streamed elsewhere renders live.
+   * Returns false (and changes nothing) while this session is streaming.
+   */
+  public applyRemoteMessages(
+    messages: AgentWidgetMessage[],
+    branches?: AgentWidgetMessageBranches
+  ) {
+    if (this.streaming) return false;
+    this.messages = this.sortMessages(messages.map((message) => this.ensureSequence(message)));
+    this.branches = branches ? { ...branches } : {};
+    this.callbacks.onMessagesChanged([...this.messages]);
+    return true;
+  }
+
   private handleEvent = (event: AgentWidgetEvent) => {
     if (event.type === "message") {
-      this.upsertMessage(event.message);
+      this.upsertMessage(this.keepToolApproval(event.message));
     } else if (event.type === "status") {
       this.setStatus(event.status);
       if (event.status === "connecting") {
+        this.quotaReported = false;
         this.setStreaming(true);
+      } else if (event.status === "connected") {
+        this.reopenQuotaWithoutReset();
       } else if (event.status === "idle" || event.status === "error") {
         this.setStreaming(false);
         this.abortController = null;
       }
+    } else if (event.type === "quota") {
+      this.quotaReported = true;
+      this.setQuota(mergeQuota(this.quota, event.quota));
     } else if (event.type === "error") {
       this.setStatus("error");
       this.setStreaming(false);
@@ -308,6 +924,64 @@ export class AgentWidgetSession {
     }
   };
 
+  /**
+   * Events from a stream the server started (WebSocket transport). They don't
+   * belong to the current turn, so streaming state and status are left alone.
+   */
+  private handleServerEvent = (event: AgentWidgetEvent) => {
+    if (event.type === "message") {
+      this.upsertMessage(event.message);
+    } else if (event.type === "quota") {
+      this.setQuota(mergeQuota(this.quota, event.quota));
+    } else if (event.type === "error") {
+      this.callbacks.onError?.(event.error);
+    }
+  };
+
+  /**
+   * The client re-emits tool messages from its own copy, which doesn't know
+   * about approval decisions made in the widget
+   */
+  private keepToolApproval(message: AgentWidgetMessage): AgentWidgetMessage {
+    if (!message.toolCall || message.toolCall.approval) return message;
+    const approval = this.messages.find((m) => m.id === message.id)?.toolCall?.approval;
+    return approval ? { ...message, toolCall: { ...message.toolCall, approval } } : message;
+  }
+
+  /**
+   * A limit without a reset time (e.g. a bare 429) holds until a request
+   * succeeds without reporting a quota of its own
+   */
+  private reopenQuotaWithoutReset() {
+    if (this.quotaReported || !this.quota?.exhausted || this.quota.resetAt !== null) return;
+    this.setQuota({ ...this.quota, exhausted: false, remaining: null });
+  }
+
+  /**
+   * Store the quota and reopen it once its reset time passes
+   */
+  private setQuota(quota: AgentWidgetQuota) {
+    if (this.quotaTimer) {
+      clearTimeout(this.quotaTimer);
+      this.quotaTimer = null;
+    }
+    let next = quota;
+    if (quota.exhausted && quota.resetAt !== null) {
+      const delay = quota.resetAt - Date.now();
+      if (delay <= 0) {
+        // New window: the reset time of the next one isn't known yet
+        next = { ...quota, exhausted: false, remaining: quota.limit, resetAt: null };
+      } else {
+        this.quotaTimer = setTimeout(() => {
+          this.quotaTimer = null;
+          if (this.quota) this.setQuota(this.quota);
+        }, Math.min(delay, MAX_TIMER_DELAY_MS));
+      }
+    }
+    this.quota = next;
+    this.callbacks.onQuotaChanged?.({ ...next });
+  }
+
   private setStatus(status: AgentWidgetSessionStatus) {
     if (this.status === status) return;
     this.status = status;
@@ -328,6 +1002,7 @@ export class AgentWidgetSession {
 
   private upsertMessage(message: AgentWidgetMessage) {
     const withSequence = this.ensureSequence(message);
+    this.trackToolCompletion(withSequence);
     const index = this.messages.findIndex((m) => m.id === withSequence.id);
     if (index === -1) {
       this.appendMessage(withSequence);
@@ -341,6 +1016,25 @@ export class AgentWidgetSession {
     this.callbacks.onMessagesChanged([...this.messages]);
   }
 
+  /**
+   * Move everything after `parentIndex` into a new sibling branch and
+   * truncate the active path so the next turn starts a fresh tail.
+   */
+  private forkAfter(parentIndex: number) {
+    const parentId =
+      parentIndex < 0 ? ROOT_BRANCH_KEY : this.messages[parentIndex].id;
+    const currentTail = this.messages.slice(parentIndex + 1);
+    const existing = this.branches[parentId];
+    const tails = existing ? [...existing.tails] : [];
+    tails[existing?.active ?? 0] = currentTail;
+    tails.push([]);
+    this.branches = {
+      ...this.branches,
+      [parentId]: { active: tails.length - 1, tails }
+    };
+    this.messages = this.messages.slice(0, parentIndex + 1);
+  }
+
   private ensureSequence(message: AgentWidgetMessage): AgentWidgetMessage {
     if (message.sequence !== undefined) {
       return { ...message };
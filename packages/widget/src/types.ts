@@ -1,4 +1,5 @@
 import type { AgentWidgetPlugin } from "./plugins/types";
+import type { AgentWidgetMessages } from "./utils/i18n";
 
 // ============================================================================
 // Multi-Modal Content Types
@@ -60,10 +61,33 @@ export type AgentWidgetContextProvider = (
   | void
   | Promise<Record<string, unknown> | void>;
 
+/**
+ * A browser tool call and its result, sent back so the model can continue
+ */
+export type AgentWidgetRequestToolCall = {
+  id: string;
+  name: string;
+  args?: unknown;
+  result?: unknown;
+};
+
 export type AgentWidgetRequestPayloadMessage = {
   role: AgentWidgetMessageRole;
   content: MessageContent;
   createdAt: string;
+  /**
+   * Present on entries for browser tool calls (`content` is empty)
+   */
+  toolCall?: AgentWidgetRequestToolCall;
+};
+
+/**
+ * Browser tool definition as advertised to the backend
+ */
+export type AgentWidgetRequestTool = {
+  name: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
 };
 
 export type AgentWidgetRequestPayload = {
@@ -71,6 +95,21 @@ export type AgentWidgetRequestPayload = {
   flowId?: string;
   context?: Record<string, unknown>;
   metadata?: Record<string, unknown>;
+  /**
+   * Browser tools the model may call (from the `tools` config option)
+   */
+  tools?: AgentWidgetRequestTool[];
+  /**
+   * Identifier for this dispatch, sent when `streamResume` is enabled so the
+   * proxy can replay buffered events if the stream is interrupted.
+   */
+  dispatchId?: string;
+  /**
+   * Set (with `dispatchId` and no messages) when the user stops a dispatch
+   * with `streamResume` enabled. Buffered dispatches outlive the aborted
+   * request so they can be resumed, so the proxy only stops them on request.
+   */
+  cancel?: boolean;
 };
 
 export type AgentWidgetRequestMiddlewareContext = {
@@ -117,9 +156,84 @@ export type AgentWidgetActionHandler = (
   context: AgentWidgetActionContext
 ) => AgentWidgetActionHandlerResult | void;
 
+/**
+ * Alternative message sequences that follow the same parent message.
+ * Created when a user message is edited or an assistant reply is regenerated.
+ * The active tail is the one currently shown in the transcript.
+ */
+export type AgentWidgetMessageBranch = {
+  active: number;
+  tails: AgentWidgetMessage[][];
+};
+
+/**
+ * Conversation branches keyed by the id of the message they follow
+ * (`"root"` for branches that start the conversation).
+ */
+export type AgentWidgetMessageBranches = Record<string, AgentWidgetMessageBranch>;
+
+/**
+ * Position of a message within its sibling branches, used by the branch switcher
+ */
+export type AgentWidgetMessageBranchInfo = {
+  parentId: string;
+  index: number;
+  total: number;
+};
+
+/**
+ * Summary of a conversation thread, as returned by `listThreads()`
+ */
+export type AgentWidgetThread = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+};
+
+/**
+ * Persisted conversation thread. The active thread's messages, branches and
+ * metadata live at the top level of `AgentWidgetStoredState` instead.
+ */
+export type AgentWidgetStoredThread = {
+  id: string;
+  /**
+   * Custom title set via rename. When omitted the title is derived from the first user message.
+   */
+  title?: string;
+  createdAt: string;
+  updatedAt: string;
+  messages?: AgentWidgetMessage[];
+  branches?: AgentWidgetMessageBranches;
+  metadata?: Record<string, unknown>;
+};
+
+export type AgentWidgetThreadChangedEvent = {
+  /**
+   * The active thread after the change
+   */
+  thread: AgentWidgetThread;
+  /**
+   * The thread that was created, switched to, deleted or renamed
+   */
+  threadId: string;
+  previousThreadId: string | null;
+  reason: "created" | "switched" | "deleted" | "renamed";
+};
+
 export type AgentWidgetStoredState = {
   messages?: AgentWidgetMessage[];
+  /**
+   * Inactive conversation branches. `messages` holds the active path.
+   */
+  branches?: AgentWidgetMessageBranches;
   metadata?: Record<string, unknown>;
+  /**
+   * All conversation threads. Only inactive threads carry their own messages.
+   */
+  threads?: AgentWidgetStoredThread[];
+  activeThreadId?: string;
 };
 
 export interface AgentWidgetStorageAdapter {
@@ -252,6 +366,10 @@ export type AgentWidgetControllerEventMap = {
   "widget:state": AgentWidgetStateSnapshot;
   "message:feedback": AgentWidgetMessageFeedback;
   "message:copy": AgentWidgetMessage;
+  "thread:changed": AgentWidgetThreadChangedEvent;
+  "approval:requested": AgentWidgetApprovalRequestEvent;
+  "approval:decided": AgentWidgetApprovalDecisionEvent;
+  "quota:changed": AgentWidgetQuota;
 };
 
 export type AgentWidgetFeatureFlags = {
@@ -259,6 +377,31 @@ export type AgentWidgetFeatureFlags = {
   showToolCalls?: boolean;
 };
 
+/**
+ * Colors for code blocks and their syntax highlighting
+ */
+export type AgentWidgetCodeTheme = {
+  background?: string;
+  foreground?: string;
+  toolbarBackground?: string;
+  toolbarForeground?: string;
+  border?: string;
+  comment?: string;
+  keyword?: string;
+  string?: string;
+  number?: string;
+  /** `true`, `null`, `None` and the like */
+  literal?: string;
+  function?: string;
+  type?: string;
+  property?: string;
+  attribute?: string;
+  variable?: string;
+  tag?: string;
+  inserted?: string;
+  deleted?: string;
+};
+
 export type AgentWidgetTheme = {
   primary?: string;
   secondary?: string;
@@ -314,6 +457,11 @@ export type AgentWidgetTheme = {
    * @default "16px"
    */
   panelBorderRadius?: string;
+  /**
+   * Code block and syntax highlighting colors, applied as `--cw-code-*` variables.
+   * @example { background: "#0f172a", foreground: "#e2e8f0", keyword: "#c084fc" }
+   */
+  code?: AgentWidgetCodeTheme;
 };
 
 export type AgentWidgetLauncherConfig = {
@@ -417,6 +565,11 @@ export type AgentWidgetSendButtonConfig = {
   backgroundColor?: string;
   textColor?: string;
   size?: string;
+  /**
+   * Replace the send button with a stop button while a response streams
+   * @default true
+   */
+  showStopButton?: boolean;
 };
 
 export type AgentWidgetClearChatConfig = {
@@ -571,6 +724,237 @@ export type AgentWidgetSSEEventResult = {
   error?: string;
 } | null;
 
+export type AgentWidgetClientToolContext = {
+  /** Id of the tool call being executed */
+  toolCallId: string;
+  /** Conversation at the time of the call */
+  messages: AgentWidgetMessage[];
+  /** Aborted when the conversation is cancelled or cleared */
+  signal: AbortSignal;
+};
+
+/**
+ * A tool that runs in the host page. The model calls it by name, the widget
+ * runs `handler` with the parsed arguments, and the return value is sent
+ * back to the model to continue the turn.
+ */
+export type AgentWidgetClientTool = {
+  /** Tool name the model uses to call it */
+  name: string;
+  /** Tells the model what the tool does and when to use it */
+  description?: string;
+  /** JSON schema of the arguments object */
+  parameters?: Record<string, unknown>;
+  /**
+   * Runs the tool. The return value must be JSON-serializable.
+   * Thrown errors are reported to the model as `{ error: message }`.
+   */
+  handler: (args: any, context: AgentWidgetClientToolContext) => unknown | Promise<unknown>;
+};
+
+/**
+ * What needs approval: a tool call (server or browser tool) or a parsed action
+ */
+export type AgentWidgetApprovalKind = "tool" | "action";
+
+export type AgentWidgetApprovalRequestEvent = {
+  kind: AgentWidgetApprovalKind;
+  /** Tool message that shows the approval card */
+  message: AgentWidgetMessage;
+};
+
+export type AgentWidgetApprovalDecisionEvent = {
+  kind: AgentWidgetApprovalKind;
+  /** Tool call id, or `action-<messageId>` for actions */
+  toolCallId: string;
+  /** Tool name or action type */
+  name: string;
+  args?: unknown;
+  decision: "allow" | "deny";
+  /** The user chose "Always allow" (or it was remembered from earlier) */
+  always: boolean;
+};
+
+/**
+ * Human-in-the-loop approval for tool calls and actions.
+ * Matching calls show an Allow / Deny card in their tool bubble and wait for the user:
+ * browser tools and actions only run when allowed, and decisions for server tool calls
+ * are posted to `url` so the backend can continue or skip the call. Server tool calls
+ * only get a card when `url` is set.
+ */
+export type AgentWidgetApprovalConfig = {
+  /**
+   * Tool names that need approval
+   */
+  tools?: string[];
+  /**
+   * Action types (from `actionParsers`) that need approval, e.g. `"message_and_click"`
+   */
+  actions?: string[];
+  /**
+   * Endpoint that receives decisions for server tool calls as
+   * `{ toolCallId, toolName, args, decision, always }`.
+   * The proxy serves it at `/api/chat/approvals` when `approvals` is configured.
+   * Required for server tools; without it their calls run without a card.
+   */
+  url?: string;
+  /**
+   * Offer an "Always allow" button that remembers the tool or action
+   * for this conversation (stored in session metadata)
+   * @default true
+   */
+  allowAlways?: boolean;
+  /**
+   * Card prompt
+   * @default "Allow this action?"
+   */
+  title?: string;
+  /** @default "Allow" */
+  allowLabel?: string;
+  /** @default "Always allow" */
+  alwaysAllowLabel?: string;
+  /** @default "Deny" */
+  denyLabel?: string;
+  /**
+   * Called after every decision, including remembered ones
+   */
+  onDecision?: (event: AgentWidgetApprovalDecisionEvent) => void;
+};
+
+export type AgentWidgetOutboxConfig = {
+  /** @default true when the `outbox` object is set */
+  enabled?: boolean;
+  /**
+   * Label shown under a queued message
+   * @default "Queued. Sends when you're back online"
+   */
+  queuedText?: string;
+  /**
+   * Label of the button that sends queued messages right away
+   * @default "Retry now"
+   */
+  retryText?: string;
+};
+
+export type AgentWidgetQuotaConfig = {
+  /** @default true */
+  enabled?: boolean;
+  /**
+   * Show a warning once this many messages or fewer are left
+   * @default 3
+   */
+  lowThreshold?: number;
+  /**
+   * Banner text while the limit is reached; `{time}` is replaced with the countdown
+   * @default "Message limit reached. You can send again in {time}."
+   */
+  exhaustedText?: string;
+  /**
+   * Banner text when the reset time is unknown
+   * @default "Message limit reached. Please try again later."
+   */
+  exhaustedUnknownText?: string;
+  /**
+   * Warning text; `{count}` is replaced with the messages left
+   * @default "{count} messages left"
+   */
+  remainingText?: string;
+  /**
+   * Announced to screen readers when the limit is lifted
+   * @default "You can send messages again."
+   */
+  restoredText?: string;
+};
+
+/**
+ * Timing and usage event emitted to telemetry sinks. Durations are in
+ * milliseconds; `timestamp` is epoch ms. `dispatchId` is the id of the
+ * assistant message the dispatch was started for.
+ *
+ * - `dispatch_start`: a message was sent to the backend
+ * - `first_chunk`: the first response event arrived (time to first token)
+ * - `dispatch_complete`: the stream finished, or was stopped by the user
+ * - `dispatch_error`: the request or stream failed
+ * - `tool_complete`: a tool call finished
+ * - `feedback`: thumbs up/down, CSAT or NPS
+ * - `widget_open` / `widget_close`: the panel was opened or closed
+ */
+export type AgentWidgetTelemetryEvent = {
+  timestamp: number;
+  flowId?: string;
+} & (
+  | { name: "dispatch_start"; dispatchId: string; messageCount: number }
+  | { name: "first_chunk"; dispatchId: string; timeToFirstChunkMs: number }
+  | {
+      name: "dispatch_complete";
+      dispatchId: string;
+      durationMs: number;
+      timeToFirstChunkMs: number | null;
+      stopped: boolean;
+    }
+  | { name: "dispatch_error"; dispatchId: string; durationMs: number; error: string }
+  | { name: "tool_complete"; toolName: string; durationMs: number | null }
+  | {
+      name: "feedback";
+      type: "upvote" | "downvote" | "csat" | "nps";
+      messageId?: string;
+      rating?: number;
+    }
+  | { name: "widget_open"; source: AgentWidgetStateEvent["source"] }
+  | { name: "widget_close"; source: AgentWidgetStateEvent["source"] }
+);
+
+/**
+ * Receives every telemetry event. Any function works as a callback sink;
+ * `createBeaconSink` and `createAnalyticsSink` cover the common backends.
+ * A `dispose` method, when present, is called when the widget is destroyed.
+ */
+export type AgentWidgetTelemetrySink = ((event: AgentWidgetTelemetryEvent) => void) & {
+  dispose?: () => void;
+};
+
+export type AgentWidgetTelemetryConfig = {
+  /** @default true */
+  enabled?: boolean;
+  /**
+   * Where events go
+   */
+  sinks: AgentWidgetTelemetrySink[];
+};
+
+export type AgentWidgetDeliveryConfig = {
+  /**
+   * Show the "Sending…" note while a message is in flight
+   * @default true
+   */
+  showSending?: boolean;
+  /**
+   * Show the "Sent" note once the backend accepted a message
+   * @default true
+   */
+  showSent?: boolean;
+  /** @default "Sending…" */
+  sendingText?: string;
+  /** @default "Sent" */
+  sentText?: string;
+  /** @default "Not delivered" */
+  failedText?: string;
+  /**
+   * Label of the button that sends a failed message again
+   * @default "Retry"
+   */
+  retryText?: string;
+};
+
+/**
+ * Built-in stream formats understood by the client.
+ * - `travrse`: Travrse dispatch events (`step_chunk`, `tool_start`, ...) — the default
+ * - `openai`: OpenAI-style chat completion chunks (`choices[].delta`, `[DONE]`)
+ * - `anthropic`: Anthropic Messages events (`content_block_delta`, `message_stop`)
+ * - `ai-sdk`: Vercel AI SDK UI message streams and data stream protocol lines
+ */
+export type AgentWidgetSSEFormat = "travrse" | "openai" | "anthropic" | "ai-sdk";
+
 /**
  * Custom SSE event parser function
  * Allows transforming non-standard SSE event formats to vanilla-agent's expected format
@@ -618,6 +1002,12 @@ export type ClientSession = {
     welcomeMessage: string | null;
     placeholder: string;
     theme: Record<string, unknown> | null;
+    /** Messages allowed per limit window, when the token is rate limited */
+    messageLimit?: number | null;
+    /** Messages left in the current window */
+    remainingMessages?: number | null;
+    /** When the current limit window resets */
+    limitResetAt?: Date | null;
   };
 };
 
@@ -636,6 +1026,10 @@ export type ClientInitResponse = {
     welcome_message: string | null;
     placeholder: string;
     theme: Record<string, unknown> | null;
+    message_limit?: number | null;
+    remaining_messages?: number | null;
+    /** ISO timestamp */
+    limit_reset_at?: string | null;
   };
 };
 
@@ -1221,6 +1615,253 @@ export type AgentWidgetPersistStateConfig = {
   clearOnChatClear?: boolean;
 };
 
+/**
+ * Configuration for multiple conversation threads.
+ * Threads are always available through the controller API; this config
+ * controls the built-in conversations panel.
+ */
+export type AgentWidgetThreadsConfig = {
+  /**
+   * Show the conversations button in the header and the thread list panel
+   * @default true (when object form is used)
+   */
+  enabled?: boolean;
+  /**
+   * Title used for threads without any user message yet
+   * @default "New conversation"
+   */
+  untitledLabel?: string;
+  /**
+   * Heading of the thread list panel
+   * @default "Conversations"
+   */
+  panelTitle?: string;
+  /**
+   * Maximum number of threads to keep. The least recently updated threads are deleted first.
+   * @default 50
+   */
+  maxThreads?: number;
+};
+
+/**
+ * Configuration for searching the conversation history.
+ * Matching is always available through `controller.search()`; this config
+ * controls the search button and search bar in the header.
+ */
+export type AgentWidgetSearchConfig = {
+  /**
+   * Show the search button in the header
+   * @default true (when object form is used)
+   */
+  enabled?: boolean;
+  /**
+   * Placeholder of the search field
+   * @default "Search conversation"
+   */
+  placeholder?: string;
+};
+
+/**
+ * Configuration for the transcript export menu.
+ * Exporting is always available through `controller.exportTranscript()`;
+ * this config controls the export button in the header.
+ */
+export type AgentWidgetTranscriptExportConfig = {
+  /**
+   * Show the export button in the header
+   * @default true (when object form is used)
+   */
+  enabled?: boolean;
+  /**
+   * Formats offered in the export menu, in order
+   * @default ["markdown", "html", "text", "json"]
+   */
+  formats?: AgentWidgetTranscriptFormat[];
+  /**
+   * Downloaded file name without extension
+   * @default "conversation-<date>"
+   */
+  filename?: string;
+};
+
+/**
+ * Configuration for windowed rendering of long conversations.
+ * Only messages near the viewport are fully rendered; the rest are
+ * placeholders that keep their height, label and text.
+ */
+export type AgentWidgetVirtualizationConfig = {
+  /**
+   * Enable windowed rendering
+   * @default true (when object form is used)
+   */
+  enabled?: boolean;
+  /**
+   * Render every message until the conversation has more than this many
+   * @default 50
+   */
+  threshold?: number;
+  /**
+   * Pixels rendered above and below the visible area
+   * @default 800
+   */
+  overscan?: number;
+  /**
+   * Height in pixels assumed for messages that haven't been rendered yet
+   * @default 96
+   */
+  estimatedHeight?: number;
+};
+
+/**
+ * Built-in code block toolbar actions
+ */
+export type AgentWidgetCodeAction = "copy" | "download" | "wrap";
+
+/**
+ * Extra code block toolbar button handled by `onCodeAction`
+ */
+export type AgentWidgetCodeCustomAction = {
+  /** Passed to `onCodeAction` as `action` */
+  id: string;
+  label: string;
+  /** Lucide icon name */
+  icon?: string;
+};
+
+export type AgentWidgetCodeActionEvent = {
+  /** A built-in action or the `id` of a custom one */
+  action: AgentWidgetCodeAction | string;
+  code: string;
+  /** Fence language, e.g. "ts"; empty when the fence has none */
+  language: string;
+  message: AgentWidgetMessage;
+};
+
+/**
+ * Configuration for Markdown code blocks: syntax highlighting and a toolbar
+ * with copy, download and wrap buttons.
+ */
+export type AgentWidgetCodeBlocksConfig = {
+  /**
+   * Enable the code block toolbar and highlighting
+   * @default true (when object form is used)
+   */
+  enabled?: boolean;
+  /**
+   * Highlight common languages with the built-in grammars.
+   * @default true
+   */
+  highlight?: boolean;
+  /**
+   * Where the script-tag build (`index.global.js`) loads the grammars from.
+   * Only needed when `syntax-grammars.global.js` isn't served next to the
+   * widget script; the npm builds load them from a bundled chunk.
+   */
+  grammarsUrl?: string;
+  /**
+   * Toolbar buttons, in order. Custom actions only call `onCodeAction`.
+   * @default ["copy", "download", "wrap"]
+   */
+  actions?: Array<AgentWidgetCodeAction | AgentWidgetCodeCustomAction>;
+  /**
+   * Wrap long lines instead of scrolling horizontally
+   * @default false
+   */
+  wrap?: boolean;
+  /**
+   * Called when a toolbar button is used, after built-in actions have run
+   */
+  onCodeAction?: (event: AgentWidgetCodeActionEvent) => void;
+};
+
+/**
+ * Configuration for keeping widget instances in several tabs of the same
+ * origin in sync. The tab that sends a message streams the response; the
+ * other tabs mirror it live and keep their composer disabled until it ends.
+ */
+export type AgentWidgetTabSyncConfig = {
+  /**
+   * Enable cross-tab synchronization
+   * @default true (when object form is used)
+   */
+  enabled?: boolean;
+  /**
+   * BroadcastChannel name (and localStorage key prefix for the fallback).
+   * Widgets only sync with widgets using the same channel.
+   * @default "vanilla-agent-sync"
+   */
+  channel?: string;
+  /**
+   * Open and close the widget in other tabs when it is opened or closed in one
+   * @default true
+   */
+  openState?: boolean;
+};
+
+/**
+ * Configuration for resuming interrupted SSE streams.
+ * When the response body drops mid-stream (network switch, proxy timeout),
+ * the client retries with backoff and asks the server to replay events
+ * after the last received event id via the `Last-Event-ID` header.
+ *
+ * Resuming only happens when the server tags events with `id:` lines,
+ * so backends without replay support never receive duplicate dispatches.
+ */
+export type AgentWidgetStreamResumeConfig = {
+  /**
+   * Enable automatic reconnect and resume
+   * @default true (when object form is used)
+   */
+  enabled?: boolean;
+  /**
+   * Maximum number of reconnect attempts per dispatch
+   * @default 3
+   */
+  maxRetries?: number;
+  /**
+   * Delay before the first reconnect attempt, doubled on each retry
+   * @default 500
+   */
+  retryDelayMs?: number;
+  /**
+   * Upper bound for the reconnect delay
+   * @default 8000
+   */
+  maxRetryDelayMs?: number;
+};
+
+/**
+ * Connection settings for `transport: "websocket"`.
+ *
+ * Frames are JSON. The widget sends `{ type: "dispatch", id, payload, headers }`
+ * and `{ type: "cancel", id }`; the server answers with
+ * `{ type: "event", id, event }` (or `data` with the raw SSE data string) for
+ * every event of the stream, then `{ type: "end", id }` or `{ type: "error", id, error }`.
+ * Events with an `id` the widget never dispatched are server-initiated, e.g.
+ * a message from a human agent.
+ */
+export type AgentWidgetWebSocketConfig = {
+  /**
+   * WebSocket endpoint. Defaults to `apiUrl` with `http(s)` swapped for `ws(s)`,
+   * which matches `vanilla-agent-proxy`'s WebSocket route.
+   */
+  url?: string;
+  /**
+   * Subprotocols passed to the `WebSocket` constructor
+   */
+  protocols?: string | string[];
+  /**
+   * Reopen the socket after it drops, so server-initiated messages keep arriving
+   * @default true
+   */
+  reconnect?: boolean;
+  /**
+   * Upper bound for the reconnect delay, which starts at 500ms and doubles
+   * @default 10000
+   */
+  maxReconnectDelayMs?: number;
+};
+
 export type AgentWidgetConfig = {
   apiUrl?: string;
   flowId?: string;
@@ -1317,7 +1958,51 @@ export type AgentWidgetConfig = {
     welcomeSubtitle?: string;
     inputPlaceholder?: string;
     sendButtonLabel?: string;
+    /**
+     * Label (and tooltip in icon mode) of the stop button
+     * @default "Stop"
+     */
+    stopButtonLabel?: string;
+    /**
+     * Note shown under a reply the user stopped
+     * @default "Response stopped"
+     */
+    stoppedMessageLabel?: string;
   };
+  /**
+   * Language of the built-in UI strings and of date and number formats,
+   * as a BCP 47 tag. Bundled: en, es, fr, de, ar; other languages fall back
+   * to English unless `messages` translates them. Sent to the backend as
+   * `metadata.locale`; when unset, the browser language is sent there instead.
+   * @default the host page's `<html lang>`, else "en"
+   *
+   * @example
+   * ```typescript
+   * config: { locale: "fr-CA" }
+   * ```
+   */
+  locale?: string;
+  /**
+   * Overrides for single built-in strings, applied over the locale's bundle.
+   * Explicit options such as `copy.welcomeTitle` still take precedence.
+   *
+   * @example
+   * ```typescript
+   * config: {
+   *   locale: "es",
+   *   messages: { welcomeTitle: "¡Bienvenido!", reasoningDuration: "Pensé {duration}" }
+   * }
+   * ```
+   */
+  messages?: Partial<AgentWidgetMessages>;
+  /**
+   * Text direction. `auto` uses right-to-left for Arabic, Hebrew, Persian
+   * and Urdu locales, which also mirrors the panel, bubbles and launcher
+   * position. When unset, it follows `locale` if that is set, else the host
+   * page's `<html dir>`.
+   * @default the host page's `<html dir>`, else "ltr"
+   */
+  direction?: "ltr" | "rtl" | "auto";
   theme?: AgentWidgetTheme;
   /**
    * Theme colors for dark mode. Applied when dark mode is detected
@@ -1515,6 +2200,125 @@ export type AgentWidgetConfig = {
    * ```
    */
   parseSSEEvent?: AgentWidgetSSEEventParser;
+  /**
+   * Stream format returned by `apiUrl` (or `customFetch`). Non-Travrse formats are
+   * translated into the built-in event handling, so text, reasoning and tool calls
+   * render as regular, reasoning and tool bubbles. `parseSSEEvent`, when set,
+   * receives the translated events.
+   *
+   * @default "travrse"
+   *
+   * @example
+   * ```typescript
+   * // Talk to an OpenAI-compatible endpoint through your own backend
+   * config: {
+   *   apiUrl: '/api/openai-stream',
+   *   sseFormat: 'openai'
+   * }
+   * ```
+   */
+  sseFormat?: AgentWidgetSSEFormat;
+  /**
+   * Tools implemented in the host page. They are advertised in the request
+   * payload (`tools`); when the response calls one, the widget runs its handler,
+   * shows the call in a tool bubble and sends the result back to continue the turn.
+   * The backend must pass the tools to the model (the proxy providers do).
+   *
+   * @example
+   * ```typescript
+   * config: {
+   *   tools: [{
+   *     name: 'get_cart',
+   *     description: 'Read the items in the shopping cart',
+   *     parameters: { type: 'object', properties: {} },
+   *     handler: () => window.cart.items
+   *   }]
+   * }
+   * ```
+   */
+  tools?: AgentWidgetClientTool[];
+  /**
+   * Ask the user before running selected tool calls or actions.
+   * See {@link AgentWidgetApprovalConfig}.
+   *
+   * @example
+   * ```typescript
+   * config: {
+   *   approval: {
+   *     tools: ['delete_order'],
+   *     actions: ['message_and_click'],
+   *     url: '/api/chat/approvals'
+   *   }
+   * }
+   * ```
+   */
+  approval?: AgentWidgetApprovalConfig;
+  /**
+   * Keep user messages written while offline (or when the request fails with a
+   * network error) in an outbox instead of losing them. Queued messages are
+   * marked in their bubble, persisted with the conversation and sent in order
+   * when the browser comes back online. Off unless set.
+   *
+   * @default false
+   * @example
+   * ```typescript
+   * config: {
+   *   outbox: { queuedText: 'Waiting for connection', retryText: 'Send now' }
+   * }
+   * ```
+   */
+  outbox?: boolean | AgentWidgetOutboxConfig;
+  /**
+   * Delivery status notes under user messages (`deliveryStatus`): sending,
+   * sent, and failed with a Retry action that sends the same message again.
+   *
+   * @example
+   * ```typescript
+   * config: {
+   *   delivery: { showSent: false, failedText: 'Couldn't send' }
+   * }
+   * ```
+   */
+  delivery?: AgentWidgetDeliveryConfig;
+  /**
+   * Message quota banner. Shows how many messages are left when the backend
+   * reports limits, and a countdown while the limit is reached; the composer
+   * stays disabled until the window resets. Listen to `quota:changed` to react
+   * in the host app. Pass `false` to hide the banner (sending is still blocked).
+   *
+   * @default true
+   * @example
+   * ```typescript
+   * config: {
+   *   quota: { lowThreshold: 5, remainingText: 'Only {count} free messages left' }
+   * }
+   * ```
+   */
+  quota?: boolean | AgentWidgetQuotaConfig;
+  /**
+   * Emit timing and usage events (time to first chunk, stream duration, errors,
+   * tool durations, feedback, open/close) to the given sinks. Off by default.
+   *
+   * @example
+   * ```typescript
+   * config: {
+   *   telemetry: {
+   *     sinks: [
+   *       createBeaconSink({ url: '/api/telemetry' }),
+   *       createAnalyticsSink(),
+   *       (event) => console.log(event.name, event)
+   *     ]
+   *   }
+   * }
+   * ```
+   */
+  telemetry?: AgentWidgetTelemetryConfig;
+  /**
+   * Maximum number of consecutive tool rounds for one user message
+   * before the widget stops sending tool results back
+   * @default 5
+   */
+  maxToolRounds?: number;
   /**
    * Layout configuration for customizing widget appearance and structure.
    * Provides control over header, messages, and content slots.
@@ -1624,6 +2428,166 @@ export type AgentWidgetConfig = {
    * ```
    */
   persistState?: boolean | AgentWidgetPersistStateConfig;
+
+  /**
+   * Automatically reconnect and resume interrupted response streams.
+   * Requires a backend that tags SSE events with ids and honours the
+   * `Last-Event-ID` header (e.g. `vanilla-agent-proxy` with `resumableStreams`).
+   *
+   * Set to `true` for default behavior, or an object for fine-grained control.
+   *
+   * @default false
+   *
+   * @example
+   * ```typescript
+   * config: {
+   *   streamResume: { maxRetries: 5, retryDelayMs: 1000 }
+   * }
+   * ```
+   */
+  streamResume?: boolean | AgentWidgetStreamResumeConfig;
+
+  /**
+   * How dispatches reach the backend. `"fetch"` POSTs each message and reads an
+   * SSE response. `"websocket"` keeps one socket open, sends dispatches over it
+   * and also receives messages the server starts on its own. Events use the same
+   * vocabulary either way. Ignored in client token mode; `customFetch` and
+   * `streamResume` only apply to `"fetch"`.
+   *
+   * @default "fetch"
+   * @example
+   * ```typescript
+   * config: {
+   *   apiUrl: 'https://proxy.example.com/api/chat/dispatch',
+   *   transport: 'websocket'
+   * }
+   * ```
+   */
+  transport?: "fetch" | "websocket";
+
+  /**
+   * Socket settings for `transport: "websocket"`
+   *
+   * @example
+   * ```typescript
+   * config: {
+   *   transport: 'websocket',
+   *   websocket: { url: 'wss://proxy.example.com/api/chat/dispatch', maxReconnectDelayMs: 30000 }
+   * }
+   * ```
+   */
+  websocket?: AgentWidgetWebSocketConfig;
+
+  /**
+   * Show a conversations panel for starting, switching, renaming and deleting threads.
+   * Each thread's messages and metadata are stored through the `storageAdapter`.
+   *
+   * Set to `true` for default behavior, or an object for fine-grained control.
+   *
+   * @default false
+   *
+   * @example
+   * ```typescript
+   * config: {
+   *   threads: { panelTitle: 'History', maxThreads: 20 }
+   * }
+   * ```
+   */
+  threads?: boolean | AgentWidgetThreadsConfig;
+
+  /**
+   * Keep messages, metadata, threads and open state consistent across tabs.
+   * Uses BroadcastChannel, falling back to localStorage `storage` events.
+   * Only the tab that sent a message streams its response; other tabs mirror it.
+   *
+   * Set to `true` for default behavior, or an object for fine-grained control.
+   *
+   * @default false
+   *
+   * @example
+   * ```typescript
+   * config: {
+   *   tabSync: { channel: 'support-chat', openState: false }
+   * }
+   * ```
+   */
+  tabSync?: boolean | AgentWidgetTabSyncConfig;
+
+  /**
+   * Show a search button in the header that finds text across user, assistant,
+   * reasoning and tool messages, highlights the matches and jumps between them.
+   *
+   * Set to `true` for default behavior, or an object for fine-grained control.
+   *
+   * @default false
+   *
+   * @example
+   * ```typescript
+   * config: {
+   *   search: { placeholder: 'Search this chat' }
+   * }
+   * ```
+   */
+  search?: boolean | AgentWidgetSearchConfig;
+
+  /**
+   * Show an export button in the header with a menu for downloading the
+   * conversation as Markdown, HTML, plain text or JSON.
+   *
+   * Set to `true` for default behavior, or an object for fine-grained control.
+   *
+   * @default false
+   *
+   * @example
+   * ```typescript
+   * config: {
+   *   transcriptExport: { formats: ['markdown', 'json'], filename: 'support-chat' }
+   * }
+   * ```
+   */
+  transcriptExport?: boolean | AgentWidgetTranscriptExportConfig;
+
+  /**
+   * Keep long conversations smooth by fully rendering only the messages near
+   * the viewport. Offscreen messages stay in the list as lightweight
+   * placeholders, so scrolling, find-in-page, search and keyboard navigation
+   * still reach every message.
+   *
+   * Set to `true` for default behavior, or an object for fine-grained control.
+   *
+   * @default false
+   *
+   * @example
+   * ```typescript
+   * config: {
+   *   virtualization: { threshold: 100, overscan: 1200 }
+   * }
+   * ```
+   */
+  virtualization?: boolean | AgentWidgetVirtualizationConfig;
+
+  /**
+   * Syntax-highlight Markdown code blocks and give each one a toolbar to copy
+   * the code, download it as a file and toggle line wrapping. Colors come from
+   * `theme.code`.
+   *
+   * Set to `true` for default behavior, or an object for fine-grained control.
+   *
+   * @default false
+   *
+   * @example
+   * ```typescript
+   * config: {
+   *   codeBlocks: {
+   *     actions: ["copy", { id: "insert", label: "Insert into editor", icon: "file-input" }],
+   *     onCodeAction: ({ action, code }) => {
+   *       if (action === "insert") editor.insert(code);
+   *     }
+   *   }
+   * }
+   * ```
+   */
+  codeBlocks?: boolean | AgentWidgetCodeBlocksConfig;
 };
 
 export type AgentWidgetMessageRole = "user" | "assistant" | "system";
@@ -1637,10 +2601,25 @@ export type AgentWidgetReasoning = {
   durationMs?: number;
 };
 
+/**
+ * Approval state of a tool call or action that needs the user's consent
+ */
+export type AgentWidgetToolApproval = {
+  /**
+   * `expired`: the card was restored from storage after the action or browser
+   * tool waiting for it was gone, so nothing would run on approval
+   */
+  status: "pending" | "approved" | "denied" | "expired";
+  /** Approved automatically because the user chose "Always allow" earlier */
+  remembered?: boolean;
+  decidedAt?: number;
+};
+
 export type AgentWidgetToolCall = {
   id: string;
   name?: string;
   status: "pending" | "running" | "complete";
+  approval?: AgentWidgetToolApproval;
   args?: unknown;
   chunks?: string[];
   result?: unknown;
@@ -1652,6 +2631,15 @@ export type AgentWidgetToolCall = {
 
 export type AgentWidgetMessageVariant = "assistant" | "reasoning" | "tool";
 
+/**
+ * Delivery state of a user message.
+ * - `queued`: waiting in the outbox until the connection returns
+ * - `sending`: dispatched, the backend hasn't answered yet
+ * - `sent`: the backend accepted it and started streaming
+ * - `failed`: the request or stream errored; the bubble offers a Retry action
+ */
+export type AgentWidgetDeliveryStatus = "queued" | "sending" | "sent" | "failed";
+
 /**
  * Represents a message in the chat conversation.
  *
@@ -1668,6 +2656,7 @@ export type AgentWidgetMessageVariant = "assistant" | "reasoning" | "tool";
  * @property tools - Array of tool calls
  * @property viaVoice - Set to `true` when a user message is sent via voice recognition.
  *                      Useful for implementing voice-specific behaviors like auto-reactivation.
+ * @property stopped - Set to `true` on an assistant reply the user stopped mid-stream.
  */
 export type AgentWidgetMessage = {
   id: string;
@@ -1687,6 +2676,15 @@ export type AgentWidgetMessage = {
   toolCall?: AgentWidgetToolCall;
   tools?: AgentWidgetToolCall[];
   viaVoice?: boolean;
+  /**
+   * Set when the user stopped the response before it finished;
+   * `content` holds the partial reply
+   */
+  stopped?: boolean;
+  /**
+   * Delivery state for user messages
+   */
+  deliveryStatus?: AgentWidgetDeliveryStatus;
   /**
    * Raw structured payload for this message (e.g., JSON action response).
    * Populated automatically when structured parsers run.
@@ -1694,10 +2692,43 @@ export type AgentWidgetMessage = {
   rawContent?: string;
 };
 
+/**
+ * Formats of `controller.exportTranscript()`
+ */
+export type AgentWidgetTranscriptFormat = "markdown" | "html" | "text" | "json";
+
+/**
+ * JSON transcript. Messages keep their tool calls, reasoning and content
+ * parts, so `controller.importTranscript()` (or `session.hydrateMessages()`)
+ * restores the conversation as it was.
+ */
+export type AgentWidgetTranscript = {
+  version: 1;
+  exportedAt: string;
+  messages: AgentWidgetMessage[];
+  branches?: AgentWidgetMessageBranches;
+};
+
+/**
+ * Message quota reported by the backend (client token session limits,
+ * `X-RateLimit-*` and `Retry-After` headers). Unknown values are null.
+ */
+export type AgentWidgetQuota = {
+  /** Messages allowed per window */
+  limit: number | null;
+  /** Messages left in the current window */
+  remaining: number | null;
+  /** When the window resets, in epoch milliseconds */
+  resetAt: number | null;
+  /** The limit was hit; sending is blocked until `resetAt` */
+  exhausted: boolean;
+};
+
 export type AgentWidgetEvent =
   | { type: "message"; message: AgentWidgetMessage }
   | { type: "status"; status: "connecting" | "connected" | "error" | "idle" }
-  | { type: "error"; error: Error };
+  | { type: "error"; error: Error }
+  | { type: "quota"; quota: AgentWidgetQuota };
 
 export type AgentWidgetInitOptions = {
   target: string | HTMLElement;
@@ -0,0 +1,551 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import axe from 'axe-core';
+import { createAgentExperience } from './ui';
+import { createReplayFetch } from './utils/sse-fixtures';
+import { createTabSync, type TabSyncMessage } from './utils/tab-sync';
+import { AgentWidgetSession } from './session';
+import type { AgentWidgetConfig, AgentWidgetMessage } from './types';
+
+const initialMessages: AgentWidgetMessage[] = [
+  { id: 'u1', role: 'user', content: 'What are your hours?', createdAt: '2025-01-01T10:00:00.000Z' },
+  { id: 'a1', role: 'assistant', content: 'We are open **9 to 5**.', createdAt: '2025-01-01T10:00:01.000Z' },
+  { id: 'u2', role: 'user', content: 'And on weekends?', createdAt: '2025-01-01T10:00:02.000Z' },
+  { id: 'a2', role: 'assistant', content: 'Closed on weekends.', createdAt: '2025-01-01T10:00:03.000Z' }
+];
+
+const mountWidget = (config: Partial<AgentWidgetConfig> = {}) => {
+  const mount = document.createElement('div');
+  document.body.appendChild(mount);
+  const controller = createAgentExperience(mount, { apiUrl: '/api/chat/dispatch', ...config });
+  return { mount, controller };
+};
+
+const press = (target: Element, key: string, options: KeyboardEventInit = {}) =>
+  target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...options }));
+
+const audit = async (root: HTMLElement) => {
+  // jsdom has no layout, so contrast can't be computed
+  const results = await axe.run(root, { rules: { 'color-contrast': { enabled: false } } });
+  return results.violations.map((violation) => `${violation.id}: ${violation.nodes.map((node) => node.html).join(', ')}`);
+};
+
+describe('createAgentExperience accessibility', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should have no axe violations in launcher and inline modes', async () => {
+    const launcher = mountWidget({ initialMessages, sendButton: { useIcon: true } });
+    launcher.controller.open();
+    expect(await audit(launcher.mount)).toEqual([]);
+    launcher.controller.destroy();
+    document.body.innerHTML = '';
+
+    const inline = mountWidget({
+      initialMessages,
+      launcher: { enabled: false },
+      messageActions: { visibility: 'always' }
+    });
+    expect(await audit(inline.mount)).toEqual([]);
+  });
+
+  it('should trap focus in the dialog and restore it on close', () => {
+    const trigger = document.createElement('button');
+    document.body.appendChild(trigger);
+    const { mount, controller } = mountWidget();
+    const panel = mount.querySelector<HTMLElement>('[role="dialog"]')!;
+    expect(panel.getAttribute('aria-modal')).toBe('true');
+    expect(mount.querySelector('.tvw-widget-wrapper')!.hasAttribute('inert')).toBe(true);
+
+    trigger.focus();
+    controller.open();
+    expect(mount.querySelector('.tvw-widget-wrapper')!.hasAttribute('inert')).toBe(false);
+    expect(document.activeElement).toBe(mount.querySelector('textarea'));
+
+    // Tab from the last control wraps to the first
+    const focusable = Array.from(panel.querySelectorAll<HTMLElement>('button, textarea')).filter(
+      (element) => element.tabIndex >= 0 && element.style.display !== 'none'
+    );
+    focusable[focusable.length - 1].focus();
+    press(document.activeElement!, 'Tab');
+    expect(panel.contains(document.activeElement)).toBe(true);
+    expect(document.activeElement).not.toBe(focusable[focusable.length - 1]);
+
+    press(document.activeElement!, 'Escape');
+    expect(controller.isOpen()).toBe(false);
+    expect(document.activeElement).toBe(trigger);
+  });
+
+  it('should move between messages with the arrow keys', () => {
+    const { mount } = mountWidget({ initialMessages, launcher: { enabled: false } });
+    const items = Array.from(mount.querySelectorAll<HTMLElement>('[data-message-item]'));
+    expect(items.map((item) => item.getAttribute('aria-label'))).toEqual([
+      'Your message',
+      'Assistant message',
+      'Your message',
+      'Assistant message'
+    ]);
+    // Only the latest message is a Tab stop
+    expect(items.map((item) => item.tabIndex)).toEqual([-1, -1, -1, 0]);
+
+    items[3].focus();
+    press(items[3], 'ArrowUp');
+    expect(document.activeElement).toBe(items[2]);
+    press(items[2], 'Home');
+    expect(document.activeElement).toBe(items[0]);
+    expect(items.map((item) => item.tabIndex)).toEqual([0, -1, -1, -1]);
+
+    // The focused message's actions join the Tab order
+    press(items[0], 'ArrowDown');
+    const actions = items[1].querySelectorAll<HTMLButtonElement>('.tvw-message-action-btn');
+    expect(actions.length).toBeGreaterThan(0);
+    actions.forEach((button) => expect(button.tabIndex).toBe(0));
+    items[3].querySelectorAll<HTMLButtonElement>('.tvw-message-action-btn').forEach((button) => {
+      expect(button.tabIndex).toBe(-1);
+    });
+  });
+
+  it('should announce completed replies in the live region', async () => {
+    const customFetch = createReplayFetch(
+      {
+        version: 1,
+        recordedAt: '2025-01-01T10:00:00.000Z',
+        status: 200,
+        headers: { 'content-type': 'text/event-stream' },
+        chunks: [
+          { delayMs: 0, text: 'data: {"type":"step_chunk","text":"Our team "}\n\n' },
+          { delayMs: 0, text: 'data: {"type":"step_chunk","text":"replies within a day."}\n\n' },
+          { delayMs: 0, text: 'data: {"type":"flow_complete","success":true}\n\n' }
+        ]
+      },
+      { timing: 'instant' }
+    );
+    const { mount, controller } = mountWidget({ launcher: { enabled: false }, customFetch });
+    const liveRegion = mount.querySelector('.tvw-sr-only[role="status"]')!;
+
+    controller.submitMessage('How fast do you reply?');
+    await vi.waitFor(() => {
+      expect(liveRegion.textContent).toBe('Our team replies within a day.');
+    });
+    // The message list itself stays silent while streaming
+    expect(mount.querySelector('[role="log"]')!.getAttribute('aria-live')).toBe('off');
+  });
+});
+
+describe('createAgentExperience localization', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should render an Arabic locale right-to-left and send the locale', async () => {
+    const requests: unknown[] = [];
+    const customFetch = createReplayFetch(
+      {
+        version: 1,
+        recordedAt: '2025-01-01T10:00:00.000Z',
+        status: 200,
+        headers: { 'content-type': 'text/event-stream' },
+        chunks: [{ delayMs: 0, text: 'data: {"type":"flow_complete","success":true}\n\n' }]
+      },
+      { timing: 'instant', onRequest: (_url, payload) => requests.push(payload.metadata) }
+    );
+    const { mount, controller } = mountWidget({ locale: 'ar-SA', customFetch });
+
+    expect(mount.getAttribute('dir')).toBe('rtl');
+    expect(mount.getAttribute('lang')).toBe('ar-SA');
+    // bottom-right mirrors to bottom-left
+    expect(mount.querySelector('.tvw-widget-wrapper')!.classList.contains('tvw-left-6')).toBe(true);
+    expect(mount.querySelector('textarea')!.placeholder).toBe('كيف يمكنني مساعدتك؟');
+    expect(mount.querySelector('[role="dialog"]')!.getAttribute('aria-label')).toBe('مساعد المحادثة');
+
+    await controller.submitMessage('مرحبا');
+    expect(requests).toEqual([{ locale: 'ar-SA' }]);
+
+    controller.update({ locale: 'en' });
+    expect(mount.getAttribute('dir')).toBe('ltr');
+    expect(mount.querySelector('textarea')!.placeholder).toBe('How can I help...');
+    expect(mount.querySelector('.tvw-widget-wrapper')!.classList.contains('tvw-right-6')).toBe(true);
+  });
+});
+
+describe('createAgentExperience search', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+    // Persisted messages would replace initialMessages in the next test
+    localStorage.clear();
+  });
+
+  const toolMessage: AgentWidgetMessage = {
+    id: 't1',
+    role: 'assistant',
+    content: '',
+    createdAt: '2025-01-01T10:00:04.000Z',
+    variant: 'tool',
+    toolCall: {
+      id: 'call-1',
+      name: 'lookup_order',
+      status: 'complete',
+      args: { orderId: 'A-42' },
+      result: { state: 'shipped' }
+    }
+  };
+
+  it('should find, highlight and step through matches from the header', () => {
+    const { mount } = mountWidget({ initialMessages, search: true, launcher: { enabled: false } });
+    const button = mount.querySelector<HTMLButtonElement>('.tvw-search-toggle button')!;
+    const bar = mount.querySelector<HTMLElement>('.tvw-search-bar')!;
+    expect(bar.hidden).toBe(true);
+
+    button.click();
+    expect(bar.hidden).toBe(false);
+    expect(button.getAttribute('aria-expanded')).toBe('true');
+
+    const input = bar.querySelector('input')!;
+    input.value = 'WEEKENDS';
+    input.dispatchEvent(new Event('input'));
+    const marks = Array.from(mount.querySelectorAll('mark.tvw-search-match'));
+    expect(marks.map((mark) => mark.closest('[data-message-item]')!.getAttribute('data-message-item'))).toEqual(['u2', 'a2']);
+    expect(marks[0].textContent).toBe('weekends');
+    expect(bar.querySelector('.tvw-search-count')!.textContent).toBe('1 of 2');
+    expect(mount.querySelector('.tvw-search-match-current')!.id).toBe('wrapper-u2');
+
+    press(input, 'Enter');
+    expect(bar.querySelector('.tvw-search-count')!.textContent).toBe('2 of 2');
+    expect(mount.querySelector('.tvw-search-match-current')!.id).toBe('wrapper-a2');
+
+    press(input, 'Escape');
+    expect(bar.hidden).toBe(true);
+    expect(mount.querySelectorAll('mark.tvw-search-match')).toHaveLength(0);
+    expect(document.activeElement).toBe(button);
+  });
+
+  it('should search tool details through the controller and expand them', () => {
+    const { mount, controller } = mountWidget({
+      initialMessages: [...initialMessages, toolMessage],
+      launcher: { enabled: false }
+    });
+    expect(mount.querySelector('.tvw-search-toggle')).toBeNull();
+
+    expect(controller.search('open')).toEqual(['a1']);
+    expect(controller.search('shipped')).toEqual(['t1']);
+    const toolHeader = mount.querySelector('.vanilla-tool-bubble [data-expand-header="true"]')!;
+    expect(toolHeader.getAttribute('aria-expanded')).toBe('true');
+    expect(mount.querySelector('.vanilla-tool-bubble mark.tvw-search-match')).not.toBeNull();
+
+    expect(controller.search('')).toEqual([]);
+    expect(mount.querySelectorAll('mark.tvw-search-match')).toHaveLength(0);
+  });
+});
+
+describe('createAgentExperience transcript export', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  it('should download the chosen format from the header menu', () => {
+    const createObjectURL = vi.fn((_blob: Blob) => 'blob:transcript');
+    URL.createObjectURL = createObjectURL;
+    URL.revokeObjectURL = vi.fn();
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    const { mount } = mountWidget({
+      initialMessages,
+      launcher: { enabled: false },
+      transcriptExport: { formats: ['markdown', 'json'], filename: 'support-chat' }
+    });
+
+    const button = mount.querySelector<HTMLButtonElement>('.tvw-export-toggle button')!;
+    const menu = mount.querySelector<HTMLElement>('.tvw-export-menu')!;
+    button.click();
+    expect(menu.hidden).toBe(false);
+    expect(button.getAttribute('aria-expanded')).toBe('true');
+    const items = Array.from(menu.querySelectorAll<HTMLButtonElement>('[role="menuitem"]'));
+    expect(items.map((item) => item.textContent)).toEqual(['Markdown (.md)', 'JSON (.json)']);
+    expect(document.activeElement).toBe(items[0]);
+
+    press(items[0], 'ArrowDown');
+    expect(document.activeElement).toBe(items[1]);
+    items[1].click();
+    expect(menu.hidden).toBe(true);
+    expect(click).toHaveBeenCalledTimes(1);
+    expect((click.mock.instances[0] as unknown as HTMLAnchorElement).download).toBe('support-chat.json');
+    expect(createObjectURL.mock.calls[0][0].type).toBe('application/json;charset=utf-8');
+  });
+
+  it('should import an exported JSON transcript into another widget', () => {
+    const source = mountWidget({ initialMessages, launcher: { enabled: false } });
+    const json = source.controller.exportTranscript('json');
+    expect(source.controller.exportTranscript()).toContain('We are open **9 to 5**.');
+    source.controller.destroy();
+    localStorage.clear();
+
+    const target = mountWidget({ launcher: { enabled: false } });
+    expect(target.controller.importTranscript(json)).toBe(true);
+    expect(target.controller.getMessages().map((message) => message.content)).toEqual(
+      initialMessages.map((message) => message.content)
+    );
+    expect(target.mount.querySelector('#wrapper-a2')).not.toBeNull();
+
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(target.controller.importTranscript('not json')).toBe(false);
+    expect(error).toHaveBeenCalled();
+  });
+});
+
+describe('createAgentExperience virtualization', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+    localStorage.clear();
+  });
+
+  const longConversation: AgentWidgetMessage[] = Array.from({ length: 60 }, (_, index) => ({
+    id: `m${index}`,
+    role: index % 2 === 0 ? 'user' : 'assistant',
+    content: `Message number ${index}`,
+    createdAt: new Date(Date.UTC(2025, 0, 1, 10, 0, index)).toISOString()
+  }));
+
+  const placeholderIds = (mount: HTMLElement) =>
+    Array.from(mount.querySelectorAll('[data-virtual-placeholder]')).map((item) => item.getAttribute('data-message-item'));
+
+  it('should render messages outside the window as placeholders', () => {
+    const { mount } = mountWidget({ initialMessages: longConversation, virtualization: true, launcher: { enabled: false } });
+    const items = mount.querySelectorAll('[data-message-item]');
+    expect(items).toHaveLength(60);
+
+    const placeholders = placeholderIds(mount);
+    expect(placeholders).toContain('m0');
+    expect(placeholders).not.toContain('m59');
+    const first = mount.querySelector<HTMLElement>('#wrapper-m0')!;
+    expect(first.getAttribute('hidden')).toBe('until-found');
+    expect(first.getAttribute('role')).toBe('article');
+    expect(first.getAttribute('aria-label')).toBe('Your message');
+    expect(first.textContent).toBe('Message number 0');
+  });
+
+  it('should render every message below the threshold', () => {
+    const { mount } = mountWidget({
+      initialMessages: longConversation,
+      virtualization: { threshold: 100 },
+      launcher: { enabled: false }
+    });
+    expect(placeholderIds(mount)).toHaveLength(0);
+  });
+
+  it('should render placeholders reached by keyboard or search', () => {
+    const { mount } = mountWidget({
+      initialMessages: longConversation,
+      virtualization: true,
+      search: true,
+      launcher: { enabled: false }
+    });
+    mount.querySelector<HTMLElement>('#wrapper-m1')!.focus();
+    expect(placeholderIds(mount)).not.toContain('m1');
+
+    mount.querySelector<HTMLButtonElement>('.tvw-search-toggle button')!.click();
+    const input = mount.querySelector<HTMLInputElement>('.tvw-search-input')!;
+    input.value = 'number 3';
+    input.dispatchEvent(new Event('input'));
+    expect(placeholderIds(mount)).not.toContain('m3');
+    expect(mount.querySelector('#wrapper-m3 mark.tvw-search-match')?.textContent).toBe('number 3');
+  });
+});
+
+describe('createAgentExperience code blocks', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  const codeMessages: AgentWidgetMessage[] = [
+    { id: 'u1', role: 'user', content: 'How do I log?', createdAt: '2025-01-01T10:00:00.000Z' },
+    {
+      id: 'a1',
+      role: 'assistant',
+      content: 'Like this:\n\n```ts\nconst level = "info";\nconsole.log(level);\n```',
+      createdAt: '2025-01-01T10:00:01.000Z'
+    }
+  ];
+
+  it('should highlight code blocks once the grammars load', async () => {
+    const { mount } = mountWidget({ initialMessages: codeMessages, codeBlocks: true, launcher: { enabled: false } });
+    const block = () => mount.querySelector<HTMLElement>('#wrapper-a1 .tvw-code-block')!;
+    expect(block().querySelector('.tvw-code-language')?.textContent).toBe('ts');
+
+    await vi.waitFor(() => expect(block().querySelector('.tvw-token-keyword')?.textContent).toBe('const'));
+    expect(block().querySelector('code')?.textContent).toBe('const level = "info";\nconsole.log(level);\n');
+    expect(mount.style.getPropertyValue('--cw-code-keyword')).toBe('#cf222e');
+  });
+
+  it('should copy, toggle wrapping and report actions to onCodeAction', async () => {
+    const writeText = vi.fn((_text: string) => Promise.resolve());
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+    const onCodeAction = vi.fn();
+    const { mount, controller } = mountWidget({
+      initialMessages: codeMessages,
+      launcher: { enabled: false },
+      codeBlocks: {
+        actions: ['copy', 'wrap', { id: 'insert', label: 'Insert into editor', icon: 'file-input' }],
+        onCodeAction
+      }
+    });
+    const button = (action: string) =>
+      mount.querySelector<HTMLButtonElement>(`#wrapper-a1 [data-code-action="${action}"]`)!;
+
+    button('copy').click();
+    expect(writeText).toHaveBeenCalledWith('const level = "info";\nconsole.log(level);\n');
+
+    button('wrap').click();
+    expect(button('wrap').getAttribute('aria-pressed')).toBe('true');
+    // Wrapping survives re-renders
+    controller.importTranscript(controller.exportTranscript('json'));
+    expect(button('wrap').getAttribute('aria-pressed')).toBe('true');
+    expect(mount.querySelector('#wrapper-a1 pre')?.classList.contains('tvw-code-wrap')).toBe(true);
+
+    button('insert').click();
+    expect(onCodeAction.mock.calls.map(([event]) => event.action)).toEqual(['copy', 'wrap', 'insert']);
+    expect(onCodeAction).toHaveBeenLastCalledWith(
+      expect.objectContaining({ code: 'const level = "info";\nconsole.log(level);\n', language: 'ts' })
+    );
+    expect(onCodeAction.mock.calls[2][0].message.id).toBe('a1');
+  });
+
+  it('should report a failed copy where the Clipboard API is missing', async () => {
+    Object.defineProperty(navigator, 'clipboard', { value: undefined, configurable: true });
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { mount } = mountWidget({ initialMessages: codeMessages, launcher: { enabled: false }, codeBlocks: true });
+
+    mount.querySelector<HTMLButtonElement>('#wrapper-a1 [data-code-action="copy"]')!.click();
+    await vi.waitFor(() =>
+      expect(error).toHaveBeenCalledWith('[AgentWidget] Failed to copy code:', expect.any(Error))
+    );
+    error.mockRestore();
+  });
+});
+
+describe('createAgentExperience feedback', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  it('should track and submit CSAT and NPS feedback when the caller passes onSubmit', async () => {
+    // jsdom has no layout, so nothing scrolls
+    Element.prototype.scrollIntoView = () => {};
+    const events: string[] = [];
+    const { mount, controller } = mountWidget({
+      launcher: { enabled: false },
+      telemetry: { sinks: [(event) => events.push(`${event.name}:${'type' in event ? event.type : ''}`)] }
+    });
+    vi.spyOn(AgentWidgetSession.prototype, 'isClientTokenMode').mockReturnValue(true);
+    const submitCSAT = vi.spyOn(AgentWidgetSession.prototype, 'submitCSATFeedback').mockResolvedValue();
+    const submitNPS = vi.spyOn(AgentWidgetSession.prototype, 'submitNPSFeedback').mockResolvedValue();
+    const onSubmit = vi.fn();
+    const submit = async (index: number) => {
+      mount.querySelectorAll<HTMLButtonElement>('.tvw-feedback-rating-btn')[index].click();
+      mount.querySelector<HTMLButtonElement>('.tvw-feedback-btn-submit')!.click();
+      await vi.waitFor(() => expect(mount.querySelector('.tvw-feedback-container')).toBeNull());
+    };
+
+    controller.showCSATFeedback({ onSubmit });
+    await submit(3);
+    controller.showNPSFeedback({ onSubmit });
+    await submit(9);
+
+    expect(events).toEqual(['feedback:csat', 'feedback:nps']);
+    expect(submitCSAT).toHaveBeenCalledWith(4, undefined);
+    expect(submitNPS).toHaveBeenCalledWith(9, undefined);
+    expect(onSubmit.mock.calls).toEqual([[4, undefined], [9, undefined]]);
+  });
+});
+
+describe('createAgentExperience quota', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const rateLimited = (headers: Record<string, string>) =>
+    vi.fn(async () => new Response(JSON.stringify({ error: 'Too many requests' }), { status: 429, headers }));
+
+  it('should announce when the limit is reached and lifted but not the countdown', async () => {
+    const { mount, controller } = mountWidget({
+      launcher: { enabled: false },
+      customFetch: rateLimited({ 'Retry-After': '1' })
+    });
+    const liveRegion = mount.querySelector('.tvw-sr-only[role="status"]')!;
+    const banner = mount.querySelector<HTMLElement>('.tvw-quota-banner')!;
+
+    controller.submitMessage('Hello');
+    await vi.waitFor(() => expect(liveRegion.textContent).toBe('Message limit reached. You can send again in 0:01.'));
+    expect(banner.hasAttribute('aria-live')).toBe(false);
+    expect(banner.getAttribute('role')).toBeNull();
+    expect(mount.querySelector('textarea')!.disabled).toBe(true);
+
+    await vi.waitFor(() => expect(liveRegion.textContent).toBe('You can send messages again.'), { timeout: 2000 });
+    expect(banner.style.display).toBe('none');
+    expect(mount.querySelector('textarea')!.disabled).toBe(false);
+  });
+
+  it('should disable the composer after a 429 without a reset time', async () => {
+    const { mount, controller } = mountWidget({ launcher: { enabled: false }, customFetch: rateLimited({}) });
+
+    controller.submitMessage('Hello');
+    await vi.waitFor(() => expect(mount.querySelector('textarea')!.disabled).toBe(true));
+    expect(mount.querySelector('.tvw-quota-banner')!.textContent).toBe(
+      'Message limit reached. Please try again later.'
+    );
+  });
+});
+
+describe('createAgentExperience tab sync', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should post only the changed messages while streaming', async () => {
+    const customFetch = createReplayFetch(
+      {
+        version: 1,
+        recordedAt: '2025-01-01T10:00:00.000Z',
+        status: 200,
+        headers: { 'content-type': 'text/event-stream' },
+        chunks: [
+          { delayMs: 300, text: 'data: {"type":"step_chunk","text":"Our team "}\n\n' },
+          { delayMs: 300, text: 'data: {"type":"step_chunk","text":"replies "}\n\n' },
+          { delayMs: 300, text: 'data: {"type":"step_chunk","text":"within a day."}\n\n' },
+          { delayMs: 0, text: 'data: {"type":"flow_complete","success":true}\n\n' }
+        ]
+      },
+      { timing: 'original' }
+    );
+    const tabSync = { channel: 'ui-test-sync' };
+    const received: TabSyncMessage[] = [];
+    const listener = createTabSync({ channelName: tabSync.channel, onMessage: (m) => received.push(m) })!;
+    const peer = mountWidget({ launcher: { enabled: false }, tabSync });
+    const { controller } = mountWidget({ launcher: { enabled: false }, customFetch, tabSync });
+
+    controller.submitMessage('How fast do you reply?');
+    await vi.waitFor(() => {
+      expect(received.filter((m) => m.type === 'messages').length).toBeGreaterThan(0);
+    }, { timeout: 2000 });
+    await vi.waitFor(() => {
+      expect(peer.mount.textContent).toContain('Our team');
+    });
+    await vi.waitFor(() => {
+      expect(received.at(-1)).toMatchObject({ type: 'state', streaming: false });
+    }, { timeout: 3000 });
+
+    const states = received.filter((m) => m.type === 'state');
+    expect(states[0]).toMatchObject({ type: 'state', streaming: true });
+    received
+      .filter((m) => m.type === 'messages')
+      .forEach((m) => {
+        expect(m.type === 'messages' && m.messages.map((msg) => msg.role)).toEqual(['assistant']);
+      });
+    expect(peer.mount.textContent).toContain('Our team replies within a day.');
+    listener.close();
+  });
+});
@@ -3,10 +3,13 @@ import { AgentWidgetSession, AgentWidgetSessionStatus } from "./session";
 import {
   AgentWidgetConfig,
   AgentWidgetMessage,
+  AgentWidgetParsedAction,
   AgentWidgetEvent,
   AgentWidgetStorageAdapter,
   AgentWidgetStoredState,
+  AgentWidgetMessageBranches,
   AgentWidgetControllerEventMap,
+  AgentWidgetQuota,
   AgentWidgetVoiceStateEvent,
   AgentWidgetStateEvent,
   AgentWidgetStateSnapshot,
@@ -14,7 +17,15 @@ import {
   SlotRenderer,
   AgentWidgetMessageFeedback,
   ContentPart,
-  AgentWidgetPersistStateConfig
+  AgentWidgetPersistStateConfig,
+  AgentWidgetThread,
+  AgentWidgetTranscript,
+  AgentWidgetTranscriptFormat,
+  AgentWidgetThreadChangedEvent,
+  AgentWidgetThreadsConfig,
+  AgentWidgetTabSyncConfig,
+  AgentWidgetVirtualizationConfig,
+  AgentWidgetCodeBlocksConfig
 } from "./types";
 import { AttachmentManager } from "./utils/attachment-manager";
 import { createTextPart, ALL_SUPPORTED_MIME_TYPES } from "./utils/content";
@@ -22,26 +33,77 @@ import { applyThemeVariables, createThemeObserver } from "./utils/theme";
 import { renderLucideIcon } from "./utils/icons";
 import { createElement } from "./utils/dom";
 import { morphMessages } from "./utils/morph";
-import { statusCopy } from "./utils/constants";
 import { createLauncherButton } from "./components/launcher";
 import { createWrapper, buildPanel, buildHeader, buildComposer, attachHeaderToContainer } from "./components/panel";
 import { buildHeaderWithLayout } from "./components/header-layouts";
-import { positionMap } from "./utils/positioning";
+import { positionMap, resolveLauncherPosition } from "./utils/positioning";
 import type { HeaderElements, ComposerElements } from "./components/panel";
 import { MessageTransform, MessageActionCallbacks } from "./components/message-bubble";
 import { createStandardBubble, createTypingIndicator } from "./components/message-bubble";
+import { createThreadList, ThreadListElements } from "./components/thread-list";
+import { createInspectorPanel, InspectorPanel } from "./components/inspector-panel";
+import { createSearchBar, SearchBarElements } from "./components/search-bar";
+import { createExportMenu, ExportMenuElements } from "./components/export-menu";
+import { createThreadStore, ThreadSnapshot } from "./utils/threads";
+import { createTabSync, TabSync, TabSyncMessage } from "./utils/tab-sync";
 import { createReasoningBubble, reasoningExpansionState, updateReasoningBubbleUI } from "./components/reasoning-bubble";
 import { createToolBubble, toolExpansionState, updateToolBubbleUI } from "./components/tool-bubble";
 import { createSuggestions } from "./components/suggestions";
+import { createQuotaBanner } from "./components/quota-banner";
 import { enhanceWithForms } from "./components/forms";
 import { pluginRegistry } from "./plugins/registry";
 import { mergeWithDefaults } from "./defaults";
+import { createTranslator, relocalizeConfig, type AgentWidgetTranslator } from "./utils/i18n";
 import { createEventBus } from "./utils/events";
+import { createTelemetry } from "./utils/telemetry";
+import { createInspectorStore } from "./utils/inspector";
+import {
+  highlightMatches,
+  isSearchEnabled,
+  searchMessages,
+  SEARCH_CURRENT_CLASS
+} from "./utils/search";
+import {
+  downloadTranscript,
+  exportTranscript,
+  isTranscriptExportEnabled,
+  parseTranscript,
+  TRANSCRIPT_FORMATS
+} from "./utils/transcript";
+import {
+  captureScrollAnchor,
+  createMessagePlaceholder,
+  createMessageVirtualizer,
+  fillMessagePlaceholders,
+  MessageWindow,
+  PLACEHOLDER_ATTRIBUTE,
+  restoreScrollAnchor
+} from "./utils/virtualizer";
+import {
+  CODE_ACTION_ATTRIBUTE,
+  CODE_BLOCK_ATTRIBUTE,
+  decorateCodeBlocks,
+  DEFAULT_CODE_ACTIONS,
+  downloadCode,
+  isCodeBlocksEnabled
+} from "./utils/code-blocks";
+import { loadSyntaxGrammars } from "./utils/syntax-highlight";
 import {
   createActionManager,
   defaultActionHandlers,
   defaultJsonActionParser
 } from "./utils/actions";
+import { createApprovalManager, type ApprovalChoice } from "./utils/approvals";
+import {
+  MESSAGE_ITEM_SELECTOR,
+  createLiveAnnouncer,
+  getFocusableElements,
+  handleMessageNavigation,
+  prefersReducedMotion,
+  syncMessageTabStops,
+  toAnnouncement,
+  trapFocus
+} from "./utils/accessibility";
 import { createLocalStorageAdapter } from "./utils/storage";
 import { componentRegistry } from "./components/registry";
 import {
@@ -59,6 +121,11 @@ import {
 // Default localStorage key for chat history (automatically cleared on clear chat)
 const DEFAULT_CHAT_HISTORY_STORAGE_KEY = "vanilla-agent-chat-history";
 const VOICE_STATE_RESTORE_WINDOW = 30 * 1000;
+// Coalesces streaming updates into at most one cross-tab post per interval
+const TAB_SYNC_THROTTLE_MS = 250;
+// The streaming tab pings this often; other tabs give up on it after the timeout
+const TAB_SYNC_HEARTBEAT_MS = 5000;
+const TAB_SYNC_STREAM_TIMEOUT_MS = 15000;
 
 const ensureRecord = (value: unknown): Record<string, unknown> => {
   if (!value || typeof value !== "object") {
@@ -103,6 +170,66 @@ const normalizePersistStateConfig = (
   };
 };
 
+/**
+ * Normalize threads config to full object form
+ */
+const normalizeThreadsConfig = (
+  config: boolean | AgentWidgetThreadsConfig | undefined,
+  i18n: AgentWidgetTranslator
+): Required<AgentWidgetThreadsConfig> => {
+  const options = typeof config === "object" ? config : {};
+  return {
+    enabled: config === true || (typeof config === "object" && config.enabled !== false),
+    untitledLabel: options.untitledLabel ?? i18n.t("threadUntitled"),
+    panelTitle: options.panelTitle ?? i18n.t("threadListTitle"),
+    maxThreads: options.maxThreads ?? 50
+  };
+};
+
+/**
+ * Normalize virtualization config to full object form
+ */
+const normalizeVirtualizationConfig = (
+  config: boolean | AgentWidgetVirtualizationConfig | undefined
+): Required<AgentWidgetVirtualizationConfig> => {
+  const options = typeof config === "object" ? config : {};
+  return {
+    enabled: config === true || (typeof config === "object" && config.enabled !== false),
+    threshold: options.threshold ?? 50,
+    overscan: options.overscan ?? 800,
+    estimatedHeight: options.estimatedHeight ?? 96
+  };
+};
+
+/**
+ * Normalize codeBlocks config to full object form
+ */
+const normalizeCodeBlocksConfig = (config: boolean | AgentWidgetCodeBlocksConfig | undefined) => {
+  const options = typeof config === "object" ? config : {};
+  return {
+    enabled: isCodeBlocksEnabled({ codeBlocks: config }),
+    highlight: options.highlight ?? true,
+    grammarsUrl: options.grammarsUrl,
+    actions: options.actions ?? DEFAULT_CODE_ACTIONS,
+    wrap: options.wrap ?? false,
+    onCodeAction: options.onCodeAction
+  };
+};
+
+/**
+ * Normalize tabSync config to full object form
+ */
+const normalizeTabSyncConfig = (
+  config: boolean | AgentWidgetTabSyncConfig | undefined
+): Required<AgentWidgetTabSyncConfig> => {
+  const options = typeof config === "object" ? config : {};
+  return {
+    enabled: config === true || (typeof config === "object" && config.enabled !== false),
+    channel: options.channel ?? "vanilla-agent-sync",
+    openState: options.openState ?? true
+  };
+};
+
 /**
  * Get storage instance based on config
  */
@@ -124,11 +251,50 @@ type Controller = {
   clearChat: () => void;
   setMessage: (message: string) => boolean;
   submitMessage: (message?: string) => boolean;
+  /** Stop the streaming response, keeping the partial reply. Returns false when idle. */
+  stop: () => boolean;
+  /** Send a failed user message again. Returns false unless the message failed. */
+  retryMessage: (messageId: string) => boolean;
+  editMessage: (messageId: string, content: string) => boolean;
+  regenerate: (assistantMessageId: string) => boolean;
+  switchBranch: (parentId: string, index: number) => void;
+  // Thread methods
+  listThreads: () => AgentWidgetThread[];
+  getActiveThreadId: () => string;
+  createThread: (options?: { title?: string }) => AgentWidgetThread | null;
+  switchThread: (threadId: string) => boolean;
+  renameThread: (threadId: string, title: string) => boolean;
+  deleteThread: (threadId: string) => boolean;
   startVoiceRecognition: () => boolean;
   stopVoiceRecognition: () => boolean;
   injectTestMessage: (event: AgentWidgetEvent) => void;
   getMessages: () => AgentWidgetMessage[];
   getStatus: () => AgentWidgetSessionStatus;
+  /** Message quota reported by the backend, or null when it reported none */
+  getQuota: () => AgentWidgetQuota | null;
+  /**
+   * Open or close the developer inspector (`debugTools` only). Toggles when
+   * `open` is omitted; returns false when the inspector isn't enabled.
+   */
+  toggleInspector: (open?: boolean) => boolean;
+  /**
+   * Find messages containing `query` (including reasoning and tool details),
+   * highlight the matches and jump to the first one. Returns the matching
+   * message IDs; an empty query clears the search.
+   */
+  search: (query: string) => string[];
+  /**
+   * The conversation as Markdown, a self-contained HTML page, plain text or
+   * JSON. The JSON form can be loaded again with `importTranscript()`.
+   */
+  exportTranscript: (format?: AgentWidgetTranscriptFormat) => string;
+  /** Export the conversation and save it as a file */
+  downloadTranscript: (format?: AgentWidgetTranscriptFormat) => void;
+  /**
+   * Replace the conversation with a JSON transcript. Returns false while a
+   * response is streaming or when the transcript is invalid.
+   */
+  importTranscript: (transcript: string | AgentWidgetTranscript) => boolean;
   getPersistentMetadata: () => Record<string, unknown>;
   updatePersistentMetadata: (
     updater: (prev: Record<string, unknown>) => Record<string, unknown>
@@ -211,6 +377,7 @@ export const createAgentExperience = (
   }
 
   let config = mergeWithDefaults(initialConfig) as AgentWidgetConfig;
+  let i18n = createTranslator(config);
   // Note: applyThemeVariables is called after applyFullHeightStyles() below
   // because applyFullHeightStyles resets mount.style.cssText
 
@@ -222,11 +389,32 @@ export const createAgentExperience = (
     componentRegistry.registerAll(config.components);
   }
   const eventBus = createEventBus<AgentWidgetControllerEventMap>();
+  const telemetry = createTelemetry(() => config);
+  // Records raw stream traffic for the developer inspector
+  const inspectorStore = runtimeOptions?.debugTools ? createInspectorStore() : null;
+  if (inspectorStore) {
+    eventBus.on("action:detected", ({ action, message }) =>
+      inspectorStore.recordAction(message.id, action)
+    );
+  }
 
   const storageAdapter: AgentWidgetStorageAdapter =
     config.storageAdapter ?? createLocalStorageAdapter();
   let persistentMetadata: Record<string, unknown> = {};
+  let storedBranches: AgentWidgetMessageBranches | undefined;
+  const threadsConfig = normalizeThreadsConfig(config.threads, i18n);
+  let threadStore = createThreadStore(null, threadsConfig);
   let pendingStoredState: Promise<AgentWidgetStoredState | null> | null = null;
+  // Cross-tab sync; the channel is opened once the widget is fully set up
+  const tabSyncConfig = normalizeTabSyncConfig(config.tabSync);
+  let tabSync: TabSync | null = null;
+  let tabSyncTimer: ReturnType<typeof setTimeout> | null = null;
+  let tabSyncHeartbeat: ReturnType<typeof setInterval> | null = null;
+  // Messages as last broadcast, by id, while this tab streams
+  let tabSyncSent: Map<string, AgentWidgetMessage> | null = null;
+  let remoteStreamingTimer: ReturnType<typeof setTimeout> | null = null;
+  let applyingRemoteState = false;
+  let remoteStreaming = false;
 
   if (storageAdapter?.load) {
     try {
@@ -241,6 +429,8 @@ export const createAgentExperience = (
         if (immediateState.messages?.length) {
           config = { ...config, initialMessages: immediateState.messages };
         }
+        storedBranches = immediateState.branches;
+        threadStore = createThreadStore(immediateState, threadsConfig);
       }
     } catch (error) {
       if (typeof console !== "undefined") {
@@ -269,13 +459,26 @@ export const createAgentExperience = (
       ? config.actionHandlers
       : [defaultActionHandlers.message, defaultActionHandlers.messageAndClick];
 
+  const approvalManager = createApprovalManager({
+    getConfig: () => config,
+    getSession: () => session ?? null,
+    getSessionMetadata,
+    updateSessionMetadata,
+    emit: eventBus.emit
+  });
+  const requestActionApproval = (action: AgentWidgetParsedAction, message: AgentWidgetMessage) =>
+    approvalManager.requiresApproval("action", action.type)
+      ? approvalManager.requestActionApproval(action, message)
+      : null;
+
   let actionManager = createActionManager({
     parsers: resolvedActionParsers,
     handlers: resolvedActionHandlers,
     getSessionMetadata,
     updateSessionMetadata,
     emit: eventBus.emit,
-    documentRef: typeof document !== "undefined" ? document : null
+    documentRef: typeof document !== "undefined" ? document : null,
+    requestApproval: requestActionApproval
   });
   actionManager.syncFromMetadata();
 
@@ -307,6 +510,7 @@ export const createAgentExperience = (
     },
     onFeedback: (feedback: AgentWidgetMessageFeedback) => {
       eventBus.emit("message:feedback", feedback);
+      telemetry.track({ name: "feedback", type: feedback.type, messageId: feedback.messageId });
       // Send feedback to API if in client token mode
       if (session?.isClientTokenMode()) {
         session.submitMessageFeedback(feedback.messageId, feedback.type).catch((error) => {
@@ -318,17 +522,46 @@ export const createAgentExperience = (
       }
       // Call user-provided callback
       config.messageActions?.onFeedback?.(feedback);
+    },
+    getBranchInfo: (messageId: string) => session?.getBranchInfo(messageId) ?? null,
+    onBranchChange: (parentId: string, index: number) => {
+      session?.switchBranch(parentId, index);
+    },
+    onRetryQueued: () => {
+      void session?.flushOutbox();
+    },
+    onRetryMessage: (messageId: string) => {
+      void session?.retryMessage(messageId);
+    },
+    // Read on every render so config updates apply
+    get deliveryLabels() {
+      const outbox = typeof config.outbox === "object" ? config.outbox : {};
+      const delivery = config.delivery ?? {};
+      return {
+        queued: outbox.queuedText ?? i18n.t("deliveryQueued"),
+        retryQueued: outbox.retryText ?? i18n.t("deliveryRetryQueued"),
+        sending: delivery.showSending === false ? "" : delivery.sendingText ?? i18n.t("deliverySending"),
+        sent: delivery.showSent === false ? "" : delivery.sentText ?? i18n.t("deliverySent"),
+        failed: delivery.failedText ?? i18n.t("deliveryFailed"),
+        retry: delivery.retryText ?? i18n.t("deliveryRetry")
+      };
+    },
+    get stoppedLabel() {
+      return config.copy?.stoppedMessageLabel ?? i18n.t("stoppedMessageLabel");
+    },
+    get i18n() {
+      return i18n;
     }
   };
   
   // Get status indicator config
   const statusConfig = config.statusIndicator ?? {};
   const getStatusText = (status: AgentWidgetSessionStatus): string => {
-    if (status === "idle") return statusConfig.idleText ?? statusCopy.idle;
-    if (status === "connecting") return statusConfig.connectingText ?? statusCopy.connecting;
-    if (status === "connected") return statusConfig.connectedText ?? statusCopy.connected;
-    if (status === "error") return statusConfig.errorText ?? statusCopy.error;
-    return statusCopy[status];
+    if (status === "idle") return statusConfig.idleText ?? i18n.t("statusIdle");
+    if (status === "connecting") return statusConfig.connectingText ?? i18n.t("statusConnecting");
+    if (status === "connected") return statusConfig.connectedText ?? i18n.t("statusConnected");
+    if (status === "error") return statusConfig.errorText ?? i18n.t("statusError");
+    return i18n.t("statusIdle");
   };
 
   const { wrapper, panel } = createWrapper(config);
@@ -341,6 +574,7 @@ export const createAgentExperience = (
     textarea,
     sendButton,
     sendButtonWrapper,
+    stopButton,
     composerForm,
     statusText,
     introTitle,
@@ -355,6 +589,10 @@ export const createAgentExperience = (
     leftActions,
     rightActions
   } = panelElements;
+  // The search and export buttons carry the header's ml-auto when present
+  const hasLeadingHeaderActions = Boolean(
+    panelElements.searchButtonWrapper || panelElements.exportButtonWrapper
+  );
 
   // Use mutable references for mic button so we can update them dynamically
   let micButton: HTMLButtonElement | null = panelElements.micButton;
@@ -577,6 +815,62 @@ export const createAgentExperience = (
     }
   });
 
+  // Approval card buttons (Allow / Always allow / Deny) inside tool bubbles
+  messagesWrapper.addEventListener('click', (event) => {
+    const target = event.target as HTMLElement;
+    const button = target.closest('button[data-approval-decision]') as HTMLElement | null;
+    if (!button) return;
+    const messageId = button.closest('.vanilla-tool-bubble')?.getAttribute('data-message-id');
+    if (!messageId) return;
+    approvalManager.decide(messageId, button.getAttribute('data-approval-decision') as ApprovalChoice);
+  });
+
+  // Screen readers hear each reply once it completes, not every streamed chunk
+  const announcer = createLiveAnnouncer();
+  container.appendChild(announcer.element);
+  messagesWrapper.setAttribute("role", "log");
+  messagesWrapper.setAttribute("aria-live", "off");
+  messagesWrapper.setAttribute("aria-label", i18n.t("messagesLabel"));
+
+  // Arrow keys move between messages; only the active one is a Tab stop
+  let activeMessageId: string | null = null;
+  messagesWrapper.addEventListener('keydown', (event) => {
+    const nextId = handleMessageNavigation(event, messagesWrapper);
+    if (nextId) activeMessageId = nextId;
+  });
+  messagesWrapper.addEventListener('focusin', (event) => {
+    const item = (event.target as HTMLElement).closest(MESSAGE_ITEM_SELECTOR);
+    const id = item?.getAttribute('data-message-item') ?? null;
+    if (id && id !== activeMessageId) {
+      activeMessageId = id;
+      syncMessageTabStops(messagesWrapper, activeMessageId);
+      // Arrow keys can land on a placeholder of a windowed conversation
+      if (item?.hasAttribute(PLACEHOLDER_ATTRIBUTE)) {
+        renderMessagesWithPlugins(messagesWrapper, session.getMessages(), postprocess, {
+          preserveScroll: true
+        });
+      }
+    }
+  });
+  // Code block toolbars are rebuilt on every render, so their clicks are delegated
+  messagesWrapper.addEventListener('click', (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLElement>(`[${CODE_ACTION_ATTRIBUTE}]`);
+    const block = button?.closest(`[${CODE_BLOCK_ATTRIBUTE}]`);
+    if (!button || !block) return;
+    event.preventDefault();
+    handleCodeAction(button, block);
+  });
+  // Find-in-page reached text in a placeholder; render the real message
+  messagesWrapper.addEventListener('beforematch', (event) => {
+    const item = (event.target as HTMLElement).closest(MESSAGE_ITEM_SELECTOR);
+    revealedMessageId = item?.getAttribute('data-message-item') ?? null;
+    if (revealedMessageId) {
+      renderMessagesWithPlugins(messagesWrapper, session.getMessages(), postprocess, {
+        preserveScroll: true
+      });
+    }
+  });
+
   panel.appendChild(container);
   mount.appendChild(wrapper);
 
@@ -588,7 +882,7 @@ export const createAgentExperience = (
     const theme = config.theme ?? {};
     
     // Determine panel styling based on mode, with theme overrides
-    const position = config.launcher?.position ?? 'bottom-left';
+    const position = resolveLauncherPosition(config, 'bottom-left');
     const isLeftSidebar = position === 'bottom-left' || position === 'top-left';
     
     // Default values based on mode
@@ -687,7 +981,7 @@ export const createAgentExperience = (
     
     if (!sidebarMode && !isInlineEmbed) {
       // Restore positioning classes when not in sidebar mode (launcher mode only)
-      const positionClasses = positionMap[position as keyof typeof positionMap] ?? positionMap['bottom-right'];
+      const positionClasses = positionMap[resolveLauncherPosition(config)];
       positionClasses.split(' ').forEach(cls => wrapper.classList.add(cls));
     }
     
@@ -768,8 +1062,22 @@ export const createAgentExperience = (
   // Apply theme variables after applyFullHeightStyles since it resets mount.style.cssText
   applyThemeVariables(mount, config);
 
+  // Right-to-left locales mirror the layout through dir
+  const applyLocaleAttributes = () => {
+    mount.setAttribute("dir", i18n.direction);
+    mount.setAttribute("lang", i18n.locale);
+  };
+  applyLocaleAttributes();
+
   const destroyCallbacks: Array<() => void> = [];
 
+  // Messages left / limit countdown, shown above the composer
+  const quotaBanner = createQuotaBanner();
+  if (composerForm.parentNode === footer) {
+    footer.insertBefore(quotaBanner.element, composerForm);
+  }
+  destroyCallbacks.push(() => quotaBanner.destroy());
+
   // Set up theme observer for auto color scheme detection
   let cleanupThemeObserver: (() => void) | null = null;
   const setupThemeObserver = () => {
@@ -797,6 +1105,30 @@ export const createAgentExperience = (
   const suggestionsManager = createSuggestions(suggestions);
   let closeHandler: (() => void) | null = null;
   let session: AgentWidgetSession;
+  let threadList: ThreadListElements | null = null;
+  let searchBar: SearchBarElements | null = null;
+  // Conversation search stays active across re-renders until it is cleared
+  let searchQuery = "";
+  let searchResults: string[] = [];
+  let searchIndex = -1;
+  const virtualizationConfig = normalizeVirtualizationConfig(config.virtualization);
+  const virtualizer = virtualizationConfig.enabled
+    ? createMessageVirtualizer(virtualizationConfig)
+    : null;
+  // Rendered range of a windowed conversation, null while every message renders
+  let virtualWindow: MessageWindow | null = null;
+  // Layout the window is computed from. Reused while a reply streams so each
+  // chunk doesn't force a reflow; read again on other renders and on resize
+  let virtualLayout: { listTop: number; height: number; gap: number } | null = null;
+  let virtualScrollTop = 0;
+  // Placeholder revealed by find-in-page; stays rendered until another one is
+  let revealedMessageId: string | null = null;
+  const codeBlocksConfig = normalizeCodeBlocksConfig(config.codeBlocks);
+  // Wrap toggles by code block key, kept across re-renders
+  const codeWrapOverrides = new Map<string, boolean>();
+  let syntaxGrammarsRequested = false;
+  // Set while a thread's messages are loaded so switching doesn't count as activity
+  let loadingThread = false;
   let isStreaming = false;
   let shouldAutoScroll = true;
   let lastScrollTop = 0;
@@ -859,6 +1191,9 @@ export const createAgentExperience = (
       : [];
 
   function persistState(messagesOverride?: AgentWidgetMessage[]) {
+    // The tab that made the change saves it; mirrored tabs don't write
+    if (applyingRemoteState) return;
+    scheduleTabSync();
     if (!storageAdapter?.save) return;
 
     // Allow saving even if session doesn't exist yet (for metadata during init)
@@ -870,7 +1205,9 @@ export const createAgentExperience = (
 
     const payload = {
       messages,
-      metadata: persistentMetadata
+      branches: session ? session.getBranches() : storedBranches,
+      metadata: persistentMetadata,
+      ...threadStore.serialize()
     };
     try {
       const result = storageAdapter.save(payload);
@@ -890,6 +1227,59 @@ export const createAgentExperience = (
     }
   }
 
+  function scheduleTabSync() {
+    if (!tabSync || loadingThread || tabSyncTimer) return;
+    tabSyncTimer = setTimeout(() => {
+      tabSyncTimer = null;
+      postTabSyncState();
+    }, TAB_SYNC_THROTTLE_MS);
+  }
+
+  function postTabSyncState(full = false) {
+    if (session.isStreaming() && !tabSyncHeartbeat) {
+      tabSyncHeartbeat = setInterval(() => {
+        if (!session.isStreaming()) {
+          stopTabSyncHeartbeat();
+          return;
+        }
+        tabSync?.post({ type: "heartbeat" });
+      }, TAB_SYNC_HEARTBEAT_MS);
+    }
+    const messages = session.getMessages().filter((msg) => !(msg as any).__skipPersist);
+    // Mid-stream, send only the messages that changed since the last full state
+    if (!full && session.isStreaming() && tabSyncSent) {
+      const sent = tabSyncSent;
+      const changed = messages.filter((msg) => sent.get(msg.id) !== msg);
+      // A removed message needs the full state so peers drop it too
+      if (messages.filter((msg) => sent.has(msg.id)).length === sent.size) {
+        changed.forEach((msg) => sent.set(msg.id, msg));
+        if (changed.length) {
+          tabSync?.post({ type: "messages", messages: changed, streaming: true });
+        }
+        return;
+      }
+    }
+    tabSyncSent = session.isStreaming() ? new Map(messages.map((msg) => [msg.id, msg])) : null;
+    tabSync?.post({
+      type: "state",
+      // Keep streaming flags so other tabs render the response live
+      state: {
+        messages,
+        branches: session.getBranches(),
+        metadata: persistentMetadata,
+        ...threadStore.serialize()
+      },
+      streaming: session.isStreaming()
+    });
+  }
+
+  function stopTabSyncHeartbeat() {
+    if (tabSyncHeartbeat) {
+      clearInterval(tabSyncHeartbeat);
+      tabSyncHeartbeat = null;
+    }
+  }
+
   const scheduleAutoScroll = (force = false) => {
     if (!shouldAutoScroll) return;
 
@@ -937,6 +1327,10 @@ export const createAgentExperience = (
 
   // Custom smooth scroll animation with easing
   const smoothScrollToBottom = (element: HTMLElement, duration = 500) => {
+    if (prefersReducedMotion()) {
+      element.scrollTop = element.scrollHeight;
+      return;
+    }
     const start = element.scrollTop;
     const clientHeight = element.clientHeight;
     // Recalculate target dynamically to handle layout changes
@@ -1015,6 +1409,11 @@ export const createAgentExperience = (
         message.streaming === false
       ) {
         eventBus.emit("assistant:complete", message);
+        const item = Array.from(
+          messagesWrapper.querySelectorAll<HTMLElement>(MESSAGE_ITEM_SELECTOR)
+        ).find((element) => element.getAttribute("data-message-item") === message.id);
+        const text = item ? toAnnouncement(item) : "";
+        if (text) announcer.announce(text);
       }
     });
 
@@ -1026,17 +1425,194 @@ export const createAgentExperience = (
 
 
   // Message rendering with plugin support (implementation)
+  const findMessageItem = (messageId: string) =>
+    Array.from(
+      messagesWrapper.querySelectorAll<HTMLElement>(MESSAGE_ITEM_SELECTOR)
+    ).find((element) => element.getAttribute("data-message-item") === messageId) ?? null;
+
+  const highlightSearchResults = () => {
+    highlightMatches(messagesWrapper, searchQuery);
+    messagesWrapper
+      .querySelectorAll(`.${SEARCH_CURRENT_CLASS}`)
+      .forEach((element) => element.classList.remove(SEARCH_CURRENT_CLASS));
+    const currentId = searchResults[searchIndex];
+    if (currentId) {
+      findMessageItem(currentId)?.classList.add(SEARCH_CURRENT_CLASS);
+    }
+  };
+
+  const updateSearchCount = () => {
+    searchBar?.setCount(searchIndex + 1, searchResults.length);
+  };
+
+  // Expand collapsed reasoning/tool details holding the match, then scroll to it
+  const revealSearchResult = () => {
+    const messageId = searchResults[searchIndex];
+    if (!messageId) return;
+    // The current result is always rendered; swap out its placeholder first
+    if (findMessageItem(messageId)?.hasAttribute(PLACEHOLDER_ATTRIBUTE)) {
+      renderMessagesWithPlugins(messagesWrapper, session.getMessages(), postprocess, {
+        preserveScroll: true
+      });
+    }
+    const message = session.getMessages().find((entry) => entry.id === messageId);
+    const needle = searchQuery.toLocaleLowerCase();
+    if (message && !message.content.toLocaleLowerCase().includes(needle)) {
+      if (message.reasoning && !reasoningExpansionState.has(messageId)) {
+        reasoningExpansionState.add(messageId);
+        const bubble = messagesWrapper.querySelector<HTMLElement>(
+          `.vanilla-reasoning-bubble[data-message-id="${messageId}"]`
+        );
+        if (bubble) updateReasoningBubbleUI(messageId, bubble);
+      } else if (message.toolCall && !toolExpansionState.has(messageId)) {
+        toolExpansionState.add(messageId);
+        const bubble = messagesWrapper.querySelector<HTMLElement>(
+          `.vanilla-tool-bubble[data-message-id="${messageId}"]`
+        );
+        if (bubble) updateToolBubbleUI(messageId, bubble, config);
+      }
+    }
+    highlightSearchResults();
+    const item = findMessageItem(messageId);
+    const target = item?.querySelector<HTMLElement>("mark") ?? item;
+    target?.scrollIntoView?.({ block: "center", behavior: "smooth" });
+  };
+
+  const runSearch = (query: string): string[] => {
+    searchQuery = query.trim();
+    searchResults = searchMessages(session.getMessages(), searchQuery);
+    searchIndex = searchResults.length ? 0 : -1;
+    updateSearchCount();
+    if (searchIndex >= 0) {
+      revealSearchResult();
+    } else {
+      highlightSearchResults();
+    }
+    return [...searchResults];
+  };
+
+  const stepSearch = (direction: 1 | -1) => {
+    if (!searchResults.length) return;
+    searchIndex = (searchIndex + direction + searchResults.length) % searchResults.length;
+    updateSearchCount();
+    revealSearchResult();
+  };
+
+  // New or removed messages change the results; keep the current one if it remains
+  const refreshSearchResults = (messages: AgentWidgetMessage[]) => {
+    const currentId = searchResults[searchIndex];
+    searchResults = searchMessages(messages, searchQuery);
+    const index = currentId ? searchResults.indexOf(currentId) : -1;
+    searchIndex = index >= 0 ? index : searchResults.length ? 0 : -1;
+    updateSearchCount();
+  };
+
+  const handleCodeAction = (button: HTMLElement, block: Element) => {
+    const action = button.getAttribute(CODE_ACTION_ATTRIBUTE) ?? "";
+    const key = block.getAttribute(CODE_BLOCK_ATTRIBUTE) ?? "";
+    const code = block.querySelector("pre > code")?.textContent ?? "";
+    const language = block.getAttribute("data-language") ?? "";
+
+    if (action === "copy") {
+      // The Clipboard API is missing outside secure contexts
+      (navigator.clipboard?.writeText(code) ?? Promise.reject(new Error("Clipboard API unavailable")))
+        .then(() => {
+          button.classList.add("tvw-code-action-success");
+          setTimeout(() => button.classList.remove("tvw-code-action-success"), 2000);
+        })
+        .catch((error) => {
+          if (typeof console !== "undefined") {
+            // eslint-disable-next-line no-console
+            console.error("[AgentWidget] Failed to copy code:", error);
+          }
+        });
+    } else if (action === "download") {
+      downloadCode(code, language);
+    } else if (action === "wrap") {
+      const wrapped = !(codeWrapOverrides.get(key) ?? codeBlocksConfig.wrap);
+      codeWrapOverrides.set(key, wrapped);
+      block.querySelector("pre")?.classList.toggle("tvw-code-wrap", wrapped);
+      button.setAttribute("aria-pressed", String(wrapped));
+    }
+
+    const messageId = key.slice(0, key.lastIndexOf(":"));
+    const message = session.getMessages().find((entry) => entry.id === messageId);
+    if (message) {
+      codeBlocksConfig.onCodeAction?.({ action, code, language, message });
+    }
+  };
+
+  const describeMessageLabel = (message: AgentWidgetMessage) =>
+    message.variant === "reasoning"
+      ? i18n.t("reasoningMessageLabel")
+      : message.variant === "tool"
+        ? i18n.t("toolMessageLabel")
+        : message.role === "user"
+          ? i18n.t("userMessageLabel")
+          : i18n.t("assistantMessageLabel");
+
+  const isMessageShown = (message: AgentWidgetMessage) =>
+    !(message.variant === "reasoning" && message.reasoning && !showReasoning) &&
+    !(message.variant === "tool" && message.toolCall && !showToolCalls);
+
+  const getVirtualWindow = (ids: string[]): MessageWindow | null => {
+    if (!virtualizer?.isActive(ids.length)) return null;
+    if (!virtualLayout || !isStreaming) {
+      virtualScrollTop = body.scrollTop;
+      virtualLayout = {
+        listTop:
+          messagesWrapper.getBoundingClientRect().top - body.getBoundingClientRect().top + virtualScrollTop,
+        height: body.clientHeight || window.innerHeight,
+        gap: parseFloat(getComputedStyle(messagesWrapper).rowGap) || 0
+      };
+    }
+    return virtualizer.getWindow(ids, {
+      top: virtualScrollTop - virtualLayout.listTop,
+      height: virtualLayout.height,
+      gap: virtualLayout.gap,
+      // Follow the end of the list while auto-scrolling
+      atEnd: shouldAutoScroll
+    });
+  };
+
+  // IDs of the messages to render fully, or null to render every message
+  const computeRenderedMessageIds = (messages: AgentWidgetMessage[]): Set<string> | null => {
+    if (!virtualizer) return null;
+    const ids = messages.filter(isMessageShown).map((message) => message.id);
+    virtualizer.prune(ids);
+    virtualWindow = getVirtualWindow(ids);
+    if (!virtualWindow) return null;
+    const rendered = new Set(ids.slice(virtualWindow.start, virtualWindow.end));
+    // Keep the focused message, the current search result and find-in-page hits rendered
+    [activeMessageId, searchResults[searchIndex], revealedMessageId].forEach((id) => {
+      if (id) rendered.add(id);
+    });
+    return rendered;
+  };
+
   const renderMessagesWithPluginsImpl = (
     container: HTMLElement,
     messages: AgentWidgetMessage[],
-    transform: MessageTransform
+    transform: MessageTransform,
+    options: { preserveScroll?: boolean } = {}
   ) => {
     // Build new content in a temporary container for morphing
     const tempContainer = document.createElement("div");
 
+    // Long conversations fully render only the messages near the viewport
+    const renderedIds = container === messagesWrapper ? computeRenderedMessageIds(messages) : null;
+    const anchor = renderedIds && !shouldAutoScroll ? captureScrollAnchor(container, body) : null;
+
     messages.forEach((message) => {
       let bubble: HTMLElement | null = null;
 
+      if (virtualizer && renderedIds && !renderedIds.has(message.id) && isMessageShown(message)) {
+        tempContainer.appendChild(
+          createMessagePlaceholder(message, virtualizer.heightOf(message.id), describeMessageLabel(message))
+        );
+        return;
+      }
+
       // Try plugins first
       const matchingPlugin = plugins.find((p) => {
         if (message.variant === "reasoning" && p.renderReasoning) {
@@ -1059,14 +1635,14 @@ export const createAgentExperience = (
           if (!showReasoning) return;
           bubble = matchingPlugin.renderReasoning({
             message,
-            defaultRenderer: () => createReasoningBubble(message),
+            defaultRenderer: () => createReasoningBubble(message, i18n),
             config
           });
         } else if (message.variant === "tool" && message.toolCall && matchingPlugin.renderToolCall) {
           if (!showToolCalls) return;
           bubble = matchingPlugin.renderToolCall({
             message,
-            defaultRenderer: () => createToolBubble(message, config),
+            defaultRenderer: () => createToolBubble(message, config, i18n),
             config
           });
         } else if (matchingPlugin.renderMessage) {
@@ -1141,10 +1717,10 @@ export const createAgentExperience = (
       if (!bubble) {
         if (message.variant === "reasoning" && message.reasoning) {
           if (!showReasoning) return;
-          bubble = createReasoningBubble(message);
+          bubble = createReasoningBubble(message, i18n);
         } else if (message.variant === "tool" && message.toolCall) {
           if (!showToolCalls) return;
-          bubble = createToolBubble(message, config);
+          bubble = createToolBubble(message, config, i18n);
         } else {
           // Check for custom message renderers in layout config
           const messageLayoutConfig = config.layout?.messages;
@@ -1175,11 +1751,38 @@ export const createAgentExperience = (
         }
       }
 
+      if (codeBlocksConfig.enabled && bubble && message.variant !== "reasoning" && message.variant !== "tool") {
+        const { needsGrammars } = decorateCodeBlocks(bubble, message.id, {
+          actions: codeBlocksConfig.actions,
+          highlight: codeBlocksConfig.highlight,
+          i18n,
+          isWrapped: (key) => codeWrapOverrides.get(key) ?? codeBlocksConfig.wrap
+        });
+        if (needsGrammars && !syntaxGrammarsRequested) {
+          syntaxGrammarsRequested = true;
+          loadSyntaxGrammars({ url: codeBlocksConfig.grammarsUrl })
+            .then(() =>
+              renderMessagesWithPlugins(messagesWrapper, session.getMessages(), postprocess, {
+                preserveScroll: true
+              })
+            )
+            .catch((error) => {
+              if (typeof console !== "undefined") {
+                // eslint-disable-next-line no-console
+                console.error("[AgentWidget] Failed to load syntax highlighting:", error);
+              }
+            });
+        }
+      }
+
       const wrapper = document.createElement("div");
       wrapper.className = "tvw-flex";
       // Set id for idiomorph matching
       wrapper.id = `wrapper-${message.id}`;
       wrapper.setAttribute("data-wrapper-id", message.id);
+      wrapper.setAttribute("data-message-item", message.id);
+      wrapper.setAttribute("role", "article");
+      wrapper.setAttribute("aria-label", describeMessageLabel(message));
       if (message.role === "user") {
         wrapper.classList.add("tvw-justify-end");
       }
@@ -1200,7 +1803,7 @@ export const createAgentExperience = (
     const hasRecentAssistantResponse = lastMessage?.role === "assistant" && !lastMessage.streaming;
 
     if (isStreaming && messages.some((msg) => msg.role === "user") && !hasStreamingAssistantMessage && !hasRecentAssistantResponse) {
-      const typingIndicator = createTypingIndicator();
+      const typingIndicator = createTypingIndicator(i18n);
 
       // Create a bubble wrapper for the typing indicator (similar to assistant messages)
       const typingBubble = document.createElement("div");
@@ -1232,6 +1835,20 @@ export const createAgentExperience = (
 
     // Use idiomorph to morph the container contents
     morphMessages(container, tempContainer);
+    syncMessageTabStops(container, activeMessageId);
+    if (virtualizer && renderedIds) {
+      fillMessagePlaceholders(container, messages);
+      virtualizer.measure(container.querySelectorAll<HTMLElement>(MESSAGE_ITEM_SELECTOR));
+      if (anchor) restoreScrollAnchor(container, body, anchor);
+    }
+    if (searchQuery && container === messagesWrapper) {
+      highlightSearchResults();
+    }
+    // Re-windowing keeps the scroll position, and so does streaming while the
+    // reader is further up a windowed conversation
+    if (options.preserveScroll || (renderedIds && !shouldAutoScroll && isStreaming)) {
+      return;
+    }
     // Defer scroll to next frame for smoother animation and to prevent jolt
     // This allows the browser to update layout (e.g., typing indicator removal) before scrolling
     // Use double RAF to ensure layout has fully settled before starting scroll animation
@@ -1247,7 +1864,22 @@ export const createAgentExperience = (
   // Alias for clarity - the implementation handles flicker prevention via typing indicator logic
   const renderMessagesWithPlugins = renderMessagesWithPluginsImpl;
 
+  // The launcher panel is a modal dialog; inline embeds are part of the page
+  const updateDialogSemantics = () => {
+    if (launcherEnabled) {
+      panel.setAttribute("role", "dialog");
+      panel.setAttribute("aria-modal", "true");
+      panel.setAttribute("aria-label", config.launcher?.title ?? i18n.t("launcherTitle"));
+    } else {
+      panel.removeAttribute("role");
+      panel.removeAttribute("aria-modal");
+      panel.removeAttribute("aria-label");
+    }
+    wrapper.toggleAttribute("inert", launcherEnabled && !open);
+  };
+
   const updateOpenState = () => {
+    updateDialogSemantics();
     if (!launcherEnabled) return;
     if (open) {
       wrapper.classList.remove("tvw-pointer-events-none", "tvw-opacity-0");
@@ -1272,6 +1904,34 @@ export const createAgentExperience = (
     }
   };
 
+  let returnFocus: HTMLElement | null = null;
+  const moveFocusOnToggle = () => {
+    const active = document.activeElement as HTMLElement | null;
+    if (open) {
+      returnFocus = active && active !== document.body ? active : null;
+      const target =
+        textarea.isConnected && !textarea.disabled ? textarea : getFocusableElements(panel)[0];
+      target?.focus();
+      return;
+    }
+    // Only take focus back when it was inside the panel
+    if (active && active !== document.body && !wrapper.contains(active)) return;
+    const launcherElement = launcherButtonInstance?.element ?? customLauncherElement;
+    const target = returnFocus?.isConnected ? returnFocus : launcherElement;
+    returnFocus = null;
+    target?.focus();
+  };
+
+  panel.addEventListener("keydown", (event) => {
+    if (!launcherEnabled || !open) return;
+    if (event.key === "Escape") {
+      event.preventDefault();
+      setOpenState(false, "user");
+      return;
+    }
+    trapFocus(event, panel);
+  });
+
   const setOpenState = (nextOpen: boolean, source: "user" | "auto" | "api" | "system" = "user") => {
     if (!launcherEnabled) return;
     if (open === nextOpen) return;
@@ -1279,6 +1939,10 @@ export const createAgentExperience = (
     const prevOpen = open;
     open = nextOpen;
     updateOpenState();
+    // Automatic opens (autoExpand, incoming messages) leave focus where it is
+    if (source === "user" || source === "api") {
+      moveFocusOnToggle();
+    }
     
     if (open) {
       recalcPanelHeight();
@@ -1294,8 +1958,10 @@ export const createAgentExperience = (
     
     if (open && !prevOpen) {
       eventBus.emit("widget:opened", stateEvent);
+      telemetry.track({ name: "widget_open", source });
     } else if (!open && prevOpen) {
       eventBus.emit("widget:closed", stateEvent);
+      telemetry.track({ name: "widget_close", source });
     }
     
     // Emit general state snapshot
@@ -1307,9 +1973,12 @@ export const createAgentExperience = (
     });
   };
 
-  const setComposerDisabled = (disabled: boolean) => {
-    // Keep textarea always enabled so users can type while streaming
-    // Only disable submit controls to prevent sending during streaming
+  const setComposerDisabled = (streamingDisabled: boolean) => {
+    // Keep textarea enabled so users can type while streaming; only the
+    // message limit disables it until the window resets
+    const quotaExhausted = session?.isQuotaExhausted() ?? false;
+    textarea.disabled = quotaExhausted;
+    const disabled = streamingDisabled || quotaExhausted;
     sendButton.disabled = disabled;
     if (micButton) {
       micButton.disabled = disabled;
@@ -1319,18 +1988,27 @@ export const createAgentExperience = (
     });
   };
 
+  // Swap the send button for the stop button while this tab streams
+  const updateStopButton = (streaming: boolean) => {
+    const showStop = streaming && config.sendButton?.showStopButton !== false;
+    stopButton.style.display = showStop ? "" : "none";
+    sendButton.style.display = showStop ? "none" : "";
+  };
+
   const updateCopy = () => {
-    introTitle.textContent = config.copy?.welcomeTitle ?? "Hello 👋";
-    introSubtitle.textContent =
-      config.copy?.welcomeSubtitle ??
-      "Ask anything about your account or products.";
-    textarea.placeholder = config.copy?.inputPlaceholder ?? "How can I help...";
+    introTitle.textContent = config.copy?.welcomeTitle ?? i18n.t("welcomeTitle");
+    introSubtitle.textContent = config.copy?.welcomeSubtitle ?? i18n.t("welcomeSubtitle");
+    textarea.placeholder = config.copy?.inputPlaceholder ?? i18n.t("inputPlaceholder");
+    textarea.setAttribute("aria-label", config.copy?.inputPlaceholder ?? i18n.t("inputLabel"));
 
     // Only update send button text if NOT using icon mode
     const useIcon = config.sendButton?.useIcon ?? false;
     if (!useIcon) {
-      sendButton.textContent = config.copy?.sendButtonLabel ?? "Send";
+      sendButton.textContent = config.copy?.sendButtonLabel ?? i18n.t("sendButtonLabel");
+      stopButton.textContent = config.copy?.stopButtonLabel ?? i18n.t("stopButtonLabel");
     }
+    stopButton.setAttribute("aria-label", config.copy?.stopButtonLabel ?? i18n.t("stopButtonLabel"));
+    stopButton.title = config.copy?.stopButtonLabel ?? i18n.t("stopButtonLabel");
 
     // Update textarea font family and weight
     const fontFamily = config.theme?.inputFontFamily ?? "sans-serif";
@@ -1372,6 +2050,9 @@ export const createAgentExperience = (
 
   session = new AgentWidgetSession(config, {
     onMessagesChanged(messages) {
+      if (searchQuery) {
+        refreshSearchResults(messages);
+      }
       renderMessagesWithPlugins(messagesWrapper, messages, postprocess);
       // Re-render suggestions to hide them after first user message
       // Pass messages directly to avoid calling session.getMessages() during construction
@@ -1387,27 +2068,44 @@ export const createAgentExperience = (
       }
       scheduleAutoScroll(!isStreaming);
       trackMessages(messages);
+      approvalManager.scan(messages);
 
       const lastUserMessage = [...messages]
         .reverse()
         .find((msg) => msg.role === "user");
       voiceState.lastUserMessageWasVoice = Boolean(lastUserMessage?.viaVoice);
+      if (!loadingThread) {
+        threadStore.touchActive();
+      }
       persistState(messages);
+      if (threadList?.isOpen()) {
+        refreshThreadList(messages);
+      }
     },
     onStatusChanged(status) {
       const currentStatusConfig = config.statusIndicator ?? {};
       const getCurrentStatusText = (status: AgentWidgetSessionStatus): string => {
-        if (status === "idle") return currentStatusConfig.idleText ?? statusCopy.idle;
-        if (status === "connecting") return currentStatusConfig.connectingText ?? statusCopy.connecting;
-        if (status === "connected") return currentStatusConfig.connectedText ?? statusCopy.connected;
-        if (status === "error") return currentStatusConfig.errorText ?? statusCopy.error;
-        return statusCopy[status];
+        if (status === "idle") return currentStatusConfig.idleText ?? i18n.t("statusIdle");
+        if (status === "connecting") return currentStatusConfig.connectingText ?? i18n.t("statusConnecting");
+        if (status === "connected") return currentStatusConfig.connectedText ?? i18n.t("statusConnected");
+        if (status === "error") return currentStatusConfig.errorText ?? i18n.t("statusError");
+        return i18n.t("statusIdle");
       };
       statusText.textContent = getCurrentStatusText(status);
     },
+    requestToolApproval: (message) => approvalManager.requestToolApproval(message),
+    onQuotaChanged(quota) {
+      const announcement = quotaBanner.update(quota, config.quota, i18n);
+      if (announcement) announcer.announce(announcement);
+      setComposerDisabled(session?.isStreaming() ?? false);
+      eventBus.emit("quota:changed", quota);
+    },
+    inspector: inspectorStore?.hooks,
     onStreamingChanged(streaming) {
       isStreaming = streaming;
       setComposerDisabled(streaming);
+      updateStopButton(streaming);
+      scheduleTabSync();
       // Re-render messages to show/hide typing indicator
       if (session) {
         renderMessagesWithPlugins(messagesWrapper, session.getMessages(), postprocess);
@@ -1418,6 +2116,11 @@ export const createAgentExperience = (
     }
   });
 
+  if (storedBranches && Object.keys(storedBranches).length) {
+    session.hydrateMessages(session.getMessages(), storedBranches);
+  }
+  approvalManager.expireRestored();
+
   if (pendingStoredState) {
     pendingStoredState
       .then((state) => {
@@ -1426,9 +2129,15 @@ export const createAgentExperience = (
           persistentMetadata = ensureRecord(state.metadata);
           actionManager.syncFromMetadata();
         }
+        threadStore = createThreadStore(state, threadsConfig);
         if (state.messages?.length) {
-          session.hydrateMessages(state.messages);
+          loadingThread = true;
+          session.hydrateMessages(state.messages, state.branches);
+          approvalManager.expireRestored();
+          loadingThread = false;
         }
+        refreshThreadList();
+        void session.flushOutbox();
       })
       .catch((error) => {
         if (typeof console !== "undefined") {
@@ -1438,8 +2147,253 @@ export const createAgentExperience = (
       });
   }
 
+  function refreshThreadList(messages?: AgentWidgetMessage[]) {
+    if (!threadList) return;
+    threadList.render(
+      threadStore.list(messages ?? session.getMessages()),
+      threadStore.getActiveId()
+    );
+  }
+
+  const getThreadSnapshot = (): ThreadSnapshot => ({
+    messages: getMessagesForPersistence(),
+    branches: session.getBranches(),
+    metadata: persistentMetadata
+  });
+
+  const loadThread = (snapshot: ThreadSnapshot) => {
+    persistentMetadata = ensureRecord(snapshot.metadata);
+    actionManager.syncFromMetadata();
+    loadingThread = true;
+    session.hydrateMessages(snapshot.messages, snapshot.branches);
+    approvalManager.expireRestored();
+    loadingThread = false;
+    persistState();
+  };
+
+  const emitThreadChanged = (
+    threadId: string,
+    previousThreadId: string | null,
+    reason: AgentWidgetThreadChangedEvent["reason"]
+  ) => {
+    refreshThreadList();
+    const thread = threadStore.summarize(threadStore.getActiveId(), session.getMessages());
+    if (!thread) return;
+    eventBus.emit("thread:changed", { thread, threadId, previousThreadId, reason });
+  };
+
+  const activateThread = (
+    threadId: string,
+    reason: AgentWidgetThreadChangedEvent["reason"]
+  ): boolean => {
+    if (session.isStreaming() || !threadStore.has(threadId)) return false;
+    const previousThreadId = threadStore.getActiveId();
+    if (threadId === previousThreadId) return true;
+    const incoming = threadStore.activate(threadId, getThreadSnapshot());
+    if (!incoming) return false;
+    loadThread(incoming);
+    emitThreadChanged(threadId, previousThreadId, reason);
+    return true;
+  };
+
+  const createThread = (title?: string): AgentWidgetThread | null => {
+    if (session.isStreaming()) return null;
+    const thread = threadStore.create(title);
+    if (!activateThread(thread.id, "created")) return null;
+    return threadStore.summarize(thread.id, session.getMessages());
+  };
+
+  const renameThread = (threadId: string, title: string): boolean => {
+    if (!threadStore.rename(threadId, title)) return false;
+    persistState();
+    emitThreadChanged(threadId, threadStore.getActiveId(), "renamed");
+    return true;
+  };
+
+  const deleteThread = (threadId: string): boolean => {
+    if (!threadStore.has(threadId)) return false;
+    const previousThreadId = threadStore.getActiveId();
+    if (threadId !== previousThreadId) {
+      threadStore.remove(threadId);
+      persistState();
+      emitThreadChanged(threadId, previousThreadId, "deleted");
+      return true;
+    }
+    if (session.isStreaming()) return false;
+    threadStore.remove(threadId);
+    const nextThreadId = threadStore.getMostRecentId() ?? threadStore.create().id;
+    const incoming = threadStore.activate(nextThreadId);
+    if (!incoming) return false;
+    loadThread(incoming);
+    emitThreadChanged(threadId, previousThreadId, "deleted");
+    return true;
+  };
+
+  if (threadsConfig.enabled) {
+    threadList = createThreadList(
+      { panelTitle: threadsConfig.panelTitle, i18n },
+      {
+        onOpen: () => refreshThreadList(),
+        onSelect: (threadId) => {
+          if (activateThread(threadId, "switched")) {
+            threadList?.setOpen(false);
+          }
+        },
+        onCreate: () => {
+          if (createThread()) {
+            threadList?.setOpen(false);
+            textarea.focus();
+          }
+        },
+        onRename: (threadId, title) => {
+          renameThread(threadId, title);
+        },
+        onDelete: (threadId) => {
+          deleteThread(threadId);
+        }
+      }
+    );
+
+    // Place the conversations button with the other header actions
+    const { clearChatButtonWrapper, closeButtonWrapper } = panelElements;
+    const toggleWrapper = createElement("div", "tvw-relative tvw-thread-list-toggle");
+    toggleWrapper.appendChild(threadList.toggleButton);
+    if (clearChatButtonWrapper && clearChatButtonWrapper.parentElement === header) {
+      header.insertBefore(toggleWrapper, clearChatButtonWrapper.nextSibling);
+    } else if (closeButtonWrapper.parentElement === header) {
+      if (closeButtonWrapper.classList.contains("tvw-ml-auto")) {
+        toggleWrapper.classList.add("tvw-ml-auto");
+        closeButtonWrapper.classList.remove("tvw-ml-auto");
+      }
+      header.insertBefore(toggleWrapper, closeButtonWrapper);
+    } else {
+      if (!hasLeadingHeaderActions) {
+        toggleWrapper.classList.add("tvw-ml-auto");
+      }
+      header.appendChild(toggleWrapper);
+    }
+
+    container.style.position = "relative";
+    container.appendChild(threadList.panel);
+    refreshThreadList();
+  }
+
+  let inspectorPanel: InspectorPanel | null = null;
+  if (inspectorStore) {
+    inspectorPanel = createInspectorPanel(inspectorStore, {
+      getMetadata: () => ({ ...persistentMetadata }),
+      getExportData: () => ({ messages: session.getMessages() })
+    });
+    const { closeButtonWrapper } = panelElements;
+    const toggleWrapper = createElement("div", "tvw-relative tvw-inspector-toggle");
+    toggleWrapper.appendChild(inspectorPanel.toggleButton);
+    if (closeButtonWrapper.parentElement === header) {
+      if (closeButtonWrapper.classList.contains("tvw-ml-auto")) {
+        toggleWrapper.classList.add("tvw-ml-auto");
+        closeButtonWrapper.classList.remove("tvw-ml-auto");
+      }
+      header.insertBefore(toggleWrapper, closeButtonWrapper);
+    } else {
+      if (!hasLeadingHeaderActions) {
+        toggleWrapper.classList.add("tvw-ml-auto");
+      }
+      header.appendChild(toggleWrapper);
+    }
+    container.style.position = "relative";
+    container.appendChild(inspectorPanel.panel);
+    const panel = inspectorPanel;
+    destroyCallbacks.push(() => panel.destroy());
+  }
+
+  let searchButton = panelElements.searchButton;
+  const setSearchOpen = (open: boolean) => {
+    if (!searchBar) return;
+    searchBar.setOpen(open);
+    searchButton?.setAttribute("aria-expanded", String(open));
+    if (!open) {
+      runSearch("");
+      searchButton?.focus();
+    }
+  };
+  const bindSearchButton = (button: HTMLButtonElement | null) => {
+    button?.addEventListener("click", () => setSearchOpen(!searchBar?.isOpen()));
+  };
+
+  if (isSearchEnabled(config)) {
+    const searchOptions = typeof config.search === "object" ? config.search : {};
+    searchBar = createSearchBar(
+      { placeholder: searchOptions.placeholder, i18n },
+      {
+        onQuery: (query) => runSearch(query),
+        onStep: (direction) => stepSearch(direction),
+        onClose: () => setSearchOpen(false)
+      }
+    );
+    header.insertAdjacentElement("afterend", searchBar.element);
+    bindSearchButton(searchButton);
+  }
+
+  const transcriptExportOptions =
+    typeof config.transcriptExport === "object" ? config.transcriptExport : {};
+  const buildTranscript = (format: AgentWidgetTranscriptFormat) =>
+    exportTranscript(session.getMessages(), format, {
+      title: config.launcher?.title ?? i18n.t("launcherTitle"),
+      i18n,
+      branches: session.getBranches(),
+      // HTML exports show assistant replies the way the widget rendered them
+      renderHtml: (message) =>
+        postprocess({ text: message.content, message, streaming: false, raw: message.rawContent })
+    });
+  const saveTranscript = (format: AgentWidgetTranscriptFormat) => {
+    downloadTranscript(buildTranscript(format), format, transcriptExportOptions.filename);
+  };
+
+  let exportButton = panelElements.exportButton;
+  let exportMenu: ExportMenuElements | null = null;
+  const setExportMenuOpen = (open: boolean) => {
+    if (!exportMenu) return;
+    exportMenu.setOpen(open);
+    exportButton?.setAttribute("aria-expanded", String(open));
+  };
+  const bindExportButton = (button: HTMLButtonElement | null) => {
+    if (!button || !exportMenu) return;
+    button.parentElement?.appendChild(exportMenu.element);
+    button.addEventListener("click", () => setExportMenuOpen(!exportMenu?.isOpen()));
+  };
+
+  if (isTranscriptExportEnabled(config)) {
+    exportMenu = createExportMenu(
+      { formats: transcriptExportOptions.formats ?? TRANSCRIPT_FORMATS, i18n },
+      {
+        onSelect: (format) => {
+          setExportMenuOpen(false);
+          saveTranscript(format);
+        },
+        onClose: () => {
+          setExportMenuOpen(false);
+          exportButton?.focus();
+        }
+      }
+    );
+    bindExportButton(exportButton);
+
+    // Clicking anywhere else closes the menu
+    const handleOutsidePointer = (event: PointerEvent) => {
+      const menuWrapper = exportMenu?.element.parentElement;
+      if (exportMenu?.isOpen() && menuWrapper && !event.composedPath().includes(menuWrapper)) {
+        setExportMenuOpen(false);
+      }
+    };
+    document.addEventListener("pointerdown", handleOutsidePointer);
+    destroyCallbacks.push(() => document.removeEventListener("pointerdown", handleOutsidePointer));
+  }
+
   const handleSubmit = (event: Event) => {
     event.preventDefault();
+    // Another tab is streaming a response into this conversation
+    if (remoteStreaming) return;
+    // Sending is blocked until the message limit resets
+    if (session.isQuotaExhausted()) return;
     const value = textarea.value.trim();
     const hasAttachments = attachmentManager?.hasAttachments() ?? false;
 
@@ -1470,6 +2424,11 @@ export const createAgentExperience = (
     }
   };
 
+  const handleStop = (event: Event) => {
+    event.preventDefault();
+    session.stop();
+  };
+
   const handleInputEnter = (event: KeyboardEvent) => {
     if (event.key === "Enter" && !event.shiftKey) {
       event.preventDefault();
@@ -1611,7 +2570,7 @@ export const createAgentExperience = (
           micButton.style.borderColor = recordingBorderColor;
         }
         
-        micButton.setAttribute("aria-label", "Stop voice recognition");
+        micButton.setAttribute("aria-label", i18n.t("voiceStopTooltip"));
       }
     } catch (error) {
       stopVoiceRecognition("system");
@@ -1660,7 +2619,10 @@ export const createAgentExperience = (
         originalMicStyles = null;
       }
       
-      micButton.setAttribute("aria-label", "Start voice recognition");
+      micButton.setAttribute(
+        "aria-label",
+        config.voiceRecognition?.tooltipText ?? i18n.t("voiceTooltip")
+      );
     }
   };
 
@@ -1680,7 +2642,7 @@ export const createAgentExperience = (
     ) as HTMLButtonElement;
     
     micButton.type = "button";
-    micButton.setAttribute("aria-label", "Start voice recognition");
+    micButton.setAttribute("aria-label", voiceConfig?.tooltipText ?? i18n.t("voiceTooltip"));
     
     const micIconName = voiceConfig?.iconName ?? "mic";
     const buttonSize = sendButtonConfig?.size ?? "40px";
@@ -1746,7 +2708,7 @@ export const createAgentExperience = (
     micButtonWrapper.appendChild(micButton);
     
     // Add tooltip if enabled
-    const tooltipText = voiceConfig?.tooltipText ?? "Start voice recognition";
+    const tooltipText = voiceConfig?.tooltipText ?? i18n.t("voiceTooltip");
     const showTooltip = voiceConfig?.showTooltip ?? false;
     if (showTooltip && tooltipText) {
       const tooltip = createElement("div", "tvw-send-button-tooltip");
@@ -1842,6 +2804,7 @@ export const createAgentExperience = (
   suggestionsManager.render(config.suggestionChips, session, textarea, undefined, config.suggestionChipsConfig);
   updateCopy();
   setComposerDisabled(session.isStreaming());
+  updateStopButton(session.isStreaming());
   scheduleAutoScroll(true);
   maybeRestoreVoiceFromMetadata();
 
@@ -1879,6 +2842,16 @@ export const createAgentExperience = (
   window.addEventListener("resize", recalcPanelHeight);
   destroyCallbacks.push(() => window.removeEventListener("resize", recalcPanelHeight));
 
+  // Send messages queued in the outbox once the connection returns
+  const handleOnline = () => {
+    void session.flushOutbox();
+  };
+  window.addEventListener("online", handleOnline);
+  destroyCallbacks.push(() => window.removeEventListener("online", handleOnline));
+  if (session.hasQueuedMessages()) {
+    handleOnline();
+  }
+
   lastScrollTop = body.scrollTop;
 
   const handleScroll = () => {
@@ -1907,6 +2880,33 @@ export const createAgentExperience = (
 
   body.addEventListener("scroll", handleScroll, { passive: true });
   destroyCallbacks.push(() => body.removeEventListener("scroll", handleScroll));
+
+  // Re-window long conversations once scrolling moves past the rendered range
+  let virtualScrollRAF: number | null = null;
+  const handleVirtualScroll = () => {
+    virtualScrollTop = body.scrollTop;
+    if (!virtualWindow || virtualScrollRAF !== null) return;
+    virtualScrollRAF = requestAnimationFrame(() => {
+      virtualScrollRAF = null;
+      const messages = session.getMessages();
+      const next = getVirtualWindow(messages.filter(isMessageShown).map((message) => message.id));
+      if (next?.start !== virtualWindow?.start || next?.end !== virtualWindow?.end) {
+        renderMessagesWithPlugins(messagesWrapper, messages, postprocess, { preserveScroll: true });
+      }
+    });
+  };
+  if (virtualizer) {
+    const handleVirtualResize = () => {
+      virtualLayout = null;
+    };
+    body.addEventListener("scroll", handleVirtualScroll, { passive: true });
+    window.addEventListener("resize", handleVirtualResize);
+    destroyCallbacks.push(() => {
+      body.removeEventListener("scroll", handleVirtualScroll);
+      window.removeEventListener("resize", handleVirtualResize);
+      if (virtualScrollRAF !== null) cancelAnimationFrame(virtualScrollRAF);
+    });
+  }
   destroyCallbacks.push(() => {
     if (scrollRAF) cancelAnimationFrame(scrollRAF);
   });
@@ -1938,6 +2938,7 @@ export const createAgentExperience = (
     clearChatButton.addEventListener("click", () => {
       // Clear messages in session (this will trigger onMessagesChanged which re-renders)
       session.clearMessages();
+      approvalManager.reset();
 
       // Always clear the default localStorage key
       try {
@@ -1967,7 +2968,9 @@ export const createAgentExperience = (
       });
       window.dispatchEvent(clearEvent);
 
-      if (storageAdapter?.clear) {
+      // Other threads stay stored; only the active thread is cleared
+      const hasOtherThreads = threadStore.count() > 1;
+      if (!hasOtherThreads && storageAdapter?.clear) {
         try {
           const result = storageAdapter.clear();
           if (result instanceof Promise) {
@@ -1987,6 +2990,9 @@ export const createAgentExperience = (
       }
       persistentMetadata = {};
       actionManager.syncFromMetadata();
+      if (hasOtherThreads) {
+        persistState();
+      }
     });
   };
 
@@ -1994,14 +3000,19 @@ export const createAgentExperience = (
 
   composerForm.addEventListener("submit", handleSubmit);
   textarea.addEventListener("keydown", handleInputEnter);
+  stopButton.addEventListener("click", handleStop);
 
   destroyCallbacks.push(() => {
     composerForm.removeEventListener("submit", handleSubmit);
     textarea.removeEventListener("keydown", handleInputEnter);
+    stopButton.removeEventListener("click", handleStop);
   });
 
   destroyCallbacks.push(() => {
     session.cancel();
+    session.disconnect();
+    // Sinks may hold queued events and page listeners (e.g. createBeaconSink)
+    config.telemetry?.sinks?.forEach((sink) => sink.dispose?.());
   });
 
   if (launcherButtonInstance) {
@@ -2019,6 +3030,14 @@ export const createAgentExperience = (
       const previousToolCallConfig = config.toolCall;
       const previousColorScheme = config.colorScheme;
       config = { ...config, ...nextConfig };
+      if ("locale" in nextConfig || "messages" in nextConfig || "direction" in nextConfig) {
+        // Swap default texts to the new language, keeping customized ones
+        const nextI18n = createTranslator(config);
+        config = relocalizeConfig(config, i18n, nextI18n);
+        i18n = nextI18n;
+        applyLocaleAttributes();
+        messagesWrapper.setAttribute("aria-label", i18n.t("messagesLabel"));
+      }
       // applyFullHeightStyles resets mount.style.cssText, so call it before applyThemeVariables
       applyFullHeightStyles();
       applyThemeVariables(mount, config);
@@ -2082,6 +3101,7 @@ export const createAgentExperience = (
       if (headerSubtitle && config.launcher?.subtitle !== undefined) {
         headerSubtitle.textContent = config.launcher.subtitle;
       }
+      updateDialogSemantics();
 
       // Update header layout if it changed
       const headerLayoutConfig = config.layout?.header;
@@ -2109,6 +3129,10 @@ export const createAgentExperience = (
         headerTitle = newHeaderElements.headerTitle;
         headerSubtitle = newHeaderElements.headerSubtitle;
         closeButton = newHeaderElements.closeButton;
+        searchButton = newHeaderElements.searchButton;
+        bindSearchButton(searchButton);
+        exportButton = newHeaderElements.exportButton;
+        bindExportButton(exportButton);
 
         prevHeaderLayout = headerLayoutConfig?.layout;
       } else if (headerLayoutConfig) {
@@ -2133,7 +3157,7 @@ export const createAgentExperience = (
             // When clear chat is hidden, close button needs ml-auto to stay right-aligned
             const { closeButtonWrapper } = panelElements;
             if (closeButtonWrapper && !closeButtonWrapper.classList.contains("tvw-absolute")) {
-              if (showClearChat) {
+              if (showClearChat || hasLeadingHeaderActions) {
                 closeButtonWrapper.classList.remove("tvw-ml-auto");
               } else {
                 closeButtonWrapper.classList.add("tvw-ml-auto");
@@ -2314,7 +3338,10 @@ export const createAgentExperience = (
             // Check if clear chat is inline to determine if we need ml-auto
             const clearChatPlacement = launcher.clearChat?.placement ?? "inline";
             const clearChatEnabled = launcher.clearChat?.enabled ?? true;
-            closeButtonWrapper.className = (clearChatEnabled && clearChatPlacement === "inline") ? "" : "tvw-ml-auto";
+            closeButtonWrapper.className =
+              hasLeadingHeaderActions || (clearChatEnabled && clearChatPlacement === "inline")
+                ? ""
+                : "tvw-ml-auto";
             // Find header element
             const header = container.querySelector(".tvw-border-b-cw-divider");
             if (header) {
@@ -2389,7 +3416,7 @@ export const createAgentExperience = (
         }
 
         // Update tooltip
-        const closeButtonTooltipText = launcher.closeButtonTooltipText ?? "Close chat";
+        const closeButtonTooltipText = launcher.closeButtonTooltipText ?? i18n.t("closeButtonTooltip");
         const closeButtonShowTooltip = launcher.closeButtonShowTooltip ?? true;
 
         closeButton.setAttribute("aria-label", closeButtonTooltipText);
@@ -2479,7 +3506,7 @@ export const createAgentExperience = (
           // When clear chat is hidden, close button needs ml-auto to stay right-aligned
           const { closeButtonWrapper } = panelElements;
           if (closeButtonWrapper && !closeButtonWrapper.classList.contains("tvw-absolute")) {
-            if (shouldShowClearChat) {
+            if (shouldShowClearChat || hasLeadingHeaderActions) {
               closeButtonWrapper.classList.remove("tvw-ml-auto");
             } else {
               closeButtonWrapper.classList.add("tvw-ml-auto");
@@ -2503,7 +3530,9 @@ export const createAgentExperience = (
               container.style.position = "relative";
               container.appendChild(clearChatButtonWrapper);
             } else {
-              clearChatButtonWrapper.className = "tvw-relative tvw-ml-auto tvw-clear-chat-button-wrapper";
+              clearChatButtonWrapper.className = hasLeadingHeaderActions
+                ? "tvw-relative tvw-clear-chat-button-wrapper"
+                : "tvw-relative tvw-ml-auto tvw-clear-chat-button-wrapper";
               // Clear the inline right style when switching back to inline mode
               clearChatButtonWrapper.style.right = "";
               // Find header and insert before close button
@@ -2519,7 +3548,7 @@ export const createAgentExperience = (
             // Also update close button's ml-auto class based on clear chat position
             const closeButtonWrapperEl = panelElements.closeButtonWrapper;
             if (closeButtonWrapperEl && !closeButtonWrapperEl.classList.contains("tvw-absolute")) {
-              if (isTopRight) {
+              if (isTopRight && !hasLeadingHeaderActions) {
                 // Clear chat moved to top-right, close needs ml-auto
                 closeButtonWrapperEl.classList.add("tvw-ml-auto");
               } else {
@@ -2601,7 +3630,7 @@ export const createAgentExperience = (
             clearChatButton.style.paddingBottom = "";
           }
 
-          const clearChatTooltipText = clearChatConfig.tooltipText ?? "Clear chat";
+          const clearChatTooltipText = clearChatConfig.tooltipText ?? i18n.t("clearChatTooltip");
           const clearChatShowTooltip = clearChatConfig.showTooltip ?? true;
 
           clearChatButton.setAttribute("aria-label", clearChatTooltipText);
@@ -2687,7 +3716,8 @@ export const createAgentExperience = (
         getSessionMetadata,
         updateSessionMetadata,
         emit: eventBus.emit,
-        documentRef: typeof document !== "undefined" ? document : null
+        documentRef: typeof document !== "undefined" ? document : null,
+        requestApproval: requestActionApproval
       });
 
       postprocess = buildPostprocessor(config, actionManager);
@@ -2700,6 +3730,8 @@ export const createAgentExperience = (
       suggestionsManager.render(config.suggestionChips, session, textarea, undefined, config.suggestionChipsConfig);
       updateCopy();
       setComposerDisabled(session.isStreaming());
+      updateStopButton(session.isStreaming());
+      quotaBanner.update(session.getQuota(), config.quota, i18n);
       
       // Update voice recognition mic button visibility
       const voiceRecognitionEnabled = config.voiceRecognition?.enabled === true;
@@ -2803,7 +3835,7 @@ export const createAgentExperience = (
           
           // Update tooltip
           const tooltip = micButtonWrapper?.querySelector(".tvw-send-button-tooltip") as HTMLElement | null;
-          const tooltipText = voiceConfig.tooltipText ?? "Start voice recognition";
+          const tooltipText = voiceConfig.tooltipText ?? i18n.t("voiceTooltip");
           const showTooltip = voiceConfig.showTooltip ?? false;
           if (showTooltip && tooltipText) {
             if (!tooltip) {
@@ -2873,7 +3905,7 @@ export const createAgentExperience = (
             "tvw-rounded-button tvw-flex tvw-items-center tvw-justify-center disabled:tvw-opacity-50 tvw-cursor-pointer tvw-attachment-button"
           ) as HTMLButtonElement;
           attachmentButton.type = "button";
-          attachmentButton.setAttribute("aria-label", attachmentsConfig.buttonTooltipText ?? "Attach file");
+          attachmentButton.setAttribute("aria-label", attachmentsConfig.buttonTooltipText ?? i18n.t("attachTooltip"));
 
           // Default to paperclip icon
           const attachIconName = attachmentsConfig.buttonIconName ?? "paperclip";
@@ -2917,7 +3949,7 @@ export const createAgentExperience = (
           attachmentButtonWrapper.appendChild(attachmentButton);
 
           // Add tooltip
-          const attachTooltipText = attachmentsConfig.buttonTooltipText ?? "Attach file";
+          const attachTooltipText = attachmentsConfig.buttonTooltipText ?? i18n.t("attachTooltip");
           const tooltip = createElement("div", "tvw-send-button-tooltip");
           tooltip.textContent = attachTooltipText;
           attachmentButtonWrapper.appendChild(tooltip);
@@ -2973,7 +4005,7 @@ export const createAgentExperience = (
       const useIcon = sendButtonConfig.useIcon ?? false;
       const iconText = sendButtonConfig.iconText ?? "↑";
       const iconName = sendButtonConfig.iconName;
-      const tooltipText = sendButtonConfig.tooltipText ?? "Send message";
+      const tooltipText = sendButtonConfig.tooltipText ?? i18n.t("sendButtonTooltip");
       const showTooltip = sendButtonConfig.showTooltip ?? false;
       const buttonSize = sendButtonConfig.size ?? "40px";
       const backgroundColor = sendButtonConfig.backgroundColor;
@@ -2981,7 +4013,8 @@ export const createAgentExperience = (
 
       // Update button content and styling based on mode
       if (useIcon) {
-        // Icon mode: circular button
+        // Icon mode: circular button, named by its tooltip text
+        sendButton.setAttribute("aria-label", tooltipText);
         sendButton.style.width = buttonSize;
         sendButton.style.height = buttonSize;
         sendButton.style.minWidth = buttonSize;
@@ -3029,7 +4062,8 @@ export const createAgentExperience = (
         }
       } else {
         // Text mode: existing behavior
-        sendButton.textContent = config.copy?.sendButtonLabel ?? "Send";
+        sendButton.removeAttribute("aria-label");
+        sendButton.textContent = config.copy?.sendButtonLabel ?? i18n.t("sendButtonLabel");
         sendButton.style.width = "";
         sendButton.style.height = "";
         sendButton.style.minWidth = "";
@@ -3110,11 +4144,11 @@ export const createAgentExperience = (
       if (session) {
         const currentStatus = session.getStatus();
         const getCurrentStatusText = (status: AgentWidgetSessionStatus): string => {
-          if (status === "idle") return statusIndicatorConfig.idleText ?? statusCopy.idle;
-          if (status === "connecting") return statusIndicatorConfig.connectingText ?? statusCopy.connecting;
-          if (status === "connected") return statusIndicatorConfig.connectedText ?? statusCopy.connected;
-          if (status === "error") return statusIndicatorConfig.errorText ?? statusCopy.error;
-          return statusCopy[status];
+          if (status === "idle") return statusIndicatorConfig.idleText ?? i18n.t("statusIdle");
+          if (status === "connecting") return statusIndicatorConfig.connectingText ?? i18n.t("statusConnecting");
+          if (status === "connected") return statusIndicatorConfig.connectedText ?? i18n.t("statusConnected");
+          if (status === "error") return statusIndicatorConfig.errorText ?? i18n.t("statusError");
+          return i18n.t("statusIdle");
         };
         statusText.textContent = getCurrentStatusText(currentStatus);
       }
@@ -3134,6 +4168,7 @@ export const createAgentExperience = (
     clearChat() {
       // Clear messages in session (this will trigger onMessagesChanged which re-renders)
       session.clearMessages();
+      approvalManager.reset();
 
       // Always clear the default localStorage key
       try {
@@ -3163,7 +4198,9 @@ export const createAgentExperience = (
       });
       window.dispatchEvent(clearEvent);
 
-      if (storageAdapter?.clear) {
+      // Other threads stay stored; only the active thread is cleared
+      const hasOtherThreads = threadStore.count() > 1;
+      if (!hasOtherThreads && storageAdapter?.clear) {
         try {
           const result = storageAdapter.clear();
           if (result instanceof Promise) {
@@ -3183,6 +4220,9 @@ export const createAgentExperience = (
       }
       persistentMetadata = {};
       actionManager.syncFromMetadata();
+      if (hasOtherThreads) {
+        persistState();
+      }
     },
     setMessage(message: string): boolean {
       if (!textarea) return false;
@@ -3199,7 +4239,7 @@ export const createAgentExperience = (
       return true;
     },
     submitMessage(message?: string): boolean {
-      if (session.isStreaming()) return false;
+      if (session.isStreaming() || remoteStreaming || session.isQuotaExhausted()) return false;
       
       const valueToSubmit = message?.trim() || textarea.value.trim();
       if (!valueToSubmit) return false;
@@ -3214,6 +4254,53 @@ export const createAgentExperience = (
       session.sendMessage(valueToSubmit);
       return true;
     },
+    stop(): boolean {
+      return session.stop();
+    },
+    retryMessage(messageId: string): boolean {
+      if (session.isStreaming() || remoteStreaming) return false;
+      const target = session.getMessages().find((message) => message.id === messageId);
+      if (target?.deliveryStatus !== "failed") return false;
+      void session.retryMessage(messageId);
+      return true;
+    },
+    editMessage(messageId: string, content: string): boolean {
+      if (session.isStreaming() || remoteStreaming || !content.trim()) return false;
+      const target = session.getMessages().find((message) => message.id === messageId);
+      if (!target || target.role !== "user") return false;
+      session.editMessage(messageId, content);
+      return true;
+    },
+    regenerate(assistantMessageId: string): boolean {
+      if (session.isStreaming() || remoteStreaming) return false;
+      const target = session
+        .getMessages()
+        .find((message) => message.id === assistantMessageId);
+      if (!target || target.role !== "assistant") return false;
+      session.regenerate(assistantMessageId);
+      return true;
+    },
+    switchBranch(parentId: string, index: number) {
+      session.switchBranch(parentId, index);
+    },
+    listThreads() {
+      return threadStore.list(session.getMessages());
+    },
+    getActiveThreadId() {
+      return threadStore.getActiveId();
+    },
+    createThread(options?: { title?: string }) {
+      return createThread(options?.title);
+    },
+    switchThread(threadId: string): boolean {
+      return activateThread(threadId, "switched");
+    },
+    renameThread(threadId: string, title: string): boolean {
+      return renameThread(threadId, title);
+    },
+    deleteThread(threadId: string): boolean {
+      return deleteThread(threadId);
+    },
     startVoiceRecognition(): boolean {
       if (isRecording || session.isStreaming()) return false;
       
@@ -3251,6 +4338,44 @@ export const createAgentExperience = (
     getStatus() {
       return session.getStatus();
     },
+    getQuota() {
+      return session.getQuota();
+    },
+    toggleInspector(nextOpen?: boolean) {
+      if (!inspectorPanel) return false;
+      inspectorPanel.setOpen(nextOpen ?? !inspectorPanel.isOpen());
+      return true;
+    },
+    search(query: string) {
+      if (searchBar) {
+        searchBar.input.value = query;
+        if (query.trim() && !searchBar.isOpen()) {
+          searchBar.setOpen(true);
+          searchButton?.setAttribute("aria-expanded", "true");
+        }
+      }
+      return runSearch(query);
+    },
+    exportTranscript(format: AgentWidgetTranscriptFormat = "markdown") {
+      return buildTranscript(format);
+    },
+    downloadTranscript(format: AgentWidgetTranscriptFormat = "markdown") {
+      saveTranscript(format);
+    },
+    importTranscript(transcript: string | AgentWidgetTranscript) {
+      if (session.isStreaming()) return false;
+      try {
+        const { messages, branches } = parseTranscript(transcript);
+        session.hydrateMessages(messages, branches);
+        return true;
+      } catch (error) {
+        if (typeof console !== "undefined") {
+          // eslint-disable-next-line no-console
+          console.error("[AgentWidget] Failed to import transcript:", error);
+        }
+        return false;
+      }
+    },
     getPersistentMetadata() {
       return { ...persistentMetadata };
     },
@@ -3294,14 +4419,16 @@ export const createAgentExperience = (
       }
       
       const feedbackEl = createCSATFeedback({
+        i18n,
+        ...options,
         onSubmit: async (rating, comment) => {
+          telemetry.track({ name: "feedback", type: "csat", rating });
           if (session.isClientTokenMode()) {
             await session.submitCSATFeedback(rating, comment);
           }
           options?.onSubmit?.(rating, comment);
         },
         onDismiss: options?.onDismiss,
-        ...options,
       });
       
       // Append to messages area at the bottom
@@ -3321,14 +4448,16 @@ export const createAgentExperience = (
       }
       
       const feedbackEl = createNPSFeedback({
+        i18n,
+        ...options,
         onSubmit: async (rating, comment) => {
+          telemetry.track({ name: "feedback", type: "nps", rating });
           if (session.isClientTokenMode()) {
             await session.submitNPSFeedback(rating, comment);
           }
           options?.onSubmit?.(rating, comment);
         },
         onDismiss: options?.onDismiss,
-        ...options,
       });
       
       // Append to messages area at the bottom
@@ -3364,6 +4493,12 @@ export const createAgentExperience = (
       getMetadata: controller.getPersistentMetadata,
       updateMetadata: controller.updatePersistentMetadata,
       clearHistory: () => controller.clearChat(),
+      toggleInspector: controller.toggleInspector,
+      exportInspector: () =>
+        inspectorStore?.toJSON({
+          metadata: controller.getPersistentMetadata(),
+          messages: controller.getMessages()
+        }) ?? null,
       setVoiceActive: (active: boolean) =>
         active
           ? controller.startVoiceRecognition()
@@ -3377,6 +4512,146 @@ export const createAgentExperience = (
     });
   }
 
+  // ============================================================================
+  // CROSS-TAB SYNC
+  // ============================================================================
+  const applyRemoteState = (message: Extract<TabSyncMessage, { type: "state" }>) => {
+    // The tab that is streaming owns the conversation until the response ends
+    if (session.isStreaming()) return;
+    const { state } = message;
+    applyingRemoteState = true;
+    loadingThread = true;
+    try {
+      persistentMetadata = ensureRecord(state.metadata);
+      actionManager.syncFromMetadata();
+      threadStore = createThreadStore(state, threadsConfig);
+      remoteStreaming = message.streaming;
+      watchRemoteStreaming();
+      session.applyRemoteMessages(state.messages ?? [], state.branches);
+      setComposerDisabled(remoteStreaming);
+      refreshThreadList();
+    } finally {
+      loadingThread = false;
+      applyingRemoteState = false;
+    }
+  };
+
+  const applyRemoteMessageUpdates = (message: Extract<TabSyncMessage, { type: "messages" }>) => {
+    if (session.isStreaming()) return;
+    const updates = new Map(message.messages.map((msg) => [msg.id, msg]));
+    const merged = session.getMessages().map((msg) => {
+      const update = updates.get(msg.id);
+      updates.delete(msg.id);
+      return update ?? msg;
+    });
+    applyingRemoteState = true;
+    try {
+      remoteStreaming = message.streaming;
+      watchRemoteStreaming();
+      session.applyRemoteMessages([...merged, ...updates.values()], session.getBranches());
+      setComposerDisabled(remoteStreaming);
+    } finally {
+      applyingRemoteState = false;
+    }
+  };
+
+  // The streaming tab went away (closed or stopped responding); settle the partial response
+  const settleRemoteStreaming = () => {
+    if (remoteStreamingTimer) {
+      clearTimeout(remoteStreamingTimer);
+      remoteStreamingTimer = null;
+    }
+    if (!remoteStreaming) return;
+    remoteStreaming = false;
+    applyingRemoteState = true;
+    try {
+      session.applyRemoteMessages(
+        stripStreamingFromMessages(session.getMessages()),
+        session.getBranches()
+      );
+    } finally {
+      applyingRemoteState = false;
+    }
+    setComposerDisabled(session.isStreaming());
+  };
+
+  // Restart the expiry countdown while another tab streams; a crashed tab never sends "closed"
+  const watchRemoteStreaming = () => {
+    if (remoteStreamingTimer) {
+      clearTimeout(remoteStreamingTimer);
+      remoteStreamingTimer = null;
+    }
+    if (remoteStreaming) {
+      remoteStreamingTimer = setTimeout(settleRemoteStreaming, TAB_SYNC_STREAM_TIMEOUT_MS);
+    }
+  };
+
+  const handleTabSyncMessage = (message: TabSyncMessage) => {
+    if (message.type === "state") {
+      applyRemoteState(message);
+    } else if (message.type === "messages") {
+      applyRemoteMessageUpdates(message);
+    } else if (message.type === "request-state") {
+      // Stored state is already current unless a response is mid-stream
+      if (session.isStreaming()) postTabSyncState(true);
+    } else if (message.type === "heartbeat") {
+      if (remoteStreaming) watchRemoteStreaming();
+    } else if (message.type === "closed") {
+      settleRemoteStreaming();
+    } else if (message.type === "open" && tabSyncConfig.openState) {
+      applyingRemoteState = true;
+      try {
+        setOpenState(message.open, "system");
+      } finally {
+        applyingRemoteState = false;
+      }
+    }
+  };
+
+  if (tabSyncConfig.enabled) {
+    tabSync = createTabSync({
+      channelName: tabSyncConfig.channel,
+      onMessage: handleTabSyncMessage
+    });
+  }
+
+  if (tabSync) {
+    const activeTabSync = tabSync;
+    if (tabSyncConfig.openState) {
+      const broadcastOpenState = (event: AgentWidgetStateEvent) => {
+        if (applyingRemoteState || event.source === "auto") return;
+        activeTabSync.post({ type: "open", open: event.open });
+      };
+      eventBus.on("widget:opened", broadcastOpenState);
+      eventBus.on("widget:closed", broadcastOpenState);
+    }
+
+    const announceClosed = () => {
+      if (session.isStreaming()) {
+        activeTabSync.post({ type: "closed" });
+      }
+    };
+    window.addEventListener("pagehide", announceClosed);
+
+    activeTabSync.post({ type: "request-state" });
+
+    destroyCallbacks.push(() => {
+      announceClosed();
+      window.removeEventListener("pagehide", announceClosed);
+      if (tabSyncTimer) {
+        clearTimeout(tabSyncTimer);
+        tabSyncTimer = null;
+      }
+      if (remoteStreamingTimer) {
+        clearTimeout(remoteStreamingTimer);
+        remoteStreamingTimer = null;
+      }
+      stopTabSyncHeartbeat();
+      activeTabSync.close();
+      tabSync = null;
+    });
+  }
+
   // ============================================================================
   // STATE PERSISTENCE ACROSS PAGE NAVIGATIONS
   // ============================================================================
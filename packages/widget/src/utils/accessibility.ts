@@ -0,0 +1,147 @@
+/**
+ * Accessibility helpers: screen reader announcements, the launcher panel's
+ * focus trap and keyboard navigation between messages.
+ */
+
+const FOCUSABLE_SELECTOR = [
+  "a[href]",
+  "button:not([disabled])",
+  "input:not([disabled]):not([type='hidden'])",
+  "select:not([disabled])",
+  "textarea:not([disabled])",
+  "[tabindex]"
+].join(",");
+
+export const MESSAGE_ITEM_SELECTOR = "[data-message-item]";
+
+export const prefersReducedMotion = () =>
+  typeof window !== "undefined" &&
+  typeof window.matchMedia === "function" &&
+  window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+
+const isHidden = (element: HTMLElement, root: HTMLElement) => {
+  for (let node: HTMLElement | null = element; node && node !== root; node = node.parentElement) {
+    if (node.hidden || node.style.display === "none" || node.hasAttribute("inert")) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Elements Tab can reach inside `root`, in DOM order
+ */
+export const getFocusableElements = (root: HTMLElement): HTMLElement[] =>
+  Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)).filter(
+    (element) => element.tabIndex >= 0 && !isHidden(element, root)
+  );
+
+/**
+ * Keep Tab and Shift+Tab inside `root`. Returns true when it moved focus.
+ */
+export const trapFocus = (event: KeyboardEvent, root: HTMLElement): boolean => {
+  if (event.key !== "Tab") return false;
+  const focusable = getFocusableElements(root);
+  if (!focusable.length) {
+    event.preventDefault();
+    return true;
+  }
+  const first = focusable[0];
+  const last = focusable[focusable.length - 1];
+  const active = root.ownerDocument.activeElement as HTMLElement | null;
+  const outside = !active || !root.contains(active);
+  if (event.shiftKey && (outside || active === first)) {
+    event.preventDefault();
+    last.focus();
+    return true;
+  }
+  if (!event.shiftKey && (outside || active === last)) {
+    event.preventDefault();
+    first.focus();
+    return true;
+  }
+  return false;
+};
+
+export type LiveAnnouncer = {
+  element: HTMLElement;
+  announce: (text: string) => void;
+};
+
+/**
+ * Visually hidden polite live region. Text is set on the next tick so
+ * repeating the same announcement is still read.
+ */
+export const createLiveAnnouncer = (): LiveAnnouncer => {
+  const element = document.createElement("div");
+  element.className = "tvw-sr-only";
+  element.setAttribute("role", "status");
+  element.setAttribute("aria-live", "polite");
+  element.setAttribute("aria-atomic", "true");
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  return {
+    element,
+    announce: (text) => {
+      element.textContent = "";
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        element.textContent = text;
+      }, 50);
+    }
+  };
+};
+
+/**
+ * Text of a rendered message for announcements, whitespace collapsed
+ */
+export const toAnnouncement = (element: HTMLElement, maxLength = 500) => {
+  const text = (element.textContent ?? "").replace(/\s+/g, " ").trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+};
+
+/**
+ * Roving tab stop over the message list: only the active message and its
+ * controls are in the Tab order, so Tab moves from the list to the composer.
+ */
+export const syncMessageTabStops = (list: HTMLElement, activeId: string | null) => {
+  const items = Array.from(list.querySelectorAll<HTMLElement>(MESSAGE_ITEM_SELECTOR));
+  const active =
+    items.find((item) => item.getAttribute("data-message-item") === activeId) ??
+    items[items.length - 1];
+  items.forEach((item) => {
+    const isActive = item === active;
+    item.tabIndex = isActive ? 0 : -1;
+    item.querySelectorAll<HTMLElement>("button, a[href]").forEach((control) => {
+      control.tabIndex = isActive ? 0 : -1;
+    });
+  });
+};
+
+/**
+ * Arrow keys, Home and End move focus between messages.
+ * Returns the id of the newly focused message, or null when the key wasn't handled.
+ */
+export const handleMessageNavigation = (event: KeyboardEvent, list: HTMLElement): string | null => {
+  const current = (event.target as HTMLElement).closest<HTMLElement>(MESSAGE_ITEM_SELECTOR);
+  if (!current || current !== event.target) return null;
+  const items = Array.from(list.querySelectorAll<HTMLElement>(MESSAGE_ITEM_SELECTOR));
+  const index = items.indexOf(current);
+  const nextIndex =
+    event.key === "ArrowDown"
+      ? Math.min(index + 1, items.length - 1)
+      : event.key === "ArrowUp"
+        ? Math.max(index - 1, 0)
+        : event.key === "Home"
+          ? 0
+          : event.key === "End"
+            ? items.length - 1
+            : null;
+  if (nextIndex === null) return null;
+  event.preventDefault();
+  const next = items[nextIndex];
+  syncMessageTabStops(list, next.getAttribute("data-message-item"));
+  next.focus();
+  return next.getAttribute("data-message-item");
+};
@@ -28,6 +28,14 @@ type ActionManagerOptions = {
     payload: AgentWidgetControllerEventMap[K]
   ) => void;
   documentRef: Document | null;
+  /**
+   * Returns a promise for actions that need the user's approval first
+   * (resolving to false when denied), or null to run the action right away
+   */
+  requestApproval?: (
+    action: AgentWidgetParsedAction,
+    message: AgentWidgetMessage
+  ) => Promise<boolean> | null;
 };
 
 const stripCodeFence = (value: string) => {
@@ -190,11 +198,28 @@ export const createActionManager = (options: ActionManagerOptions) => {
     };
     options.emit("action:detected", eventPayload);
 
+    const approval = options.requestApproval?.(action, context.message);
+    if (approval) {
+      // The handlers run once the user allows the action; show its text meanwhile
+      void approval.then((allowed) => {
+        if (allowed) runHandlers(action, context.message);
+      });
+      const pendingText = asString((action.payload as Record<string, unknown>)?.text);
+      return { text: pendingText || context.text, persist: true };
+    }
+
+    return runHandlers(action, context.message) ?? { text: "", persist: true };
+  };
+
+  const runHandlers = (
+    action: AgentWidgetParsedAction,
+    message: AgentWidgetMessage
+  ): { text: string; persist: boolean } | null => {
     for (const handler of options.handlers) {
       if (!handler) continue;
       try {
         const handlerResult = handler(action, {
-          message: context.message,
+          message,
           metadata: options.getSessionMetadata(),
           updateMetadata: options.updateSessionMetadata,
           document: options.documentRef
@@ -216,7 +241,7 @@ export const createActionManager = (options: ActionManagerOptions) => {
       }
     }
 
-    return { text: "", persist: true };
+    return null;
   };
 
   return {
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createApprovalManager } from './approvals';
+import type { AgentWidgetConfig, AgentWidgetMessage, AgentWidgetToolApproval } from '../types';
+
+const toolMessage = (id: string, name: string): AgentWidgetMessage => ({
+  id,
+  role: 'assistant',
+  content: '',
+  createdAt: new Date().toISOString(),
+  variant: 'tool',
+  toolCall: { id: `call_${id}`, name, status: 'running', args: { orderId: 7 } }
+});
+
+const setup = (config: AgentWidgetConfig, messages: AgentWidgetMessage[]) => {
+  let metadata: Record<string, unknown> = {};
+  const session = {
+    getMessages: () => messages,
+    upsertToolMessage: (message: AgentWidgetMessage) => {
+      messages.push(message);
+    },
+    setToolApproval: (messageId: string, approval: AgentWidgetToolApproval) => {
+      const index = messages.findIndex((m) => m.id === messageId);
+      messages[index] = {
+        ...messages[index],
+        toolCall: { ...messages[index].toolCall!, approval }
+      };
+      return messages[index];
+    }
+  };
+  const emit = vi.fn();
+  const manager = createApprovalManager({
+    getConfig: () => config,
+    getSession: () => session,
+    getSessionMetadata: () => metadata,
+    updateSessionMetadata: (updater) => {
+      metadata = updater(metadata);
+    },
+    emit
+  });
+  return { manager, emit, getMetadata: () => metadata };
+};
+
+describe('createApprovalManager', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should wait for the user and remember "Always allow" for the session', async () => {
+    const messages = [toolMessage('t1', 'delete_order'), toolMessage('t2', 'delete_order')];
+    const { manager, emit, getMetadata } = setup(
+      { approval: { tools: ['delete_order'] }, tools: [{ name: 'delete_order', handler: () => null }] },
+      messages
+    );
+
+    const first = manager.requestToolApproval(messages[0]);
+    expect(messages[0].toolCall?.approval?.status).toBe('pending');
+    expect(emit).toHaveBeenCalledWith('approval:requested', expect.objectContaining({ kind: 'tool' }));
+
+    manager.decide('t1', 'always');
+    expect(await first).toBe(true);
+    expect(getMetadata().alwaysAllowedTools).toEqual(['delete_order']);
+
+    expect(await manager.requestToolApproval(messages[1])).toBe(true);
+    expect(messages[1].toolCall?.approval).toMatchObject({ status: 'approved', remembered: true });
+    expect(await manager.requestToolApproval(toolMessage('t3', 'lookup'))).toBe(true);
+  });
+
+  it('should post decisions on server tool calls to the approval endpoint', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+    vi.stubGlobal('fetch', fetchMock);
+    const onDecision = vi.fn();
+    const messages = [toolMessage('t1', 'refund')];
+    const { manager } = setup(
+      { approval: { tools: ['refund'], url: '/api/chat/approvals', onDecision } },
+      messages
+    );
+
+    manager.scan(messages);
+    await Promise.resolve();
+    expect(messages[0].toolCall?.approval?.status).toBe('pending');
+
+    manager.decide('t1', 'deny');
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    expect(messages[0].toolCall?.approval?.status).toBe('denied');
+    expect(fetchMock.mock.calls[0][0]).toBe('/api/chat/approvals');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      toolCallId: 'call_t1',
+      toolName: 'refund',
+      args: { orderId: 7 },
+      decision: 'deny',
+      always: false
+    });
+    expect(onDecision).toHaveBeenCalledWith(expect.objectContaining({ decision: 'deny', kind: 'tool' }));
+  });
+
+  it('should not show a card for server tool calls without an approval endpoint', async () => {
+    const messages = [toolMessage('t1', 'refund')];
+    const { manager, emit } = setup({ approval: { tools: ['refund'] } }, messages);
+
+    manager.scan(messages);
+    await Promise.resolve();
+
+    expect(messages[0].toolCall?.approval).toBeUndefined();
+    expect(emit).not.toHaveBeenCalled();
+  });
+
+  it('should expire restored cards for actions and browser tools but keep server tools pending', () => {
+    const pending = (message: AgentWidgetMessage): AgentWidgetMessage => ({
+      ...message,
+      toolCall: { ...message.toolCall!, approval: { status: 'pending' } }
+    });
+    const messages = [
+      pending(toolMessage('t1', 'delete_order')),
+      pending(toolMessage('action-m1', 'checkout')),
+      pending(toolMessage('t2', 'refund'))
+    ];
+    const { manager, emit } = setup(
+      {
+        approval: { tools: ['delete_order', 'refund'], url: '/api/chat/approvals' },
+        tools: [{ name: 'delete_order', handler: () => null }]
+      },
+      messages
+    );
+
+    manager.expireRestored();
+
+    expect(messages.map((m) => m.toolCall?.approval?.status)).toEqual(['expired', 'expired', 'pending']);
+    expect(emit).not.toHaveBeenCalled();
+  });
+
+  it('should expire a restored browser tool card instead of approving it', () => {
+    const messages: AgentWidgetMessage[] = [
+      { ...toolMessage('t1', 'delete_order'), toolCall: { ...toolMessage('t1', 'delete_order').toolCall!, approval: { status: 'pending' } } }
+    ];
+    const { manager, emit } = setup(
+      { approval: { tools: ['delete_order'] }, tools: [{ name: 'delete_order', handler: () => null }] },
+      messages
+    );
+
+    manager.decide('t1', 'allow');
+
+    expect(messages[0].toolCall?.approval?.status).toBe('expired');
+    expect(emit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,314 @@
+import type {
+  AgentWidgetApprovalKind,
+  AgentWidgetConfig,
+  AgentWidgetControllerEventMap,
+  AgentWidgetMessage,
+  AgentWidgetParsedAction,
+  AgentWidgetToolApproval
+} from "../types";
+
+/**
+ * Button the user pressed on an approval card
+ */
+export type ApprovalChoice = "allow" | "always" | "deny";
+
+type ApprovalSession = {
+  getMessages: () => AgentWidgetMessage[];
+  upsertToolMessage: (message: AgentWidgetMessage) => void;
+  setToolApproval: (
+    messageId: string,
+    approval: AgentWidgetToolApproval
+  ) => AgentWidgetMessage | null;
+};
+
+type ApprovalManagerOptions = {
+  getConfig: () => AgentWidgetConfig;
+  getSession: () => ApprovalSession | null;
+  getSessionMetadata: () => Record<string, unknown>;
+  updateSessionMetadata: (
+    updater: (prev: Record<string, unknown>) => Record<string, unknown>
+  ) => void;
+  emit: <K extends keyof AgentWidgetControllerEventMap>(
+    event: K,
+    payload: AgentWidgetControllerEventMap[K]
+  ) => void;
+};
+
+type PendingApproval = {
+  kind: AgentWidgetApprovalKind;
+  /** Runs in the browser (browser tool or action); otherwise the decision goes to the server */
+  local: boolean;
+  resolve: (allowed: boolean) => void;
+};
+
+/** Session metadata keys holding the "Always allow" choices */
+const REMEMBERED_KEYS: Record<AgentWidgetApprovalKind, string> = {
+  tool: "alwaysAllowedTools",
+  action: "alwaysAllowedActions"
+};
+
+const ensureArrayOfStrings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map((entry) => String(entry)) : [];
+
+/**
+ * Tool message id used for the approval card of an action
+ */
+export const getActionApprovalId = (messageId: string) => `action-${messageId}`;
+
+export const createApprovalManager = (options: ApprovalManagerOptions) => {
+  const pending = new Map<string, PendingApproval>();
+
+  const approvalConfig = () => options.getConfig().approval;
+
+  const requiresApproval = (kind: AgentWidgetApprovalKind, name: string | undefined) => {
+    if (!name) return false;
+    const config = approvalConfig();
+    const names = kind === "tool" ? config?.tools : config?.actions;
+    return Boolean(names?.includes(name));
+  };
+
+  const isRemembered = (kind: AgentWidgetApprovalKind, name: string) =>
+    ensureArrayOfStrings(options.getSessionMetadata()[REMEMBERED_KEYS[kind]]).includes(name);
+
+  const remember = (kind: AgentWidgetApprovalKind, name: string) => {
+    options.updateSessionMetadata((prev) => {
+      const names = ensureArrayOfStrings(prev[REMEMBERED_KEYS[kind]]);
+      return names.includes(name)
+        ? prev
+        : { ...prev, [REMEMBERED_KEYS[kind]]: [...names, name] };
+    });
+  };
+
+  const isBrowserTool = (name: string | undefined) =>
+    Boolean(name && options.getConfig().tools?.some((tool) => tool.name === name));
+
+  /**
+   * Tell the backend about a decision on a server tool call so it can continue the flow
+   */
+  const sendDecision = async (body: Record<string, unknown>) => {
+    const config = options.getConfig();
+    const url = config.approval?.url;
+    if (!url || typeof fetch === "undefined") return;
+    try {
+      const dynamicHeaders = config.getHeaders ? await config.getHeaders() : {};
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...config.headers,
+          ...dynamicHeaders
+        },
+        body: JSON.stringify(body)
+      });
+      if (!response.ok) {
+        throw new Error(`Approval endpoint responded with ${response.status}`);
+      }
+    } catch (error) {
+      if (typeof console !== "undefined") {
+        // eslint-disable-next-line no-console
+        console.error("[AgentWidget] Failed to send approval decision:", error);
+      }
+    }
+  };
+
+  const finish = (
+    message: AgentWidgetMessage,
+    kind: AgentWidgetApprovalKind,
+    local: boolean,
+    allowed: boolean,
+    always: boolean,
+    remembered = false
+  ) => {
+    const toolCall = message.toolCall!;
+    const name = toolCall.name ?? "";
+    options.getSession()?.setToolApproval(message.id, {
+      status: allowed ? "approved" : "denied",
+      decidedAt: Date.now(),
+      ...(remembered && { remembered: true })
+    });
+
+    const event = {
+      kind,
+      toolCallId: toolCall.id,
+      name,
+      args: toolCall.args,
+      decision: allowed ? ("allow" as const) : ("deny" as const),
+      always
+    };
+    if (!local) {
+      void sendDecision({
+        toolCallId: event.toolCallId,
+        toolName: name,
+        args: event.args,
+        decision: event.decision,
+        always
+      });
+    }
+    options.emit("approval:decided", event);
+    approvalConfig()?.onDecision?.(event);
+  };
+
+  /**
+   * Show the approval card on a tool message and wait for the user.
+   * Resolves immediately when the user chose "Always allow" for it earlier.
+   */
+  const request = (
+    message: AgentWidgetMessage,
+    kind: AgentWidgetApprovalKind,
+    local: boolean
+  ): Promise<boolean> => {
+    const name = message.toolCall?.name ?? "";
+    if (isRemembered(kind, name)) {
+      finish(message, kind, local, true, true, true);
+      return Promise.resolve(true);
+    }
+    return new Promise<boolean>((resolve) => {
+      pending.set(message.id, { kind, local, resolve });
+      const updated = options.getSession()?.setToolApproval(message.id, { status: "pending" });
+      options.emit("approval:requested", { kind, message: updated ?? message });
+    });
+  };
+
+  /**
+   * Approval hook for browser tools (`SessionCallbacks.requestToolApproval`)
+   */
+  const requestToolApproval = (message: AgentWidgetMessage): Promise<boolean> =>
+    requiresApproval("tool", message.toolCall?.name)
+      ? request(message, "tool", true)
+      : Promise.resolve(true);
+
+  /**
+   * Approval hook for parsed actions. Adds a tool message carrying the card
+   * right after the assistant message that contained the action.
+   */
+  const requestActionApproval = (
+    action: AgentWidgetParsedAction,
+    message: AgentWidgetMessage
+  ): Promise<boolean> => {
+    const id = getActionApprovalId(message.id);
+    const toolMessage: AgentWidgetMessage = {
+      id,
+      role: "assistant",
+      content: "",
+      createdAt: new Date().toISOString(),
+      variant: "tool",
+      toolCall: { id, name: action.type, status: "pending", args: action.payload }
+    };
+    // Actions are parsed while messages render, so update the session afterwards
+    return Promise.resolve().then(() => {
+      const session = options.getSession();
+      if (!session) return false;
+      session.upsertToolMessage(toolMessage);
+      return request(toolMessage, "action", true).then((allowed) => {
+        const current = session.getMessages().find((m) => m.id === id);
+        if (current?.toolCall) {
+          session.upsertToolMessage({
+            ...current,
+            toolCall: { ...current.toolCall, status: "complete", completedAt: Date.now() }
+          });
+        }
+        return allowed;
+      });
+    });
+  };
+
+  /**
+   * Ask for approval of new server tool calls. Called whenever messages change;
+   * the server is expected to wait for the decision posted to `approval.url`.
+   * Without a `url` nothing on the server could be waiting, so no card is shown.
+   */
+  const scan = (messages: AgentWidgetMessage[]) => {
+    if (!approvalConfig()?.url) return;
+    const found: AgentWidgetMessage[] = [];
+    for (const message of messages) {
+      const toolCall = message.toolCall;
+      if (
+        message.variant !== "tool" ||
+        !toolCall ||
+        toolCall.approval ||
+        pending.has(message.id) ||
+        isBrowserTool(toolCall.name) ||
+        !requiresApproval("tool", toolCall.name)
+      ) {
+        continue;
+      }
+      found.push(message);
+    }
+    if (!found.length) return;
+    // Claim the calls now; the session is updated after the current render
+    found.forEach((message) =>
+      pending.set(message.id, { kind: "tool", local: false, resolve: () => {} })
+    );
+    void Promise.resolve().then(() => {
+      found.forEach((message) => {
+        pending.delete(message.id);
+        void request(message, "tool", false);
+      });
+    });
+  };
+
+  const restoredKind = (message: AgentWidgetMessage): AgentWidgetApprovalKind =>
+    message.id.startsWith("action-") ? "action" : "tool";
+
+  // Restored actions and browser tools have nothing left to run; server tools may still be waiting
+  const isExpired = (message: AgentWidgetMessage) =>
+    !pending.has(message.id) &&
+    (restoredKind(message) === "action" || isBrowserTool(message.toolCall?.name));
+
+  /**
+   * Mark pending cards restored from storage as expired when approving them
+   * could no longer run anything
+   */
+  const expireRestored = () => {
+    const session = options.getSession();
+    session?.getMessages().forEach((message) => {
+      if (message.toolCall?.approval?.status === "pending" && isExpired(message)) {
+        session.setToolApproval(message.id, { status: "expired", decidedAt: Date.now() });
+      }
+    });
+  };
+
+  /**
+   * Apply the user's choice on an approval card
+   */
+  const decide = (messageId: string, choice: ApprovalChoice) => {
+    const message = options.getSession()?.getMessages().find((m) => m.id === messageId);
+    if (!message?.toolCall || message.toolCall.approval?.status !== "pending") return;
+    if (isExpired(message)) {
+      options.getSession()?.setToolApproval(messageId, { status: "expired", decidedAt: Date.now() });
+      return;
+    }
+
+    const entry = pending.get(messageId);
+    pending.delete(messageId);
+    // Cards restored from storage have no waiter; only server tools can still continue
+    const kind = entry?.kind ?? restoredKind(message);
+    const local = entry?.local ?? false;
+    const allowed = choice !== "deny";
+    const always = choice === "always";
+    if (always && message.toolCall.name) {
+      remember(kind, message.toolCall.name);
+    }
+    finish(message, kind, local, allowed, always);
+    entry?.resolve(allowed);
+  };
+
+  /**
+   * Deny everything still waiting, e.g. when the chat is cleared
+   */
+  const reset = () => {
+    const waiting = Array.from(pending.values());
+    pending.clear();
+    waiting.forEach((entry) => entry.resolve(false));
+  };
+
+  return {
+    requiresApproval,
+    requestToolApproval,
+    requestActionApproval,
+    scan,
+    decide,
+    expireRestored,
+    reset
+  };
+};
@@ -0,0 +1,70 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeAll } from 'vitest';
+import { decorateCodeBlocks, getCodeFilename } from './code-blocks';
+import { highlightCode, loadSyntaxGrammars } from './syntax-highlight';
+import { DEFAULT_TRANSLATOR } from './i18n';
+
+const render = (html: string) => {
+  const root = document.createElement('div');
+  root.innerHTML = html;
+  return root;
+};
+
+describe('syntax highlighting', () => {
+  beforeAll(() => loadSyntaxGrammars());
+
+  it('should mark tokens and escape the source', () => {
+    const html = highlightCode('const a = "<b>"; // done\nrun(42)', 'ts')!;
+    expect(html).toContain('<span class="tvw-token-keyword">const</span>');
+    expect(html).toContain('<span class="tvw-token-string">&quot;&lt;b&gt;&quot;</span>');
+    expect(html).toContain('<span class="tvw-token-comment">// done</span>');
+    expect(html).toContain('<span class="tvw-token-function">run</span>');
+    expect(html).toContain('<span class="tvw-token-number">42</span>');
+  });
+
+  it('should not match keywords inside identifiers', () => {
+    expect(highlightCode('classic = iffy', 'python')).toBe('classic = iffy');
+  });
+
+  it('should resolve aliases and skip unknown languages', () => {
+    expect(highlightCode('{"ok": true}', 'jsonc')).toBe(
+      '{<span class="tvw-token-property">&quot;ok&quot;</span>: <span class="tvw-token-literal">true</span>}'
+    );
+    expect(highlightCode('x', 'brainfuck')).toBeNull();
+  });
+});
+
+describe('code blocks', () => {
+  const options = {
+    actions: ['copy' as const, 'wrap' as const, { id: 'insert', label: 'Insert into editor' }],
+    highlight: true,
+    i18n: DEFAULT_TRANSLATOR,
+    isWrapped: (key: string) => key === 'm1:1'
+  };
+
+  it('should add a toolbar with a language label and actions', () => {
+    const root = render(
+      '<p>Try:</p><pre><code class="language-py">print(1)</code></pre><pre><code>plain</code></pre>'
+    );
+    decorateCodeBlocks(root, 'm1', options);
+
+    const blocks = root.querySelectorAll<HTMLElement>('.tvw-code-block');
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0].getAttribute('data-code-block')).toBe('m1:0');
+    expect(blocks[0].getAttribute('data-language')).toBe('py');
+    expect(blocks[0].querySelector('.tvw-code-language')?.textContent).toBe('py');
+    expect(blocks[1].querySelector('.tvw-code-language')?.textContent).toBe('Code');
+    expect(
+      Array.from(blocks[0].querySelectorAll('[data-code-action]')).map((button) => button.getAttribute('aria-label'))
+    ).toEqual(['Copy code', 'Wrap lines', 'Insert into editor']);
+    expect(blocks[0].querySelector('.tvw-token-function')?.textContent).toBe('print');
+    expect(blocks[1].querySelector('pre')?.classList.contains('tvw-code-wrap')).toBe(true);
+    expect(blocks[1].querySelector('[data-code-action="wrap"]')?.getAttribute('aria-pressed')).toBe('true');
+  });
+
+  it('should name downloads after the language', () => {
+    expect(getCodeFilename('typescript')).toBe('snippet.ts');
+    expect(getCodeFilename('go')).toBe('snippet.go');
+    expect(getCodeFilename('')).toBe('snippet.txt');
+  });
+});
@@ -0,0 +1,160 @@
+import type {
+  AgentWidgetCodeAction,
+  AgentWidgetCodeCustomAction,
+  AgentWidgetConfig
+} from "../types";
+import { createElement, downloadFile } from "./dom";
+import { AgentWidgetTranslator } from "./i18n";
+import { renderLucideIcon } from "./icons";
+import { highlightCode, isSyntaxGrammarsLoaded } from "./syntax-highlight";
+
+export const CODE_ACTION_ATTRIBUTE = "data-code-action";
+export const CODE_BLOCK_ATTRIBUTE = "data-code-block";
+
+export const DEFAULT_CODE_ACTIONS: AgentWidgetCodeAction[] = ["copy", "download", "wrap"];
+
+const BUILT_IN_ACTIONS: Record<
+  AgentWidgetCodeAction,
+  { icon: string; label: "codeCopy" | "codeDownload" | "codeWrap" }
+> = {
+  copy: { icon: "copy", label: "codeCopy" },
+  download: { icon: "download", label: "codeDownload" },
+  wrap: { icon: "wrap-text", label: "codeWrap" }
+};
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  javascript: "js",
+  typescript: "ts",
+  python: "py",
+  bash: "sh",
+  shell: "sh",
+  zsh: "sh",
+  markdown: "md",
+  ruby: "rb",
+  rust: "rs",
+  golang: "go",
+  csharp: "cs",
+  kotlin: "kt",
+  yaml: "yml",
+  text: "txt",
+  plaintext: "txt"
+};
+
+/**
+ * Whether Markdown code blocks get highlighting and a toolbar
+ */
+export const isCodeBlocksEnabled = (config?: Pick<AgentWidgetConfig, "codeBlocks">) => {
+  const codeBlocks = config?.codeBlocks;
+  return codeBlocks === true || (typeof codeBlocks === "object" && codeBlocks.enabled !== false);
+};
+
+/**
+ * File name for a downloaded code block, e.g. "snippet.ts" for a `typescript` fence
+ */
+export const getCodeFilename = (language: string) => {
+  const name = language.trim().toLowerCase();
+  const extension = FILE_EXTENSIONS[name] ?? (/^[a-z0-9]{1,5}$/.test(name) ? name : "txt");
+  return `snippet.${extension}`;
+};
+
+export const downloadCode = (code: string, language: string) =>
+  downloadFile(code, getCodeFilename(language), "text/plain");
+
+export type CodeBlockDecorationOptions = {
+  actions: Array<AgentWidgetCodeAction | AgentWidgetCodeCustomAction>;
+  highlight: boolean;
+  i18n: AgentWidgetTranslator;
+  /** Whether the block with this key wraps lines */
+  isWrapped: (key: string) => boolean;
+};
+
+export type CodeBlockDecorationResult = {
+  /** Some blocks wait for the grammars; render again once they've loaded */
+  needsGrammars: boolean;
+};
+
+const createToolbarButton = (action: string, icon: string, label: string) => {
+  const button = createElement("button", "tvw-code-action-btn");
+  button.type = "button";
+  button.setAttribute(CODE_ACTION_ATTRIBUTE, action);
+  button.setAttribute("aria-label", label);
+  button.setAttribute("title", label);
+  const svg = renderLucideIcon(icon, 14, "currentColor", 2);
+  if (svg) {
+    button.appendChild(svg);
+  } else {
+    button.textContent = label;
+  }
+  return button;
+};
+
+/**
+ * Read the language of a `<code>` element from marked's `language-*` class
+ */
+export const getCodeLanguage = (code: Element) =>
+  Array.from(code.classList)
+    .find((name) => name.startsWith("language-"))
+    ?.slice("language-".length) ?? "";
+
+/**
+ * Wrap each `<pre><code>` below `root` in a code block with a language label
+ * and toolbar, highlighting it when the grammars are loaded. Blocks are keyed
+ * `<messageId>:<index>` so state such as wrapping survives re-renders.
+ */
+export const decorateCodeBlocks = (
+  root: HTMLElement,
+  messageId: string,
+  options: CodeBlockDecorationOptions
+): CodeBlockDecorationResult => {
+  let needsGrammars = false;
+  const codes = Array.from(root.querySelectorAll("pre > code")).filter(
+    (code) => !code.closest(`[${CODE_BLOCK_ATTRIBUTE}]`)
+  );
+
+  codes.forEach((code, index) => {
+    const pre = code.parentElement as HTMLElement;
+    const language = getCodeLanguage(code);
+    const key = `${messageId}:${index}`;
+
+    if (options.highlight && language) {
+      const html = highlightCode(code.textContent ?? "", language);
+      if (html !== null) {
+        code.innerHTML = html;
+      } else if (!isSyntaxGrammarsLoaded()) {
+        needsGrammars = true;
+      }
+    }
+
+    const block = createElement("div", "tvw-code-block");
+    block.id = `code-${key}`;
+    block.setAttribute(CODE_BLOCK_ATTRIBUTE, key);
+    if (language) block.setAttribute("data-language", language);
+
+    const toolbar = createElement("div", "tvw-code-toolbar");
+    const label = createElement("span", "tvw-code-language");
+    label.textContent = language || options.i18n.t("codeLabel");
+    const actions = createElement("div", "tvw-code-actions");
+    const wrapped = options.isWrapped(key);
+
+    options.actions.forEach((action) => {
+      if (typeof action === "string") {
+        const builtIn = BUILT_IN_ACTIONS[action];
+        if (!builtIn) return;
+        const button = createToolbarButton(action, builtIn.icon, options.i18n.t(builtIn.label));
+        if (action === "wrap") {
+          button.setAttribute("aria-pressed", String(wrapped));
+        }
+        actions.appendChild(button);
+      } else {
+        actions.appendChild(createToolbarButton(action.id, action.icon ?? "square-code", action.label));
+      }
+    });
+
+    toolbar.append(label, actions);
+    pre.classList.toggle("tvw-code-wrap", wrapped);
+    pre.replaceWith(block);
+    block.append(toolbar, pre);
+  });
+
+  return { needsGrammars };
+};
@@ -23,3 +23,16 @@ export const createFragment = (): DocumentFragment => {
 
 
 
+
+/**
+ * Save text as a file through a temporary download link
+ */
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -1,5 +1,6 @@
 import { AgentWidgetReasoning, AgentWidgetToolCall, AgentWidgetStreamParser, AgentWidgetStreamParserResult } from "../types";
 import { parse as parsePartialJson, STR, OBJ } from "partial-json";
+import { DEFAULT_TRANSLATOR, type AgentWidgetTranslator } from "./i18n";
 
 /**
  * Unescapes JSON string escape sequences that LLMs often double-escape.
@@ -28,31 +29,60 @@ export const formatUnknownValue = (value: unknown): string => {
   }
 };
 
-export const formatReasoningDuration = (reasoning: AgentWidgetReasoning) => {
+/**
+ * A duration as localized seconds, e.g. "2.5 seconds", "12 Sekunden" or
+ * "<0.1 seconds"
+ */
+export const formatDuration = (durationMs: number, locale = "en") => {
+  const seconds = durationMs / 1000;
+  const below = seconds < 0.1;
+  const value = below ? 0.1 : seconds >= 10 ? Math.round(seconds) : Math.round(seconds * 10) / 10;
+  let formatted: string;
+  try {
+    formatted = new Intl.NumberFormat(locale, {
+      style: "unit",
+      unit: "second",
+      unitDisplay: "long",
+      maximumFractionDigits: 1
+    }).format(value);
+  } catch {
+    formatted = `${value} seconds`;
+  }
+  return below ? `<${formatted}` : formatted;
+};
+
+/**
+ * Hours and minutes of a message time in the given locale, e.g. "14:05" or "02:05 PM"
+ */
+export const formatTimestamp = (date: Date, locale?: string) =>
+  date.toLocaleTimeString(locale ?? [], { hour: "2-digit", minute: "2-digit" });
+
+export const formatReasoningDuration = (
+  reasoning: AgentWidgetReasoning,
+  i18n: AgentWidgetTranslator = DEFAULT_TRANSLATOR
+) => {
   const end = reasoning.completedAt ?? Date.now();
   const start = reasoning.startedAt ?? end;
   const durationMs =
     reasoning.durationMs !== undefined
       ? reasoning.durationMs
       : Math.max(0, end - start);
-  const seconds = durationMs / 1000;
-  if (seconds < 0.1) {
-    return "Thought for <0.1 seconds";
-  }
-  const formatted =
-    seconds >= 10
-      ? Math.round(seconds).toString()
-      : seconds.toFixed(1).replace(/\.0$/, "");
-  return `Thought for ${formatted} seconds`;
+  return i18n.t("reasoningDuration", { duration: formatDuration(durationMs, i18n.locale) });
 };
 
-export const describeReasonStatus = (reasoning: AgentWidgetReasoning) => {
-  if (reasoning.status === "complete") return formatReasoningDuration(reasoning);
-  if (reasoning.status === "pending") return "Waiting";
+export const describeReasonStatus = (
+  reasoning: AgentWidgetReasoning,
+  i18n: AgentWidgetTranslator = DEFAULT_TRANSLATOR
+) => {
+  if (reasoning.status === "complete") return formatReasoningDuration(reasoning, i18n);
+  if (reasoning.status === "pending") return i18n.t("reasoningWaiting");
   return "";
 };
 
-export const formatToolDuration = (tool: AgentWidgetToolCall) => {
+export const formatToolDuration = (
+  tool: AgentWidgetToolCall,
+  i18n: AgentWidgetTranslator = DEFAULT_TRANSLATOR
+) => {
   const durationMs =
     typeof tool.duration === "number"
       ? tool.duration
@@ -63,28 +93,26 @@ export const formatToolDuration = (tool: AgentWidgetToolCall) => {
             (tool.completedAt ?? Date.now()) -
               (tool.startedAt ?? tool.completedAt ?? Date.now())
           );
-  const seconds = durationMs / 1000;
-  if (seconds < 0.1) {
-    return "Used tool for <0.1 seconds";
-  }
-  const formatted =
-    seconds >= 10
-      ? Math.round(seconds).toString()
-      : seconds.toFixed(1).replace(/\.0$/, "");
-  return `Used tool for ${formatted} seconds`;
+  return i18n.t("toolDuration", { duration: formatDuration(durationMs, i18n.locale) });
 };
 
-export const describeToolStatus = (status: AgentWidgetToolCall["status"]) => {
+export const describeToolStatus = (
+  status: AgentWidgetToolCall["status"],
+  i18n: AgentWidgetTranslator = DEFAULT_TRANSLATOR
+) => {
   if (status === "complete") return "";
-  if (status === "pending") return "Starting";
-  return "Running";
+  if (status === "pending") return i18n.t("toolStarting");
+  return i18n.t("toolRunning");
 };
 
-export const describeToolTitle = (tool: AgentWidgetToolCall) => {
+export const describeToolTitle = (
+  tool: AgentWidgetToolCall,
+  i18n: AgentWidgetTranslator = DEFAULT_TRANSLATOR
+) => {
   if (tool.status === "complete") {
-    return formatToolDuration(tool);
+    return formatToolDuration(tool, i18n);
   }
-  return "Using tool...";
+  return i18n.t("toolInProgress");
 };
 
 /**
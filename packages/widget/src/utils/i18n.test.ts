@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createTranslator, relocalizeConfig, resolveDirection, resolveLocale, resolveRequestLocale } from './i18n';
+import { formatDuration, formatReasoningDuration } from './formatting';
+import { mergeWithDefaults } from '../defaults';
+import type { AgentWidgetConfig } from '../types';
+
+describe('i18n', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should look strings up in messages, then the bundle, then English', () => {
+    const { t, locale } = createTranslator({
+      locale: 'fr-CA',
+      messages: { sendButtonLabel: 'Go', toolDuration: 'Outil : {duration}' }
+    });
+    expect(locale).toBe('fr-CA');
+    expect(t('sendButtonLabel')).toBe('Go');
+    expect(t('stopButtonLabel')).toBe('Arrêter');
+    expect(t('toolDuration', { duration: '2 s' })).toBe('Outil : 2 s');
+
+    // No bundle for Portuguese
+    expect(createTranslator({ locale: 'pt-BR' }).t('sendButtonLabel')).toBe('Send');
+    expect(createTranslator({ locale: 'not a locale' }).locale).toBe('en');
+  });
+
+  it('should pick right-to-left for Arabic unless the direction is set', () => {
+    expect(resolveDirection({ locale: 'ar-EG' })).toBe('rtl');
+    expect(resolveDirection({ locale: 'he' })).toBe('rtl');
+    expect(resolveDirection({ locale: 'ar', direction: 'ltr' })).toBe('ltr');
+    expect(resolveDirection({ locale: 'en', direction: 'rtl' })).toBe('rtl');
+    expect(resolveDirection({ locale: 'de', direction: 'auto' })).toBe('ltr');
+  });
+
+  it('should follow the host page without a locale and send the browser language', () => {
+    vi.stubGlobal('navigator', { language: 'es-MX' });
+    expect(resolveLocale()).toBe('en');
+    expect(resolveDirection()).toBe('ltr');
+    expect(resolveRequestLocale()).toBe('es-MX');
+
+    vi.stubGlobal('document', { documentElement: { lang: 'ar', dir: 'rtl' } });
+    expect(resolveLocale()).toBe('ar');
+    expect(resolveDirection()).toBe('rtl');
+    expect(resolveRequestLocale()).toBe('es-MX');
+
+    // An explicit locale wins over the page and the browser
+    expect(resolveLocale({ locale: 'fr' })).toBe('fr');
+    expect(resolveDirection({ locale: 'fr' })).toBe('ltr');
+    expect(resolveRequestLocale({ locale: 'fr' })).toBe('fr');
+  });
+
+  it('should localize default config texts but keep explicit ones', () => {
+    const config = mergeWithDefaults({
+      locale: 'es',
+      messages: { welcomeSubtitle: 'Pregúntame' },
+      copy: { welcomeTitle: 'Bienvenido a Acme' }
+    });
+    expect(config.copy).toMatchObject({
+      welcomeTitle: 'Bienvenido a Acme',
+      welcomeSubtitle: 'Pregúntame',
+      inputPlaceholder: '¿En qué puedo ayudarte?'
+    });
+    expect(config.launcher?.title).toBe('Asistente de chat');
+    expect(config.launcher?.clearChat?.tooltipText).toBe('Borrar chat');
+    expect(config.statusIndicator?.idleText).toBe('En línea');
+    expect(config.suggestionChips?.[0]).toBe('¿En qué puedes ayudarme?');
+    // Non-text defaults are untouched
+    expect(config.launcher?.position).toBe('bottom-right');
+  });
+
+  it('should switch default texts to another locale at runtime', () => {
+    const config = mergeWithDefaults({
+      locale: 'en',
+      launcher: { title: 'Acme Support' }
+    }) as AgentWidgetConfig;
+    const next = relocalizeConfig(
+      { ...config, locale: 'de' },
+      createTranslator(config),
+      createTranslator({ locale: 'de' })
+    );
+    expect(next.launcher?.title).toBe('Acme Support');
+    expect(next.launcher?.subtitle).toBe('Schnelle Antworten auf Ihre Fragen');
+    expect(next.copy?.sendButtonLabel).toBe('Senden');
+    expect(next.suggestionChips?.[2]).toBe('Wie funktioniert das?');
+  });
+
+  it('should format durations in the locale', () => {
+    expect(formatDuration(2500, 'en')).toBe('2.5 seconds');
+    expect(formatDuration(1000, 'en')).toBe('1 second');
+    expect(formatDuration(12_400, 'en')).toBe('12 seconds');
+    expect(formatDuration(20, 'en')).toBe('<0.1 seconds');
+    expect(formatDuration(2500, 'de')).toBe('2,5 Sekunden');
+
+    const reasoning = { id: 'r1', status: 'complete' as const, chunks: [], durationMs: 2500 };
+    expect(formatReasoningDuration(reasoning)).toBe('Thought for 2.5 seconds');
+    // French separates the unit with a no-break space
+    expect(formatReasoningDuration(reasoning, createTranslator({ locale: 'fr' }))).toMatch(
+      /^A réfléchi pendant 2,5\ssecondes$/
+    );
+  });
+});
@@ -0,0 +1,857 @@
+import type { AgentWidgetConfig } from "../types";
+
+/**
+ * Localization
+ * Every built-in UI string lives in a locale bundle. `locale` picks the
+ * bundle (detected from the browser when unset), `messages` overrides single
+ * strings, and explicit config options (e.g. `copy.welcomeTitle`) still win.
+ */
+
+/**
+ * Built-in UI strings. `{name}` placeholders are filled in by the translator.
+ */
+export type AgentWidgetMessages = {
+  welcomeTitle: string;
+  welcomeSubtitle: string;
+  inputPlaceholder: string;
+  inputLabel: string;
+  sendButtonLabel: string;
+  sendButtonTooltip: string;
+  stopButtonLabel: string;
+  stoppedMessageLabel: string;
+  launcherTitle: string;
+  launcherSubtitle: string;
+  closeButtonTooltip: string;
+  clearChatTooltip: string;
+  voiceTooltip: string;
+  voiceStopTooltip: string;
+  attachTooltip: string;
+  statusIdle: string;
+  statusConnecting: string;
+  statusConnected: string;
+  statusError: string;
+  suggestionChips: string[];
+  messagesLabel: string;
+  userMessageLabel: string;
+  assistantMessageLabel: string;
+  reasoningMessageLabel: string;
+  toolMessageLabel: string;
+  copyMessage: string;
+  upvote: string;
+  downvote: string;
+  previousVersion: string;
+  nextVersion: string;
+  deliveryQueued: string;
+  deliveryRetryQueued: string;
+  deliverySending: string;
+  deliverySent: string;
+  deliveryFailed: string;
+  deliveryRetry: string;
+  reasoningInProgress: string;
+  reasoningWaiting: string;
+  /** `{duration}` is a localized number of seconds, e.g. "2.5 seconds" */
+  reasoningDuration: string;
+  toolInProgress: string;
+  toolDuration: string;
+  toolStarting: string;
+  toolRunning: string;
+  toolArguments: string;
+  toolActivity: string;
+  toolResult: string;
+  csatLabel: string;
+  csatTitle: string;
+  csatSubtitle: string;
+  csatRatingGroupLabel: string;
+  csatRatingLabels: [string, string, string, string, string];
+  /** Accessible name of a CSAT button; `{rating}` and `{label}` */
+  csatRatingButtonLabel: string;
+  csatCommentPlaceholder: string;
+  npsLabel: string;
+  npsTitle: string;
+  npsSubtitle: string;
+  npsRatingGroupLabel: string;
+  npsRatingButtonLabel: string;
+  npsLowLabel: string;
+  npsHighLabel: string;
+  npsCommentPlaceholder: string;
+  feedbackCommentLabel: string;
+  feedbackSubmit: string;
+  feedbackSubmitting: string;
+  feedbackSkip: string;
+  searchButtonLabel: string;
+  searchPlaceholder: string;
+  searchResults: string;
+  searchNoResults: string;
+  searchPrevious: string;
+  searchNext: string;
+  searchClose: string;
+  exportButtonLabel: string;
+  exportMarkdown: string;
+  exportHtml: string;
+  exportText: string;
+  exportJson: string;
+  transcriptUserLabel: string;
+  transcriptAssistantLabel: string;
+  transcriptAttachment: string;
+  codeLabel: string;
+  codeCopy: string;
+  codeDownload: string;
+  codeWrap: string;
+  threadListTitle: string;
+  /** Title of a thread without any user message yet */
+  threadUntitled: string;
+  threadNew: string;
+  threadListClose: string;
+  threadRename: string;
+  threadRenameLabel: string;
+  threadDelete: string;
+  approvalTitle: string;
+  approvalAllow: string;
+  approvalAlwaysAllow: string;
+  approvalDeny: string;
+  approvalPending: string;
+  approvalApproved: string;
+  approvalDenied: string;
+  approvalExpired: string;
+  /** `{time}` is the countdown until the limit resets */
+  quotaExhausted: string;
+  quotaExhaustedUnknown: string;
+  quotaRemaining: string;
+  quotaRestored: string;
+  /** Bottom row of the expanded header layout */
+  headerStatus: string;
+  /** Screen reader text of the typing indicator */
+  loadingLabel: string;
+};
+
+/** Keys of the single-string messages */
+export type AgentWidgetMessageKey = {
+  [K in keyof AgentWidgetMessages]: AgentWidgetMessages[K] extends string ? K : never;
+}[keyof AgentWidgetMessages];
+
+export type AgentWidgetTextDirection = "ltr" | "rtl";
+
+export type AgentWidgetTranslator = {
+  /** Resolved locale, e.g. "fr" or "en-GB" */
+  locale: string;
+  direction: AgentWidgetTextDirection;
+  t: (key: AgentWidgetMessageKey, values?: Record<string, string | number>) => string;
+  /** List messages (suggestion chips, CSAT rating labels) */
+  list: <K extends "suggestionChips" | "csatRatingLabels">(key: K) => AgentWidgetMessages[K];
+};
+
+const en: AgentWidgetMessages = {
+  welcomeTitle: "Hello 👋",
+  welcomeSubtitle: "Ask anything about your account or products.",
+  inputPlaceholder: "How can I help...",
+  inputLabel: "Message",
+  sendButtonLabel: "Send",
+  sendButtonTooltip: "Send message",
+  stopButtonLabel: "Stop",
+  stoppedMessageLabel: "Response stopped",
+  launcherTitle: "Chat Assistant",
+  launcherSubtitle: "Here to help you get answers fast",
+  closeButtonTooltip: "Close chat",
+  clearChatTooltip: "Clear chat",
+  voiceTooltip: "Start voice recognition",
+  voiceStopTooltip: "Stop voice recognition",
+  attachTooltip: "Attach file",
+  statusIdle: "Online",
+  statusConnecting: "Connecting…",
+  statusConnected: "Streaming…",
+  statusError: "Offline",
+  suggestionChips: ["What can you help me with?", "Tell me about your features", "How does this work?"],
+  messagesLabel: "Messages",
+  userMessageLabel: "Your message",
+  assistantMessageLabel: "Assistant message",
+  reasoningMessageLabel: "Reasoning",
+  toolMessageLabel: "Tool call",
+  copyMessage: "Copy message",
+  upvote: "Upvote",
+  downvote: "Downvote",
+  previousVersion: "Previous version",
+  nextVersion: "Next version",
+  deliveryQueued: "Queued. Sends when you're back online",
+  deliveryRetryQueued: "Retry now",
+  deliverySending: "Sending…",
+  deliverySent: "Sent",
+  deliveryFailed: "Not delivered",
+  deliveryRetry: "Retry",
+  reasoningInProgress: "Thinking...",
+  reasoningWaiting: "Waiting",
+  reasoningDuration: "Thought for {duration}",
+  toolInProgress: "Using tool...",
+  toolDuration: "Used tool for {duration}",
+  toolStarting: "Starting",
+  toolRunning: "Running",
+  toolArguments: "Arguments",
+  toolActivity: "Activity",
+  toolResult: "Result",
+  csatLabel: "Customer satisfaction feedback",
+  csatTitle: "How satisfied are you?",
+  csatSubtitle: "Please rate your experience",
+  csatRatingGroupLabel: "Satisfaction rating from 1 to 5",
+  csatRatingLabels: ["Very dissatisfied", "Dissatisfied", "Neutral", "Satisfied", "Very satisfied"],
+  csatRatingButtonLabel: "{rating} of 5: {label}",
+  csatCommentPlaceholder: "Share your thoughts (optional)...",
+  npsLabel: "Net Promoter Score feedback",
+  npsTitle: "How likely are you to recommend us?",
+  npsSubtitle: "On a scale of 0 to 10",
+  npsRatingGroupLabel: "Likelihood rating from 0 to 10",
+  npsRatingButtonLabel: "Rating {rating} out of 10",
+  npsLowLabel: "Not likely",
+  npsHighLabel: "Very likely",
+  npsCommentPlaceholder: "What could we do better? (optional)...",
+  feedbackCommentLabel: "Additional comments",
+  feedbackSubmit: "Submit",
+  feedbackSubmitting: "Submitting...",
+  feedbackSkip: "Skip",
+  searchButtonLabel: "Search conversation",
+  searchPlaceholder: "Search conversation",
+  searchResults: "{current} of {total}",
+  searchNoResults: "No results",
+  searchPrevious: "Previous result",
+  searchNext: "Next result",
+  searchClose: "Close search",
+  exportButtonLabel: "Export conversation",
+  exportMarkdown: "Markdown (.md)",
+  exportHtml: "Web page (.html)",
+  exportText: "Plain text (.txt)",
+  exportJson: "JSON (.json)",
+  transcriptUserLabel: "You",
+  transcriptAssistantLabel: "Assistant",
+  transcriptAttachment: "Attachment: {name}",
+  codeLabel: "Code",
+  codeCopy: "Copy code",
+  codeDownload: "Download file",
+  codeWrap: "Wrap lines",
+  threadListTitle: "Conversations",
+  threadUntitled: "New conversation",
+  threadNew: "New conversation",
+  threadListClose: "Close conversations",
+  threadRename: "Rename conversation",
+  threadRenameLabel: "Conversation title",
+  threadDelete: "Delete conversation",
+  approvalTitle: "Allow this action?",
+  approvalAllow: "Allow",
+  approvalAlwaysAllow: "Always allow",
+  approvalDeny: "Deny",
+  approvalPending: "Awaiting approval",
+  approvalApproved: "Allowed",
+  approvalDenied: "Denied",
+  approvalExpired: "Expired",
+  quotaExhausted: "Message limit reached. You can send again in {time}.",
+  quotaExhaustedUnknown: "Message limit reached. Please try again later.",
+  quotaRemaining: "{count} messages left",
+  quotaRestored: "You can send messages again.",
+  headerStatus: "Online and ready to help",
+  loadingLabel: "Loading"
+};
+
+const es: AgentWidgetMessages = {
+  welcomeTitle: "Hola 👋",
+  welcomeSubtitle: "Pregunta lo que quieras sobre tu cuenta o nuestros productos.",
+  inputPlaceholder: "¿En qué puedo ayudarte?",
+  inputLabel: "Mensaje",
+  sendButtonLabel: "Enviar",
+  sendButtonTooltip: "Enviar mensaje",
+  stopButtonLabel: "Detener",
+  stoppedMessageLabel: "Respuesta detenida",
+  launcherTitle: "Asistente de chat",
+  launcherSubtitle: "Aquí para darte respuestas rápidas",
+  closeButtonTooltip: "Cerrar chat",
+  clearChatTooltip: "Borrar chat",
+  voiceTooltip: "Iniciar reconocimiento de voz",
+  voiceStopTooltip: "Detener reconocimiento de voz",
+  attachTooltip: "Adjuntar archivo",
+  statusIdle: "En línea",
+  statusConnecting: "Conectando…",
+  statusConnected: "Respondiendo…",
+  statusError: "Sin conexión",
+  suggestionChips: ["¿En qué puedes ayudarme?", "Cuéntame tus funciones", "¿Cómo funciona esto?"],
+  messagesLabel: "Mensajes",
+  userMessageLabel: "Tu mensaje",
+  assistantMessageLabel: "Mensaje del asistente",
+  reasoningMessageLabel: "Razonamiento",
+  toolMessageLabel: "Uso de herramienta",
+  copyMessage: "Copiar mensaje",
+  upvote: "Me gusta",
+  downvote: "No me gusta",
+  previousVersion: "Versión anterior",
+  nextVersion: "Versión siguiente",
+  deliveryQueued: "En cola. Se enviará cuando vuelvas a estar en línea",
+  deliveryRetryQueued: "Reintentar ahora",
+  deliverySending: "Enviando…",
+  deliverySent: "Enviado",
+  deliveryFailed: "No entregado",
+  deliveryRetry: "Reintentar",
+  reasoningInProgress: "Pensando...",
+  reasoningWaiting: "En espera",
+  reasoningDuration: "Pensó durante {duration}",
+  toolInProgress: "Usando herramienta...",
+  toolDuration: "Usó la herramienta durante {duration}",
+  toolStarting: "Iniciando",
+  toolRunning: "En curso",
+  toolArguments: "Argumentos",
+  toolActivity: "Actividad",
+  toolResult: "Resultado",
+  csatLabel: "Valoración de satisfacción",
+  csatTitle: "¿Qué tan satisfecho estás?",
+  csatSubtitle: "Valora tu experiencia",
+  csatRatingGroupLabel: "Valoración de satisfacción del 1 al 5",
+  csatRatingLabels: ["Muy insatisfecho", "Insatisfecho", "Neutral", "Satisfecho", "Muy satisfecho"],
+  csatRatingButtonLabel: "{rating} de 5: {label}",
+  csatCommentPlaceholder: "Cuéntanos tu opinión (opcional)...",
+  npsLabel: "Valoración Net Promoter Score",
+  npsTitle: "¿Qué probabilidad hay de que nos recomiendes?",
+  npsSubtitle: "En una escala del 0 al 10",
+  npsRatingGroupLabel: "Probabilidad del 0 al 10",
+  npsRatingButtonLabel: "Puntuación {rating} de 10",
+  npsLowLabel: "Poco probable",
+  npsHighLabel: "Muy probable",
+  npsCommentPlaceholder: "¿Qué podríamos mejorar? (opcional)...",
+  feedbackCommentLabel: "Comentarios adicionales",
+  feedbackSubmit: "Enviar",
+  feedbackSubmitting: "Enviando...",
+  feedbackSkip: "Omitir",
+  searchButtonLabel: "Buscar en la conversación",
+  searchPlaceholder: "Buscar en la conversación",
+  searchResults: "{current} de {total}",
+  searchNoResults: "Sin resultados",
+  searchPrevious: "Resultado anterior",
+  searchNext: "Resultado siguiente",
+  searchClose: "Cerrar búsqueda",
+  exportButtonLabel: "Exportar conversación",
+  exportMarkdown: "Markdown (.md)",
+  exportHtml: "Página web (.html)",
+  exportText: "Texto sin formato (.txt)",
+  exportJson: "JSON (.json)",
+  transcriptUserLabel: "Tú",
+  transcriptAssistantLabel: "Asistente",
+  transcriptAttachment: "Adjunto: {name}",
+  codeLabel: "Código",
+  codeCopy: "Copiar código",
+  codeDownload: "Descargar archivo",
+  codeWrap: "Ajustar líneas",
+  threadListTitle: "Conversaciones",
+  threadUntitled: "Nueva conversación",
+  threadNew: "Nueva conversación",
+  threadListClose: "Cerrar conversaciones",
+  threadRename: "Cambiar nombre de la conversación",
+  threadRenameLabel: "Título de la conversación",
+  threadDelete: "Eliminar conversación",
+  approvalTitle: "¿Permitir esta acción?",
+  approvalAllow: "Permitir",
+  approvalAlwaysAllow: "Permitir siempre",
+  approvalDeny: "Denegar",
+  approvalPending: "Esperando aprobación",
+  approvalApproved: "Permitido",
+  approvalDenied: "Denegado",
+  approvalExpired: "Caducado",
+  quotaExhausted: "Límite de mensajes alcanzado. Podrás volver a enviar en {time}.",
+  quotaExhaustedUnknown: "Límite de mensajes alcanzado. Inténtalo de nuevo más tarde.",
+  quotaRemaining: "Quedan {count} mensajes",
+  quotaRestored: "Ya puedes volver a enviar mensajes.",
+  headerStatus: "En línea y listo para ayudar",
+  loadingLabel: "Cargando"
+};
+
+const fr: AgentWidgetMessages = {
+  welcomeTitle: "Bonjour 👋",
+  welcomeSubtitle: "Posez vos questions sur votre compte ou nos produits.",
+  inputPlaceholder: "Comment puis-je vous aider ?",
+  inputLabel: "Message",
+  sendButtonLabel: "Envoyer",
+  sendButtonTooltip: "Envoyer le message",
+  stopButtonLabel: "Arrêter",
+  stoppedMessageLabel: "Réponse interrompue",
+  launcherTitle: "Assistant de chat",
+  launcherSubtitle: "Là pour vous répondre rapidement",
+  closeButtonTooltip: "Fermer le chat",
+  clearChatTooltip: "Effacer la conversation",
+  voiceTooltip: "Lancer la reconnaissance vocale",
+  voiceStopTooltip: "Arrêter la reconnaissance vocale",
+  attachTooltip: "Joindre un fichier",
+  statusIdle: "En ligne",
+  statusConnecting: "Connexion…",
+  statusConnected: "Réponse en cours…",
+  statusError: "Hors ligne",
+  suggestionChips: ["Comment pouvez-vous m'aider ?", "Présentez-moi vos fonctionnalités", "Comment ça marche ?"],
+  messagesLabel: "Messages",
+  userMessageLabel: "Votre message",
+  assistantMessageLabel: "Message de l'assistant",
+  reasoningMessageLabel: "Raisonnement",
+  toolMessageLabel: "Appel d'outil",
+  copyMessage: "Copier le message",
+  upvote: "J'aime",
+  downvote: "Je n'aime pas",
+  previousVersion: "Version précédente",
+  nextVersion: "Version suivante",
+  deliveryQueued: "En attente. Sera envoyé dès votre retour en ligne",
+  deliveryRetryQueued: "Réessayer maintenant",
+  deliverySending: "Envoi…",
+  deliverySent: "Envoyé",
+  deliveryFailed: "Non distribué",
+  deliveryRetry: "Réessayer",
+  reasoningInProgress: "Réflexion...",
+  reasoningWaiting: "En attente",
+  reasoningDuration: "A réfléchi pendant {duration}",
+  toolInProgress: "Utilisation d'un outil...",
+  toolDuration: "Outil utilisé pendant {duration}",
+  toolStarting: "Démarrage",
+  toolRunning: "En cours",
+  toolArguments: "Arguments",
+  toolActivity: "Activité",
+  toolResult: "Résultat",
+  csatLabel: "Avis de satisfaction",
+  csatTitle: "Êtes-vous satisfait ?",
+  csatSubtitle: "Merci d'évaluer votre expérience",
+  csatRatingGroupLabel: "Note de satisfaction de 1 à 5",
+  csatRatingLabels: ["Très insatisfait", "Insatisfait", "Neutre", "Satisfait", "Très satisfait"],
+  csatRatingButtonLabel: "{rating} sur 5 : {label}",
+  csatCommentPlaceholder: "Partagez votre avis (facultatif)...",
+  npsLabel: "Avis Net Promoter Score",
+  npsTitle: "Quelle est la probabilité que vous nous recommandiez ?",
+  npsSubtitle: "Sur une échelle de 0 à 10",
+  npsRatingGroupLabel: "Probabilité de 0 à 10",
+  npsRatingButtonLabel: "Note de {rating} sur 10",
+  npsLowLabel: "Peu probable",
+  npsHighLabel: "Très probable",
+  npsCommentPlaceholder: "Que pourrions-nous améliorer ? (facultatif)...",
+  feedbackCommentLabel: "Commentaires supplémentaires",
+  feedbackSubmit: "Envoyer",
+  feedbackSubmitting: "Envoi...",
+  feedbackSkip: "Passer",
+  searchButtonLabel: "Rechercher dans la conversation",
+  searchPlaceholder: "Rechercher dans la conversation",
+  searchResults: "{current} sur {total}",
+  searchNoResults: "Aucun résultat",
+  searchPrevious: "Résultat précédent",
+  searchNext: "Résultat suivant",
+  searchClose: "Fermer la recherche",
+  exportButtonLabel: "Exporter la conversation",
+  exportMarkdown: "Markdown (.md)",
+  exportHtml: "Page web (.html)",
+  exportText: "Texte brut (.txt)",
+  exportJson: "JSON (.json)",
+  transcriptUserLabel: "Vous",
+  transcriptAssistantLabel: "Assistant",
+  transcriptAttachment: "Pièce jointe : {name}",
+  codeLabel: "Code",
+  codeCopy: "Copier le code",
+  codeDownload: "Télécharger le fichier",
+  codeWrap: "Retour à la ligne",
+  threadListTitle: "Conversations",
+  threadUntitled: "Nouvelle conversation",
+  threadNew: "Nouvelle conversation",
+  threadListClose: "Fermer les conversations",
+  threadRename: "Renommer la conversation",
+  threadRenameLabel: "Titre de la conversation",
+  threadDelete: "Supprimer la conversation",
+  approvalTitle: "Autoriser cette action ?",
+  approvalAllow: "Autoriser",
+  approvalAlwaysAllow: "Toujours autoriser",
+  approvalDeny: "Refuser",
+  approvalPending: "En attente d'approbation",
+  approvalApproved: "Autorisé",
+  approvalDenied: "Refusé",
+  approvalExpired: "Expiré",
+  quotaExhausted: "Limite de messages atteinte. Vous pourrez à nouveau envoyer dans {time}.",
+  quotaExhaustedUnknown: "Limite de messages atteinte. Veuillez réessayer plus tard.",
+  quotaRemaining: "{count} messages restants",
+  quotaRestored: "Vous pouvez à nouveau envoyer des messages.",
+  headerStatus: "En ligne et prêt à vous aider",
+  loadingLabel: "Chargement"
+};
+
+const de: AgentWidgetMessages = {
+  welcomeTitle: "Hallo 👋",
+  welcomeSubtitle: "Fragen Sie alles zu Ihrem Konto oder unseren Produkten.",
+  inputPlaceholder: "Wie kann ich helfen?",
+  inputLabel: "Nachricht",
+  sendButtonLabel: "Senden",
+  sendButtonTooltip: "Nachricht senden",
+  stopButtonLabel: "Stoppen",
+  stoppedMessageLabel: "Antwort abgebrochen",
+  launcherTitle: "Chat-Assistent",
+  launcherSubtitle: "Schnelle Antworten auf Ihre Fragen",
+  closeButtonTooltip: "Chat schließen",
+  clearChatTooltip: "Chat leeren",
+  voiceTooltip: "Spracherkennung starten",
+  voiceStopTooltip: "Spracherkennung stoppen",
+  attachTooltip: "Datei anhängen",
+  statusIdle: "Online",
+  statusConnecting: "Verbinde…",
+  statusConnected: "Antwortet…",
+  statusError: "Offline",
+  suggestionChips: ["Wobei kannst du mir helfen?", "Erzähl mir von deinen Funktionen", "Wie funktioniert das?"],
+  messagesLabel: "Nachrichten",
+  userMessageLabel: "Ihre Nachricht",
+  assistantMessageLabel: "Nachricht des Assistenten",
+  reasoningMessageLabel: "Überlegung",
+  toolMessageLabel: "Werkzeugaufruf",
+  copyMessage: "Nachricht kopieren",
+  upvote: "Hilfreich",
+  downvote: "Nicht hilfreich",
+  previousVersion: "Vorherige Version",
+  nextVersion: "Nächste Version",
+  deliveryQueued: "In der Warteschlange. Wird gesendet, sobald Sie wieder online sind",
+  deliveryRetryQueued: "Jetzt erneut versuchen",
+  deliverySending: "Wird gesendet…",
+  deliverySent: "Gesendet",
+  deliveryFailed: "Nicht zugestellt",
+  deliveryRetry: "Erneut versuchen",
+  reasoningInProgress: "Denkt nach...",
+  reasoningWaiting: "Wartet",
+  reasoningDuration: "Hat {duration} nachgedacht",
+  toolInProgress: "Verwendet Werkzeug...",
+  toolDuration: "Werkzeug {duration} verwendet",
+  toolStarting: "Startet",
+  toolRunning: "Läuft",
+  toolArguments: "Argumente",
+  toolActivity: "Aktivität",
+  toolResult: "Ergebnis",
+  csatLabel: "Zufriedenheitsumfrage",
+  csatTitle: "Wie zufrieden sind Sie?",
+  csatSubtitle: "Bitte bewerten Sie Ihre Erfahrung",
+  csatRatingGroupLabel: "Zufriedenheit von 1 bis 5",
+  csatRatingLabels: ["Sehr unzufrieden", "Unzufrieden", "Neutral", "Zufrieden", "Sehr zufrieden"],
+  csatRatingButtonLabel: "{rating} von 5: {label}",
+  csatCommentPlaceholder: "Ihre Meinung (optional)...",
+  npsLabel: "Net-Promoter-Score-Umfrage",
+  npsTitle: "Wie wahrscheinlich ist es, dass Sie uns weiterempfehlen?",
+  npsSubtitle: "Auf einer Skala von 0 bis 10",
+  npsRatingGroupLabel: "Wahrscheinlichkeit von 0 bis 10",
+  npsRatingButtonLabel: "Bewertung {rating} von 10",
+  npsLowLabel: "Unwahrscheinlich",
+  npsHighLabel: "Sehr wahrscheinlich",
+  npsCommentPlaceholder: "Was können wir besser machen? (optional)...",
+  feedbackCommentLabel: "Weitere Anmerkungen",
+  feedbackSubmit: "Absenden",
+  feedbackSubmitting: "Wird gesendet...",
+  feedbackSkip: "Überspringen",
+  searchButtonLabel: "Unterhaltung durchsuchen",
+  searchPlaceholder: "Unterhaltung durchsuchen",
+  searchResults: "{current} von {total}",
+  searchNoResults: "Keine Treffer",
+  searchPrevious: "Vorheriger Treffer",
+  searchNext: "Nächster Treffer",
+  searchClose: "Suche schließen",
+  exportButtonLabel: "Unterhaltung exportieren",
+  exportMarkdown: "Markdown (.md)",
+  exportHtml: "Webseite (.html)",
+  exportText: "Nur Text (.txt)",
+  exportJson: "JSON (.json)",
+  transcriptUserLabel: "Sie",
+  transcriptAssistantLabel: "Assistent",
+  transcriptAttachment: "Anhang: {name}",
+  codeLabel: "Code",
+  codeCopy: "Code kopieren",
+  codeDownload: "Datei herunterladen",
+  codeWrap: "Zeilen umbrechen",
+  threadListTitle: "Unterhaltungen",
+  threadUntitled: "Neue Unterhaltung",
+  threadNew: "Neue Unterhaltung",
+  threadListClose: "Unterhaltungen schließen",
+  threadRename: "Unterhaltung umbenennen",
+  threadRenameLabel: "Titel der Unterhaltung",
+  threadDelete: "Unterhaltung löschen",
+  approvalTitle: "Diese Aktion erlauben?",
+  approvalAllow: "Erlauben",
+  approvalAlwaysAllow: "Immer erlauben",
+  approvalDeny: "Ablehnen",
+  approvalPending: "Wartet auf Freigabe",
+  approvalApproved: "Erlaubt",
+  approvalDenied: "Abgelehnt",
+  approvalExpired: "Abgelaufen",
+  quotaExhausted: "Nachrichtenlimit erreicht. Sie können in {time} wieder senden.",
+  quotaExhaustedUnknown: "Nachrichtenlimit erreicht. Bitte versuchen Sie es später erneut.",
+  quotaRemaining: "Noch {count} Nachrichten",
+  quotaRestored: "Sie können wieder Nachrichten senden.",
+  headerStatus: "Online und bereit zu helfen",
+  loadingLabel: "Wird geladen"
+};
+
+const ar: AgentWidgetMessages = {
+  welcomeTitle: "مرحبًا 👋",
+  welcomeSubtitle: "اسأل عن أي شيء يخص حسابك أو منتجاتنا.",
+  inputPlaceholder: "كيف يمكنني مساعدتك؟",
+  inputLabel: "رسالة",
+  sendButtonLabel: "إرسال",
+  sendButtonTooltip: "إرسال الرسالة",
+  stopButtonLabel: "إيقاف",
+  stoppedMessageLabel: "تم إيقاف الرد",
+  launcherTitle: "مساعد المحادثة",
+  launcherSubtitle: "هنا لمساعدتك في الحصول على إجابات سريعة",
+  closeButtonTooltip: "إغلاق المحادثة",
+  clearChatTooltip: "مسح المحادثة",
+  voiceTooltip: "بدء التعرف على الصوت",
+  voiceStopTooltip: "إيقاف التعرف على الصوت",
+  attachTooltip: "إرفاق ملف",
+  statusIdle: "متصل",
+  statusConnecting: "جارٍ الاتصال…",
+  statusConnected: "جارٍ الرد…",
+  statusError: "غير متصل",
+  suggestionChips: ["بماذا يمكنك مساعدتي؟", "أخبرني عن ميزاتك", "كيف يعمل هذا؟"],
+  messagesLabel: "الرسائل",
+  userMessageLabel: "رسالتك",
+  assistantMessageLabel: "رسالة المساعد",
+  reasoningMessageLabel: "التفكير",
+  toolMessageLabel: "استدعاء أداة",
+  copyMessage: "نسخ الرسالة",
+  upvote: "مفيد",
+  downvote: "غير مفيد",
+  previousVersion: "الإصدار السابق",
+  nextVersion: "الإصدار التالي",
+  deliveryQueued: "في الانتظار. سيتم الإرسال عند عودة الاتصال",
+  deliveryRetryQueued: "إعادة المحاولة الآن",
+  deliverySending: "جارٍ الإرسال…",
+  deliverySent: "تم الإرسال",
+  deliveryFailed: "لم يتم التسليم",
+  deliveryRetry: "إعادة المحاولة",
+  reasoningInProgress: "جارٍ التفكير...",
+  reasoningWaiting: "في الانتظار",
+  reasoningDuration: "فكّر لمدة {duration}",
+  toolInProgress: "جارٍ استخدام أداة...",
+  toolDuration: "استخدم الأداة لمدة {duration}",
+  toolStarting: "جارٍ البدء",
+  toolRunning: "قيد التشغيل",
+  toolArguments: "المعاملات",
+  toolActivity: "النشاط",
+  toolResult: "النتيجة",
+  csatLabel: "تقييم الرضا",
+  csatTitle: "ما مدى رضاك؟",
+  csatSubtitle: "يرجى تقييم تجربتك",
+  csatRatingGroupLabel: "تقييم الرضا من 1 إلى 5",
+  csatRatingLabels: ["غير راضٍ إطلاقًا", "غير راضٍ", "محايد", "راضٍ", "راضٍ جدًا"],
+  csatRatingButtonLabel: "{rating} من 5: {label}",
+  csatCommentPlaceholder: "شاركنا رأيك (اختياري)...",
+  npsLabel: "تقييم صافي نقاط الترويج",
+  npsTitle: "ما مدى احتمال أن توصي بنا؟",
+  npsSubtitle: "على مقياس من 0 إلى 10",
+  npsRatingGroupLabel: "الاحتمال من 0 إلى 10",
+  npsRatingButtonLabel: "التقييم {rating} من 10",
+  npsLowLabel: "غير محتمل",
+  npsHighLabel: "محتمل جدًا",
+  npsCommentPlaceholder: "ما الذي يمكننا تحسينه؟ (اختياري)...",
+  feedbackCommentLabel: "تعليقات إضافية",
+  feedbackSubmit: "إرسال",
+  feedbackSubmitting: "جارٍ الإرسال...",
+  feedbackSkip: "تخطي",
+  searchButtonLabel: "البحث في المحادثة",
+  searchPlaceholder: "البحث في المحادثة",
+  searchResults: "{current} من {total}",
+  searchNoResults: "لا توجد نتائج",
+  searchPrevious: "النتيجة السابقة",
+  searchNext: "النتيجة التالية",
+  searchClose: "إغلاق البحث",
+  exportButtonLabel: "تصدير المحادثة",
+  exportMarkdown: "Markdown (.md)",
+  exportHtml: "صفحة ويب (.html)",
+  exportText: "نص عادي (.txt)",
+  exportJson: "JSON (.json)",
+  transcriptUserLabel: "أنت",
+  transcriptAssistantLabel: "المساعد",
+  transcriptAttachment: "مرفق: {name}",
+  codeLabel: "شيفرة",
+  codeCopy: "نسخ الشيفرة",
+  codeDownload: "تنزيل الملف",
+  codeWrap: "التفاف الأسطر",
+  threadListTitle: "المحادثات",
+  threadUntitled: "محادثة جديدة",
+  threadNew: "محادثة جديدة",
+  threadListClose: "إغلاق المحادثات",
+  threadRename: "إعادة تسمية المحادثة",
+  threadRenameLabel: "عنوان المحادثة",
+  threadDelete: "حذف المحادثة",
+  approvalTitle: "هل تسمح بهذا الإجراء؟",
+  approvalAllow: "سماح",
+  approvalAlwaysAllow: "السماح دائمًا",
+  approvalDeny: "رفض",
+  approvalPending: "بانتظار الموافقة",
+  approvalApproved: "تم السماح",
+  approvalDenied: "تم الرفض",
+  approvalExpired: "انتهت الصلاحية",
+  quotaExhausted: "تم بلوغ حد الرسائل. يمكنك الإرسال مجددًا خلال {time}.",
+  quotaExhaustedUnknown: "تم بلوغ حد الرسائل. يُرجى المحاولة لاحقًا.",
+  quotaRemaining: "الرسائل المتبقية: {count}",
+  quotaRestored: "يمكنك إرسال الرسائل مجددًا.",
+  headerStatus: "متصل وجاهز للمساعدة",
+  loadingLabel: "جارٍ التحميل"
+};
+
+/**
+ * Bundled translations, keyed by language
+ */
+export const AGENT_WIDGET_LOCALES: Record<string, AgentWidgetMessages> = { en, es, fr, de, ar };
+
+const RTL_LANGUAGES = new Set(["ar", "fa", "he", "iw", "ps", "ur", "yi"]);
+
+const language = (locale: string) => locale.toLowerCase().split(/[-_]/)[0];
+
+const canonicalLocale = (locale: string | undefined) => {
+  if (!locale) return null;
+  try {
+    return Intl.getCanonicalLocales(locale)[0] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const hostDocument = () => (typeof document !== "undefined" ? document.documentElement : null);
+
+/**
+ * The locale the widget renders in: `config.locale`, else the host page's
+ * `<html lang>`, else "en". The widget matches the page around it rather than
+ * the browser. Region tags are kept (for date and number formats) even when
+ * only the language has a bundle.
+ */
+export const resolveLocale = (config?: Pick<AgentWidgetConfig, "locale">): string =>
+  canonicalLocale(config?.locale) ??
+  (config?.locale === undefined ? canonicalLocale(hostDocument()?.lang) : null) ??
+  "en";
+
+/**
+ * The locale sent to the backend as `metadata.locale`: `config.locale`, else
+ * the browser language, so replies can be in the user's language even when the
+ * widget's own strings follow the host page
+ */
+export const resolveRequestLocale = (config?: Pick<AgentWidgetConfig, "locale">): string =>
+  (config?.locale === undefined && typeof navigator !== "undefined"
+    ? canonicalLocale(navigator.language)
+    : null) ?? resolveLocale(config);
+
+/**
+ * Text direction for the widget: `config.direction`, else right-to-left for
+ * Arabic, Hebrew, Persian and Urdu locales when `locale` is set (or
+ * `direction` is `"auto"`), else the host page's `<html dir>`, else "ltr"
+ */
+export const resolveDirection = (
+  config?: Pick<AgentWidgetConfig, "locale" | "direction">
+): AgentWidgetTextDirection => {
+  if (config?.direction === "ltr" || config?.direction === "rtl") return config.direction;
+  if (config?.locale !== undefined || config?.direction === "auto") {
+    return RTL_LANGUAGES.has(language(resolveLocale(config))) ? "rtl" : "ltr";
+  }
+  const hostDirection = hostDocument()?.dir.toLowerCase();
+  return hostDirection === "rtl" ? "rtl" : "ltr";
+};
+
+const interpolate = (text: string, values?: Record<string, string | number>) =>
+  values ? text.replace(/\{(\w+)\}/g, (match, name) => (name in values ? String(values[name]) : match)) : text;
+
+/**
+ * Looks strings up in `config.messages`, then the locale's bundle, then English.
+ *
+ * @example
+ * ```ts
+ * const { t } = createTranslator({ locale: "fr" });
+ * t("sendButtonLabel"); // "Envoyer"
+ * ```
+ */
+export const createTranslator = (
+  config?: Pick<AgentWidgetConfig, "locale" | "messages" | "direction">
+): AgentWidgetTranslator => {
+  const locale = resolveLocale(config);
+  const bundle = AGENT_WIDGET_LOCALES[language(locale)] ?? en;
+  const overrides = config?.messages ?? {};
+  const lookup = <K extends keyof AgentWidgetMessages>(key: K): AgentWidgetMessages[K] =>
+    (overrides[key] as AgentWidgetMessages[K] | undefined) ?? bundle[key] ?? en[key];
+
+  return {
+    locale,
+    direction: resolveDirection(config),
+    t: (key, values) => interpolate(lookup(key), values),
+    list: (key) => lookup(key)
+  };
+};
+
+/**
+ * English strings, for components rendered outside a widget
+ */
+export const DEFAULT_TRANSLATOR = createTranslator({ locale: "en" });
+
+/**
+ * The default config texts in the translator's language. Merged under the
+ * user's config, so explicit options keep precedence over translations.
+ */
+export const getLocalizedDefaults = (i18n: AgentWidgetTranslator) => ({
+  launcher: {
+    title: i18n.t("launcherTitle"),
+    subtitle: i18n.t("launcherSubtitle"),
+    closeButtonTooltipText: i18n.t("closeButtonTooltip")
+  },
+  clearChat: {
+    tooltipText: i18n.t("clearChatTooltip")
+  },
+  copy: {
+    welcomeTitle: i18n.t("welcomeTitle"),
+    welcomeSubtitle: i18n.t("welcomeSubtitle"),
+    inputPlaceholder: i18n.t("inputPlaceholder"),
+    sendButtonLabel: i18n.t("sendButtonLabel"),
+    stopButtonLabel: i18n.t("stopButtonLabel"),
+    stoppedMessageLabel: i18n.t("stoppedMessageLabel")
+  },
+  sendButton: {
+    tooltipText: i18n.t("sendButtonTooltip")
+  },
+  statusIndicator: {
+    idleText: i18n.t("statusIdle"),
+    connectingText: i18n.t("statusConnecting"),
+    connectedText: i18n.t("statusConnected"),
+    errorText: i18n.t("statusError")
+  },
+  voiceRecognition: {
+    tooltipText: i18n.t("voiceTooltip")
+  },
+  suggestionChips: i18n.list("suggestionChips")
+});
+
+const sameText = (a: unknown, b: unknown) =>
+  Array.isArray(a) && Array.isArray(b)
+    ? a.length === b.length && a.every((item, index) => item === b[index])
+    : a === b;
+
+/**
+ * Switch a merged config to another language: texts still equal to the
+ * previous language's defaults are replaced, customized ones are kept.
+ */
+export const relocalizeConfig = (
+  config: AgentWidgetConfig,
+  previous: AgentWidgetTranslator,
+  next: AgentWidgetTranslator
+): AgentWidgetConfig => {
+  const from = getLocalizedDefaults(previous);
+  const to = getLocalizedDefaults(next);
+  const swap = <T extends object>(
+    current: T | undefined,
+    before: Record<string, unknown>,
+    after: Record<string, unknown>
+  ): T | undefined => {
+    if (!current) return current;
+    const result: Record<string, unknown> = { ...(current as Record<string, unknown>) };
+    Object.entries(after).forEach(([key, value]) => {
+      if (sameText(result[key], before[key])) {
+        result[key] = value;
+      }
+    });
+    return result as T;
+  };
+  const launcher = swap(config.launcher, from.launcher, to.launcher);
+  if (launcher?.clearChat) {
+    launcher.clearChat = swap(launcher.clearChat, from.clearChat, to.clearChat);
+  }
+  const chips = sameText(config.suggestionChips, from.suggestionChips)
+    ? to.suggestionChips
+    : config.suggestionChips;
+
+  return {
+    ...config,
+    launcher,
+    copy: swap(config.copy, from.copy, to.copy),
+    sendButton: swap(config.sendButton, from.sendButton, to.sendButton),
+    statusIndicator: swap(config.statusIndicator, from.statusIndicator, to.statusIndicator),
+    voiceRecognition: swap(config.voiceRecognition, from.voiceRecognition, to.voiceRecognition),
+    suggestionChips: chips
+  };
+};
@@ -0,0 +1,182 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createIndexedDBStorageAdapter, pruneStoredMessages } from './indexeddb-storage';
+import { AgentWidgetMessage } from '../types';
+
+const message = (id: string, createdAt: string, content = 'Hello'): AgentWidgetMessage => ({
+  id,
+  role: 'user',
+  content,
+  createdAt
+});
+
+describe('pruneStoredMessages', () => {
+  const now = new Date('2025-01-10T00:00:00.000Z').getTime();
+  const messages = [
+    message('msg_1', '2025-01-01T00:00:00.000Z'),
+    message('msg_2', '2025-01-08T00:00:00.000Z'),
+    message('msg_3', '2025-01-09T00:00:00.000Z', 'x'.repeat(500)),
+    message('msg_4', '2025-01-09T12:00:00.000Z')
+  ];
+
+  it('should drop messages older than maxAgeMs', () => {
+    const kept = pruneStoredMessages(messages, { maxAgeMs: 3 * 24 * 60 * 60 * 1000 }, now);
+    expect(kept.map((m) => m.id)).toEqual(['msg_2', 'msg_3', 'msg_4']);
+  });
+
+  it('should keep the most recent maxMessages', () => {
+    const kept = pruneStoredMessages(messages, { maxMessages: 2 }, now);
+    expect(kept.map((m) => m.id)).toEqual(['msg_3', 'msg_4']);
+  });
+
+  it('should drop the oldest messages once maxBytes is exceeded', () => {
+    const kept = pruneStoredMessages(messages, { maxBytes: 300 }, now);
+    expect(kept.map((m) => m.id)).toEqual(['msg_4']);
+  });
+
+  it('should keep the newest message even when it alone exceeds maxBytes', () => {
+    const kept = pruneStoredMessages(messages, { maxBytes: 10 }, now);
+    expect(kept.map((m) => m.id)).toEqual(['msg_4']);
+  });
+
+  it('should return all messages without a policy', () => {
+    expect(pruneStoredMessages(messages, {}, now)).toEqual(messages);
+  });
+});
+
+describe('createIndexedDBStorageAdapter', () => {
+  let dbCount = 0;
+  const nextDbName = () => `vanilla-agent-test-${++dbCount}`;
+  const imageMessage: AgentWidgetMessage = {
+    id: 'msg_img',
+    role: 'user',
+    content: 'See attached',
+    createdAt: '2025-01-09T00:00:00.000Z',
+    contentParts: [
+      { type: 'text', text: 'See attached' },
+      { type: 'image', image: 'data:image/png;base64,iVBORw0KGgo=', mimeType: 'image/png' }
+    ]
+  };
+
+  const readStore = (dbName: string, storeName: string) =>
+    new Promise<unknown[]>((resolve, reject) => {
+      const request = indexedDB.open(dbName);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const getAll = request.result.transaction(storeName).objectStore(storeName).getAll();
+        getAll.onsuccess = () => {
+          request.result.close();
+          resolve(getAll.result);
+        };
+      };
+    });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should only write new or changed messages', async () => {
+    const adapter = createIndexedDBStorageAdapter({ dbName: nextDbName() });
+    const put = vi.spyOn(IDBObjectStore.prototype, 'put');
+    const messageWrites = () => put.mock.calls.filter(([value]) => (value as { position?: number })?.position !== undefined).length;
+    const first = [message('msg_1', '2025-01-09T00:00:00.000Z'), message('msg_2', '2025-01-09T00:01:00.000Z')];
+
+    await adapter.save!({ messages: first });
+    expect(messageWrites()).toBe(2);
+
+    await adapter.save!({ messages: [...first, message('msg_3', '2025-01-09T00:02:00.000Z')] });
+    expect(messageWrites()).toBe(3);
+
+    await adapter.save!({ messages: [first[0], { ...first[1], content: 'Edited' }] });
+    expect(messageWrites()).toBe(4);
+
+    const loaded = await createIndexedDBStorageAdapter({ dbName: `vanilla-agent-test-${dbCount}` }).load!();
+    expect(loaded?.messages?.map((m) => m.content)).toEqual(['Hello', 'Edited']);
+  });
+
+  it('should store attachments as blobs and restore them on load', async () => {
+    const dbName = nextDbName();
+    const inactive = { ...imageMessage, id: 'msg_old' };
+    await createIndexedDBStorageAdapter({ dbName }).save!({
+      messages: [imageMessage],
+      threads: [
+        { id: 'thread_1', createdAt: inactive.createdAt, updatedAt: inactive.createdAt, messages: [inactive] },
+        { id: 'thread_2', createdAt: inactive.createdAt, updatedAt: inactive.createdAt }
+      ],
+      activeThreadId: 'thread_2'
+    });
+
+    const [record] = (await readStore(dbName, 'messages')) as Array<{ message: AgentWidgetMessage }>;
+    expect(record.message.contentParts?.[1]).toMatchObject({ image: 'idb-blob:msg_img:1' });
+    const [state] = (await readStore(dbName, 'state')) as Array<{ threads: Array<{ messages?: AgentWidgetMessage[] }> }>;
+    expect(state.threads[0].messages?.[0].contentParts?.[1]).toMatchObject({
+      image: 'idb-blob:thread:thread_1:msg_old:1'
+    });
+    expect(await readStore(dbName, 'blobs')).toHaveLength(2);
+
+    const loaded = await createIndexedDBStorageAdapter({ dbName }).load!();
+    expect(loaded?.messages?.[0].contentParts?.[1]).toMatchObject({ image: 'data:image/png;base64,iVBORw0KGgo=' });
+    expect(loaded?.threads?.[0].messages?.[0].contentParts?.[1]).toMatchObject({
+      image: 'data:image/png;base64,iVBORw0KGgo='
+    });
+    expect(loaded?.activeThreadId).toBe('thread_2');
+  });
+
+  it('should prune inactive thread messages', async () => {
+    const dbName = nextDbName();
+    const threadMessages = [message('msg_1', '2025-01-09T00:00:00.000Z'), message('msg_2', '2025-01-09T00:01:00.000Z')];
+    await createIndexedDBStorageAdapter({ dbName, maxMessages: 1 }).save!({
+      messages: [],
+      threads: [{ id: 'thread_1', createdAt: '2025-01-09T00:00:00.000Z', updatedAt: '2025-01-09T00:01:00.000Z', messages: threadMessages }]
+    });
+
+    const loaded = await createIndexedDBStorageAdapter({ dbName }).load!();
+    expect(loaded?.threads?.[0].messages?.map((m) => m.id)).toEqual(['msg_2']);
+  });
+
+  it('should import and remove localStorage state on first load', async () => {
+    const dbName = nextDbName();
+    const localStorage = new Map([
+      ['legacy-state', JSON.stringify({ messages: [message('msg_1', '2025-01-09T00:00:00.000Z')], metadata: { plan: 'pro' } })]
+    ]);
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: (key: string) => localStorage.get(key) ?? null,
+        removeItem: (key: string) => localStorage.delete(key)
+      }
+    });
+
+    const migrated = await createIndexedDBStorageAdapter({ dbName, migrateFromLocalStorage: 'legacy-state' }).load!();
+    expect(migrated?.messages?.map((m) => m.id)).toEqual(['msg_1']);
+    expect(localStorage.has('legacy-state')).toBe(false);
+
+    const loaded = await createIndexedDBStorageAdapter({ dbName, migrateFromLocalStorage: 'legacy-state' }).load!();
+    expect(loaded?.messages?.map((m) => m.id)).toEqual(['msg_1']);
+    expect(loaded?.metadata).toEqual({ plan: 'pro' });
+  });
+
+  it('should keep the newest half of the history when the quota is exceeded', async () => {
+    const dbName = nextDbName();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const put = IDBObjectStore.prototype.put;
+    let failed = false;
+    vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementation(function (this: IDBObjectStore, ...args) {
+      if (!failed && this.name === 'messages') {
+        failed = true;
+        throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      }
+      return put.apply(this, args);
+    });
+    const history = ['msg_1', 'msg_2', 'msg_3', 'msg_4'].map((id, index) =>
+      message(id, `2025-01-09T00:0${index}:00.000Z`)
+    );
+
+    await createIndexedDBStorageAdapter({ dbName }).save!({ messages: history });
+    vi.mocked(IDBObjectStore.prototype.put).mockRestore();
+
+    const loaded = await createIndexedDBStorageAdapter({ dbName }).load!();
+    expect(loaded?.messages?.map((m) => m.id)).toEqual(['msg_3', 'msg_4']);
+    expect(error).toHaveBeenCalledWith('[AgentWidget] Storage quota exceeded, pruning older messages:', expect.any(DOMException));
+  });
+});
@@ -0,0 +1,509 @@
+import type {
+  AgentWidgetMessage,
+  AgentWidgetStorageAdapter,
+  AgentWidgetStoredState,
+  ContentPart
+} from "../types";
+
+const DB_VERSION = 1;
+const MESSAGES_STORE = "messages";
+const BLOBS_STORE = "blobs";
+const STATE_STORE = "state";
+const STATE_KEY = "state";
+const BLOB_REF_PREFIX = "idb-blob:";
+const DEFAULT_DB_NAME = "vanilla-agent";
+const DEFAULT_LOCAL_STORAGE_KEY = "vanilla-agent-state";
+
+export type IndexedDBStorageAdapterOptions = {
+  /**
+   * IndexedDB database name. Use different names for widgets that should not share history.
+   * @default "vanilla-agent"
+   */
+  dbName?: string;
+  /**
+   * Drop messages older than this many milliseconds (based on `createdAt`)
+   */
+  maxAgeMs?: number;
+  /**
+   * Keep at most this many of the most recent messages
+   */
+  maxMessages?: number;
+  /**
+   * Approximate upper bound for stored message data in bytes, attachments included.
+   * The oldest messages are dropped first.
+   */
+  maxBytes?: number;
+  /**
+   * localStorage key to import on first load (the key used by `createLocalStorageAdapter`).
+   * The key is removed after a successful import. Set to `false` to skip migration.
+   * @default "vanilla-agent-state"
+   */
+  migrateFromLocalStorage?: string | false;
+};
+
+export type StoredMessageRetentionPolicy = Pick<
+  IndexedDBStorageAdapterOptions,
+  "maxAgeMs" | "maxMessages" | "maxBytes"
+>;
+
+type MessageRecord = {
+  id: string;
+  position: number;
+  message: AgentWidgetMessage;
+  blobKeys: string[];
+};
+
+type StateRecord = Omit<AgentWidgetStoredState, "messages">;
+
+type StoredThreadCache = {
+  /** Serialized thread messages, used to skip unchanged writes */
+  print: string;
+  /** Messages with attachment data replaced by blob references */
+  messages: AgentWidgetMessage[];
+  blobKeys: string[];
+};
+
+const logError = (message: string, error: unknown) => {
+  if (typeof console !== "undefined") {
+    // eslint-disable-next-line no-console
+    console.error(`[AgentWidget] ${message}`, error);
+  }
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED");
+
+const dataUrlToBlob = (dataUrl: string): Blob | null => {
+  const match = /^data:([^;,]*)((?:;[^;,]*)*?)(;base64)?,([\s\S]*)$/.exec(dataUrl);
+  if (!match) return null;
+  const [, mimeType, , base64, data] = match;
+  try {
+    if (base64) {
+      const binary = atob(data);
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+      }
+      return new Blob([bytes], { type: mimeType });
+    }
+    return new Blob([decodeURIComponent(data)], { type: mimeType || "text/plain" });
+  } catch {
+    return null;
+  }
+};
+
+const blobToDataUrl = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return `data:${blob.type || "application/octet-stream"};base64,${btoa(binary)}`;
+};
+
+const getPartData = (part: ContentPart) =>
+  part.type === "image" ? part.image : part.type === "file" ? part.data : null;
+
+const withPartData = (part: ContentPart, data: string): ContentPart =>
+  part.type === "image"
+    ? { ...part, image: data }
+    : part.type === "file"
+      ? { ...part, data }
+      : part;
+
+/**
+ * Move inline attachment data out of a message so it can be stored as Blobs.
+ * `keyPrefix` keeps keys of inactive thread messages apart from the active ones.
+ */
+const extractBlobs = (message: AgentWidgetMessage, keyPrefix = "") => {
+  const blobs: Array<[string, Blob]> = [];
+  if (!message.contentParts?.length) {
+    return { message, blobs };
+  }
+  const contentParts = message.contentParts.map((part, index) => {
+    const data = getPartData(part);
+    if (!data || !data.startsWith("data:")) return part;
+    const blob = dataUrlToBlob(data);
+    if (!blob) return part;
+    const key = `${keyPrefix}${message.id}:${index}`;
+    blobs.push([key, blob]);
+    return withPartData(part, `${BLOB_REF_PREFIX}${key}`);
+  });
+  return { message: { ...message, contentParts }, blobs };
+};
+
+const getBlobRef = (part: ContentPart) => {
+  const data = getPartData(part);
+  return data?.startsWith(BLOB_REF_PREFIX) ? data.slice(BLOB_REF_PREFIX.length) : null;
+};
+
+const getBlobRefs = (messages: AgentWidgetMessage[]) =>
+  messages.flatMap((message) =>
+    (message.contentParts ?? []).map(getBlobRef).filter((key): key is string => key !== null)
+  );
+
+/**
+ * Replace blob references in a message with data URLs
+ */
+const rehydrateMessage = async (
+  message: AgentWidgetMessage,
+  blobs: Map<string, Blob>
+): Promise<AgentWidgetMessage> => {
+  if (!message.contentParts?.length) return message;
+  const contentParts: ContentPart[] = [];
+  for (const part of message.contentParts) {
+    const key = getBlobRef(part);
+    const blob = key ? blobs.get(key) : undefined;
+    contentParts.push(blob ? withPartData(part, await blobToDataUrl(blob)) : part);
+  }
+  return { ...message, contentParts };
+};
+
+const estimateMessageBytes = (message: AgentWidgetMessage) => JSON.stringify(message).length;
+
+/**
+ * Apply age, count and size limits to a message list, dropping the oldest messages first.
+ * The size limit always keeps the newest message, even when it alone is larger.
+ */
+export const pruneStoredMessages = (
+  messages: AgentWidgetMessage[],
+  policy: StoredMessageRetentionPolicy,
+  now = Date.now()
+): AgentWidgetMessage[] => {
+  let kept = messages;
+
+  if (policy.maxAgeMs !== undefined) {
+    const cutoff = now - policy.maxAgeMs;
+    kept = kept.filter((message) => {
+      const createdAt = new Date(message.createdAt).getTime();
+      return Number.isNaN(createdAt) || createdAt >= cutoff;
+    });
+  }
+
+  if (policy.maxMessages !== undefined && kept.length > policy.maxMessages) {
+    kept = kept.slice(kept.length - policy.maxMessages);
+  }
+
+  if (policy.maxBytes !== undefined) {
+    let total = 0;
+    let start = kept.length;
+    while (start > 0) {
+      const size = estimateMessageBytes(kept[start - 1]);
+      if (total + size > policy.maxBytes && start < kept.length) break;
+      total += size;
+      start--;
+    }
+    kept = kept.slice(start);
+  }
+
+  return kept;
+};
+
+/**
+ * Creates a storage adapter backed by IndexedDB.
+ * Messages are written incrementally (only new or changed messages hit the database),
+ * image/file attachments are stored as Blobs, and state saved by
+ * `createLocalStorageAdapter` is imported on first load.
+ */
+export const createIndexedDBStorageAdapter = (
+  options: IndexedDBStorageAdapterOptions = {}
+): AgentWidgetStorageAdapter => {
+  const dbName = options.dbName ?? DEFAULT_DB_NAME;
+  const migrationKey =
+    options.migrateFromLocalStorage === false
+      ? null
+      : options.migrateFromLocalStorage ?? DEFAULT_LOCAL_STORAGE_KEY;
+
+  let dbPromise: Promise<IDBDatabase | null> | null = null;
+  // Serialized form of each stored message, used to skip unchanged writes
+  const fingerprints = new Map<string, string>();
+  const blobKeysById = new Map<string, string[]>();
+  const threadCache = new Map<string, StoredThreadCache>();
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  const getDb = () => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        resolve(null);
+        return;
+      }
+      try {
+        const request = indexedDB.open(dbName, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(MESSAGES_STORE)) {
+            db.createObjectStore(MESSAGES_STORE, { keyPath: "id" });
+          }
+          if (!db.objectStoreNames.contains(BLOBS_STORE)) {
+            db.createObjectStore(BLOBS_STORE);
+          }
+          if (!db.objectStoreNames.contains(STATE_STORE)) {
+            db.createObjectStore(STATE_STORE);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          logError("Failed to open IndexedDB:", request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        logError("Failed to open IndexedDB:", error);
+        resolve(null);
+      }
+    });
+    return dbPromise;
+  };
+
+  const fingerprint = (message: AgentWidgetMessage, position: number) =>
+    `${position}:${JSON.stringify(message)}`;
+
+  const writeState = async (
+    db: IDBDatabase,
+    state: AgentWidgetStoredState,
+    messages: AgentWidgetMessage[]
+  ) => {
+    const nextFingerprints = new Map<string, string>();
+    const changed: Array<{ record: MessageRecord; blobs: Array<[string, Blob]> }> = [];
+
+    messages.forEach((message, position) => {
+      const print = fingerprint(message, position);
+      nextFingerprints.set(message.id, print);
+      if (fingerprints.get(message.id) === print) return;
+      const extracted = extractBlobs(message);
+      changed.push({
+        record: {
+          id: message.id,
+          position,
+          message: extracted.message,
+          blobKeys: extracted.blobs.map(([key]) => key)
+        },
+        blobs: extracted.blobs
+      });
+    });
+
+    const removedIds = [...fingerprints.keys()].filter((id) => !nextFingerprints.has(id));
+
+    // Inactive threads live in the state record; prune them and move their attachments to blobs too
+    const nextThreadCache = new Map<string, StoredThreadCache>();
+    const threadBlobs: Array<[string, Blob]> = [];
+    const threads = state.threads?.map((thread) => {
+      if (!thread.messages) return thread;
+      const threadMessages = pruneStoredMessages(
+        thread.messages.map((message) => ({ ...message, streaming: false })),
+        options
+      );
+      const print = JSON.stringify(threadMessages);
+      let cached = threadCache.get(thread.id);
+      if (cached?.print !== print) {
+        const extracted = threadMessages.map((message) =>
+          extractBlobs(message, `thread:${thread.id}:`)
+        );
+        extracted.forEach(({ blobs }) => threadBlobs.push(...blobs));
+        cached = {
+          print,
+          messages: extracted.map((entry) => entry.message),
+          blobKeys: extracted.flatMap(({ blobs }) => blobs.map(([key]) => key))
+        };
+      }
+      nextThreadCache.set(thread.id, cached);
+      return { ...thread, messages: cached.messages };
+    });
+    const liveThreadBlobKeys = new Set(
+      [...nextThreadCache.values()].flatMap((entry) => entry.blobKeys)
+    );
+    const staleThreadBlobKeys = [...threadCache.values()]
+      .flatMap((entry) => entry.blobKeys)
+      .filter((key) => !liveThreadBlobKeys.has(key));
+
+    const transaction = db.transaction([MESSAGES_STORE, BLOBS_STORE, STATE_STORE], "readwrite");
+    const done = transactionDone(transaction);
+    const messageStore = transaction.objectStore(MESSAGES_STORE);
+    const blobStore = transaction.objectStore(BLOBS_STORE);
+
+    removedIds.forEach((id) => {
+      messageStore.delete(id);
+      blobKeysById.get(id)?.forEach((key) => blobStore.delete(key));
+    });
+
+    changed.forEach(({ record, blobs }) => {
+      blobKeysById
+        .get(record.id)
+        ?.filter((key) => !record.blobKeys.includes(key))
+        .forEach((key) => blobStore.delete(key));
+      blobs.forEach(([key, blob]) => blobStore.put(blob, key));
+      messageStore.put(record);
+    });
+
+    staleThreadBlobKeys.forEach((key) => blobStore.delete(key));
+    threadBlobs.forEach(([key, blob]) => blobStore.put(blob, key));
+
+    const { messages: _messages, ...rest } = state;
+    const stateRecord: StateRecord = threads ? { ...rest, threads } : rest;
+    transaction.objectStore(STATE_STORE).put(stateRecord, STATE_KEY);
+
+    await done;
+
+    threadCache.clear();
+    nextThreadCache.forEach((entry, id) => threadCache.set(id, entry));
+
+    removedIds.forEach((id) => {
+      fingerprints.delete(id);
+      blobKeysById.delete(id);
+    });
+    changed.forEach(({ record }) => blobKeysById.set(record.id, record.blobKeys));
+    nextFingerprints.forEach((print, id) => fingerprints.set(id, print));
+  };
+
+  const persist = async (state: AgentWidgetStoredState) => {
+    const db = await getDb();
+    if (!db) return;
+    const messages = pruneStoredMessages(
+      (state.messages ?? []).map((message) => ({ ...message, streaming: false })),
+      options
+    );
+    try {
+      await writeState(db, state, messages);
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      // Out of space: keep the newest half of the history and try once more
+      const reduced = messages.slice(Math.floor(messages.length / 2));
+      logError("Storage quota exceeded, pruning older messages:", error);
+      await writeState(db, state, reduced);
+    }
+  };
+
+  const readState = async (db: IDBDatabase): Promise<AgentWidgetStoredState | null> => {
+    const transaction = db.transaction([MESSAGES_STORE, BLOBS_STORE, STATE_STORE], "readonly");
+    const stateRecord = await requestToPromise<StateRecord | undefined>(
+      transaction.objectStore(STATE_STORE).get(STATE_KEY)
+    );
+    const records = await requestToPromise<MessageRecord[]>(
+      transaction.objectStore(MESSAGES_STORE).getAll()
+    );
+    if (!stateRecord && records.length === 0) return null;
+
+    const blobStore = transaction.objectStore(BLOBS_STORE);
+    const threadBlobKeys = (stateRecord?.threads ?? []).flatMap((thread) =>
+      getBlobRefs(thread.messages ?? [])
+    );
+    const blobs = new Map<string, Blob>();
+    for (const key of [...records.flatMap((record) => record.blobKeys), ...threadBlobKeys]) {
+      const blob = await requestToPromise<Blob | undefined>(blobStore.get(key));
+      if (blob) blobs.set(key, blob);
+    }
+
+    const sorted = [...records].sort((a, b) => a.position - b.position);
+    const messages: AgentWidgetMessage[] = [];
+    for (const record of sorted) {
+      const message = await rehydrateMessage(record.message, blobs);
+      messages.push(message);
+      fingerprints.set(message.id, fingerprint(message, record.position));
+      blobKeysById.set(message.id, record.blobKeys);
+    }
+
+    let threads = stateRecord?.threads;
+    if (threads) {
+      threads = await Promise.all(
+        threads.map(async (thread) => {
+          if (!thread.messages) return thread;
+          const stored = thread.messages;
+          const restored = await Promise.all(
+            stored.map((message) => rehydrateMessage(message, blobs))
+          );
+          threadCache.set(thread.id, {
+            print: JSON.stringify(restored),
+            messages: stored,
+            blobKeys: getBlobRefs(stored)
+          });
+          return { ...thread, messages: pruneStoredMessages(restored, options) };
+        })
+      );
+    }
+
+    return {
+      ...stateRecord,
+      ...(threads ? { threads } : {}),
+      messages: pruneStoredMessages(messages, options)
+    };
+  };
+
+  const migrateFromLocalStorage = async (): Promise<AgentWidgetStoredState | null> => {
+    if (!migrationKey || typeof window === "undefined" || !window.localStorage) {
+      return null;
+    }
+    let raw: string | null = null;
+    try {
+      raw = window.localStorage.getItem(migrationKey);
+    } catch {
+      return null;
+    }
+    if (!raw) return null;
+    let state: AgentWidgetStoredState;
+    try {
+      state = JSON.parse(raw);
+    } catch (error) {
+      logError("Failed to parse localStorage state for migration:", error);
+      return null;
+    }
+    await persist(state);
+    window.localStorage.removeItem(migrationKey);
+    return state;
+  };
+
+  return {
+    load: async () => {
+      try {
+        const db = await getDb();
+        if (!db) return null;
+        return (await readState(db)) ?? (await migrateFromLocalStorage());
+      } catch (error) {
+        logError("Failed to load stored state:", error);
+        return null;
+      }
+    },
+    save: (state: AgentWidgetStoredState) => {
+      // Serialize writes so incremental diffs are computed against committed data
+      writeQueue = writeQueue
+        .then(() => persist(state))
+        .catch((error) => logError("Failed to persist state:", error));
+      return writeQueue;
+    },
+    clear: () => {
+      writeQueue = writeQueue
+        .then(async () => {
+          const db = await getDb();
+          if (!db) return;
+          const transaction = db.transaction(
+            [MESSAGES_STORE, BLOBS_STORE, STATE_STORE],
+            "readwrite"
+          );
+          const done = transactionDone(transaction);
+          transaction.objectStore(MESSAGES_STORE).clear();
+          transaction.objectStore(BLOBS_STORE).clear();
+          transaction.objectStore(STATE_STORE).clear();
+          await done;
+          fingerprints.clear();
+          blobKeysById.clear();
+          threadCache.clear();
+        })
+        .catch((error) => logError("Failed to clear stored state:", error));
+      return writeQueue;
+    }
+  };
+};
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createInspectorStore } from './inspector';
+import { AgentWidgetClient } from '../client';
+
+const sseBody = (events: string[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      events.forEach((event) => controller.enqueue(encoder.encode(`data: ${event}\n\n`)));
+      controller.close();
+    }
+  });
+};
+
+describe('createInspectorStore', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should record the final request, raw events and parser output per dispatch', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        body: sseBody([
+          '{"type":"step_chunk","text":"{\\"text\\": \\"Hi"}',
+          '{"type":"step_chunk","text":" there\\"}"}',
+          '{"type":"flow_complete","success":true}'
+        ])
+      })
+    );
+    const store = createInspectorStore();
+    const client = new AgentWidgetClient(
+      {
+        apiUrl: '/api/chat/dispatch',
+        parserType: 'json',
+        requestMiddleware: ({ payload }) => ({ ...payload, metadata: { plan: 'pro' } })
+      },
+      { inspector: store.hooks }
+    );
+
+    await client.dispatch(
+      {
+        messages: [{ id: 'u1', role: 'user', content: 'Hello', createdAt: new Date().toISOString() }],
+        assistantMessageId: 'ast_1'
+      },
+      () => {}
+    );
+
+    const [dispatch] = store.getDispatches();
+    expect(dispatch.id).toBe('ast_1');
+    expect(dispatch.url).toBe('/api/chat/dispatch');
+    expect(dispatch.request).toMatchObject({ metadata: { plan: 'pro' } });
+    expect(dispatch.events.map((entry) => entry.raw)).toHaveLength(3);
+    expect(dispatch.events[2].raw).toBe('data: {"type":"flow_complete","success":true}');
+    expect(dispatch.parser.map(({ input, output, delta }) => ({ input, output, delta }))).toEqual([
+      { input: '{"text": "Hi', output: 'Hi', delta: undefined },
+      { input: ' there"}', output: ' there', delta: true }
+    ]);
+
+    store.recordAction('ast_1', { type: 'message' });
+    expect(JSON.parse(JSON.stringify(store.toJSON({ metadata: { cart: 2 } })))).toMatchObject({
+      metadata: { cart: 2 },
+      dispatches: [{ id: 'ast_1', actions: [{ messageId: 'ast_1', action: { type: 'message' } }] }]
+    });
+  });
+
+  it('should cap dispatches and entries', () => {
+    const store = createInspectorStore({ maxDispatches: 2, maxEntries: 2 });
+    ['a', 'b', 'c'].forEach((id) => store.hooks.onRawEvent(id, 'data: {}'));
+    ['x', 'y', 'z'].forEach((raw) => store.hooks.onRawEvent('c', raw));
+
+    const dispatches = store.getDispatches();
+    expect(dispatches.map((dispatch) => dispatch.id)).toEqual(['b', 'c']);
+    expect(dispatches[1].events).toHaveLength(2);
+    expect(dispatches[1].truncated).toBe(2);
+  });
+});
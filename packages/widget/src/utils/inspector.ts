@@ -0,0 +1,149 @@
+/**
+ * Recording for the developer inspector (`debugTools`)
+ * The client reports each dispatch's final request, raw stream events and
+ * stream parser output through `StreamInspectorHooks`; the widget adds the
+ * actions it detects. Only the latest dispatches are kept.
+ */
+
+export type StreamInspectorHooks = {
+  /** The request body as sent, after `contextProviders` and `requestMiddleware` */
+  onRequest: (dispatchId: string, request: { url: string; payload: unknown }) => void;
+  /** One raw SSE event, before any parsing */
+  onRawEvent: (dispatchId: string, raw: string) => void;
+  /**
+   * What the stream parser extracted from the content accumulated so far.
+   * The store keeps only what changed since the previous call.
+   */
+  onParserOutput: (
+    dispatchId: string,
+    entry: { messageId: string; input: string; output: string | null }
+  ) => void;
+};
+
+export type InspectorDispatch = {
+  id: string;
+  startedAt: number;
+  url?: string;
+  request?: unknown;
+  events: Array<{ at: number; raw: string }>;
+  /**
+   * With `delta`, `input` and `output` hold only the text appended since the
+   * message's previous entry; otherwise they are the full accumulated values
+   */
+  parser: Array<{
+    at: number;
+    messageId: string;
+    input: string;
+    output: string | null;
+    delta?: boolean;
+  }>;
+  actions: Array<{ at: number; messageId: string; action: unknown }>;
+  /** Entries dropped because the dispatch hit `maxEntries` */
+  truncated: number;
+};
+
+export type InspectorStoreOptions = {
+  /** @default 20 */
+  maxDispatches?: number;
+  /** Events, parser outputs and actions kept per dispatch @default 1000 */
+  maxEntries?: number;
+};
+
+export type InspectorStore = {
+  hooks: StreamInspectorHooks;
+  recordAction: (messageId: string, action: unknown) => void;
+  getDispatches: () => InspectorDispatch[];
+  clear: () => void;
+  subscribe: (listener: () => void) => () => void;
+  /**
+   * Everything recorded plus the given extras, ready for `JSON.stringify`
+   */
+  toJSON: (extra?: Record<string, unknown>) => Record<string, unknown>;
+};
+
+export const createInspectorStore = (options: InspectorStoreOptions = {}): InspectorStore => {
+  const maxDispatches = options.maxDispatches ?? 20;
+  const maxEntries = options.maxEntries ?? 1000;
+  let dispatches: InspectorDispatch[] = [];
+  const listeners = new Set<() => void>();
+  // Latest full parser input/output per message, to record only what each chunk adds
+  const parserState = new WeakMap<InspectorDispatch, Map<string, { input: string; output: string | null }>>();
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const getDispatch = (id: string) => {
+    let dispatch = dispatches.find((entry) => entry.id === id);
+    if (!dispatch) {
+      dispatch = { id, startedAt: Date.now(), events: [], parser: [], actions: [], truncated: 0 };
+      dispatches = [...dispatches, dispatch].slice(-maxDispatches);
+    }
+    return dispatch;
+  };
+
+  const push = <T>(dispatch: InspectorDispatch, list: T[], entry: T) => {
+    if (list.length >= maxEntries) {
+      dispatch.truncated++;
+      return;
+    }
+    list.push(entry);
+    notify();
+  };
+
+  return {
+    hooks: {
+      onRequest: (dispatchId, { url, payload }) => {
+        const dispatch = getDispatch(dispatchId);
+        dispatch.url = url;
+        dispatch.request = payload;
+        notify();
+      },
+      onRawEvent: (dispatchId, raw) => {
+        const dispatch = getDispatch(dispatchId);
+        push(dispatch, dispatch.events, { at: Date.now(), raw });
+      },
+      onParserOutput: (dispatchId, { messageId, input, output }) => {
+        const dispatch = getDispatch(dispatchId);
+        let messages = parserState.get(dispatch);
+        if (!messages) {
+          messages = new Map();
+          parserState.set(dispatch, messages);
+        }
+        const previous = messages.get(messageId);
+        messages.set(messageId, { input, output });
+        const previousOutput = previous?.output ?? "";
+        if (previous && input.startsWith(previous.input) && (output ?? "").startsWith(previousOutput)) {
+          push(dispatch, dispatch.parser, {
+            at: Date.now(),
+            messageId,
+            input: input.slice(previous.input.length),
+            output: output === null ? null : output.slice(previousOutput.length),
+            delta: true
+          });
+        } else {
+          push(dispatch, dispatch.parser, { at: Date.now(), messageId, input, output });
+        }
+      }
+    },
+    recordAction: (messageId, action) => {
+      // Actions are parsed from the finished reply, after its dispatch
+      const dispatch = dispatches[dispatches.length - 1];
+      if (!dispatch) return;
+      push(dispatch, dispatch.actions, { at: Date.now(), messageId, action });
+    },
+    getDispatches: () => [...dispatches],
+    clear: () => {
+      dispatches = [];
+      notify();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    toJSON: (extra = {}) => ({
+      exportedAt: new Date().toISOString(),
+      ...(typeof navigator !== "undefined" && { userAgent: navigator.userAgent }),
+      ...extra,
+      dispatches
+    })
+  };
+};
@@ -33,5 +33,14 @@ export function generateAssistantMessageId(): string {
   return `ast_${timestamp}_${random}`;
 }
 
-
-
+/**
+ * Generate an unguessable dispatch ID, used as the key for resuming a stream.
+ * Uses `crypto.randomUUID()` with a `getRandomValues` fallback for older browsers.
+ */
+export function generateDispatchId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
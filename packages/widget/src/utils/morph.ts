@@ -1,4 +1,5 @@
 import { Idiomorph } from "idiomorph";
+import { PLACEHOLDER_ATTRIBUTE, PLACEHOLDER_VERSION_ATTRIBUTE } from "./virtualizer";
 
 export type MorphOptions = {
   preserveTypingAnimation?: boolean;
@@ -10,6 +11,8 @@ export type MorphOptions = {
  *
  * Action buttons are matched by their `id` attribute (set to `actions-{messageId}`)
  * so idiomorph updates them in place rather than recreating them.
+ * Virtualization placeholders for an unchanged message version only have
+ * their height synced, so their text isn't diffed on every render.
  */
 export const morphMessages = (
   container: HTMLElement,
@@ -24,6 +27,17 @@ export const morphMessages = (
       beforeNodeMorphed(oldNode: Node, newNode: Node): boolean | void {
         if (!(oldNode instanceof HTMLElement)) return;
 
+        if (
+          oldNode.hasAttribute(PLACEHOLDER_ATTRIBUTE) &&
+          newNode instanceof HTMLElement &&
+          newNode.hasAttribute(PLACEHOLDER_ATTRIBUTE) &&
+          oldNode.getAttribute(PLACEHOLDER_VERSION_ATTRIBUTE) ===
+            newNode.getAttribute(PLACEHOLDER_VERSION_ATTRIBUTE)
+        ) {
+          oldNode.style.height = newNode.style.height;
+          return false;
+        }
+
         // Preserve typing indicator dots to maintain animation continuity
         if (preserveTypingAnimation) {
           if (oldNode.classList.contains("tvw-animate-typing")) {
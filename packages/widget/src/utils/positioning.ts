@@ -1,3 +1,6 @@
+import type { AgentWidgetConfig, AgentWidgetLauncherConfig } from "../types";
+import { resolveDirection } from "./i18n";
+
 export const positionMap: Record<
   "bottom-right" | "bottom-left" | "top-right" | "top-left",
   string
@@ -8,10 +11,24 @@ export const positionMap: Record<
   "top-left": "tvw-top-6 tvw-left-6"
 };
 
+type LauncherPosition = keyof typeof positionMap;
 
+const mirrored: Record<LauncherPosition, LauncherPosition> = {
+  "bottom-right": "bottom-left",
+  "bottom-left": "bottom-right",
+  "top-right": "top-left",
+  "top-left": "top-right"
+};
 
-
-
-
-
-
+/**
+ * Where the launcher and panel sit on screen. Right-to-left layouts mirror
+ * the configured side, so "bottom-right" means the reading end of the page.
+ */
+export const resolveLauncherPosition = (
+  config?: Pick<AgentWidgetConfig, "launcher" | "locale" | "direction">,
+  fallback: LauncherPosition = "bottom-right"
+): LauncherPosition => {
+  const configured: AgentWidgetLauncherConfig["position"] = config?.launcher?.position;
+  const position = configured && positionMap[configured] ? configured : fallback;
+  return resolveDirection(config) === "rtl" ? mirrored[position] : position;
+};
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { readQuotaHeaders, mergeQuota, formatCountdown } from './quota';
+
+describe('readQuotaHeaders', () => {
+  const now = Date.UTC(2025, 0, 1, 12, 0, 0);
+
+  it('should read X-RateLimit headers with relative and epoch reset times', () => {
+    expect(
+      readQuotaHeaders(
+        new Headers({ 'X-RateLimit-Limit': '20', 'X-RateLimit-Remaining': '3', 'X-RateLimit-Reset': '90' }),
+        { now }
+      )
+    ).toEqual({ limit: 20, remaining: 3, resetAt: now + 90_000, exhausted: false });
+
+    const epoch = Math.floor(now / 1000) + 600;
+    expect(
+      readQuotaHeaders(new Headers({ 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String(epoch) }), { now })
+    ).toEqual({ limit: null, remaining: 0, resetAt: epoch * 1000, exhausted: true });
+
+    expect(readQuotaHeaders(new Headers({ 'Content-Type': 'text/event-stream' }), { now })).toBeNull();
+  });
+
+  it('should prefer Retry-After (seconds or HTTP date) on a 429', () => {
+    expect(readQuotaHeaders(new Headers({ 'Retry-After': '30' }), { exhausted: true, now })).toEqual({
+      limit: null,
+      remaining: 0,
+      resetAt: now + 30_000,
+      exhausted: true
+    });
+    const date = new Date(now + 120_000).toUTCString();
+    expect(readQuotaHeaders(new Headers({ 'Retry-After': date }), { exhausted: true, now })?.resetAt).toBe(
+      now + 120_000
+    );
+    expect(readQuotaHeaders(undefined, { exhausted: true, now })).toEqual({
+      limit: null,
+      remaining: 0,
+      resetAt: null,
+      exhausted: true
+    });
+  });
+
+  it('should keep known values when merging and format countdowns', () => {
+    expect(
+      mergeQuota(
+        { limit: 20, remaining: 5, resetAt: 1000, exhausted: false },
+        { limit: null, remaining: 4, resetAt: null, exhausted: false }
+      )
+    ).toEqual({ limit: 20, remaining: 4, resetAt: 1000, exhausted: false });
+    expect(formatCountdown(65_000)).toBe('1:05');
+    expect(formatCountdown(3_725_000)).toBe('1:02:05');
+    expect(formatCountdown(-5)).toBe('0:00');
+  });
+});
@@ -0,0 +1,98 @@
+import type { AgentWidgetQuota, ClientSession } from "../types";
+
+// X-RateLimit-Reset values above this are epoch seconds, below it seconds from now
+const EPOCH_SECONDS_THRESHOLD = 1_000_000_000;
+
+const parseNumber = (value: string | null | undefined): number | null => {
+  if (value == null || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Parse `Retry-After`: either seconds or an HTTP date
+ */
+const parseRetryAfter = (value: string | null, now: number): number | null => {
+  if (!value) return null;
+  const seconds = parseNumber(value);
+  if (seconds !== null) return now + seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : date;
+};
+
+/**
+ * Read the quota from rate-limit response headers (`Retry-After`,
+ * `X-RateLimit-Limit`, `X-RateLimit-Remaining`, `X-RateLimit-Reset`).
+ * Returns null when the response carries none of them and isn't a 429.
+ */
+export const readQuotaHeaders = (
+  headers: Headers | undefined,
+  options: { exhausted?: boolean; now?: number } = {}
+): AgentWidgetQuota | null => {
+  const now = options.now ?? Date.now();
+  // Mocked responses may come without headers
+  const read = (name: string) =>
+    headers && typeof headers.get === "function" ? headers.get(name) : null;
+
+  const limit = parseNumber(read("x-ratelimit-limit"));
+  const remaining = parseNumber(read("x-ratelimit-remaining"));
+  const reset = parseNumber(read("x-ratelimit-reset"));
+  const retryAt = parseRetryAfter(read("retry-after"), now);
+  const resetAt =
+    retryAt ??
+    (reset === null
+      ? null
+      : reset > EPOCH_SECONDS_THRESHOLD
+        ? reset * 1000
+        : now + reset * 1000);
+
+  if (limit === null && remaining === null && resetAt === null && !options.exhausted) {
+    return null;
+  }
+  return {
+    limit,
+    remaining: options.exhausted ? 0 : remaining,
+    resetAt,
+    exhausted: Boolean(options.exhausted) || remaining === 0
+  };
+};
+
+/**
+ * Quota from the limits returned by `/v1/client/init`, or null when the token has none
+ */
+export const getSessionQuota = (session: ClientSession): AgentWidgetQuota | null => {
+  const { messageLimit, remainingMessages, limitResetAt } = session.config;
+  if (messageLimit == null && remainingMessages == null) return null;
+  return {
+    limit: messageLimit ?? null,
+    remaining: remainingMessages ?? null,
+    resetAt: limitResetAt ? limitResetAt.getTime() : null,
+    exhausted: remainingMessages === 0
+  };
+};
+
+/**
+ * Combine a quota update with what is already known; null fields keep the previous value
+ */
+export const mergeQuota = (
+  previous: AgentWidgetQuota | null,
+  next: AgentWidgetQuota
+): AgentWidgetQuota => ({
+  limit: next.limit ?? previous?.limit ?? null,
+  remaining: next.remaining ?? previous?.remaining ?? null,
+  resetAt: next.resetAt ?? previous?.resetAt ?? null,
+  exhausted: next.exhausted
+});
+
+/**
+ * Format the time left until a reset as `m:ss` (or `h:mm:ss`)
+ */
+export const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+};
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createRemoteStorageAdapter } from './remote-storage';
+
+const jsonResponse = (status: number, body?: unknown) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body
+});
+
+describe('createRemoteStorageAdapter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  const stubPageHide = () => {
+    const listeners: Array<() => void> = [];
+    vi.stubGlobal('window', {
+      addEventListener: (type: string, listener: () => void) => {
+        if (type === 'pagehide') listeners.push(listener);
+      }
+    });
+    return () => listeners.forEach((listener) => listener());
+  };
+
+  it('should load state and treat a 404 as no stored state', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(200, { id: 'user_1', state: { messages: [] } }))
+      .mockResolvedValueOnce(jsonResponse(404, { error: 'Conversation not found' }));
+    const adapter = createRemoteStorageAdapter({
+      url: '/api/conversations/',
+      conversationId: 'user_1',
+      headers: async () => ({ Authorization: 'Bearer token' }),
+      fetch: fetchMock
+    });
+
+    expect(await adapter.load!()).toEqual({ messages: [] });
+    expect(await adapter.load!()).toBeNull();
+    expect(fetchMock.mock.calls[0][0]).toBe('/api/conversations/user_1');
+    expect(fetchMock.mock.calls[0][1].headers).toEqual({ Authorization: 'Bearer token' });
+  });
+
+  it('should debounce saves into a single PUT with the latest state', async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, {}));
+    const adapter = createRemoteStorageAdapter({
+      url: '/api/conversations',
+      conversationId: () => 'user_1',
+      debounceMs: 500,
+      fetch: fetchMock
+    });
+
+    adapter.save!({ messages: [] });
+    adapter.save!({ metadata: { step: 2 } });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/api/conversations/user_1');
+    expect(init.method).toBe('PUT');
+    expect(JSON.parse(init.body)).toEqual({ metadata: { step: 2 } });
+  });
+
+  it('should drop a pending save when cleared', async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, {}));
+    const adapter = createRemoteStorageAdapter({
+      url: '/api/conversations',
+      conversationId: 'user_1',
+      fetch: fetchMock
+    });
+
+    adapter.save!({ messages: [] });
+    await adapter.clear!();
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1].method).toBe('DELETE');
+  });
+
+  it('should send a pending save synchronously with keepalive when the page is hidden', async () => {
+    const pageHide = stubPageHide();
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, {}));
+    const adapter = createRemoteStorageAdapter({
+      url: '/api/conversations',
+      conversationId: 'user_1',
+      headers: { Authorization: 'Bearer token' },
+      fetch: fetchMock
+    });
+
+    adapter.save!({ messages: [] });
+    pageHide();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/api/conversations/user_1');
+    expect(init).toMatchObject({ method: 'PUT', keepalive: true, headers: { Authorization: 'Bearer token' } });
+  });
+
+  it('should skip the page hide save when the state is over the keepalive limit', async () => {
+    vi.useFakeTimers();
+    const pageHide = stubPageHide();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, {}));
+    const adapter = createRemoteStorageAdapter({
+      url: '/api/conversations',
+      conversationId: 'user_1',
+      fetch: fetchMock
+    });
+
+    adapter.save!({ metadata: { notes: 'x'.repeat(70 * 1024) } });
+    pageHide();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('too large to save on page hide'));
+
+    // Restored from the back/forward cache: the debounced save still goes out
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1].keepalive).toBe(false);
+  });
+});
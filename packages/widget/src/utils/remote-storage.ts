@@ -0,0 +1,198 @@
+import type { AgentWidgetStorageAdapter, AgentWidgetStoredState } from "../types";
+
+const DEFAULT_DEBOUNCE_MS = 1000;
+// Browsers reject keepalive requests whose bodies add up to more than 64KB
+const KEEPALIVE_BODY_LIMIT = 64 * 1024;
+
+type RequestTarget = { url: string; headers: Record<string, string> | undefined };
+
+export type RemoteStorageAdapterOptions = {
+  /**
+   * Base URL of the conversation routes, e.g. `/api/conversations`.
+   * The conversation id is appended as the last path segment.
+   */
+  url: string;
+  /**
+   * Conversation id. Use something stable per user (e.g. their account id)
+   * to show the same history on every device.
+   */
+  conversationId: string | (() => string | Promise<string>);
+  /**
+   * Extra request headers, e.g. an Authorization header for the signed-in user
+   */
+  headers?:
+    | Record<string, string>
+    | (() => Record<string, string> | Promise<Record<string, string>>);
+  /**
+   * Fetch credentials mode. Use `"include"` for cookie auth against another origin.
+   * @default "same-origin"
+   */
+  credentials?: RequestCredentials;
+  /**
+   * Wait this long after the last change before saving. The widget saves on
+   * every streamed chunk, so this keeps requests down to one per pause.
+   * @default 1000
+   */
+  debounceMs?: number;
+  /**
+   * Custom fetch implementation
+   */
+  fetch?: typeof fetch;
+};
+
+const buildUrl = (baseUrl: string, id: string) =>
+  `${baseUrl.replace(/\/+$/, "")}/${encodeURIComponent(id)}`;
+
+/**
+ * Creates a storage adapter that keeps conversations on the server, using the
+ * `GET/PUT/DELETE /api/conversations/:id` routes of `vanilla-agent-proxy`.
+ * Pending saves are flushed with `keepalive` when the page is hidden, as long as
+ * the state fits in the browser's 64KB keepalive limit.
+ */
+export const createRemoteStorageAdapter = (
+  options: RemoteStorageAdapterOptions
+): AgentWidgetStorageAdapter => {
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  const fetchImpl = options.fetch ?? ((...args: Parameters<typeof fetch>) => fetch(...args));
+
+  let pendingState: AgentWidgetStoredState | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let inflight: Promise<void> = Promise.resolve();
+
+  // Last resolved URL and headers, so the pagehide flush can send without awaiting
+  let cachedTarget: RequestTarget | null =
+    typeof options.conversationId === "string" && typeof options.headers !== "function"
+      ? { url: buildUrl(options.url, options.conversationId), headers: options.headers }
+      : null;
+
+  const resolveTarget = async (): Promise<RequestTarget> => {
+    const id =
+      typeof options.conversationId === "function"
+        ? await options.conversationId()
+        : options.conversationId;
+    const headers =
+      typeof options.headers === "function" ? await options.headers() : options.headers;
+    cachedTarget = { url: buildUrl(options.url, id), headers };
+    return cachedTarget;
+  };
+
+  const send = (target: RequestTarget, method: string, body?: string, keepalive = false) =>
+    fetchImpl(target.url, {
+      method,
+      headers: {
+        ...(body ? { "Content-Type": "application/json" } : {}),
+        ...target.headers
+      },
+      body,
+      credentials: options.credentials ?? "same-origin",
+      keepalive
+    });
+
+  const request = async (method: string, body?: string) =>
+    send(await resolveTarget(), method, body);
+
+  const put = async (response: Promise<Response>) => {
+    const { ok, status } = await response;
+    if (!ok) {
+      throw new Error(`Save failed with status ${status}`);
+    }
+  };
+
+  const logSaveError = (error: unknown) => {
+    if (typeof console !== "undefined") {
+      // eslint-disable-next-line no-console
+      console.error("[AgentWidget] Failed to save conversation:", error);
+    }
+  };
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    const state = pendingState;
+    pendingState = null;
+    if (!state) return inflight;
+    // Keep saves in order so an older state never lands after a newer one
+    inflight = inflight
+      .then(() => put(request("PUT", JSON.stringify(state))))
+      .catch(logSaveError);
+    return inflight;
+  };
+
+  // The page may be gone after this task, so the request has to start synchronously
+  const flushOnPageHide = () => {
+    if (!pendingState) return;
+    const body = JSON.stringify(pendingState);
+    const size = new TextEncoder().encode(body).length;
+    if (!cachedTarget || size > KEEPALIVE_BODY_LIMIT) {
+      // Leave the debounced save armed in case the page is restored from the back/forward cache
+      if (typeof console !== "undefined") {
+        // eslint-disable-next-line no-console
+        console.warn(
+          cachedTarget
+            ? `[AgentWidget] Conversation is too large to save on page hide (${size} bytes)`
+            : "[AgentWidget] Conversation URL isn't resolved yet; skipping save on page hide"
+        );
+      }
+      return;
+    }
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    pendingState = null;
+    const response = send(cachedTarget, "PUT", body, true);
+    inflight = inflight.then(() => put(response)).catch(logSaveError);
+  };
+
+  if (typeof window !== "undefined" && typeof window.addEventListener === "function") {
+    window.addEventListener("pagehide", flushOnPageHide);
+  }
+
+  return {
+    load: async () => {
+      try {
+        const response = await request("GET");
+        if (response.status === 404) return null;
+        if (!response.ok) {
+          throw new Error(`Load failed with status ${response.status}`);
+        }
+        const data = await response.json();
+        return (data?.state as AgentWidgetStoredState | undefined) ?? null;
+      } catch (error) {
+        if (typeof console !== "undefined") {
+          // eslint-disable-next-line no-console
+          console.error("[AgentWidget] Failed to load conversation:", error);
+        }
+        return null;
+      }
+    },
+    save: (state) => {
+      pendingState = state;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        flush();
+      }, debounceMs);
+    },
+    clear: async () => {
+      pendingState = null;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      await inflight;
+      try {
+        const response = await request("DELETE");
+        if (!response.ok && response.status !== 404) {
+          throw new Error(`Delete failed with status ${response.status}`);
+        }
+      } catch (error) {
+        if (typeof console !== "undefined") {
+          // eslint-disable-next-line no-console
+          console.error("[AgentWidget] Failed to delete conversation:", error);
+        }
+      }
+    }
+  };
+};
@@ -0,0 +1,45 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { clearHighlights, highlightMatches, searchMessages } from './search';
+import type { AgentWidgetMessage } from '../types';
+
+const messages: AgentWidgetMessage[] = [
+  { id: 's1', role: 'system', content: 'Refund policy applies', createdAt: '2025-01-01T10:00:00.000Z' },
+  { id: 'u1', role: 'user', content: 'Can I get a refund?', createdAt: '2025-01-01T10:00:01.000Z' },
+  {
+    id: 'r1',
+    role: 'assistant',
+    content: '',
+    createdAt: '2025-01-01T10:00:02.000Z',
+    variant: 'reasoning',
+    reasoning: { id: 'r1', status: 'complete', chunks: ['Check the ', 'REFUND window'] }
+  },
+  {
+    id: 't1',
+    role: 'assistant',
+    content: '',
+    createdAt: '2025-01-01T10:00:03.000Z',
+    variant: 'tool',
+    toolCall: { id: 'call-1', name: 'get_order', status: 'complete', args: { orderId: 'A-42' } }
+  }
+];
+
+describe('search', () => {
+  it('should match content, reasoning and tool details but not system messages', () => {
+    expect(searchMessages(messages, 'refund')).toEqual(['u1', 'r1']);
+    expect(searchMessages(messages, 'a-42')).toEqual(['t1']);
+    expect(searchMessages(messages, '  ')).toEqual([]);
+  });
+
+  it('should wrap each occurrence in a mark and remove them again', () => {
+    const root = document.createElement('div');
+    root.innerHTML = '<p>Refund or <strong>refund</strong>, then refunds</p><textarea>refund</textarea>';
+    const marks = highlightMatches(root, 'REFUND');
+    expect(marks.map((mark) => mark.textContent)).toEqual(['Refund', 'refund', 'refund']);
+    expect(root.querySelector('textarea')!.value).toBe('refund');
+
+    clearHighlights(root);
+    expect(root.querySelector('mark')).toBeNull();
+    expect(root.querySelector('p')!.childNodes[0].nodeValue).toBe('Refund or ');
+  });
+});
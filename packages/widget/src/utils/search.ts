@@ -0,0 +1,117 @@
+import type { AgentWidgetConfig, AgentWidgetMessage } from "../types";
+import { formatUnknownValue } from "./formatting";
+
+export const SEARCH_MATCH_CLASS = "tvw-search-match";
+export const SEARCH_CURRENT_CLASS = "tvw-search-match-current";
+
+/**
+ * Whether the header search button and search bar are shown
+ */
+export const isSearchEnabled = (config?: Pick<AgentWidgetConfig, "search">) => {
+  const search = config?.search;
+  return search === true || (typeof search === "object" && search.enabled !== false);
+};
+
+/**
+ * Text of a message that search looks at. Includes the reasoning chunks and
+ * the tool name, arguments, output and result, which are hidden while their
+ * bubbles are collapsed.
+ */
+export const getSearchableText = (message: AgentWidgetMessage): string => {
+  const parts: string[] = [message.content];
+  if (message.reasoning) {
+    parts.push(message.reasoning.chunks.join(""));
+  }
+  const toolCalls = message.tools ?? (message.toolCall ? [message.toolCall] : []);
+  toolCalls.forEach((tool) => {
+    if (tool.name) parts.push(tool.name);
+    if (tool.args !== undefined) parts.push(formatUnknownValue(tool.args));
+    if (tool.chunks?.length) parts.push(tool.chunks.join(""));
+    if (tool.result !== undefined) parts.push(formatUnknownValue(tool.result));
+  });
+  return parts.filter(Boolean).join("\n");
+};
+
+/**
+ * IDs of the messages containing the query, in conversation order.
+ * Matching is case-insensitive; an empty query matches nothing.
+ */
+export const searchMessages = (
+  messages: AgentWidgetMessage[],
+  query: string
+): string[] => {
+  const needle = query.trim().toLocaleLowerCase();
+  if (!needle) return [];
+  return messages
+    .filter(
+      (message) =>
+        message.role !== "system" &&
+        getSearchableText(message).toLocaleLowerCase().includes(needle)
+    )
+    .map((message) => message.id);
+};
+
+/**
+ * Remove the highlights added by `highlightMatches`
+ */
+export const clearHighlights = (root: HTMLElement) => {
+  root.querySelectorAll(`mark.${SEARCH_MATCH_CLASS}`).forEach((mark) => {
+    const parent = mark.parentNode;
+    if (!parent) return;
+    parent.replaceChild(document.createTextNode(mark.textContent ?? ""), mark);
+    parent.normalize();
+  });
+};
+
+/**
+ * Wrap every occurrence of the query in the rendered text below `root` in a
+ * `<mark>`. Matches that span several elements (e.g. half bold) are not marked.
+ * Returns the marks in document order.
+ */
+export const highlightMatches = (root: HTMLElement, query: string): HTMLElement[] => {
+  clearHighlights(root);
+  const needle = query.trim().toLocaleLowerCase();
+  if (!needle) return [];
+
+  const textNodes: Text[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) => {
+      const parent = node.parentElement;
+      if (!parent || parent.closest("script, style, textarea, button")) {
+        return NodeFilter.FILTER_REJECT;
+      }
+      return node.nodeValue?.toLocaleLowerCase().includes(needle)
+        ? NodeFilter.FILTER_ACCEPT
+        : NodeFilter.FILTER_REJECT;
+    }
+  });
+  while (walker.nextNode()) {
+    textNodes.push(walker.currentNode as Text);
+  }
+
+  const marks: HTMLElement[] = [];
+  textNodes.forEach((node) => {
+    const text = node.nodeValue ?? "";
+    const lower = text.toLocaleLowerCase();
+    const fragment = document.createDocumentFragment();
+    let cursor = 0;
+    let index = lower.indexOf(needle);
+    while (index !== -1) {
+      if (index > cursor) {
+        fragment.appendChild(document.createTextNode(text.slice(cursor, index)));
+      }
+      const mark = document.createElement("mark");
+      mark.className = SEARCH_MATCH_CLASS;
+      mark.textContent = text.slice(index, index + needle.length);
+      fragment.appendChild(mark);
+      marks.push(mark);
+      cursor = index + needle.length;
+      index = lower.indexOf(needle, cursor);
+    }
+    if (cursor < text.length) {
+      fragment.appendChild(document.createTextNode(text.slice(cursor)));
+    }
+    node.parentNode?.replaceChild(fragment, node);
+  });
+  return marks;
+};
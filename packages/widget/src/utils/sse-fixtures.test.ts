@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createRecordingFetch, createReplayFetch, type AgentWidgetSSEFixture } from './sse-fixtures';
+import { AgentWidgetSession } from '../session';
+import type { AgentWidgetMessage } from '../types';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// A live backend that streams its reply in separate chunks
+const upstream = vi.fn(async () => {
+  const encoder = new TextEncoder();
+  const parts = [
+    'data: {"type":"step_chunk","text":"Hello"}\n\n',
+    'data: {"type":"step_chunk","text":" from the"}\n\ndata: {"type":"step_ch',
+    'unk","text":" recording"}\n\n',
+    'data: {"type":"flow_complete","success":true}\n\n'
+  ];
+  const body = new ReadableStream({
+    async pull(controller) {
+      const part = parts.shift();
+      if (!part) {
+        controller.close();
+        return;
+      }
+      await wait(5);
+      controller.enqueue(encoder.encode(part));
+    }
+  });
+  return new Response(body, { status: 200, headers: { 'content-type': 'text/event-stream' } });
+});
+
+const createSession = (customFetch: ReturnType<typeof createReplayFetch>) => {
+  let messages: AgentWidgetMessage[] = [];
+  const session = new AgentWidgetSession(
+    { apiUrl: 'http://localhost:8000/api/chat/dispatch', customFetch },
+    {
+      onMessagesChanged: (next) => {
+        messages = next;
+      },
+      onStatusChanged: () => {},
+      onStreamingChanged: () => {}
+    }
+  );
+  return {
+    session,
+    lastReply: () => [...messages].reverse().find((message) => message.role === 'assistant')
+  };
+};
+
+describe('SSE fixtures', () => {
+  it('should record a dispatch and replay it through the client', async () => {
+    const fixtures: AgentWidgetSSEFixture[] = [];
+    const recording = createSession(
+      createRecordingFetch({ fetch: upstream, onRecord: (fixture) => fixtures.push(fixture) })
+    );
+    await recording.session.sendMessage('Hi');
+    expect(recording.lastReply()?.content).toBe('Hello from the recording');
+
+    // Fixtures survive being saved to a file
+    const [fixture] = JSON.parse(JSON.stringify(fixtures)) as AgentWidgetSSEFixture[];
+    expect(fixture.status).toBe(200);
+    expect(fixture.headers['content-type']).toBe('text/event-stream');
+    expect(fixture.request?.url).toBe('http://localhost:8000/api/chat/dispatch');
+    expect(fixture.chunks).toHaveLength(4);
+    expect(fixture.chunks.every((chunk) => chunk.delayMs >= 0)).toBe(true);
+
+    const requests: string[] = [];
+    const replay = createSession(
+      createReplayFetch(fixture, {
+        timing: 'instant',
+        onRequest: (_url, payload) => requests.push(String(payload.messages[0].content))
+      })
+    );
+    await replay.session.sendMessage('Hi again');
+    expect(replay.lastReply()?.content).toBe('Hello from the recording');
+    expect(requests).toEqual(['Hi again']);
+    expect(upstream).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop the replay when the request is aborted', async () => {
+    const fixture: AgentWidgetSSEFixture = {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      status: 200,
+      headers: {},
+      chunks: [
+        { delayMs: 0, text: 'data: {"type":"step_chunk","text":"Partial"}\n\n' },
+        { delayMs: 60_000, text: 'data: {"type":"flow_complete","success":true}\n\n' }
+      ]
+    };
+    const { session, lastReply } = createSession(createReplayFetch(fixture, { timing: 'original' }));
+
+    const sending = session.sendMessage('Hi');
+    await wait(20);
+    expect(session.stop()).toBe(true);
+    await sending;
+    expect(lastReply()).toMatchObject({ content: 'Partial', streaming: false });
+  });
+
+  it('should reject once the fixtures run out unless looping', async () => {
+    const fixture: AgentWidgetSSEFixture = {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      status: 200,
+      headers: {},
+      chunks: []
+    };
+    const payload = { messages: [] };
+    const once = createReplayFetch(fixture);
+    await once('/api', {}, payload);
+    await expect(once('/api', {}, payload)).rejects.toThrow('No replay fixture left for request 2');
+
+    const looping = createReplayFetch(fixture, { loop: true });
+    await looping('/api', {}, payload);
+    await expect(looping('/api', {}, payload)).resolves.toBeInstanceOf(Response);
+  });
+});
@@ -0,0 +1,199 @@
+import type { AgentWidgetCustomFetch, AgentWidgetRequestPayload } from "../types";
+
+/**
+ * Record and replay dispatch streams
+ * `createRecordingFetch` captures a real response body chunk by chunk with its
+ * timing; `createReplayFetch` plays the saved fixture back as a `customFetch`,
+ * so tests run the real client streaming path without a backend.
+ */
+
+/**
+ * A recorded dispatch. Plain JSON, so it can be saved as a fixture file.
+ */
+export type AgentWidgetSSEFixture = {
+  version: 1;
+  recordedAt: string;
+  request?: { url: string; payload: AgentWidgetRequestPayload };
+  status: number;
+  headers: Record<string, string>;
+  /** Body chunks as they arrived; `delayMs` is the time since the previous chunk */
+  chunks: Array<{ delayMs: number; text: string }>;
+};
+
+export type RecordingFetchOptions = {
+  /**
+   * Called with each dispatch once its response body has been read to the end
+   */
+  onRecord: (fixture: AgentWidgetSSEFixture) => void;
+  /**
+   * Fetch to record through, e.g. an existing `customFetch` (default: global `fetch`)
+   */
+  fetch?: AgentWidgetCustomFetch;
+  /**
+   * Leave the request payload out of fixtures, e.g. when it holds user data
+   * @default false
+   */
+  omitRequest?: boolean;
+};
+
+export type ReplayFetchOptions = {
+  /**
+   * `original` waits the recorded delays, `compressed` divides them by `speed`,
+   * `instant` sends every chunk right away
+   * @default "compressed"
+   */
+  timing?: "original" | "compressed" | "instant";
+  /**
+   * How many times faster than recorded `compressed` plays
+   * @default 10
+   */
+  speed?: number;
+  /**
+   * Called with every request, e.g. to assert on the payload
+   */
+  onRequest?: (url: string, payload: AgentWidgetRequestPayload) => void;
+  /**
+   * Start over after the last fixture instead of rejecting
+   * @default false
+   */
+  loop?: boolean;
+};
+
+const abortError = () => new DOMException("The operation was aborted.", "AbortError");
+
+const wait = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve) => {
+    if (ms <= 0 || signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+
+const readHeaders = (headers: Headers | undefined) => {
+  const result: Record<string, string> = {};
+  // Mocked responses may come without headers
+  if (headers && typeof headers.forEach === "function") {
+    headers.forEach((value, key) => {
+      result[key] = value;
+    });
+  }
+  return result;
+};
+
+/**
+ * Wraps fetch so every dispatch is recorded as a fixture while the widget
+ * streams it as usual.
+ *
+ * @example
+ * ```ts
+ * customFetch: createRecordingFetch({
+ *   onRecord: (fixture) => console.log(JSON.stringify(fixture))
+ * })
+ * ```
+ */
+export const createRecordingFetch = (options: RecordingFetchOptions): AgentWidgetCustomFetch => {
+  return async (url, init, payload) => {
+    const response = options.fetch
+      ? await options.fetch(url, init, payload)
+      : await fetch(url, init);
+    const base = {
+      version: 1 as const,
+      recordedAt: new Date().toISOString(),
+      ...(!options.omitRequest && { request: { url, payload } }),
+      status: response.status,
+      headers: readHeaders(response.headers)
+    };
+    if (!response.body) {
+      options.onRecord({ ...base, chunks: [] });
+      return response;
+    }
+
+    const chunks: AgentWidgetSSEFixture["chunks"] = [];
+    const decoder = new TextDecoder();
+    let last = Date.now();
+    const body = response.body.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          const now = Date.now();
+          chunks.push({ delayMs: now - last, text: decoder.decode(chunk, { stream: true }) });
+          last = now;
+          controller.enqueue(chunk);
+        },
+        flush() {
+          const rest = decoder.decode();
+          if (rest) chunks.push({ delayMs: 0, text: rest });
+          options.onRecord({ ...base, chunks });
+        }
+      })
+    );
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: base.headers
+    });
+  };
+};
+
+/**
+ * A `customFetch` that answers each dispatch with the next fixture.
+ * Aborting the request (e.g. `controller.stop()`) ends the replay like a
+ * real aborted fetch.
+ *
+ * @example
+ * ```ts
+ * import greeting from "./fixtures/greeting.json";
+ *
+ * createAgentExperience(mount, {
+ *   customFetch: createReplayFetch(greeting, { timing: "instant" })
+ * });
+ * ```
+ */
+export const createReplayFetch = (
+  fixtures: AgentWidgetSSEFixture | AgentWidgetSSEFixture[],
+  options: ReplayFetchOptions = {}
+): AgentWidgetCustomFetch => {
+  const queue = Array.isArray(fixtures) ? fixtures : [fixtures];
+  const timing = options.timing ?? "compressed";
+  const speed = options.speed ?? 10;
+  const scale = (delayMs: number) =>
+    timing === "instant" ? 0 : timing === "original" ? delayMs : delayMs / speed;
+  let requests = 0;
+
+  return async (url, init, payload) => {
+    options.onRequest?.(url, payload);
+    if (queue.length === 0 || (requests >= queue.length && !options.loop)) {
+      throw new Error(`[AgentWidget] No replay fixture left for request ${requests + 1}`);
+    }
+    const fixture = queue[requests++ % queue.length];
+    const signal = init.signal;
+    if (signal?.aborted) throw abortError();
+
+    const encoder = new TextEncoder();
+    let index = 0;
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const chunk = fixture.chunks[index++];
+        if (!chunk) {
+          controller.close();
+          return;
+        }
+        await wait(scale(chunk.delayMs), signal);
+        if (signal?.aborted) {
+          controller.error(abortError());
+          return;
+        }
+        controller.enqueue(encoder.encode(chunk.text));
+      }
+    });
+    return new Response(body, { status: fixture.status, headers: fixture.headers });
+  };
+};
@@ -0,0 +1,386 @@
+import type { AgentWidgetSSEFormat } from "../types";
+
+/**
+ * Translates one provider's stream into the Travrse event vocabulary
+ * (`step_chunk`, `reason_*`, `tool_*`, `flow_complete`, `error`) so the
+ * client's built-in handling renders text, reasoning and tool calls.
+ */
+export type SSEFormatTranslator = {
+  /** Separator between upstream events in the decoded stream */
+  delimiter: string | RegExp;
+  /**
+   * Translate one raw upstream event into zero or more Travrse SSE events.
+   * Events whose id `isReplayed` reports (replays after a resume) are dropped
+   * before they touch the translator's state.
+   */
+  translate: (rawEvent: string, isReplayed?: (id: string) => boolean) => string[];
+};
+
+type TravrsePayload = Record<string, unknown>;
+
+type RawEvent = {
+  event?: string;
+  data: string;
+  id?: string;
+};
+
+const parseRawEvent = (rawEvent: string): RawEvent => {
+  let event: string | undefined;
+  let id: string | undefined;
+  const dataLines: string[] = [];
+  for (const line of rawEvent.split(/\r?\n/)) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trim());
+    } else if (line.startsWith("id:")) {
+      id = line.slice(3).trim();
+    }
+  }
+  return { event, id, data: dataLines.join("\n") };
+};
+
+const parseJson = (value: string): any => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+const parseToolArgs = (raw: string): unknown => {
+  if (!raw) return undefined;
+  const parsed = parseJson(raw);
+  return parsed === undefined ? raw : parsed;
+};
+
+/**
+ * Collects Travrse payloads for one upstream event and tracks the
+ * reasoning block that is open across events
+ */
+const createEventWriter = () => {
+  let payloads: TravrsePayload[] = [];
+  let openReasoningId: string | null = null;
+  let reasoningCount = 0;
+  let finished = false;
+
+  const writer = {
+    text(chunk: unknown) {
+      if (typeof chunk !== "string" || !chunk) return;
+      writer.endReasoning();
+      payloads.push({ type: "step_chunk", text: chunk });
+    },
+    reasoning(chunk: unknown, reasoningId?: string) {
+      if (typeof chunk !== "string" || !chunk) return;
+      writer.startReasoning(reasoningId);
+      payloads.push({ type: "reason_chunk", reasoningId: openReasoningId, reasoningText: chunk });
+    },
+    startReasoning(reasoningId?: string) {
+      if (openReasoningId) return;
+      openReasoningId = reasoningId ?? `reason-${++reasoningCount}`;
+      payloads.push({ type: "reason_start", reasoningId: openReasoningId });
+    },
+    endReasoning() {
+      if (!openReasoningId) return;
+      payloads.push({ type: "reason_complete", reasoningId: openReasoningId });
+      openReasoningId = null;
+    },
+    toolStart(toolId: string, toolName: string, args?: unknown) {
+      writer.endReasoning();
+      payloads.push({ type: "tool_start", toolId, toolName, ...(args !== undefined ? { args } : {}) });
+    },
+    toolChunk(toolId: string, chunk: unknown) {
+      if (typeof chunk !== "string" || !chunk) return;
+      payloads.push({ type: "tool_chunk", toolId, text: chunk });
+    },
+    toolComplete(toolId: string, result?: unknown) {
+      payloads.push({ type: "tool_complete", toolId, ...(result !== undefined ? { result } : {}) });
+    },
+    error(message: unknown) {
+      finished = true;
+      payloads.push({ type: "error", error: String(message ?? "Stream error") });
+    },
+    finish() {
+      if (finished) return;
+      finished = true;
+      writer.endReasoning();
+      payloads.push({ type: "flow_complete", success: true });
+    },
+    /**
+     * Serialize the collected payloads; the upstream event id goes on the last
+     * one so resume bookkeeping only advances once the whole event is handled
+     */
+    drain(id?: string): string[] {
+      const blocks = payloads.map((payload) => `data: ${JSON.stringify(payload)}`);
+      payloads = [];
+      if (id) {
+        if (blocks.length) {
+          blocks[blocks.length - 1] = `id: ${id}\n${blocks[blocks.length - 1]}`;
+        } else {
+          blocks.push(`id: ${id}`);
+        }
+      }
+      return blocks;
+    }
+  };
+  return writer;
+};
+
+type EventWriter = ReturnType<typeof createEventWriter>;
+
+/**
+ * OpenAI chat completions: `choices[].delta` chunks terminated by `[DONE]`
+ */
+const createOpenAITranslator = (): SSEFormatTranslator => {
+  const writer = createEventWriter();
+  // Tool call deltas arrive by index; the id and name only on the first one
+  const toolCalls = new Map<number, { id: string; name: string; args: string }>();
+
+  const completeToolCalls = () => {
+    toolCalls.forEach((call) => {
+      writer.toolStart(call.id, call.name, parseToolArgs(call.args));
+      writer.toolComplete(call.id);
+    });
+    toolCalls.clear();
+  };
+
+  return {
+    delimiter: /\r?\n\r?\n/,
+    translate: (rawEvent, isReplayed) => {
+      const { data, id } = parseRawEvent(rawEvent);
+      if (id && isReplayed?.(id)) return [];
+      if (data === "[DONE]") {
+        completeToolCalls();
+        writer.finish();
+        return writer.drain(id);
+      }
+      const chunk = parseJson(data);
+      if (!chunk) return writer.drain(id);
+      if (chunk.error) {
+        writer.error(chunk.error.message ?? chunk.error);
+        return writer.drain(id);
+      }
+      const choice = chunk.choices?.[0];
+      const delta = choice?.delta;
+      if (delta) {
+        writer.reasoning(delta.reasoning_content ?? delta.reasoning);
+        writer.text(delta.content);
+        for (const toolDelta of delta.tool_calls ?? []) {
+          const index = toolDelta.index ?? 0;
+          let call = toolCalls.get(index);
+          if (!call) {
+            call = {
+              id: toolDelta.id ?? `tool-${index}`,
+              name: toolDelta.function?.name ?? "tool",
+              args: ""
+            };
+            toolCalls.set(index, call);
+            writer.toolStart(call.id, call.name);
+          }
+          const argsDelta = toolDelta.function?.arguments;
+          if (argsDelta) {
+            call.args += argsDelta;
+            writer.toolChunk(call.id, argsDelta);
+          }
+        }
+      }
+      if (choice?.finish_reason) {
+        completeToolCalls();
+      }
+      return writer.drain(id);
+    }
+  };
+};
+
+/**
+ * Anthropic messages: `content_block_*` events addressed by block index
+ */
+const createAnthropicTranslator = (): SSEFormatTranslator => {
+  const writer = createEventWriter();
+  const blocks = new Map<number, { type: string; id?: string; name?: string; input: string }>();
+
+  return {
+    delimiter: /\r?\n\r?\n/,
+    translate: (rawEvent, isReplayed) => {
+      const { event: eventName, data, id } = parseRawEvent(rawEvent);
+      if (id && isReplayed?.(id)) return [];
+      const event = parseJson(data);
+      if (!event) return writer.drain(id);
+      const type = event.type ?? eventName;
+
+      if (type === "content_block_start") {
+        const block = event.content_block ?? {};
+        blocks.set(event.index, { type: block.type, id: block.id, name: block.name, input: "" });
+        if (block.type === "thinking") {
+          writer.startReasoning();
+        } else if (block.type === "tool_use") {
+          writer.toolStart(block.id, block.name);
+        }
+      } else if (type === "content_block_delta") {
+        const delta = event.delta ?? {};
+        const block = blocks.get(event.index);
+        if (delta.type === "text_delta") {
+          writer.text(delta.text);
+        } else if (delta.type === "thinking_delta") {
+          writer.reasoning(delta.thinking);
+        } else if (delta.type === "input_json_delta" && block?.id) {
+          block.input += delta.partial_json ?? "";
+          writer.toolChunk(block.id, delta.partial_json);
+        }
+      } else if (type === "content_block_stop") {
+        const block = blocks.get(event.index);
+        if (block?.type === "thinking") {
+          writer.endReasoning();
+        } else if (block?.type === "tool_use" && block.id) {
+          writer.toolStart(block.id, block.name ?? "tool", parseToolArgs(block.input));
+          writer.toolComplete(block.id);
+        }
+        blocks.delete(event.index);
+      } else if (type === "message_stop") {
+        writer.finish();
+      } else if (type === "error") {
+        writer.error(event.error?.message ?? "Anthropic stream error");
+      }
+      return writer.drain(id);
+    }
+  };
+};
+
+/**
+ * AI SDK UI message stream parts (`data: {"type":"text-delta",...}`)
+ */
+const translateUIMessagePart = (part: any, writer: EventWriter) => {
+  switch (part.type) {
+    case "text-delta":
+      writer.text(part.delta ?? part.textDelta);
+      break;
+    case "reasoning-start":
+      writer.startReasoning(part.id);
+      break;
+    case "reasoning-delta":
+    case "reasoning":
+      writer.reasoning(part.delta ?? part.text, part.id);
+      break;
+    case "reasoning-end":
+      writer.endReasoning();
+      break;
+    case "tool-input-start":
+      writer.toolStart(part.toolCallId, part.toolName);
+      break;
+    case "tool-input-delta":
+      writer.toolChunk(part.toolCallId, part.inputTextDelta);
+      break;
+    case "tool-input-available":
+      writer.toolStart(part.toolCallId, part.toolName, part.input);
+      break;
+    case "tool-output-available":
+      writer.toolComplete(part.toolCallId, part.output);
+      break;
+    case "error":
+      writer.error(part.errorText ?? part.error);
+      break;
+    case "finish":
+      writer.finish();
+      break;
+    default:
+      break;
+  }
+};
+
+/**
+ * AI SDK data stream protocol lines (`0:"text"`, `9:{...}`, `d:{...}`)
+ */
+const translateDataStreamLine = (code: string, value: any, writer: EventWriter) => {
+  switch (code) {
+    case "0":
+      writer.text(value);
+      break;
+    case "g":
+      writer.reasoning(value);
+      break;
+    case "b":
+      writer.toolStart(value.toolCallId, value.toolName);
+      break;
+    case "c":
+      writer.toolChunk(value.toolCallId, value.argsTextDelta);
+      break;
+    case "9":
+      writer.toolStart(value.toolCallId, value.toolName, value.args);
+      break;
+    case "a":
+      writer.toolComplete(value.toolCallId, value.result);
+      break;
+    case "3":
+      writer.error(value);
+      break;
+    case "d":
+      writer.finish();
+      break;
+    default:
+      break;
+  }
+};
+
+/**
+ * Vercel AI SDK streams: the SSE UI message stream (v5) and the
+ * line-based data stream protocol (v4). Both are handled line by line.
+ */
+const createAISDKTranslator = (): SSEFormatTranslator => {
+  const writer = createEventWriter();
+  // An SSE id precedes its data lines; hold the event's output until the blank
+  // line ends it so the id is only reported once the whole event was handled
+  let pendingId: string | undefined;
+  let replayed = false;
+
+  return {
+    delimiter: /\r?\n/,
+    translate: (line, isReplayed) => {
+      if (line.startsWith("id:")) {
+        pendingId = line.slice(3).trim();
+        replayed = isReplayed?.(pendingId) ?? false;
+        return [];
+      }
+      if (!line.trim()) {
+        const id = replayed ? undefined : pendingId;
+        pendingId = undefined;
+        replayed = false;
+        return writer.drain(id);
+      }
+      if (replayed) return [];
+      if (line.startsWith("data:")) {
+        const data = line.slice(5).trim();
+        if (data === "[DONE]") {
+          writer.finish();
+        } else {
+          const part = parseJson(data);
+          if (part) translateUIMessagePart(part, writer);
+        }
+        return pendingId === undefined ? writer.drain() : [];
+      }
+      const match = /^([0-9a-z]):(.*)$/.exec(line);
+      if (match) {
+        const value = parseJson(match[2]);
+        if (value !== undefined) translateDataStreamLine(match[1], value, writer);
+      }
+      return writer.drain();
+    }
+  };
+};
+
+/**
+ * Create a translator for one response stream, or null for the native Travrse format
+ */
+export const createSSEFormatTranslator = (
+  format: AgentWidgetSSEFormat | undefined
+): SSEFormatTranslator | null => {
+  switch (format) {
+    case "openai":
+      return createOpenAITranslator();
+    case "anthropic":
+      return createAnthropicTranslator();
+    case "ai-sdk":
+      return createAISDKTranslator();
+    default:
+      return null;
+  }
+};
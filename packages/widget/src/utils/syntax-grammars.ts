@@ -0,0 +1,237 @@
+import type { SyntaxGrammar } from "./syntax-highlight";
+
+/*
+ * Grammars for the built-in highlighter, set up by `loadSyntaxGrammars()`.
+ * Rules are tried in order at each position; the first match wins.
+ */
+
+const keywords = (words: string) => new RegExp(`\\b(?:${words.trim().split(/\s+/).join("|")})\\b`, "y");
+
+const NUMBER = /\b(?:0[xX][\da-fA-F_]+|0[bB][01_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)\b/y;
+const FUNCTION = /\b[A-Za-z_$][\w$]*(?=\s*\()/y;
+const LINE_COMMENT = /\/\/.*/y;
+const BLOCK_COMMENT = /\/\*[\s\S]*?(?:\*\/|$)/y;
+const HASH_COMMENT = /#.*/y;
+const DOUBLE_QUOTED = /"(?:[^"\\\n]|\\.)*"?/y;
+const SINGLE_QUOTED = /'(?:[^'\\\n]|\\.)*'?/y;
+
+const cLike = (words: string, literals = "true false null"): SyntaxGrammar => [
+  ["comment", LINE_COMMENT],
+  ["comment", BLOCK_COMMENT],
+  ["string", DOUBLE_QUOTED],
+  ["string", SINGLE_QUOTED],
+  ["keyword", keywords(words)],
+  ["literal", keywords(literals)],
+  ["number", NUMBER],
+  ["function", FUNCTION]
+];
+
+const JS_KEYWORDS = `async await break case catch class const continue debugger default delete do
+  else export extends finally for from function if import in instanceof let new of return static
+  super switch this throw try typeof var void while with yield`;
+
+const javascript: SyntaxGrammar = [
+  ["comment", LINE_COMMENT],
+  ["comment", BLOCK_COMMENT],
+  ["string", /`(?:[^`\\]|\\[\s\S])*`?/y],
+  ["string", DOUBLE_QUOTED],
+  ["string", SINGLE_QUOTED],
+  ["keyword", keywords(JS_KEYWORDS)],
+  ["literal", keywords("true false null undefined NaN Infinity")],
+  ["number", NUMBER],
+  ["function", FUNCTION]
+];
+
+const typescript: SyntaxGrammar = [
+  ...javascript.slice(0, 5),
+  [
+    "keyword",
+    keywords(`${JS_KEYWORDS} abstract as declare enum implements interface keyof namespace
+      private protected public readonly satisfies type`)
+  ],
+  ["type", keywords("any boolean never number object string symbol unknown void")],
+  ...javascript.slice(6)
+];
+
+const json: SyntaxGrammar = [
+  ["property", /"(?:[^"\\\n]|\\.)*"(?=\s*:)/y],
+  ["string", DOUBLE_QUOTED],
+  ["literal", keywords("true false null")],
+  ["number", /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y]
+];
+
+const python: SyntaxGrammar = [
+  ["comment", HASH_COMMENT],
+  ["string", /[rbfu]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/iy],
+  ["string", /[rbfu]{0,2}(?:"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?)/iy],
+  [
+    "keyword",
+    keywords(`and as assert async await break class continue def del elif else except finally for
+      from global if import in is lambda nonlocal not or pass raise return try while with yield`)
+  ],
+  ["literal", keywords("True False None")],
+  ["attribute", /@[\w.]+/y],
+  ["number", NUMBER],
+  ["function", FUNCTION]
+];
+
+const bash: SyntaxGrammar = [
+  ["variable", /\$(?:\{[^}\n]*\}?|[\w@#?$!*-])/y],
+  ["comment", HASH_COMMENT],
+  ["string", DOUBLE_QUOTED],
+  ["string", SINGLE_QUOTED],
+  [
+    "keyword",
+    keywords(`if then else elif fi for while until do done case esac in function return export
+      local readonly unset`)
+  ],
+  ["function", /\b(?:cd|echo|curl|npm|npx|pnpm|yarn|git|docker|sudo|cat|ls|mkdir|rm|cp|mv|grep|sed)\b/y],
+  ["attribute", /\B--?[A-Za-z][\w-]*/y],
+  ["number", /\b\d+\b/y]
+];
+
+const markup: SyntaxGrammar = [
+  ["comment", /<!--[\s\S]*?(?:-->|$)/y],
+  ["keyword", /<!DOCTYPE[^>]*>?/iy],
+  ["tag", /<\/?[A-Za-z][\w:.-]*|\/?>/y],
+  ["attribute", /\b[\w:.-]+(?==)/y],
+  ["string", DOUBLE_QUOTED],
+  ["string", SINGLE_QUOTED]
+];
+
+const css: SyntaxGrammar = [
+  ["comment", BLOCK_COMMENT],
+  ["string", DOUBLE_QUOTED],
+  ["string", SINGLE_QUOTED],
+  ["keyword", /@[\w-]+/y],
+  ["property", /[\w-]+(?=\s*:(?!:))/y],
+  ["number", /-?\d*\.?\d+(?:%|[a-z]+)?/iy],
+  ["tag", /[.#][A-Za-z_-][\w-]*/y]
+];
+
+const sql: SyntaxGrammar = [
+  ["comment", /--.*/y],
+  ["comment", BLOCK_COMMENT],
+  ["string", SINGLE_QUOTED],
+  ["property", /"(?:[^"\n]|"")*"?|`[^`\n]*`?/y],
+  [
+    "keyword",
+    /\b(?:select|from|where|and|or|not|insert|into|values|update|set|delete|create|alter|drop|table|index|view|join|inner|left|right|outer|full|on|as|group|by|order|having|limit|offset|union|all|distinct|case|when|then|else|end|is|in|like|between|exists|primary|key|foreign|references|default|returning|with|asc|desc)\b/iy
+  ],
+  ["literal", /\b(?:null|true|false)\b/iy],
+  ["number", NUMBER],
+  ["function", FUNCTION]
+];
+
+const yaml: SyntaxGrammar = [
+  ["comment", HASH_COMMENT],
+  ["property", /[\w.-]+(?=\s*:(?:\s|$))/y],
+  ["string", DOUBLE_QUOTED],
+  ["string", SINGLE_QUOTED],
+  ["literal", /\b(?:true|false|null|yes|no|on|off)\b|~/y],
+  ["number", NUMBER]
+];
+
+const diff: SyntaxGrammar = [
+  ["comment", /^(?:@@.*|diff .*|index .*)$/my],
+  ["inserted", /^\+.*$/my],
+  ["deleted", /^-.*$/my]
+];
+
+export const SYNTAX_GRAMMARS: Record<string, SyntaxGrammar> = {
+  javascript,
+  typescript,
+  json,
+  python,
+  bash,
+  markup,
+  css,
+  sql,
+  yaml,
+  diff,
+  go: cLike(
+    `break case chan const continue default defer else fallthrough for func go goto if import
+      interface map package range return select struct switch type var`,
+    "true false nil iota"
+  ),
+  rust: cLike(
+    `as async await break const continue crate dyn else enum extern fn for if impl in let loop
+      match mod move mut pub ref return self Self static struct super trait type unsafe use where while`,
+    "true false None Some Ok Err"
+  ),
+  java: cLike(
+    `abstract assert boolean break byte case catch char class const continue default do double
+      else enum extends final finally float for if implements import instanceof int interface long
+      new package private protected public return short static super switch this throw throws try
+      void volatile while var record`
+  ),
+  c: cLike(
+    `auto break case char const continue default do double else enum extern float for goto if
+      int long register return short signed sizeof static struct switch typedef union unsigned
+      void volatile while class namespace template typename public private
+      protected virtual new delete using`,
+    "true false NULL nullptr"
+  ),
+  csharp: cLike(
+    `abstract as async await base bool break case catch class const continue decimal default
+      delegate do double else enum event explicit extern finally fixed float for foreach if
+      implicit in int interface internal is lock long namespace new object operator out override
+      params private protected public readonly ref return sealed short static string struct switch
+      this throw try typeof uint using var virtual void while`
+  ),
+  php: cLike(
+    `abstract and as break case catch class const continue declare default do echo else elseif
+      extends final finally fn for foreach function global if implements include interface match
+      namespace new or private protected public require return static switch throw trait try use
+      var while yield`
+  ),
+  ruby: [
+    ["comment", HASH_COMMENT],
+    ["string", DOUBLE_QUOTED],
+    ["string", SINGLE_QUOTED],
+    ["literal", /:\w+|\b(?:true|false|nil)\b/y],
+    [
+      "keyword",
+      keywords(`begin break case class def defined do else elsif end ensure if in module next
+        redo rescue retry return self super then unless until when while yield require`)
+    ],
+    ["variable", /@{1,2}\w+/y],
+    ["number", NUMBER],
+    ["function", FUNCTION]
+  ]
+};
+
+/** Fence names that map to a grammar under a different key */
+export const SYNTAX_ALIASES: Record<string, string> = {
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  ts: "typescript",
+  tsx: "typescript",
+  py: "python",
+  sh: "bash",
+  shell: "bash",
+  zsh: "bash",
+  console: "bash",
+  html: "markup",
+  xml: "markup",
+  svg: "markup",
+  vue: "markup",
+  scss: "css",
+  less: "css",
+  yml: "yaml",
+  patch: "diff",
+  golang: "go",
+  rs: "rust",
+  kotlin: "java",
+  kt: "java",
+  h: "c",
+  cpp: "c",
+  "c++": "c",
+  cs: "csharp",
+  rb: "ruby",
+  postgres: "sql",
+  mysql: "sql",
+  jsonc: "json"
+};
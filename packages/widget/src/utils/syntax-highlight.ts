@@ -0,0 +1,152 @@
+import { escapeHtml } from "../postprocessors";
+
+export type SyntaxTokenType =
+  | "comment"
+  | "string"
+  | "keyword"
+  | "literal"
+  | "number"
+  | "function"
+  | "type"
+  | "property"
+  | "attribute"
+  | "variable"
+  | "tag"
+  | "inserted"
+  | "deleted";
+
+/** Ordered `[token, sticky RegExp]` rules; the first rule matching at a position wins */
+export type SyntaxGrammar = Array<[SyntaxTokenType, RegExp]>;
+
+type LoadedGrammars = {
+  grammars: Record<string, SyntaxGrammar>;
+  aliases: Record<string, string>;
+};
+
+type GrammarsModule = {
+  SYNTAX_GRAMMARS: Record<string, SyntaxGrammar>;
+  SYNTAX_ALIASES: Record<string, string>;
+};
+
+export type LoadSyntaxGrammarsOptions = {
+  /**
+   * URL of `syntax-grammars.global.js` for the script-tag build
+   * (default: next to the widget script). The npm builds load a bundled chunk
+   * and ignore it.
+   */
+  url?: string;
+};
+
+// Defined by the script-tag build, which can't split chunks
+declare const __SYNTAX_GRAMMARS_SCRIPT__: boolean | undefined;
+
+let loaded: LoadedGrammars | null = null;
+let loading: Promise<void> | null = null;
+
+// Captured while the widget script runs; `currentScript` is null afterwards
+const widgetScriptUrl =
+  typeof document !== "undefined"
+    ? (document.currentScript as HTMLScriptElement | null)?.src
+    : undefined;
+
+const loadGrammarsScript = (url: string) =>
+  new Promise<GrammarsModule>((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = url;
+    script.async = true;
+    script.onload = () => {
+      const module = (window as unknown as { AgentWidgetSyntaxGrammars?: GrammarsModule })
+        .AgentWidgetSyntaxGrammars;
+      if (module) {
+        resolve(module);
+      } else {
+        reject(new Error(`${url} did not define AgentWidgetSyntaxGrammars`));
+      }
+    };
+    script.onerror = () => reject(new Error(`Failed to load ${url}`));
+    document.head.appendChild(script);
+  });
+
+// Highlighted HTML by language and source; every render re-parses all messages
+const cache = new Map<string, string>();
+const CACHE_LIMIT = 200;
+
+/**
+ * Load the built-in grammars. The widget calls this once a code block is
+ * shown; repeated calls share one load.
+ */
+export const loadSyntaxGrammars = (options: LoadSyntaxGrammarsOptions = {}): Promise<void> => {
+  if (!loading) {
+    const source: Promise<GrammarsModule> =
+      typeof __SYNTAX_GRAMMARS_SCRIPT__ !== "undefined" && __SYNTAX_GRAMMARS_SCRIPT__
+        ? loadGrammarsScript(
+            options.url ??
+              new URL("syntax-grammars.global.js", widgetScriptUrl || document.baseURI).href
+          )
+        : import("./syntax-grammars");
+    loading = source.then((module) => {
+      loaded = { grammars: module.SYNTAX_GRAMMARS, aliases: module.SYNTAX_ALIASES };
+    });
+  }
+  return loading;
+};
+
+export const isSyntaxGrammarsLoaded = () => loaded !== null;
+
+/**
+ * Grammar name for a fence language (e.g. "ts" → "typescript"), or null when
+ * the grammars aren't loaded yet or the language is unknown
+ */
+export const resolveSyntaxLanguage = (language: string): string | null => {
+  if (!loaded) return null;
+  const name = language.trim().toLowerCase();
+  const resolved = loaded.aliases[name] ?? name;
+  return loaded.grammars[resolved] ? resolved : null;
+};
+
+/**
+ * Highlight source code as HTML with `tvw-token-*` spans. Returns null when
+ * the language has no grammar or the grammars haven't been loaded yet
+ * (see `loadSyntaxGrammars`).
+ */
+export const highlightCode = (code: string, language: string): string | null => {
+  const name = resolveSyntaxLanguage(language);
+  if (!loaded || !name) return null;
+
+  const key = `${name}\u0000${code}`;
+  const cached = cache.get(key);
+  if (cached !== undefined) return cached;
+
+  const grammar = loaded.grammars[name];
+  let html = "";
+  let plain = "";
+  let index = 0;
+  while (index < code.length) {
+    let matched = false;
+    for (const [type, pattern] of grammar) {
+      pattern.lastIndex = index;
+      const match = pattern.exec(code);
+      if (match && match[0].length > 0) {
+        html += escapeHtml(plain) + `<span class="tvw-token-${type}">${escapeHtml(match[0])}</span>`;
+        plain = "";
+        index += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      // Skip the rest of a word so rules can't match inside identifiers
+      const word = /^[\w$]+/.exec(code.slice(index, index + 64));
+      const length = word ? word[0].length : 1;
+      plain += code.slice(index, index + length);
+      index += length;
+    }
+  }
+  html += escapeHtml(plain);
+
+  if (cache.size >= CACHE_LIMIT) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  cache.set(key, html);
+  return html;
+};
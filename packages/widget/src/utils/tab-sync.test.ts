@@ -0,0 +1,36 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createTabSync, TabSyncMessage } from './tab-sync';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('createTabSync', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should return null outside the browser', () => {
+    expect(createTabSync({ channelName: 'test-sync', onMessage: () => {} })).toBeNull();
+  });
+
+  it('should deliver messages to other instances on the same channel only', async () => {
+    vi.stubGlobal('window', {});
+    const received: TabSyncMessage[] = [];
+    const ownMessages: TabSyncMessage[] = [];
+    const otherChannel: TabSyncMessage[] = [];
+
+    const sender = createTabSync({ channelName: 'test-sync', onMessage: (m) => ownMessages.push(m) })!;
+    const receiver = createTabSync({ channelName: 'test-sync', onMessage: (m) => received.push(m) })!;
+    const unrelated = createTabSync({ channelName: 'other-sync', onMessage: (m) => otherChannel.push(m) })!;
+
+    sender.post({ type: 'open', open: true });
+    await wait(20);
+
+    expect(received).toEqual([{ type: 'open', open: true }]);
+    expect(ownMessages).toEqual([]);
+    expect(otherChannel).toEqual([]);
+
+    sender.close();
+    receiver.close();
+    unrelated.close();
+  });
+});
@@ -0,0 +1,114 @@
+import type { AgentWidgetMessage, AgentWidgetStoredState } from "../types";
+
+/**
+ * Messages exchanged between widget instances in different tabs
+ */
+export type TabSyncMessage =
+  | {
+      type: "state";
+      state: AgentWidgetStoredState;
+      /** True while the sending tab is streaming a response */
+      streaming: boolean;
+    }
+  /** Messages changed since the sender's last "state", posted while it streams */
+  | { type: "messages"; messages: AgentWidgetMessage[]; streaming: boolean }
+  | { type: "open"; open: boolean }
+  | { type: "request-state" }
+  /** Sent periodically by the streaming tab so others know it's still alive */
+  | { type: "heartbeat" }
+  | { type: "closed" };
+
+type TabSyncEnvelope = {
+  source: string;
+  nonce: number;
+  message: TabSyncMessage;
+};
+
+export type TabSyncOptions = {
+  channelName: string;
+  onMessage: (message: TabSyncMessage) => void;
+};
+
+export type TabSync = {
+  post: (message: TabSyncMessage) => void;
+  close: () => void;
+};
+
+const generateTabId = () =>
+  `tab_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 10)}`;
+
+/**
+ * Connect to the other tabs using the same channel name.
+ * Uses BroadcastChannel when available and falls back to localStorage
+ * `storage` events. Returns null outside the browser.
+ */
+export const createTabSync = (options: TabSyncOptions): TabSync | null => {
+  if (typeof window === "undefined") return null;
+
+  const tabId = generateTabId();
+  let nonce = 0;
+
+  const receive = (envelope: TabSyncEnvelope | null | undefined) => {
+    if (!envelope || envelope.source === tabId || !envelope.message) return;
+    options.onMessage(envelope.message);
+  };
+
+  const wrap = (message: TabSyncMessage): TabSyncEnvelope => ({
+    source: tabId,
+    nonce: nonce++,
+    message
+  });
+
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(options.channelName);
+    channel.onmessage = (event: MessageEvent<TabSyncEnvelope>) => receive(event.data);
+    return {
+      post: (message) => {
+        try {
+          channel.postMessage(wrap(message));
+        } catch (error) {
+          if (typeof console !== "undefined") {
+            // eslint-disable-next-line no-console
+            console.error("[AgentWidget] Failed to broadcast tab sync message:", error);
+          }
+        }
+      },
+      close: () => channel.close()
+    };
+  }
+
+  let storage: Storage;
+  try {
+    storage = window.localStorage;
+  } catch {
+    return null;
+  }
+  if (!storage) return null;
+
+  const storageKey = `${options.channelName}:message`;
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== storageKey || !event.newValue) return;
+    try {
+      receive(JSON.parse(event.newValue));
+    } catch {
+      // Ignore values written by something else
+    }
+  };
+  window.addEventListener("storage", handleStorage);
+
+  return {
+    post: (message) => {
+      try {
+        // Storage events fire in other tabs only; removing right away keeps the key from piling up
+        storage.setItem(storageKey, JSON.stringify(wrap(message)));
+        storage.removeItem(storageKey);
+      } catch (error) {
+        if (typeof console !== "undefined") {
+          // eslint-disable-next-line no-console
+          console.error("[AgentWidget] Failed to broadcast tab sync message:", error);
+        }
+      }
+    },
+    close: () => window.removeEventListener("storage", handleStorage)
+  };
+};
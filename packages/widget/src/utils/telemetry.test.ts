@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createAnalyticsSink, createBeaconSink, createTelemetry } from './telemetry';
+import type { AgentWidgetTelemetryEvent } from '../types';
+
+const openEvent: AgentWidgetTelemetryEvent = { name: 'widget_open', source: 'user', timestamp: 1 };
+
+describe('telemetry', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('should stamp events and keep going when a sink throws', () => {
+    const received: AgentWidgetTelemetryEvent[] = [];
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const telemetry = createTelemetry(() => ({
+      flowId: 'flow_support',
+      telemetry: {
+        sinks: [
+          () => {
+            throw new Error('sink down');
+          },
+          (event) => received.push(event)
+        ]
+      }
+    }));
+
+    telemetry.track({ name: 'first_chunk', dispatchId: 'ast_1', timeToFirstChunkMs: 120 });
+    expect(received).toEqual([
+      expect.objectContaining({ name: 'first_chunk', flowId: 'flow_support', timeToFirstChunkMs: 120, timestamp: expect.any(Number) })
+    ]);
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it('should batch events into beacons', async () => {
+    vi.useFakeTimers();
+    const sendBeacon = vi.fn().mockReturnValue(true);
+    vi.stubGlobal('navigator', { sendBeacon });
+    const sink = createBeaconSink({ url: '/api/telemetry', batchSize: 3, flushIntervalMs: 1000 });
+
+    sink(openEvent);
+    sink(openEvent);
+    expect(sendBeacon).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1000);
+    expect(sendBeacon).toHaveBeenCalledTimes(1);
+    const [url, blob] = sendBeacon.mock.calls[0];
+    expect(url).toBe('/api/telemetry');
+    expect(JSON.parse(await blob.text()).events).toHaveLength(2);
+
+    sink(openEvent);
+    sink(openEvent);
+    sink(openEvent);
+    expect(sendBeacon).toHaveBeenCalledTimes(2);
+  });
+
+  it('should send queued events and stop listening for page visibility on dispose', () => {
+    const sendBeacon = vi.fn().mockReturnValue(true);
+    vi.stubGlobal('navigator', { sendBeacon });
+    const document = { visibilityState: 'visible', addEventListener: vi.fn(), removeEventListener: vi.fn() };
+    vi.stubGlobal('document', document);
+    const sink = createBeaconSink();
+
+    sink(openEvent);
+    expect(document.addEventListener).toHaveBeenCalledWith('visibilitychange', expect.any(Function));
+
+    sink.dispose!();
+    expect(sendBeacon).toHaveBeenCalledTimes(1);
+    expect(document.removeEventListener).toHaveBeenCalledWith(
+      'visibilitychange',
+      document.addEventListener.mock.calls[0][1]
+    );
+  });
+
+  it('should forward events to gtag and Segment', () => {
+    const gtag = vi.fn();
+    const analytics = { track: vi.fn() };
+    const sink = createAnalyticsSink({ gtag, analytics });
+
+    sink({ name: 'tool_complete', toolName: 'search', durationMs: 40, timestamp: 5 });
+    expect(gtag).toHaveBeenCalledWith('event', 'agent_widget_tool_complete', { toolName: 'search', durationMs: 40, timestamp: 5 });
+    expect(analytics.track).toHaveBeenCalledWith('agent_widget_tool_complete', { toolName: 'search', durationMs: 40, timestamp: 5 });
+  });
+});
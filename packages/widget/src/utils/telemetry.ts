@@ -0,0 +1,171 @@
+import type {
+  AgentWidgetConfig,
+  AgentWidgetTelemetryEvent,
+  AgentWidgetTelemetrySink
+} from "../types";
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * A telemetry event before the widget stamps it with `timestamp` and `flowId`
+ */
+export type TelemetryEventInput = DistributiveOmit<
+  AgentWidgetTelemetryEvent,
+  "timestamp" | "flowId"
+>;
+
+export type Telemetry = {
+  track: (event: TelemetryEventInput) => void;
+};
+
+/**
+ * Sends events to the sinks of the current `telemetry` config. Reads the config
+ * on every event, so sinks can be changed with `update()`.
+ */
+export const createTelemetry = (getConfig: () => AgentWidgetConfig): Telemetry => ({
+  track(input) {
+    const config = getConfig();
+    const telemetry = config.telemetry;
+    if (!telemetry || telemetry.enabled === false || !telemetry.sinks?.length) return;
+
+    const event = {
+      ...input,
+      timestamp: Date.now(),
+      ...(config.flowId && { flowId: config.flowId })
+    } as AgentWidgetTelemetryEvent;
+    telemetry.sinks.forEach((sink) => {
+      try {
+        sink(event);
+      } catch (error) {
+        if (typeof console !== "undefined") {
+          // eslint-disable-next-line no-console
+          console.error("[AgentWidget] Telemetry sink error:", error);
+        }
+      }
+    });
+  }
+});
+
+export type BeaconSinkOptions = {
+  /**
+   * Endpoint receiving `{ events: AgentWidgetTelemetryEvent[] }`, e.g. the proxy's telemetry route
+   * @default "/api/telemetry"
+   */
+  url?: string;
+  /**
+   * Send as soon as this many events are queued
+   * @default 20
+   */
+  batchSize?: number;
+  /**
+   * Send queued events after this long
+   * @default 5000
+   */
+  flushIntervalMs?: number;
+};
+
+/**
+ * Batches events and posts them with `navigator.sendBeacon`, which survives
+ * page unloads. Falls back to `fetch` with `keepalive` when beacons are unavailable
+ * or rejected. Queued events are also sent when the page is hidden.
+ * `dispose()` sends what is queued and stops listening for page visibility.
+ */
+export const createBeaconSink = (options: BeaconSinkOptions = {}): AgentWidgetTelemetrySink => {
+  const url = options.url ?? "/api/telemetry";
+  const batchSize = options.batchSize ?? 20;
+  const flushIntervalMs = options.flushIntervalMs ?? 5000;
+  const queue: AgentWidgetTelemetryEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let listening = false;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (queue.length === 0) return;
+    const body = JSON.stringify({ events: queue.splice(0) });
+    // text/plain keeps cross-origin beacons free of CORS preflights
+    const type = "text/plain;charset=UTF-8";
+    const sent =
+      typeof navigator !== "undefined" &&
+      typeof navigator.sendBeacon === "function" &&
+      navigator.sendBeacon(url, new Blob([body], { type }));
+    if (!sent && typeof fetch === "function") {
+      fetch(url, { method: "POST", body, keepalive: true, headers: { "Content-Type": type } }).catch(
+        () => {}
+      );
+    }
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === "hidden") flush();
+  };
+
+  const listen = () => {
+    if (listening || typeof document === "undefined") return;
+    listening = true;
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+  };
+
+  const sink: AgentWidgetTelemetrySink = (event) => {
+    listen();
+    queue.push(event);
+    if (queue.length >= batchSize) {
+      flush();
+    } else if (!timer) {
+      timer = setTimeout(flush, flushIntervalMs);
+    }
+  };
+  sink.dispose = () => {
+    flush();
+    if (!listening) return;
+    listening = false;
+    document.removeEventListener("visibilitychange", handleVisibilityChange);
+  };
+  return sink;
+};
+
+type GtagFunction = (command: "event", name: string, params?: Record<string, unknown>) => void;
+
+type SegmentAnalytics = {
+  track: (event: string, properties?: Record<string, unknown>) => void;
+};
+
+export type AnalyticsSinkOptions = {
+  /**
+   * Google Analytics `gtag` (default: `window.gtag`)
+   */
+  gtag?: GtagFunction;
+  /**
+   * Segment-compatible client with `track(event, properties)` (default: `window.analytics`)
+   */
+  analytics?: SegmentAnalytics;
+  /**
+   * Prepended to event names
+   * @default "agent_widget_"
+   */
+  prefix?: string;
+};
+
+/**
+ * Forwards events to Google Analytics (`gtag("event", ...)`) and/or a
+ * Segment-shaped `analytics.track`. The remaining event fields become the
+ * event parameters. Clients are looked up on every event, so the sink can be
+ * created before the analytics snippet loads.
+ */
+export const createAnalyticsSink = (
+  options: AnalyticsSinkOptions = {}
+): AgentWidgetTelemetrySink => {
+  const prefix = options.prefix ?? "agent_widget_";
+  return ({ name, ...params }) => {
+    const globals =
+      typeof window !== "undefined"
+        ? (window as unknown as { gtag?: GtagFunction; analytics?: SegmentAnalytics })
+        : {};
+    const gtag = options.gtag ?? globals.gtag;
+    const analytics = options.analytics ?? globals.analytics;
+    gtag?.("event", `${prefix}${name}`, params);
+    analytics?.track(`${prefix}${name}`, params);
+  };
+};
@@ -89,15 +89,23 @@ export const applyThemeVariables = (
   config?: AgentWidgetConfig
 ) => {
   const theme = getActiveTheme(config);
-  Object.entries(theme).forEach(([key, value]) => {
-    // Skip undefined or empty values
-    if (value === undefined || value === null || value === "") {
-      return;
-    }
-    // Convert camelCase to kebab-case (e.g., radiusSm → radius-sm)
-    const kebabKey = key.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
-    element.style.setProperty(`--cw-${kebabKey}`, String(value));
-  });
+  const setVariables = (values: object, prefix: string) => {
+    Object.entries(values).forEach(([key, value]) => {
+      // Skip undefined or empty values
+      if (value === undefined || value === null || value === "") {
+        return;
+      }
+      // Convert camelCase to kebab-case (e.g., radiusSm → radius-sm)
+      const kebabKey = key.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+      // Token sets such as `code` become prefixed variables (--cw-code-keyword)
+      if (typeof value === "object") {
+        setVariables(value, `${prefix}${kebabKey}-`);
+        return;
+      }
+      element.style.setProperty(`--cw-${prefix}${kebabKey}`, String(value));
+    });
+  };
+  setVariables(theme, "");
 };
 
 
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { createThreadStore } from './threads';
+import { AgentWidgetMessage } from '../types';
+
+const message = (id: string, role: 'user' | 'assistant', content: string): AgentWidgetMessage => ({
+  id,
+  role,
+  content,
+  createdAt: '2025-01-01T00:00:00.000Z'
+});
+
+describe('createThreadStore', () => {
+  it('should wrap stored state without threads in a default thread', () => {
+    const store = createThreadStore({ messages: [message('usr_1', 'user', 'Where is my order?')] });
+    const activeMessages = [message('usr_1', 'user', 'Where is my order?')];
+
+    const threads = store.list(activeMessages);
+    expect(threads).toHaveLength(1);
+    expect(threads[0].id).toBe(store.getActiveId());
+    expect(threads[0].title).toBe('Where is my order?');
+    expect(threads[0].messageCount).toBe(1);
+  });
+
+  it('should swap thread data in and out when activating', () => {
+    const store = createThreadStore(null);
+    const firstId = store.getActiveId();
+    const second = store.create('Billing');
+
+    const incoming = store.activate(second.id, {
+      messages: [message('usr_1', 'user', 'Hello')],
+      metadata: { session_id: 'abc' }
+    });
+    expect(incoming).toEqual({ messages: [], branches: undefined, metadata: undefined });
+    expect(store.getActiveId()).toBe(second.id);
+
+    const serialized = store.serialize();
+    const storedFirst = serialized.threads?.find((thread) => thread.id === firstId);
+    expect(storedFirst?.messages).toHaveLength(1);
+    expect(storedFirst?.metadata).toEqual({ session_id: 'abc' });
+
+    const restored = store.activate(firstId, { messages: [] });
+    expect(restored?.messages[0].content).toBe('Hello');
+    expect(store.serialize().threads?.find((thread) => thread.id === firstId)?.messages).toBeUndefined();
+  });
+
+  it('should restore the active thread from serialized state', () => {
+    const store = createThreadStore(null);
+    const second = store.create();
+    store.activate(second.id, { messages: [message('usr_1', 'user', 'First thread')] });
+
+    const reloaded = createThreadStore({ ...store.serialize(), messages: [] });
+    expect(reloaded.getActiveId()).toBe(second.id);
+    expect(reloaded.list([]).map((thread) => thread.title)).toContain('First thread');
+  });
+
+  it('should rename, remove and prune threads', () => {
+    const store = createThreadStore(null, { maxThreads: 2, untitledLabel: 'Untitled' });
+    const activeId = store.getActiveId();
+    expect(store.list([])[0].title).toBe('Untitled');
+
+    expect(store.rename(activeId, 'Renamed')).toBe(true);
+    expect(store.summarize(activeId, [])?.title).toBe('Renamed');
+
+    store.create();
+    store.create();
+    expect(store.count()).toBe(2);
+    expect(store.has(activeId)).toBe(true);
+
+    expect(store.remove(activeId)).toBe(true);
+    expect(store.has(activeId)).toBe(false);
+  });
+});
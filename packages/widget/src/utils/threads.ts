@@ -0,0 +1,211 @@
+import type {
+  AgentWidgetMessage,
+  AgentWidgetMessageBranches,
+  AgentWidgetStoredState,
+  AgentWidgetStoredThread,
+  AgentWidgetThread
+} from "../types";
+
+const DEFAULT_UNTITLED_LABEL = "New conversation";
+const DEFAULT_MAX_THREADS = 50;
+const TITLE_MAX_LENGTH = 60;
+
+/**
+ * Messages, branches and metadata of the thread currently loaded in the session
+ */
+export type ThreadSnapshot = {
+  messages: AgentWidgetMessage[];
+  branches?: AgentWidgetMessageBranches;
+  metadata?: Record<string, unknown>;
+};
+
+export type ThreadStoreOptions = {
+  untitledLabel?: string;
+  maxThreads?: number;
+};
+
+/**
+ * Generate a unique thread ID
+ * Format: thr_{timestamp_base36}_{random_8chars}
+ */
+export function generateThreadId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 10);
+  return `thr_${timestamp}_${random}`;
+}
+
+const deriveTitle = (
+  messages: AgentWidgetMessage[] | undefined,
+  untitledLabel: string
+) => {
+  const firstUserMessage = messages?.find(
+    (message) => message.role === "user" && message.content.trim()
+  );
+  if (!firstUserMessage) return untitledLabel;
+  const text = firstUserMessage.content.trim().replace(/\s+/g, " ");
+  return text.length > TITLE_MAX_LENGTH
+    ? `${text.slice(0, TITLE_MAX_LENGTH - 1)}…`
+    : text;
+};
+
+const createThreadRecord = (title?: string): AgentWidgetStoredThread => {
+  const now = new Date().toISOString();
+  return {
+    id: generateThreadId(),
+    ...(title ? { title } : {}),
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+/**
+ * Keeps track of conversation threads for one widget instance.
+ * The active thread's data lives in the session; the store only holds
+ * its summary and swaps data in and out when switching threads.
+ */
+export const createThreadStore = (
+  state: AgentWidgetStoredState | null | undefined,
+  options: ThreadStoreOptions = {}
+) => {
+  const untitledLabel = options.untitledLabel ?? DEFAULT_UNTITLED_LABEL;
+  const maxThreads = options.maxThreads ?? DEFAULT_MAX_THREADS;
+
+  let threads: AgentWidgetStoredThread[] = [...(state?.threads ?? [])];
+  let activeId =
+    state?.activeThreadId && threads.some((thread) => thread.id === state.activeThreadId)
+      ? state.activeThreadId
+      : null;
+
+  // Stored state from before threads existed becomes the first thread
+  if (!activeId) {
+    const initial = createThreadRecord();
+    threads.unshift(initial);
+    activeId = initial.id;
+  }
+
+  const findThread = (id: string) => threads.find((thread) => thread.id === id);
+
+  const toSummary = (
+    thread: AgentWidgetStoredThread,
+    messages: AgentWidgetMessage[] | undefined
+  ): AgentWidgetThread => ({
+    id: thread.id,
+    title: thread.title ?? deriveTitle(messages, untitledLabel),
+    createdAt: thread.createdAt,
+    updatedAt: thread.updatedAt,
+    messageCount: messages?.length ?? 0
+  });
+
+  const pruneThreads = (keepId?: string) => {
+    if (threads.length <= maxThreads) return;
+    const removable = threads
+      .filter((thread) => thread.id !== activeId && thread.id !== keepId)
+      .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+    const excess = threads.length - maxThreads;
+    const removeIds = new Set(removable.slice(0, excess).map((thread) => thread.id));
+    threads = threads.filter((thread) => !removeIds.has(thread.id));
+  };
+
+  return {
+    getActiveId: () => activeId as string,
+
+    has: (id: string) => Boolean(findThread(id)),
+
+    /**
+     * List threads, most recently updated first
+     */
+    list: (activeMessages: AgentWidgetMessage[]): AgentWidgetThread[] =>
+      [...threads]
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map((thread) =>
+          toSummary(thread, thread.id === activeId ? activeMessages : thread.messages)
+        ),
+
+    summarize: (id: string, activeMessages: AgentWidgetMessage[]) => {
+      const thread = findThread(id);
+      if (!thread) return null;
+      return toSummary(thread, id === activeId ? activeMessages : thread.messages);
+    },
+
+    /**
+     * Mark the active thread as updated (call when its messages change)
+     */
+    touchActive: () => {
+      const thread = findThread(activeId as string);
+      if (thread) thread.updatedAt = new Date().toISOString();
+    },
+
+    create: (title?: string) => {
+      const thread = createThreadRecord(title?.trim() || undefined);
+      threads.unshift(thread);
+      pruneThreads(thread.id);
+      return thread;
+    },
+
+    /**
+     * Make `id` the active thread. The outgoing snapshot is stored on the
+     * previous thread and the target's data is handed back for the session.
+     */
+    activate: (id: string, outgoing?: ThreadSnapshot): ThreadSnapshot | null => {
+      const target = findThread(id);
+      if (!target) return null;
+      const previous = activeId ? findThread(activeId) : undefined;
+      if (previous && outgoing && previous.id !== id) {
+        previous.messages = outgoing.messages;
+        previous.branches = outgoing.branches;
+        previous.metadata = outgoing.metadata;
+      }
+      const incoming: ThreadSnapshot = {
+        messages: target.messages ?? [],
+        branches: target.branches,
+        metadata: target.metadata
+      };
+      delete target.messages;
+      delete target.branches;
+      delete target.metadata;
+      activeId = id;
+      pruneThreads();
+      return incoming;
+    },
+
+    remove: (id: string) => {
+      if (!findThread(id)) return false;
+      threads = threads.filter((thread) => thread.id !== id);
+      if (activeId === id) activeId = null;
+      return true;
+    },
+
+    rename: (id: string, title: string) => {
+      const thread = findThread(id);
+      if (!thread) return false;
+      const nextTitle = title.trim();
+      if (nextTitle) {
+        thread.title = nextTitle;
+      } else {
+        delete thread.title;
+      }
+      thread.updatedAt = new Date().toISOString();
+      return true;
+    },
+
+    /**
+     * Most recently updated thread other than `excludeId`
+     */
+    getMostRecentId: (excludeId?: string) =>
+      [...threads]
+        .filter((thread) => thread.id !== excludeId)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0]?.id ?? null,
+
+    count: () => threads.length,
+
+    /**
+     * Thread fields for AgentWidgetStoredState
+     */
+    serialize: (): Pick<AgentWidgetStoredState, "threads" | "activeThreadId"> => ({
+      threads: threads.map((thread) => ({ ...thread })),
+      activeThreadId: activeId ?? undefined
+    })
+  };
+};
+
+export type ThreadStore = ReturnType<typeof createThreadStore>;
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { exportTranscript, parseTranscript } from './transcript';
+import { createTranslator } from './i18n';
+import type { AgentWidgetMessage, AgentWidgetMessageBranches } from '../types';
+
+const messages: AgentWidgetMessage[] = [
+  { id: 's1', role: 'system', content: 'Internal instructions', createdAt: '2025-01-01T10:00:00.000Z' },
+  {
+    id: 'u1',
+    role: 'user',
+    content: 'Where is <b>my</b> order?',
+    createdAt: '2025-01-01T10:00:01.000Z',
+    contentParts: [
+      { type: 'text', text: 'Where is <b>my</b> order?' },
+      { type: 'file', data: 'data:application/pdf;base64,AAAA', mimeType: 'application/pdf', filename: 'receipt.pdf' }
+    ]
+  },
+  {
+    id: 'r1',
+    role: 'assistant',
+    content: '',
+    createdAt: '2025-01-01T10:00:02.000Z',
+    variant: 'reasoning',
+    reasoning: { id: 'r1', status: 'complete', chunks: ['Look the ', 'order up'], durationMs: 1000 }
+  },
+  {
+    id: 't1',
+    role: 'assistant',
+    content: '',
+    createdAt: '2025-01-01T10:00:03.000Z',
+    variant: 'tool',
+    streaming: true,
+    toolCall: { id: 'call-1', name: 'get_order', status: 'complete', args: { orderId: 'A-42' }, result: 'Uses ``` fences' }
+  },
+  { id: 'a1', role: 'assistant', content: 'It ships **today**.', createdAt: '2025-01-01T10:00:04.000Z' }
+];
+
+describe('transcript', () => {
+  it('should export Markdown with reasoning, tool calls and attachments', () => {
+    const markdown = exportTranscript(messages, 'markdown', { title: 'Support chat' });
+    expect(markdown.startsWith('# Support chat\n')).toBe(true);
+    expect(markdown).not.toContain('Internal instructions');
+    expect(markdown).toContain('> **Reasoning** · Thought for 1 second\n>\n> Look the order up');
+    expect(markdown).toContain('**Tool call:** `get_order`');
+    expect(markdown).toContain('```json\n{\n  "orderId": "A-42"\n}\n```');
+    // Longer fence around output containing backticks
+    expect(markdown).toContain('````json\nUses ``` fences\n````');
+    expect(markdown).toContain('📎 Attachment: receipt.pdf');
+    expect(markdown).toContain('It ships **today**.');
+  });
+
+  it('should export a self-contained HTML page with escaped user text', () => {
+    const html = exportTranscript(messages, 'html', {
+      i18n: createTranslator({ locale: 'ar' }),
+      renderHtml: (message) => `<p>${message.content.replace(/\*\*(.+)\*\*/, '<strong>$1</strong>')}</p>`
+    });
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<html lang="ar" dir="rtl">');
+    expect(html).toContain('<style>');
+    expect(html).toContain('Where is &lt;b&gt;my&lt;/b&gt; order?');
+    expect(html).toContain('<p>It ships <strong>today</strong>.</p>');
+    expect(html).toContain('<summary>');
+    expect(html).not.toContain('Internal instructions');
+  });
+
+  it('should export plain text', () => {
+    const text = exportTranscript(messages, 'text', { title: 'Support chat' });
+    expect(text).toContain('[Tool call: get_order]\nArguments: {');
+    expect(text).toContain('Assistant · ');
+    expect(text).toContain('Attachment: receipt.pdf');
+  });
+
+  it('should round-trip messages and branches through JSON', () => {
+    const branches: AgentWidgetMessageBranches = { u1: { active: 1, tails: [[messages[4]], [{ ...messages[4], id: 'a2' }]] } };
+    const json = exportTranscript(messages, 'json', { branches });
+    const parsed = parseTranscript(json);
+    expect(parsed.messages).toEqual(messages.map(({ streaming: _streaming, ...message }) => message));
+    expect(parsed.branches).toEqual(branches);
+    expect(JSON.parse(json).version).toBe(1);
+
+    expect(parseTranscript([messages[1]]).messages).toHaveLength(1);
+    expect(() => parseTranscript('{"messages": [{"id": "x"}]}')).toThrow(/message 0/);
+    expect(() => parseTranscript('{}')).toThrow(/no messages/);
+  });
+});
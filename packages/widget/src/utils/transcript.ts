@@ -0,0 +1,294 @@
+import type {
+  AgentWidgetConfig,
+  AgentWidgetMessage,
+  AgentWidgetMessageBranches,
+  AgentWidgetToolCall,
+  AgentWidgetTranscript,
+  AgentWidgetTranscriptFormat
+} from "../types";
+import { escapeHtml } from "../postprocessors";
+import { downloadFile } from "./dom";
+import { formatReasoningDuration, formatUnknownValue } from "./formatting";
+import { AgentWidgetTranslator, DEFAULT_TRANSLATOR } from "./i18n";
+
+export const TRANSCRIPT_FORMATS: AgentWidgetTranscriptFormat[] = ["markdown", "html", "text", "json"];
+
+const FILE_TYPES: Record<AgentWidgetTranscriptFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: "md", mimeType: "text/markdown" },
+  html: { extension: "html", mimeType: "text/html" },
+  text: { extension: "txt", mimeType: "text/plain" },
+  json: { extension: "json", mimeType: "application/json" }
+};
+
+export type TranscriptExportOptions = {
+  /** Heading of the Markdown, HTML and text exports */
+  title?: string;
+  i18n?: AgentWidgetTranslator;
+  branches?: AgentWidgetMessageBranches;
+  /**
+   * Converts assistant content to HTML for the HTML export. The widget passes
+   * its own postprocessor so the file matches what was shown.
+   * @default escapes the text
+   */
+  renderHtml?: (message: AgentWidgetMessage) => string;
+};
+
+/**
+ * Whether the header export button and menu are shown
+ */
+export const isTranscriptExportEnabled = (config?: Pick<AgentWidgetConfig, "transcriptExport">) => {
+  const transcriptExport = config?.transcriptExport;
+  return (
+    transcriptExport === true ||
+    (typeof transcriptExport === "object" && transcriptExport.enabled !== false)
+  );
+};
+
+const formatDateTime = (createdAt: string, locale: string) => {
+  const date = new Date(createdAt);
+  if (Number.isNaN(date.getTime())) return "";
+  return date.toLocaleString(locale, { dateStyle: "medium", timeStyle: "short" });
+};
+
+const getToolCalls = (message: AgentWidgetMessage): AgentWidgetToolCall[] =>
+  message.tools ?? (message.toolCall ? [message.toolCall] : []);
+
+const describeRole = (message: AgentWidgetMessage, i18n: AgentWidgetTranslator) =>
+  message.role === "user" ? i18n.t("transcriptUserLabel") : i18n.t("transcriptAssistantLabel");
+
+// A fence longer than any backtick run inside the code
+const fence = (code: string, language = "") => {
+  const longest = Math.max(2, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = "`".repeat(longest + 1);
+  return `${marker}${language}\n${code}\n${marker}`;
+};
+
+const toMarkdown = (messages: AgentWidgetMessage[], title: string, i18n: AgentWidgetTranslator) => {
+  const sections = messages.map((message) => {
+    const time = formatDateTime(message.createdAt, i18n.locale);
+    const lines = [`**${describeRole(message, i18n)}**${time ? ` · ${time}` : ""}`, ""];
+    if (message.reasoning?.chunks.length) {
+      lines.push(
+        `> **${i18n.t("reasoningMessageLabel")}** · ${formatReasoningDuration(message.reasoning, i18n)}`,
+        ">",
+        ...message.reasoning.chunks.join("").split("\n").map((line) => `> ${line}`.trimEnd()),
+        ""
+      );
+    }
+    getToolCalls(message).forEach((tool) => {
+      lines.push(`**${i18n.t("toolMessageLabel")}:** \`${tool.name ?? tool.id}\``, "");
+      if (tool.args !== undefined) {
+        lines.push(`${i18n.t("toolArguments")}:`, "", fence(formatUnknownValue(tool.args), "json"), "");
+      }
+      if (tool.result !== undefined) {
+        lines.push(`${i18n.t("toolResult")}:`, "", fence(formatUnknownValue(tool.result), "json"), "");
+      }
+    });
+    if (message.content) {
+      lines.push(message.content, "");
+    }
+    message.contentParts?.forEach((part) => {
+      if (part.type === "image") {
+        lines.push(`![${part.alt ?? ""}](${part.image})`, "");
+      } else if (part.type === "file") {
+        lines.push(`📎 ${i18n.t("transcriptAttachment", { name: part.filename })}`, "");
+      }
+    });
+    return lines.join("\n").trimEnd();
+  });
+  return [`# ${title}`, ...sections].join("\n\n---\n\n") + "\n";
+};
+
+const toText = (messages: AgentWidgetMessage[], title: string, i18n: AgentWidgetTranslator) => {
+  const sections = messages.map((message) => {
+    const time = formatDateTime(message.createdAt, i18n.locale);
+    const lines = [`${describeRole(message, i18n)}${time ? ` · ${time}` : ""}`];
+    if (message.reasoning?.chunks.length) {
+      lines.push(
+        `[${i18n.t("reasoningMessageLabel")} · ${formatReasoningDuration(message.reasoning, i18n)}]`,
+        message.reasoning.chunks.join("")
+      );
+    }
+    getToolCalls(message).forEach((tool) => {
+      lines.push(`[${i18n.t("toolMessageLabel")}: ${tool.name ?? tool.id}]`);
+      if (tool.args !== undefined) {
+        lines.push(`${i18n.t("toolArguments")}: ${formatUnknownValue(tool.args)}`);
+      }
+      if (tool.result !== undefined) {
+        lines.push(`${i18n.t("toolResult")}: ${formatUnknownValue(tool.result)}`);
+      }
+    });
+    if (message.content) {
+      lines.push(message.content);
+    }
+    message.contentParts?.forEach((part) => {
+      if (part.type === "file") {
+        lines.push(i18n.t("transcriptAttachment", { name: part.filename }));
+      } else if (part.type === "image") {
+        lines.push(i18n.t("transcriptAttachment", { name: part.alt || part.mimeType || "image" }));
+      }
+    });
+    return lines.join("\n");
+  });
+  return [title, ...sections].join("\n\n") + "\n";
+};
+
+const HTML_STYLES = `
+  body { margin: 0; background: #f8fafc; color: #111827; font: 15px/1.6 system-ui, -apple-system, "Segoe UI", sans-serif; }
+  main { max-width: 720px; margin: 0 auto; padding: 2rem 1rem; }
+  h1 { font-size: 1.375rem; }
+  article { margin: 1rem 0; padding: 0.75rem 1rem; border: 1px solid #e5e7eb; border-radius: 0.75rem; background: #ffffff; }
+  article.user { background: #111827; border-color: #111827; color: #ffffff; }
+  article > header { margin-bottom: 0.25rem; font-size: 0.75rem; opacity: 0.7; }
+  .content-text { white-space: pre-wrap; }
+  details { margin: 0.5rem 0; }
+  summary { cursor: pointer; font-size: 0.875rem; color: #6b7280; }
+  pre { overflow-x: auto; padding: 0.75rem; border-radius: 0.5rem; background: #f3f4f6; white-space: pre-wrap; }
+  img { max-width: 100%; border-radius: 0.5rem; }
+`;
+
+const toHtml = (
+  messages: AgentWidgetMessage[],
+  title: string,
+  i18n: AgentWidgetTranslator,
+  renderHtml: (message: AgentWidgetMessage) => string
+) => {
+  const articles = messages.map((message) => {
+    const time = formatDateTime(message.createdAt, i18n.locale);
+    const parts: string[] = [
+      `<header><strong>${escapeHtml(describeRole(message, i18n))}</strong>${
+        time ? ` · <time datetime="${escapeHtml(message.createdAt)}">${escapeHtml(time)}</time>` : ""
+      }</header>`
+    ];
+    if (message.reasoning?.chunks.length) {
+      parts.push(
+        `<details><summary>${escapeHtml(
+          `${i18n.t("reasoningMessageLabel")} · ${formatReasoningDuration(message.reasoning, i18n)}`
+        )}</summary><pre>${escapeHtml(message.reasoning.chunks.join(""))}</pre></details>`
+      );
+    }
+    getToolCalls(message).forEach((tool) => {
+      const details = [`<summary>${escapeHtml(`${i18n.t("toolMessageLabel")}: ${tool.name ?? tool.id}`)}</summary>`];
+      if (tool.args !== undefined) {
+        details.push(`<p>${escapeHtml(i18n.t("toolArguments"))}</p><pre>${escapeHtml(formatUnknownValue(tool.args))}</pre>`);
+      }
+      if (tool.result !== undefined) {
+        details.push(`<p>${escapeHtml(i18n.t("toolResult"))}</p><pre>${escapeHtml(formatUnknownValue(tool.result))}</pre>`);
+      }
+      parts.push(`<details>${details.join("")}</details>`);
+    });
+    if (message.content) {
+      parts.push(
+        message.role === "user"
+          ? `<div class="content-text">${escapeHtml(message.content)}</div>`
+          : `<div class="content">${renderHtml(message)}</div>`
+      );
+    }
+    message.contentParts?.forEach((part) => {
+      if (part.type === "image") {
+        parts.push(`<img src="${escapeHtml(part.image)}" alt="${escapeHtml(part.alt ?? "")}">`);
+      } else if (part.type === "file") {
+        parts.push(`<p>📎 ${escapeHtml(i18n.t("transcriptAttachment", { name: part.filename }))}</p>`);
+      }
+    });
+    return `<article class="${message.role}">${parts.join("\n")}</article>`;
+  });
+  return [
+    "<!DOCTYPE html>",
+    `<html lang="${escapeHtml(i18n.locale)}" dir="${i18n.direction}">`,
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_STYLES}</style>`,
+    "</head>",
+    "<body>",
+    "<main>",
+    `<h1>${escapeHtml(title)}</h1>`,
+    ...articles,
+    "</main>",
+    "</body>",
+    "</html>",
+    ""
+  ].join("\n");
+};
+
+/**
+ * Serialize a conversation. Markdown, HTML and text are meant for people and
+ * leave out system messages; JSON keeps every message field and the branches.
+ */
+export const exportTranscript = (
+  messages: AgentWidgetMessage[],
+  format: AgentWidgetTranscriptFormat,
+  options: TranscriptExportOptions = {}
+): string => {
+  const i18n = options.i18n ?? DEFAULT_TRANSLATOR;
+  const title = options.title ?? i18n.t("launcherTitle");
+
+  if (format === "json") {
+    const transcript: AgentWidgetTranscript = {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      messages: messages.map(({ streaming: _streaming, ...message }) => message),
+      ...(options.branches && Object.keys(options.branches).length && { branches: options.branches })
+    };
+    return JSON.stringify(transcript, null, 2);
+  }
+
+  const visible = messages.filter((message) => message.role !== "system");
+  if (format === "markdown") return toMarkdown(visible, title, i18n);
+  if (format === "text") return toText(visible, title, i18n);
+  if (format === "html") {
+    const renderHtml = options.renderHtml ?? ((message) => `<div class="content-text">${escapeHtml(message.content)}</div>`);
+    return toHtml(visible, title, i18n, renderHtml);
+  }
+  throw new Error(`[AgentWidget] Unknown transcript format: ${String(format)}`);
+};
+
+const isMessage = (value: unknown): value is AgentWidgetMessage => {
+  if (!value || typeof value !== "object") return false;
+  const message = value as Record<string, unknown>;
+  return (
+    typeof message.id === "string" &&
+    (message.role === "user" || message.role === "assistant" || message.role === "system") &&
+    typeof message.content === "string" &&
+    typeof message.createdAt === "string"
+  );
+};
+
+/**
+ * Read a JSON transcript (or a bare message array) back into messages and
+ * branches for `hydrateMessages`. Throws when the input isn't a transcript.
+ */
+export const parseTranscript = (
+  input: string | AgentWidgetTranscript | AgentWidgetMessage[]
+): Pick<AgentWidgetTranscript, "messages" | "branches"> => {
+  const data: unknown = typeof input === "string" ? JSON.parse(input) : input;
+  const transcript: Partial<AgentWidgetTranscript> | null = Array.isArray(data)
+    ? { messages: data }
+    : (data as Partial<AgentWidgetTranscript> | null);
+  const messages: unknown[] | undefined = transcript?.messages;
+  if (!Array.isArray(messages)) {
+    throw new Error("[AgentWidget] Transcript has no messages array");
+  }
+  const invalid = messages.findIndex((message) => !isMessage(message));
+  if (invalid !== -1) {
+    throw new Error(`[AgentWidget] Transcript message ${invalid} is missing id, role, content or createdAt`);
+  }
+  return {
+    messages: messages as AgentWidgetMessage[],
+    ...(transcript?.branches && { branches: transcript.branches })
+  };
+};
+
+/**
+ * Save an exported transcript as a file through a temporary download link
+ */
+export const downloadTranscript = (
+  content: string,
+  format: AgentWidgetTranscriptFormat,
+  filename = `conversation-${new Date().toISOString().slice(0, 10)}`
+) => {
+  const { extension, mimeType } = FILE_TYPES[format];
+  downloadFile(content, `${filename}.${extension}`, mimeType);
+};
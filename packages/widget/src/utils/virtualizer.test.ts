@@ -0,0 +1,111 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import {
+  createMessagePlaceholder,
+  createMessageVirtualizer,
+  fillMessagePlaceholders,
+  PLACEHOLDER_ATTRIBUTE
+} from './virtualizer';
+import { morphMessages } from './morph';
+import type { AgentWidgetMessage } from '../types';
+
+const ids = Array.from({ length: 100 }, (_, index) => `m${index}`);
+
+const createItem = (id: string, height: number, placeholder = false) => {
+  const item = document.createElement('div');
+  item.setAttribute('data-message-item', id);
+  if (placeholder) item.setAttribute(PLACEHOLDER_ATTRIBUTE, 'true');
+  Object.defineProperty(item, 'offsetHeight', { value: height });
+  return item;
+};
+
+describe('message virtualizer', () => {
+  const virtualizer = () =>
+    createMessageVirtualizer({ threshold: 50, overscan: 200, estimatedHeight: 100 });
+
+  it('should only window lists longer than the threshold', () => {
+    expect(virtualizer().isActive(50)).toBe(false);
+    expect(virtualizer().isActive(51)).toBe(true);
+  });
+
+  it('should window the viewport plus overscan', () => {
+    // 1000px..1500px visible, 800px..1700px with overscan
+    expect(virtualizer().getWindow(ids, { top: 1000, height: 500 })).toEqual({ start: 8, end: 17 });
+  });
+
+  it('should window the end of the list when following it', () => {
+    expect(virtualizer().getWindow(ids, { top: 0, height: 500, atEnd: true })).toEqual({ start: 93, end: 100 });
+  });
+
+  it('should account for the gap between messages', () => {
+    expect(virtualizer().getWindow(ids, { top: 1100, height: 0, gap: 10 })).toEqual({ start: 8, end: 12 });
+  });
+
+  it('should keep the last message when scrolled past the end', () => {
+    expect(virtualizer().getWindow(ids, { top: 50000, height: 500 })).toEqual({ start: 99, end: 100 });
+  });
+
+  it('should use measured heights and skip placeholders', () => {
+    const instance = virtualizer();
+    instance.measure([createItem('m0', 900), createItem('m1', 300, true), createItem('m2', 0)]);
+    expect(instance.heightOf('m0')).toBe(900);
+    expect(instance.heightOf('m1')).toBe(100);
+    expect(instance.heightOf('m2')).toBe(100);
+    expect(instance.getWindow(ids, { top: 1000, height: 100 })).toEqual({ start: 0, end: 5 });
+
+    instance.prune(['m1']);
+    expect(instance.heightOf('m0')).toBe(100);
+  });
+
+  it('should build a hidden-until-found placeholder with the message text', () => {
+    const message: AgentWidgetMessage = {
+      id: 't1',
+      role: 'assistant',
+      content: '',
+      createdAt: '2025-01-01T10:00:00.000Z',
+      variant: 'tool',
+      toolCall: { id: 'call-1', name: 'get_order', status: 'complete', result: 'Shipped' }
+    };
+    const list = document.createElement('div');
+    const placeholder = createMessagePlaceholder(message, 240, 'Tool call');
+    list.appendChild(placeholder);
+    expect(placeholder.textContent).toBe('');
+    fillMessagePlaceholders(list, [message]);
+
+    expect(placeholder.id).toBe('wrapper-t1');
+    expect(placeholder.getAttribute('data-message-item')).toBe('t1');
+    expect(placeholder.getAttribute('role')).toBe('article');
+    expect(placeholder.getAttribute('aria-label')).toBe('Tool call');
+    expect(placeholder.getAttribute('hidden')).toBe('until-found');
+    expect(placeholder.style.height).toBe('240px');
+    expect(placeholder.textContent).toContain('get_order');
+    expect(placeholder.textContent).toContain('Shipped');
+  });
+
+  it('should keep unchanged placeholders across re-renders', () => {
+    const message: AgentWidgetMessage = {
+      id: 'a1',
+      role: 'assistant',
+      content: 'First',
+      createdAt: '2025-01-01T10:00:00.000Z'
+    };
+    const render = (list: HTMLElement, current: AgentWidgetMessage, height: number) => {
+      const next = document.createElement('div');
+      next.appendChild(createMessagePlaceholder(current, height, 'Assistant'));
+      morphMessages(list, next);
+      fillMessagePlaceholders(list, [current]);
+      return list.firstElementChild as HTMLElement;
+    };
+    const list = document.createElement('div');
+    const placeholder = render(list, message, 100);
+    expect(placeholder.textContent).toBe('First');
+
+    // Unchanged text is neither diffed nor rebuilt, only the height follows
+    placeholder.firstChild!.textContent = 'Highlighted';
+    expect(render(list, message, 120)).toBe(placeholder);
+    expect(placeholder.textContent).toBe('Highlighted');
+    expect(placeholder.style.height).toBe('120px');
+
+    expect(render(list, { ...message, content: 'Second' }, 120).textContent).toBe('Second');
+  });
+});
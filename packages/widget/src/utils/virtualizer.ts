@@ -0,0 +1,214 @@
+import type { AgentWidgetMessage } from "../types";
+import { MESSAGE_ITEM_SELECTOR } from "./accessibility";
+import { getSearchableText } from "./search";
+
+export const PLACEHOLDER_ATTRIBUTE = "data-virtual-placeholder";
+export const PLACEHOLDER_VERSION_ATTRIBUTE = "data-placeholder-version";
+
+export type MessageVirtualizerOptions = {
+  /** Window the list only once it holds more messages than this */
+  threshold: number;
+  /** Pixels rendered above and below the viewport */
+  overscan: number;
+  /** Height assumed for messages that haven't been rendered yet */
+  estimatedHeight: number;
+};
+
+/** Rendered message indexes, `start` inclusive and `end` exclusive */
+export type MessageWindow = { start: number; end: number };
+
+export type MessageViewport = {
+  /** Scroll position relative to the top of the message list */
+  top: number;
+  height: number;
+  /** Space between messages */
+  gap?: number;
+  /** Window the end of the list, e.g. while following a streaming reply */
+  atEnd?: boolean;
+};
+
+/** A message and its distance from the top of the scroll container */
+export type ScrollAnchor = { id: string; offset: number };
+
+export type MessageVirtualizer = {
+  isActive: (count: number) => boolean;
+  heightOf: (id: string) => number;
+  /** Record the heights of rendered messages; placeholders are skipped */
+  measure: (items: Iterable<HTMLElement>) => void;
+  getWindow: (ids: string[], viewport: MessageViewport) => MessageWindow;
+  /** Forget the heights of messages that are gone */
+  prune: (ids: string[]) => void;
+};
+
+/**
+ * Windowing for long message lists. Messages outside the viewport (plus
+ * overscan) render as placeholders sized to their last measured height, so
+ * the scroll height stays stable and unmeasured messages use an estimate.
+ */
+export const createMessageVirtualizer = (
+  options: MessageVirtualizerOptions
+): MessageVirtualizer => {
+  const heights = new Map<string, number>();
+  const heightOf = (id: string) => heights.get(id) ?? options.estimatedHeight;
+
+  return {
+    isActive: (count) => count > options.threshold,
+    heightOf,
+    measure: (items) => {
+      for (const item of items) {
+        const id = item.getAttribute("data-message-item");
+        if (!id || item.hasAttribute(PLACEHOLDER_ATTRIBUTE)) continue;
+        const height = item.offsetHeight;
+        // Detached or display: none items report 0; keep the last real height
+        if (height > 0) heights.set(id, height);
+      }
+    },
+    getWindow: (ids, viewport) => {
+      const gap = viewport.gap ?? 0;
+      let top = viewport.top;
+      if (viewport.atEnd) {
+        const total = ids.reduce((sum, id) => sum + heightOf(id), 0) + gap * Math.max(0, ids.length - 1);
+        top = total - viewport.height;
+      }
+      const from = top - options.overscan;
+      const to = top + viewport.height + options.overscan;
+
+      let start = -1;
+      let end = ids.length;
+      let offset = 0;
+      for (let index = 0; index < ids.length; index += 1) {
+        if (offset >= to) {
+          end = index;
+          break;
+        }
+        const bottom = offset + heightOf(ids[index]);
+        if (start === -1 && bottom > from) start = index;
+        offset = bottom + gap;
+      }
+      // Scrolled past the last message: keep at least the last one rendered
+      if (start === -1) start = Math.max(0, ids.length - 1);
+      return { start, end: Math.max(end, Math.min(start + 1, ids.length)) };
+    },
+    prune: (ids) => {
+      const keep = new Set(ids);
+      heights.forEach((_height, id) => {
+        if (!keep.has(id)) heights.delete(id);
+      });
+    }
+  };
+};
+
+// Messages are replaced rather than mutated on update, so each object is one
+// version of its message and its searchable text only needs building once
+const placeholderVersions = new WeakMap<AgentWidgetMessage, string>();
+const placeholderTexts = new WeakMap<AgentWidgetMessage, string>();
+const filledPlaceholders = new WeakMap<HTMLElement, string>();
+let nextPlaceholderVersion = 0;
+
+const getPlaceholderVersion = (message: AgentWidgetMessage) => {
+  let version = placeholderVersions.get(message);
+  if (version === undefined) {
+    nextPlaceholderVersion += 1;
+    version = String(nextPlaceholderVersion);
+    placeholderVersions.set(message, version);
+  }
+  return version;
+};
+
+const getPlaceholderText = (message: AgentWidgetMessage) => {
+  let text = placeholderTexts.get(message);
+  if (text === undefined) {
+    text = getSearchableText(message);
+    placeholderTexts.set(message, text);
+  }
+  return text;
+};
+
+/**
+ * Lightweight stand-in for a message outside the window. It keeps the
+ * message's height, role and label for screen readers and arrow-key
+ * navigation. The text is added by `fillMessagePlaceholders` once the
+ * placeholder is in the list, so re-renders don't copy it around.
+ */
+export const createMessagePlaceholder = (
+  message: AgentWidgetMessage,
+  height: number,
+  label: string
+): HTMLElement => {
+  const placeholder = document.createElement("div");
+  placeholder.className = "tvw-message-placeholder";
+  placeholder.id = `wrapper-${message.id}`;
+  placeholder.setAttribute("data-wrapper-id", message.id);
+  placeholder.setAttribute("data-message-item", message.id);
+  placeholder.setAttribute(PLACEHOLDER_ATTRIBUTE, "true");
+  placeholder.setAttribute(PLACEHOLDER_VERSION_ATTRIBUTE, getPlaceholderVersion(message));
+  placeholder.setAttribute("role", "article");
+  placeholder.setAttribute("aria-label", label);
+  placeholder.setAttribute("hidden", "until-found");
+  placeholder.style.height = `${height}px`;
+  return placeholder;
+};
+
+/**
+ * Give placeholders below `container` their message's plain text, with
+ * `hidden="until-found"` keeping it reachable by the browser's find-in-page
+ * (which fires `beforematch`). Placeholders already holding the text of the
+ * current message version are left alone.
+ */
+export const fillMessagePlaceholders = (
+  container: HTMLElement,
+  messages: AgentWidgetMessage[]
+) => {
+  const stale = Array.from(
+    container.querySelectorAll<HTMLElement>(`[${PLACEHOLDER_ATTRIBUTE}]`)
+  ).filter(
+    (placeholder) =>
+      filledPlaceholders.get(placeholder) !== placeholder.getAttribute(PLACEHOLDER_VERSION_ATTRIBUTE)
+  );
+  if (!stale.length) return;
+  const messagesById = new Map(messages.map((message) => [message.id, message]));
+  stale.forEach((placeholder) => {
+    const message = messagesById.get(placeholder.getAttribute("data-message-item") ?? "");
+    if (!message) return;
+    placeholder.textContent = getPlaceholderText(message);
+    filledPlaceholders.set(placeholder, getPlaceholderVersion(message));
+  });
+};
+
+/**
+ * The first message visible at the top of the scroll container
+ */
+export const captureScrollAnchor = (
+  list: HTMLElement,
+  scroller: HTMLElement
+): ScrollAnchor | null => {
+  const scrollerTop = scroller.getBoundingClientRect().top;
+  const items = list.querySelectorAll<HTMLElement>(MESSAGE_ITEM_SELECTOR);
+  for (const item of Array.from(items)) {
+    const rect = item.getBoundingClientRect();
+    if (rect.bottom > scrollerTop) {
+      return { id: item.getAttribute("data-message-item") ?? "", offset: rect.top - scrollerTop };
+    }
+  }
+  return null;
+};
+
+/**
+ * Scroll so the anchored message is back where it was before messages above
+ * it were rendered, measured or replaced by placeholders.
+ */
+export const restoreScrollAnchor = (
+  list: HTMLElement,
+  scroller: HTMLElement,
+  anchor: ScrollAnchor
+) => {
+  const item = Array.from(list.querySelectorAll<HTMLElement>(MESSAGE_ITEM_SELECTOR)).find(
+    (element) => element.getAttribute("data-message-item") === anchor.id
+  );
+  if (!item) return;
+  const offset = item.getBoundingClientRect().top - scroller.getBoundingClientRect().top;
+  const delta = offset - anchor.offset;
+  if (Math.abs(delta) >= 1) {
+    scroller.scrollTop += delta;
+  }
+};
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createWebSocketTransport, getWebSocketOptions } from './websocket-transport';
+import { AgentWidgetSession } from '../session';
+import type { AgentWidgetMessage } from '../types';
+
+class FakeWebSocket {
+  static OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+  readyState = 0;
+  sent: any[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+    setTimeout(() => {
+      this.readyState = FakeWebSocket.OPEN;
+      this.onopen?.();
+    }, 0);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  receive(frame: Record<string, unknown>) {
+    this.onmessage?.({ data: JSON.stringify(frame) });
+  }
+}
+
+const readAll = async (stream: ReadableStream<Uint8Array>) => {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return text;
+    text += decoder.decode(value);
+  }
+};
+
+const options = { url: 'ws://localhost/api/chat/dispatch', reconnect: false, maxReconnectDelayMs: 1000, debug: false };
+
+describe('createWebSocketTransport', () => {
+  afterEach(() => {
+    FakeWebSocket.instances = [];
+    vi.unstubAllGlobals();
+  });
+
+  it('should derive the socket URL from apiUrl', () => {
+    expect(getWebSocketOptions({ apiUrl: 'https://proxy.example.com/api/chat/dispatch' })).toBeNull();
+    expect(
+      getWebSocketOptions({ apiUrl: 'https://proxy.example.com/api/chat/dispatch', transport: 'websocket' })?.url
+    ).toBe('wss://proxy.example.com/api/chat/dispatch');
+  });
+
+  it('should turn event frames for a dispatch into an SSE stream and cancel on abort', async () => {
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    const transport = createWebSocketTransport(options);
+
+    const body = await transport.dispatch({ messages: [] }, { headers: { Authorization: 'Bearer t' } });
+    const socket = FakeWebSocket.instances[0];
+    const { id } = socket.sent[0];
+    expect(socket.sent[0]).toMatchObject({ type: 'dispatch', payload: { messages: [] }, headers: { Authorization: 'Bearer t' } });
+
+    socket.receive({ type: 'event', id, event: { type: 'step_chunk', text: 'Hi' } });
+    socket.receive({ type: 'event', id, data: '[DONE]' });
+    socket.receive({ type: 'end', id });
+    expect(await readAll(body)).toBe('data: {"type":"step_chunk","text":"Hi"}\n\ndata: [DONE]\n\n');
+
+    const controller = new AbortController();
+    const second = await transport.dispatch({ messages: [] }, { signal: controller.signal });
+    controller.abort();
+    await expect(readAll(second)).rejects.toThrow();
+    expect(socket.sent[2]).toEqual({ type: 'cancel', id: socket.sent[1].id });
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    transport.close();
+  });
+
+  it('should add messages from server-initiated streams to the session', async () => {
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    let messages: AgentWidgetMessage[] = [];
+    const session = new AgentWidgetSession(
+      { apiUrl: 'http://localhost/api/chat/dispatch', transport: 'websocket' },
+      {
+        onMessagesChanged: (next) => {
+          messages = next;
+        },
+        onStatusChanged: () => {},
+        onStreamingChanged: () => {}
+      }
+    );
+
+    await vi.waitFor(() => expect(FakeWebSocket.instances[0]?.readyState).toBe(FakeWebSocket.OPEN));
+    const socket = FakeWebSocket.instances[0];
+    expect(socket.url).toBe('ws://localhost/api/chat/dispatch');
+    socket.receive({ type: 'event', id: 'handoff_1', event: { type: 'step_chunk', text: 'Hi, this is Sam from support.' } });
+    socket.receive({ type: 'event', id: 'handoff_1', event: { type: 'flow_complete', success: true } });
+    socket.receive({ type: 'end', id: 'handoff_1' });
+
+    await vi.waitFor(() =>
+      expect(messages).toEqual([
+        expect.objectContaining({ role: 'assistant', content: 'Hi, this is Sam from support.', streaming: false })
+      ])
+    );
+    expect(session.isStreaming()).toBe(false);
+
+    session.updateConfig({ launcher: { enabled: false } });
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    session.disconnect();
+    expect(socket.readyState).toBe(3);
+  });
+});
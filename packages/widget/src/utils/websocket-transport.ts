@@ -0,0 +1,260 @@
+import type { AgentWidgetConfig } from "../types";
+import { generateMessageId } from "./message-id";
+
+/**
+ * WebSocket transport for `transport: "websocket"`.
+ * Each dispatch gets an id; the server's event frames for that id are turned
+ * back into SSE text so the client parses them exactly like a fetch response.
+ */
+
+export type WebSocketTransportOptions = {
+  url: string;
+  protocols?: string | string[];
+  reconnect: boolean;
+  maxReconnectDelayMs: number;
+  debug: boolean;
+};
+
+export interface WebSocketTransport {
+  /**
+   * Send a dispatch and resolve to its event stream once the socket is open.
+   * Rejects with a TypeError when the socket can't be opened, like fetch does
+   * for network errors. Aborting `signal` sends a cancel frame.
+   */
+  dispatch(
+    payload: unknown,
+    options?: { headers?: Record<string, string>; signal?: AbortSignal }
+  ): Promise<ReadableStream<Uint8Array>>;
+  /**
+   * Receive streams the server starts on its own. Opens the socket right away
+   * and keeps it open while a handler is set. Returns an unsubscribe function.
+   */
+  onServerStream(handler: (stream: ReadableStream<Uint8Array>) => void): () => void;
+  close(): void;
+}
+
+type ServerFrame = {
+  type?: string;
+  id?: unknown;
+  event?: unknown;
+  data?: unknown;
+  error?: unknown;
+};
+
+const RECONNECT_DELAY_MS = 500;
+
+const encoder = new TextEncoder();
+
+const abortError = () => new DOMException("The operation was aborted.", "AbortError");
+
+/**
+ * Resolve a (possibly relative) HTTP URL and swap its scheme for ws/wss
+ */
+const toWebSocketUrl = (apiUrl: string): string => {
+  try {
+    const base = typeof location !== "undefined" ? location.href : undefined;
+    const url = new URL(apiUrl, base);
+    url.protocol = url.protocol === "https:" ? "wss:" : url.protocol === "http:" ? "ws:" : url.protocol;
+    return url.toString();
+  } catch {
+    return apiUrl;
+  }
+};
+
+/**
+ * Socket options for a widget config, or null when it doesn't use the WebSocket transport
+ */
+export const getWebSocketOptions = (
+  config: AgentWidgetConfig
+): WebSocketTransportOptions | null => {
+  if (config.transport !== "websocket" || config.clientToken) return null;
+  const websocket = config.websocket ?? {};
+  return {
+    url: websocket.url ?? toWebSocketUrl(config.apiUrl ?? "/api/chat/dispatch"),
+    protocols: websocket.protocols,
+    reconnect: websocket.reconnect ?? true,
+    maxReconnectDelayMs: websocket.maxReconnectDelayMs ?? 10_000,
+    debug: Boolean(config.debug)
+  };
+};
+
+export const createWebSocketTransport = (
+  options: WebSocketTransportOptions
+): WebSocketTransport => {
+  let socket: WebSocket | null = null;
+  let opening: Promise<WebSocket> | null = null;
+  let closed = false;
+  let reconnectAttempts = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let serverStreamHandler: ((stream: ReadableStream<Uint8Array>) => void) | null = null;
+  const streams = new Map<string, ReadableStreamDefaultController<Uint8Array>>();
+
+  const debug = (...args: unknown[]) => {
+    if (options.debug) {
+      // eslint-disable-next-line no-console
+      console.debug("[AgentWidgetClient] websocket", ...args);
+    }
+  };
+
+  const send = (frame: Record<string, unknown>) => {
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(frame));
+    }
+  };
+
+  const finish = (id: string, error?: unknown) => {
+    const controller = streams.get(id);
+    if (!controller) return;
+    streams.delete(id);
+    try {
+      if (error) {
+        controller.error(error);
+      } else {
+        controller.close();
+      }
+    } catch {
+      // The reader already cancelled the stream
+    }
+  };
+
+  const openStream = (id: string) =>
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        streams.set(id, controller);
+      },
+      cancel() {
+        if (streams.delete(id)) {
+          send({ type: "cancel", id });
+        }
+      }
+    });
+
+  const handleFrame = (raw: unknown) => {
+    let frame: ServerFrame;
+    try {
+      frame = JSON.parse(String(raw));
+    } catch {
+      debug("ignored frame", raw);
+      return;
+    }
+    if (!frame || typeof frame !== "object") return;
+    const id = typeof frame.id === "string" ? frame.id : null;
+
+    if (frame.type === "event" && id) {
+      if (!streams.has(id)) {
+        // An id we never dispatched: the server started this stream
+        if (!serverStreamHandler) return;
+        serverStreamHandler(openStream(id));
+      }
+      const data = typeof frame.data === "string" ? frame.data : JSON.stringify(frame.event);
+      streams.get(id)?.enqueue(encoder.encode(`data: ${data}\n\n`));
+    } else if (frame.type === "end" && id) {
+      finish(id);
+    } else if (frame.type === "error") {
+      const message = typeof frame.error === "string" ? frame.error : "WebSocket dispatch failed";
+      if (id) {
+        finish(id, new Error(message));
+      } else {
+        debug("server error", message);
+      }
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (closed || !options.reconnect || !serverStreamHandler || reconnectTimer) return;
+    const delay = Math.min(
+      options.maxReconnectDelayMs,
+      RECONNECT_DELAY_MS * 2 ** reconnectAttempts
+    );
+    reconnectAttempts++;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect().catch(() => {});
+    }, delay);
+  };
+
+  const connect = (): Promise<WebSocket> => {
+    if (socket && socket.readyState === WebSocket.OPEN) return Promise.resolve(socket);
+    if (opening) return opening;
+    if (typeof WebSocket === "undefined") {
+      return Promise.reject(new TypeError("WebSocket is not available in this environment"));
+    }
+
+    opening = new Promise<WebSocket>((resolve, reject) => {
+      const ws = new WebSocket(options.url, options.protocols);
+      let opened = false;
+      ws.onopen = () => {
+        opened = true;
+        opening = null;
+        reconnectAttempts = 0;
+        if (closed) {
+          ws.close();
+          reject(abortError());
+          return;
+        }
+        socket = ws;
+        debug("open", options.url);
+        resolve(ws);
+      };
+      ws.onmessage = (event) => handleFrame(event.data);
+      ws.onclose = () => {
+        if (!opened) {
+          opening = null;
+          reject(new TypeError(`WebSocket connection to ${options.url} failed`));
+        }
+        if (socket !== ws) {
+          scheduleReconnect();
+          return;
+        }
+        socket = null;
+        debug("closed");
+        // Streams can't continue on a new socket; the session treats this as a network error
+        Array.from(streams.keys()).forEach((id) =>
+          finish(id, new TypeError("WebSocket connection closed"))
+        );
+        scheduleReconnect();
+      };
+    });
+    return opening;
+  };
+
+  return {
+    async dispatch(payload, { headers, signal } = {}) {
+      const ws = await connect();
+      if (signal?.aborted) throw abortError();
+      const id = generateMessageId();
+      const stream = openStream(id);
+      ws.send(JSON.stringify({ type: "dispatch", id, payload, headers }));
+      signal?.addEventListener(
+        "abort",
+        () => {
+          if (!streams.has(id)) return;
+          send({ type: "cancel", id });
+          finish(id, abortError());
+        },
+        { once: true }
+      );
+      return stream;
+    },
+    onServerStream(handler) {
+      serverStreamHandler = handler;
+      connect().catch((error) => debug("connect failed", error));
+      return () => {
+        if (serverStreamHandler === handler) {
+          serverStreamHandler = null;
+        }
+      };
+    },
+    close() {
+      closed = true;
+      serverStreamHandler = null;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+      Array.from(streams.keys()).forEach((id) => finish(id, abortError()));
+      socket?.close();
+      socket = null;
+    }
+  };
+};
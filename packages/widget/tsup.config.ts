@@ -0,0 +1,32 @@
+import { defineConfig, type Options } from "tsup";
+
+const widget: Options = {
+  entry: { index: "src/index.ts" },
+  minify: true,
+  sourcemap: true,
+  loader: { ".css": "text" }
+};
+
+/**
+ * Widget builds (`npm run build:client`). The syntax grammars stay out of the
+ * main bundles and load once the first code block is shown.
+ */
+export default defineConfig([
+  // npm builds: the grammars become a chunk the bundle imports on demand
+  { ...widget, format: ["esm", "cjs"], splitting: true, dts: true },
+  // Script-tag build: a single file that fetches syntax-grammars.global.js next to it
+  {
+    ...widget,
+    format: ["iife"],
+    globalName: "AgentWidget",
+    splitting: false,
+    define: { __SYNTAX_GRAMMARS_SCRIPT__: "true" }
+  },
+  {
+    entry: { "syntax-grammars": "src/utils/syntax-grammars.ts" },
+    format: ["iife"],
+    globalName: "AgentWidgetSyntaxGrammars",
+    minify: true,
+    sourcemap: true
+  }
+]);